@@ -0,0 +1,141 @@
+#!/usr/bin/env tsx
+
+/**
+ * Game Code Fingerprint Backfill
+ *
+ * Populates game_codes.code_fingerprint for rows created before fingerprints
+ * existed. Each code is decrypted, fingerprinted and written back in id-ordered
+ * batches. Codes whose fingerprint is already taken by another row are
+ * duplicates already in the inventory: they are left without a fingerprint
+ * and listed so an admin can decide which copy to delete.
+ *
+ * Usage:
+ *   npm run codes:backfill-fingerprints
+ *   npm run codes:backfill-fingerprints -- --dry-run
+ *   npm run codes:backfill-fingerprints -- --batch-size 500
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { config } from 'dotenv'
+import { decryptGameCode, fingerprintGameCode, loadFingerprintKey, loadKeyring } from '../src/lib/encryption'
+
+// Load environment variables
+config({ path: '.env.local' })
+
+const prisma = new PrismaClient()
+
+/**
+ * Read a numeric flag value
+ */
+function readNumber(argv: string[], flag: string, fallback: number): number {
+  const index = argv.indexOf(flag)
+  return index >= 0 ? parseInt(argv[index + 1], 10) : fallback
+}
+
+/**
+ * Run the backfill and report duplicates and unreadable codes
+ */
+async function main() {
+  const argv = process.argv.slice(2)
+  const dryRun = argv.includes('--dry-run')
+  const batchSize = readNumber(argv, '--batch-size', 200)
+
+  const stats = { scanned: 0, updated: 0, duplicates: 0, unreadable: 0 }
+  const duplicates: Array<{ id: string; productId: string; duplicateOf: string }> = []
+
+  try {
+    const keyring = loadKeyring()
+    loadFingerprintKey()
+    // Fingerprints assigned during this run, for duplicates that are both still NULL
+    const seen = new Map<string, string>()
+    let lastId: string | null = null
+
+    console.log(`🔎 Backfilling game code fingerprints${dryRun ? ' (dry run)' : ''}\n`)
+
+    while (true) {
+      const batch: Array<{ id: string; product_id: string; encrypted_code: string }> = await prisma.gameCode.findMany({
+        where: {
+          code_fingerprint: null,
+          ...(lastId ? { id: { gt: lastId } } : {}),
+        },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        select: { id: true, product_id: true, encrypted_code: true },
+      })
+
+      if (batch.length === 0) {
+        break
+      }
+      lastId = batch[batch.length - 1].id
+      stats.scanned += batch.length
+
+      for (const code of batch) {
+        let fingerprint: string
+        try {
+          fingerprint = fingerprintGameCode(decryptGameCode(code.encrypted_code, keyring))
+        } catch {
+          stats.unreadable++
+          console.log(`   ⚠️  ${code.id}: could not decrypt, skipped`)
+          continue
+        }
+
+        const existing = seen.get(fingerprint) ?? (await prisma.gameCode.findUnique({
+          where: { code_fingerprint: fingerprint },
+          select: { id: true },
+        }))?.id
+
+        if (existing) {
+          stats.duplicates++
+          duplicates.push({ id: code.id, productId: code.product_id, duplicateOf: existing })
+          continue
+        }
+
+        seen.set(fingerprint, code.id)
+
+        if (!dryRun) {
+          try {
+            await prisma.gameCode.update({
+              where: { id: code.id },
+              data: { code_fingerprint: fingerprint },
+            })
+          } catch (error) {
+            // A concurrent upload claimed the fingerprint after our lookup
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+              stats.duplicates++
+              duplicates.push({ id: code.id, productId: code.product_id, duplicateOf: 'concurrent insert' })
+              continue
+            }
+            throw error
+          }
+        }
+        stats.updated++
+      }
+
+      console.log(`   processed ${stats.scanned} code(s)`)
+    }
+
+    console.log('')
+    console.log(`✅ ${dryRun ? 'Would fingerprint' : 'Fingerprinted'} ${stats.updated} code(s)`)
+    if (stats.duplicates > 0) {
+      console.log(`⚠️  ${stats.duplicates} duplicate code(s) left without a fingerprint:`)
+      duplicates.forEach(d => console.log(`   ${d.id} (product ${d.productId}) duplicates ${d.duplicateOf}`))
+    }
+    if (stats.unreadable > 0) {
+      console.log(`⚠️  ${stats.unreadable} code(s) could not be decrypted`)
+    }
+
+    if (stats.duplicates > 0 || stats.unreadable > 0) {
+      process.exitCode = 1
+    }
+  } catch (error) {
+    console.error('❌ Fingerprint backfill failed:', error)
+    process.exitCode = 2
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Execute if called directly
+if (require.main === module) {
+  main()
+}
@@ -0,0 +1,186 @@
+#!/usr/bin/env tsx
+
+/**
+ * Payment Proof Migration
+ *
+ * Moves credit request payment proofs stored inline as base64 data URLs into
+ * the configured proof storage (PROOF_STORAGE_DRIVER). Each proof goes
+ * through the same checks as a new upload and is written to storage first;
+ * the row then gets the object path, content type and hashes and its data URL
+ * is cleared. Proofs that fail the checks are left untouched and listed.
+ * Proofs already in storage but without hashes are hashed as stored. Safe to
+ * re-run: migrated and hashed rows no longer match.
+ *
+ * Usage:
+ *   npm run proofs:migrate
+ *   npm run proofs:migrate -- --dry-run
+ *   npm run proofs:migrate -- --batch-size 20
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { config } from 'dotenv'
+import { buildProofPath, getProofStorage, parseProofDataUrl, type ProofStorage } from '../src/lib/proof-storage'
+import { computeProofHashes, processPaymentProof } from '../src/lib/proof-validation'
+
+// Load environment variables
+config({ path: '.env.local' })
+
+const prisma = new PrismaClient()
+
+/**
+ * Read a numeric flag value
+ */
+function readNumber(argv: string[], flag: string, fallback: number): number {
+  const index = argv.indexOf(flag)
+  return index >= 0 ? parseInt(argv[index + 1], 10) : fallback
+}
+
+/**
+ * Hash proofs that were moved to storage before proofs were hashed
+ * @returns Number of proofs hashed, and those that could not be read
+ */
+async function hashStoredProofs(storage: ProofStorage, dryRun: boolean, batchSize: number) {
+  let hashed = 0
+  const missing: string[] = []
+  let lastId: string | null = null
+
+  while (true) {
+    const batch: Array<{ id: string; payment_proof_path: string | null; payment_proof_type: string | null }> = await prisma.creditRequest.findMany({
+      where: {
+        payment_proof_path: { not: null },
+        payment_proof_sha256: null,
+        ...(lastId ? { id: { gt: lastId } } : {}),
+      },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+      select: { id: true, payment_proof_path: true, payment_proof_type: true },
+    })
+
+    if (batch.length === 0) {
+      break
+    }
+    lastId = batch[batch.length - 1].id
+
+    for (const request of batch) {
+      const proof = await storage.get(request.payment_proof_path!)
+      if (!proof) {
+        missing.push(request.id)
+        continue
+      }
+
+      if (!dryRun) {
+        const hashes = await computeProofHashes(proof.data, request.payment_proof_type ?? proof.contentType)
+        await prisma.creditRequest.update({
+          where: { id: request.id },
+          data: { payment_proof_sha256: hashes.sha256, payment_proof_phash: hashes.phash },
+        })
+      }
+      hashed++
+    }
+  }
+
+  return { hashed, missing }
+}
+
+/**
+ * Run the migration and report proofs that could not be moved
+ */
+async function main() {
+  const argv = process.argv.slice(2)
+  const dryRun = argv.includes('--dry-run')
+  // Proofs can be up to 10MB each, so batches stay small
+  const batchSize = readNumber(argv, '--batch-size', 20)
+
+  const stats = { scanned: 0, moved: 0, bytes: 0, unreadable: 0 }
+  const unreadable: Array<{ id: string; reason: string }> = []
+
+  try {
+    const storage = getProofStorage()
+    let lastId: string | null = null
+
+    console.log(`📦 Moving payment proofs to ${storage.driver} storage${dryRun ? ' (dry run)' : ''}\n`)
+
+    while (true) {
+      const batch: Array<{ id: string; user_id: string; payment_proof_url: string | null }> = await prisma.creditRequest.findMany({
+        where: {
+          payment_proof_path: null,
+          payment_proof_url: { startsWith: 'data:' },
+          ...(lastId ? { id: { gt: lastId } } : {}),
+        },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        select: { id: true, user_id: true, payment_proof_url: true },
+      })
+
+      if (batch.length === 0) {
+        break
+      }
+      lastId = batch[batch.length - 1].id
+      stats.scanned += batch.length
+
+      for (const request of batch) {
+        const decoded = request.payment_proof_url ? parseProofDataUrl(request.payment_proof_url) : null
+        const processed = decoded ? await processPaymentProof(decoded.data) : { error: 'not a base64 data URL' }
+        if ('error' in processed) {
+          stats.unreadable++
+          unreadable.push({ id: request.id, reason: processed.error })
+          continue
+        }
+        const { proof } = processed
+
+        if (!dryRun) {
+          const proofPath = buildProofPath(request.user_id, proof.contentType)
+          await storage.put(proofPath, proof.data, proof.contentType)
+
+          const { count } = await prisma.creditRequest.updateMany({
+            where: { id: request.id, payment_proof_path: null },
+            data: {
+              payment_proof_path: proofPath,
+              payment_proof_type: proof.contentType,
+              payment_proof_sha256: proof.sha256,
+              payment_proof_phash: proof.phash,
+              payment_proof_url: null,
+            },
+          })
+
+          // Migrated by a concurrent run in the meantime
+          if (count === 0) {
+            await storage.remove(proofPath)
+            continue
+          }
+        }
+
+        stats.moved++
+        stats.bytes += proof.data.length
+      }
+
+      console.log(`   processed ${stats.scanned} request(s)`)
+    }
+
+    const { hashed, missing } = await hashStoredProofs(storage, dryRun, batchSize)
+
+    console.log('')
+    console.log(`✅ ${dryRun ? 'Would move' : 'Moved'} ${stats.moved} proof(s), ${(stats.bytes / 1024 / 1024).toFixed(1)} MB`)
+    console.log(`✅ ${dryRun ? 'Would hash' : 'Hashed'} ${hashed} proof(s) already in storage`)
+    if (missing.length > 0) {
+      console.log(`⚠️  ${missing.length} stored proof(s) not found in storage:`)
+      missing.forEach(id => console.log(`   ${id}`))
+      process.exitCode = 1
+    }
+    if (stats.unreadable > 0) {
+      console.log(`⚠️  ${stats.unreadable} proof(s) left in the database:`)
+      unreadable.forEach(u => console.log(`   ${u.id}: ${u.reason}`))
+      process.exitCode = 1
+    }
+  } catch (error) {
+    console.error('❌ Payment proof migration failed:', error)
+    process.exitCode = 2
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Execute if called directly
+if (require.main === module) {
+  main()
+}
@@ -0,0 +1,61 @@
+#!/usr/bin/env tsx
+
+/**
+ * Credit Ledger Reconciliation Job
+ *
+ * Compares every profile's stored credit_balance with the sum of its
+ * credit_transactions entries and flags any profile where they disagree.
+ * Exits with code 1 when discrepancies are found so it can run from cron/CI.
+ *
+ * Usage:
+ *   npm run ledger:reconcile
+ *   npm run ledger:reconcile -- --json    # Machine-readable output
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { config } from 'dotenv'
+import { findCreditBalanceDiscrepancies } from '../src/lib/credit-ledger'
+
+// Load environment variables
+config({ path: '.env.local' })
+
+const prisma = new PrismaClient()
+
+/**
+ * Run the reconciliation and report mismatched profiles
+ */
+async function main() {
+  const asJson = process.argv.includes('--json')
+
+  try {
+    const discrepancies = await findCreditBalanceDiscrepancies(prisma)
+
+    if (asJson) {
+      console.log(JSON.stringify({ checkedAt: new Date().toISOString(), discrepancies }, null, 2))
+    } else if (discrepancies.length === 0) {
+      console.log('✅ All credit balances reconcile with the ledger')
+    } else {
+      console.log(`⚠️  ${discrepancies.length} profile(s) disagree with the ledger:\n`)
+      discrepancies.forEach(d => {
+        console.log(
+          `   ${d.email} (${d.userId}) - stored $${d.storedBalance.toFixed(2)}, ` +
+          `ledger $${d.ledgerBalance.toFixed(2)}, difference $${d.difference.toFixed(2)}`
+        )
+      })
+    }
+
+    if (discrepancies.length > 0) {
+      process.exitCode = 1
+    }
+  } catch (error) {
+    console.error('❌ Reconciliation failed:', error)
+    process.exitCode = 2
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Execute if called directly
+if (require.main === module) {
+  main()
+}
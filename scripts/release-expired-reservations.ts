@@ -0,0 +1,53 @@
+#!/usr/bin/env tsx
+
+/**
+ * Expired Reservation Sweeper
+ *
+ * Cancels pending external-payment orders whose payment window has passed
+ * and returns their reserved codes to stock. Safe to run as often as needed;
+ * schedule it from cron every few minutes.
+ *
+ * Usage:
+ *   npm run payments:sweep
+ *   npm run payments:sweep -- --json    # Machine-readable output
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { config } from 'dotenv'
+import { releaseExpiredReservations } from '../src/lib/order-payments'
+
+// Load environment variables
+config({ path: '.env.local' })
+
+const prisma = new PrismaClient()
+
+/**
+ * Cancel lapsed pending orders and report them
+ */
+async function main() {
+  const asJson = process.argv.includes('--json')
+
+  try {
+    const sweptAt = new Date()
+    const cancelled = await releaseExpiredReservations(prisma, sweptAt)
+
+    if (asJson) {
+      console.log(JSON.stringify({ sweptAt: sweptAt.toISOString(), cancelled }, null, 2))
+    } else if (cancelled.length === 0) {
+      console.log('✅ No expired reservations')
+    } else {
+      console.log(`🔓 Cancelled ${cancelled.length} unpaid order(s) and released their codes:\n`)
+      cancelled.forEach(orderId => console.log(`   ${orderId}`))
+    }
+  } catch (error) {
+    console.error('❌ Sweep failed:', error)
+    process.exitCode = 2
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Execute if called directly
+if (require.main === module) {
+  main()
+}
@@ -0,0 +1,253 @@
+#!/usr/bin/env tsx
+
+/**
+ * Game Code Encryption Key Rotation
+ *
+ * Re-encrypts every game code (and its supplier PIN, if any) that is not
+ * already under the active key (ENCRYPTION_KEY_ID). Codes are read in id
+ * order in batches; each batch is decrypted with whichever key it was written
+ * with, re-encrypted with the active key, spot-checked by decrypting a sample
+ * of the new ciphertext, and only then written back in a single transaction.
+ *
+ * Progress is saved to a checkpoint file after every committed batch so an
+ * interrupted run can pick up where it stopped with --resume.
+ *
+ * Rotating to a new key:
+ *   1. Add the new key to ENCRYPTION_KEYS and set ENCRYPTION_KEY_ID to it,
+ *      keeping the old key(s) in the keyring
+ *   2. npm run keys:rotate -- --dry-run
+ *   3. npm run keys:rotate
+ *   4. Once no codes report the old key id, remove it from the keyring
+ *
+ * Usage:
+ *   npm run keys:rotate
+ *   npm run keys:rotate -- --dry-run                # Decrypt/re-encrypt/verify, write nothing
+ *   npm run keys:rotate -- --batch-size 500 --sample 10
+ *   npm run keys:rotate -- --from legacy            # Only codes in the pre-v2 format
+ *   npm run keys:rotate -- --resume                 # Continue from the last checkpoint
+ */
+
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs'
+import { PrismaClient } from '@prisma/client'
+import { config } from 'dotenv'
+import {
+  decryptGameCode,
+  encryptGameCode,
+  EncryptionKeyring,
+  getEncryptionKeyId,
+  loadKeyring,
+} from '../src/lib/encryption'
+
+// Load environment variables
+config({ path: '.env.local' })
+
+const prisma = new PrismaClient()
+
+interface RotationOptions {
+  dryRun: boolean
+  resume: boolean
+  batchSize: number
+  sampleSize: number
+  fromKeyId: string | null
+  checkpointPath: string
+}
+
+interface RotationCheckpoint {
+  activeKeyId: string
+  lastId: string | null
+  scanned: number
+  rotated: number
+  skipped: number
+  conflicts: number
+  updatedAt: string
+}
+
+interface RotatedCode {
+  id: string
+  oldEncrypted: string
+  newEncrypted: string
+  plaintext: string
+  oldEncryptedPin: string | null
+  newEncryptedPin: string | null
+}
+
+/**
+ * Parse command line flags
+ */
+function parseOptions(argv: string[]): RotationOptions {
+  const readValue = (flag: string) => {
+    const index = argv.indexOf(flag)
+    return index >= 0 ? argv[index + 1] : undefined
+  }
+
+  return {
+    dryRun: argv.includes('--dry-run'),
+    resume: argv.includes('--resume'),
+    batchSize: parseInt(readValue('--batch-size') || '200', 10),
+    sampleSize: parseInt(readValue('--sample') || '5', 10),
+    fromKeyId: readValue('--from') || null,
+    checkpointPath: readValue('--checkpoint') || '.encryption-rotation-checkpoint.json',
+  }
+}
+
+/**
+ * Load the checkpoint for this key, or start fresh
+ */
+function loadCheckpoint(options: RotationOptions, activeKeyId: string): RotationCheckpoint {
+  const fresh: RotationCheckpoint = {
+    activeKeyId,
+    lastId: null,
+    scanned: 0,
+    rotated: 0,
+    skipped: 0,
+    conflicts: 0,
+    updatedAt: new Date().toISOString(),
+  }
+
+  if (!options.resume || !existsSync(options.checkpointPath)) {
+    return fresh
+  }
+
+  const saved: RotationCheckpoint = JSON.parse(readFileSync(options.checkpointPath, 'utf8'))
+  if (saved.activeKeyId !== activeKeyId) {
+    throw new Error(
+      `Checkpoint was written for key "${saved.activeKeyId}" but the active key is "${activeKeyId}". ` +
+      'Remove the checkpoint file to start over.'
+    )
+  }
+
+  return saved
+}
+
+/**
+ * Persist progress after a committed batch
+ */
+function saveCheckpoint(path: string, checkpoint: RotationCheckpoint) {
+  checkpoint.updatedAt = new Date().toISOString()
+  writeFileSync(path, JSON.stringify(checkpoint, null, 2))
+}
+
+/**
+ * Decrypt a random sample of re-encrypted codes and compare with the plaintext
+ * @returns Ids of codes whose new ciphertext did not round-trip
+ */
+function verifySample(rotated: RotatedCode[], sampleSize: number, keyring: EncryptionKeyring): string[] {
+  const sample = [...rotated].sort(() => Math.random() - 0.5).slice(0, sampleSize)
+
+  return sample
+    .filter(code => {
+      try {
+        return getEncryptionKeyId(code.newEncrypted) !== keyring.activeKeyId ||
+          decryptGameCode(code.newEncrypted, keyring) !== code.plaintext
+      } catch {
+        return true
+      }
+    })
+    .map(code => code.id)
+}
+
+/**
+ * Run the rotation
+ */
+async function main() {
+  const options = parseOptions(process.argv.slice(2))
+
+  try {
+    const keyring = loadKeyring()
+    const checkpoint = loadCheckpoint(options, keyring.activeKeyId)
+
+    console.log(`🔑 Rotating game codes to key "${keyring.activeKeyId}"${options.dryRun ? ' (dry run)' : ''}`)
+    console.log(`   keyring: ${Object.keys(keyring.keys).join(', ')}${keyring.legacyKey ? ' + legacy' : ''}`)
+    if (checkpoint.lastId) {
+      console.log(`   resuming after ${checkpoint.lastId} (${checkpoint.scanned} scanned so far)`)
+    }
+    console.log('')
+
+    while (true) {
+      const batch = await prisma.gameCode.findMany({
+        where: checkpoint.lastId ? { id: { gt: checkpoint.lastId } } : undefined,
+        orderBy: { id: 'asc' },
+        take: options.batchSize,
+        select: { id: true, encrypted_code: true, encrypted_pin: true },
+      })
+
+      if (batch.length === 0) {
+        break
+      }
+
+      const rotated: RotatedCode[] = []
+      for (const code of batch) {
+        const keyId = getEncryptionKeyId(code.encrypted_code)
+        const wanted = options.fromKeyId ? keyId === options.fromKeyId : keyId !== keyring.activeKeyId
+
+        if (!wanted) {
+          checkpoint.skipped++
+          continue
+        }
+
+        const plaintext = decryptGameCode(code.encrypted_code, keyring)
+        rotated.push({
+          id: code.id,
+          oldEncrypted: code.encrypted_code,
+          newEncrypted: encryptGameCode(plaintext, keyring),
+          plaintext,
+          // Supplier PINs are written with the same key as their code
+          oldEncryptedPin: code.encrypted_pin,
+          newEncryptedPin: code.encrypted_pin
+            ? encryptGameCode(decryptGameCode(code.encrypted_pin, keyring), keyring)
+            : null,
+        })
+      }
+
+      const failed = verifySample(rotated, options.sampleSize, keyring)
+      if (failed.length > 0) {
+        throw new Error(`Round-trip verification failed for code(s): ${failed.join(', ')}. Batch not committed.`)
+      }
+
+      if (!options.dryRun && rotated.length > 0) {
+        // Only overwrite rows that still hold the ciphertext we decrypted
+        const results = await prisma.$transaction(
+          rotated.map(code => prisma.gameCode.updateMany({
+            where: { id: code.id, encrypted_code: code.oldEncrypted, encrypted_pin: code.oldEncryptedPin },
+            data: { encrypted_code: code.newEncrypted, encrypted_pin: code.newEncryptedPin },
+          }))
+        )
+        const updated = results.reduce((sum, r) => sum + r.count, 0)
+        checkpoint.rotated += updated
+        checkpoint.conflicts += rotated.length - updated
+      } else {
+        checkpoint.rotated += rotated.length
+      }
+
+      checkpoint.scanned += batch.length
+      checkpoint.lastId = batch[batch.length - 1].id
+
+      if (!options.dryRun) {
+        saveCheckpoint(options.checkpointPath, checkpoint)
+      }
+
+      console.log(`   batch of ${batch.length}: ${rotated.length} re-encrypted, sample of ${Math.min(options.sampleSize, rotated.length)} verified`)
+    }
+
+    console.log('')
+    console.log(`✅ ${options.dryRun ? 'Would rotate' : 'Rotated'} ${checkpoint.rotated} code(s); ${checkpoint.skipped} already on target key; ${checkpoint.scanned} scanned`)
+    if (checkpoint.conflicts > 0) {
+      console.log(`⚠️  ${checkpoint.conflicts} code(s) changed during the run and were left untouched; run again to pick them up`)
+    }
+
+    // A finished run leaves nothing to resume
+    if (!options.dryRun && existsSync(options.checkpointPath)) {
+      unlinkSync(options.checkpointPath)
+    }
+  } catch (error) {
+    console.error('❌ Key rotation failed:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Execute if called directly
+if (require.main === module) {
+  main()
+}
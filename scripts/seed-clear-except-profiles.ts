@@ -34,6 +34,20 @@ async function clearDatabaseExceptProfiles() {
   console.log('🗑️  Starting database cleanup (preserving profiles)...\n')
 
   try {
+    // Step 0: Clear ledger entries that reference orders or credit requests
+    // Reason: credit_transactions has foreign keys to both tables and is
+    // append-only, so entries can only be removed through clear_credit_ledger().
+    // Balances are preserved on profiles, so run `npm run ledger:reconcile`
+    // afterwards to see which profiles now need an opening-balance adjustment.
+    console.log('0️⃣  Clearing order/credit request ledger entries...')
+    const { data: clearedEntries, error: ledgerError } = await supabase.rpc('clear_credit_ledger')
+    
+    if (ledgerError) {
+      // Orders and credit requests cannot be deleted while entries point at them
+      throw new Error(`Failed to clear credit_transactions: ${ledgerError.message}`)
+    }
+    console.log(`✅ ${clearedEntries} credit_transactions order/request entries cleared`)
+
     // Step 1: Clear order_items FIRST (has foreign keys to orders and game_codes)
     console.log('1️⃣  Clearing order_items table...')
     const { error: orderItemsError } = await supabase
@@ -6,6 +6,8 @@
  * Seeds products and game codes from a template JSON file.
  * Reads from scripts/templates/products-template.json
  * Automatically encrypts game codes before storing in database.
+ * Products listed with variants (e.g. gift card denominations) get one
+ * variant product per entry, each seeded with its own codes.
  * 
  * Usage:
  *   npm run seed:products
@@ -15,21 +17,32 @@ import { PrismaClient } from '@prisma/client'
 import { config } from 'dotenv'
 import { readFileSync, existsSync } from 'fs'
 import { join } from 'path'
-import { encryptGameCode } from '../src/lib/encryption'
+import { encryptGameCode, fingerprintGameCode } from '../src/lib/encryption'
+import { getStartingPrice, variantName } from '../src/lib/variants'
 
 // Load environment variables
 config({ path: '.env.local' })
 
 const prisma = new PrismaClient()
 
+interface VariantTemplate {
+  label: string
+  price: number
+  is_active?: boolean
+  game_codes: string[]
+}
+
 interface ProductTemplate {
   name: string
   description?: string
   platform: string
-  price: number
+  /** Not needed when the product has variants; set from the cheapest one */
+  price?: number
   image_url?: string
   is_active: boolean
-  game_codes: string[]
+  /** Not allowed when the product has variants; the codes go on each variant */
+  game_codes?: string[]
+  variants?: VariantTemplate[]
 }
 
 interface TemplateData {
@@ -66,6 +79,33 @@ function loadProductsTemplate(): ProductTemplate[] {
   }
 }
 
+/**
+ * Game codes of a product, including those of its variants
+ */
+function templateCodes(product: ProductTemplate): string[] {
+  return product.variants
+    ? product.variants.flatMap(variant => variant.game_codes)
+    : product.game_codes ?? []
+}
+
+/**
+ * Validate a list of game codes
+ */
+function validateGameCodes(codes: unknown, field: string, errors: string[]): void {
+  if (!Array.isArray(codes)) {
+    errors.push(`${field} must be an array`)
+  } else if (codes.length === 0) {
+    errors.push(`${field} array cannot be empty`)
+  } else {
+    // Validate each game code
+    codes.forEach((code, codeIndex) => {
+      if (!code || typeof code !== 'string') {
+        errors.push(`${field}[${codeIndex}] must be a non-empty string`)
+      }
+    })
+  }
+}
+
 /**
  * Validate product data
  */
@@ -80,25 +120,38 @@ function validateProduct(product: ProductTemplate, index: number): void {
     errors.push('platform is required and must be a string')
   }
 
-  if (typeof product.price !== 'number' || product.price < 0) {
-    errors.push('price must be a non-negative number')
-  }
-
   if (typeof product.is_active !== 'boolean') {
     errors.push('is_active must be a boolean')
   }
 
-  if (!Array.isArray(product.game_codes)) {
-    errors.push('game_codes must be an array')
-  } else if (product.game_codes.length === 0) {
-    errors.push('game_codes array cannot be empty')
+  if (product.variants !== undefined) {
+    // Codes and prices belong to the variants
+    if (!Array.isArray(product.variants) || product.variants.length === 0) {
+      errors.push('variants must be a non-empty array')
+    } else {
+      const labels = new Set<string>()
+      product.variants.forEach((variant, variantIndex) => {
+        if (!variant.label || typeof variant.label !== 'string') {
+          errors.push(`variants[${variantIndex}].label is required and must be a string`)
+        } else if (labels.has(variant.label.trim().toLowerCase())) {
+          errors.push(`variants[${variantIndex}].label "${variant.label}" is repeated`)
+        } else {
+          labels.add(variant.label.trim().toLowerCase())
+        }
+        if (typeof variant.price !== 'number' || variant.price <= 0) {
+          errors.push(`variants[${variantIndex}].price must be a positive number`)
+        }
+        validateGameCodes(variant.game_codes, `variants[${variantIndex}].game_codes`, errors)
+      })
+    }
+    if (product.game_codes !== undefined) {
+      errors.push('game_codes must be listed on the variants, not the product')
+    }
   } else {
-    // Validate each game code
-    product.game_codes.forEach((code, codeIndex) => {
-      if (!code || typeof code !== 'string') {
-        errors.push(`game_codes[${codeIndex}] must be a non-empty string`)
-      }
-    })
+    if (typeof product.price !== 'number' || product.price < 0) {
+      errors.push('price must be a non-negative number')
+    }
+    validateGameCodes(product.game_codes, 'game_codes', errors)
   }
 
   if (errors.length > 0) {
@@ -106,6 +159,46 @@ function validateProduct(product: ProductTemplate, index: number): void {
   }
 }
 
+/**
+ * Add a product's game codes, skipping codes already in the inventory
+ * @returns Number of codes added
+ */
+async function seedGameCodes(productId: string, gameCodes: string[]): Promise<number> {
+  console.log(`  🔐 Processing ${gameCodes.length} game codes...`)
+
+  let createdCount = 0
+  for (const [codeIndex, gameCode] of gameCodes.entries()) {
+    try {
+      // Check if this exact code already exists anywhere in the inventory
+      const fingerprint = fingerprintGameCode(gameCode)
+      const existingCode = await prisma.gameCode.findUnique({
+        where: { code_fingerprint: fingerprint }
+      })
+
+      if (!existingCode) {
+        // Create new game code with encryption
+        await prisma.gameCode.create({
+          data: {
+            product_id: productId,
+            encrypted_code: encryptGameCode(gameCode),
+            code_fingerprint: fingerprint,
+            is_sold: false
+          }
+        })
+        createdCount++
+        console.log(`    ✨ Added code #${codeIndex + 1}`)
+      } else {
+        console.log(`    ⏭️  Code #${codeIndex + 1} already exists (skipped)`)
+      }
+    } catch (codeError) {
+      console.error(`    ❌ Failed to process code #${codeIndex + 1}:`, codeError)
+      throw codeError
+    }
+  }
+
+  return createdCount
+}
+
 /**
  * Seed products and game codes from template
  */
@@ -116,7 +209,7 @@ async function seedProducts(): Promise<void> {
   console.log(`📁 Found ${products.length} products in template`)
 
   // Count total game codes
-  const totalGameCodes = products.reduce((sum, product) => sum + product.game_codes.length, 0)
+  const totalGameCodes = products.reduce((sum, product) => sum + templateCodes(product).length, 0)
   console.log(`🔑 Total game codes to process: ${totalGameCodes}`)
 
   // Validate all products first
@@ -133,11 +226,20 @@ async function seedProducts(): Promise<void> {
 
   for (const [index, productTemplate] of products.entries()) {
     try {
-      console.log(`\n📦 Processing: ${productTemplate.name} (${productTemplate.game_codes.length} codes)`)
+      console.log(`\n📦 Processing: ${productTemplate.name} (${templateCodes(productTemplate).length} codes)`)
+
+      // A product with variants is priced from its cheapest active variant
+      const variantPrices = productTemplate.variants?.map(variant => ({
+        price: variant.price,
+        is_active: variant.is_active ?? true,
+      }))
+      const price = variantPrices
+        ? getStartingPrice(variantPrices) ?? Math.min(...variantPrices.map(variant => variant.price))
+        : productTemplate.price ?? 0
 
       // Check if product exists
       const existingProduct = await prisma.product.findFirst({
-        where: { name: productTemplate.name }
+        where: { name: productTemplate.name, parent_id: null }
       })
 
       let product
@@ -148,7 +250,7 @@ async function seedProducts(): Promise<void> {
           data: {
             description: productTemplate.description || null,
             platform: productTemplate.platform,
-            price: productTemplate.price,
+            price,
             image_url: productTemplate.image_url || null,
             is_active: productTemplate.is_active,
             updated_at: new Date()
@@ -163,7 +265,7 @@ async function seedProducts(): Promise<void> {
             name: productTemplate.name,
             description: productTemplate.description || null,
             platform: productTemplate.platform,
-            price: productTemplate.price,
+            price,
             image_url: productTemplate.image_url || null,
             is_active: productTemplate.is_active
           }
@@ -172,37 +274,43 @@ async function seedProducts(): Promise<void> {
         console.log(`  ✨ Created product: ${product.name}`)
       }
 
-      // Process game codes for this product
-      console.log(`  🔐 Processing ${productTemplate.game_codes.length} game codes...`)
-      
-      for (const [codeIndex, gameCode] of productTemplate.game_codes.entries()) {
-        try {
-          // Check if this exact code already exists for this product
-          const existingCode = await prisma.gameCode.findFirst({
-            where: {
-              product_id: product.id,
-              encrypted_code: encryptGameCode(gameCode) // Check against encrypted version
-            }
-          })
+      if (!productTemplate.variants) {
+        createdGameCodesCount += await seedGameCodes(product.id, productTemplate.game_codes ?? [])
+        continue
+      }
 
-          if (!existingCode) {
-            // Create new game code with encryption
-            await prisma.gameCode.create({
-              data: {
-                product_id: product.id,
-                encrypted_code: encryptGameCode(gameCode),
-                is_sold: false
-              }
-            })
-            createdGameCodesCount++
-            console.log(`    ✨ Added code #${codeIndex + 1}`)
-          } else {
-            console.log(`    ⏭️  Code #${codeIndex + 1} already exists (skipped)`)
-          }
-        } catch (codeError) {
-          console.error(`    ❌ Failed to process code #${codeIndex + 1}:`, codeError)
-          throw codeError
+      for (const variantTemplate of productTemplate.variants) {
+        const label = variantTemplate.label.trim()
+        const variantData = {
+          name: variantName(product.name, label),
+          description: product.description,
+          platform: product.platform,
+          price: variantTemplate.price,
+          image_url: product.image_url,
+          is_active: variantTemplate.is_active ?? true,
         }
+
+        const existingVariant = await prisma.product.findFirst({
+          where: { parent_id: product.id, variant_label: { equals: label, mode: 'insensitive' } }
+        })
+
+        let variant
+        if (existingVariant) {
+          variant = await prisma.product.update({
+            where: { id: existingVariant.id },
+            data: { ...variantData, updated_at: new Date() }
+          })
+          updatedProductsCount++
+          console.log(`  ✏️  Updated variant: ${variant.name}`)
+        } else {
+          variant = await prisma.product.create({
+            data: { ...variantData, parent_id: product.id, variant_label: label }
+          })
+          createdProductsCount++
+          console.log(`  ✨ Created variant: ${variant.name}`)
+        }
+
+        createdGameCodesCount += await seedGameCodes(variant.id, variantTemplate.game_codes)
       }
 
     } catch (error) {
@@ -360,6 +360,7 @@ async function seedSampleOrders() {
     data: {
       user_id: '10000000-0000-0000-0000-000000000001',
       total_amount: spiderManProduct.price,
+      subtotal: spiderManProduct.price,
       payment_method: 'credit',
       status: 'completed',
       created_at: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000) // 5 days ago
@@ -391,6 +392,7 @@ async function seedSampleOrders() {
     data: {
       user_id: '10000000-0000-0000-0000-000000000002',
       total_amount: robloxProduct.price,
+      subtotal: robloxProduct.price,
       payment_method: 'credit',
       status: 'completed',
       created_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000) // 3 days ago
@@ -470,6 +472,24 @@ async function verifySeed() {
 async function clearSeedData() {
   console.log('🧹 Clearing existing seed data...')
   
+  const seedEmails = [
+    'admin@amkstore.dev',
+    'manager@amkstore.dev',
+    'customer1@test.dev',
+    'customer2@test.dev',
+    'customer3@test.dev',
+    'customer4@test.dev',
+    'customer5@test.dev'
+  ]
+
+  // The append-only ledger references orders, credit requests and profiles,
+  // so its entries go first, through the ledger's maintenance function
+  const seedProfiles = await prisma.profile.findMany({
+    where: { email: { in: seedEmails } },
+    select: { id: true }
+  })
+  await prisma.$queryRaw`SELECT clear_credit_ledger(${seedProfiles.map(profile => profile.id)}::uuid[])`
+
   // Delete in correct order due to foreign key constraints
   await prisma.orderItem.deleteMany()
   await prisma.order.deleteMany()
@@ -479,19 +499,7 @@ async function clearSeedData() {
   
   // Remove seed profiles (keep real auth users)
   await prisma.profile.deleteMany({
-    where: {
-      email: {
-        in: [
-          'admin@amkstore.dev',
-          'manager@amkstore.dev',
-          'customer1@test.dev',
-          'customer2@test.dev',
-          'customer3@test.dev',
-          'customer4@test.dev',
-          'customer5@test.dev'
-        ]
-      }
-    }
+    where: { email: { in: seedEmails } }
   })
   
   console.log('✅ Seed data cleared')
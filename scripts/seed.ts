@@ -261,15 +261,7 @@ async function clearSeedData() {
   try {
     console.log('🧹 Clearing existing seed data...')
     
-    // Delete in correct order due to foreign key constraints
-    await supabase.from('order_items').delete().neq('id', '00000000-0000-0000-0000-000000000000')
-    await supabase.from('orders').delete().neq('id', '00000000-0000-0000-0000-000000000000')
-    await supabase.from('credit_requests').delete().neq('id', '00000000-0000-0000-0000-000000000000')
-    await supabase.from('game_codes').delete().neq('id', '00000000-0000-0000-0000-000000000000')
-    await supabase.from('products').delete().neq('id', '00000000-0000-0000-0000-000000000000')
-    
-    // Remove seed profiles (keep real auth users)
-    await supabase.from('profiles').delete().in('email', [
+    const seedEmails = [
       'admin@amkstore.dev',
       'manager@amkstore.dev',
       'customer1@test.dev',
@@ -278,7 +270,27 @@ async function clearSeedData() {
       'customer4@test.dev',
       'customer5@test.dev',
       'seed@amkstore.system'
-    ])
+    ]
+
+    // The append-only ledger references orders, credit requests and profiles,
+    // so its entries go first, through the ledger's maintenance function
+    const { data: seedProfiles } = await supabase.from('profiles').select('id').in('email', seedEmails)
+    const { error: ledgerError } = await supabase.rpc('clear_credit_ledger', {
+      p_user_ids: (seedProfiles ?? []).map(profile => profile.id)
+    })
+    if (ledgerError) {
+      throw new Error(`Failed to clear credit_transactions: ${ledgerError.message}`)
+    }
+
+    // Delete in correct order due to foreign key constraints
+    await supabase.from('order_items').delete().neq('id', '00000000-0000-0000-0000-000000000000')
+    await supabase.from('orders').delete().neq('id', '00000000-0000-0000-0000-000000000000')
+    await supabase.from('credit_requests').delete().neq('id', '00000000-0000-0000-0000-000000000000')
+    await supabase.from('game_codes').delete().neq('id', '00000000-0000-0000-0000-000000000000')
+    await supabase.from('products').delete().neq('id', '00000000-0000-0000-0000-000000000000')
+    
+    // Remove seed profiles (keep real auth users)
+    await supabase.from('profiles').delete().in('email', seedEmails)
     
     console.log('✅ Seed data cleared')
     
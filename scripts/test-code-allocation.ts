@@ -0,0 +1,188 @@
+#!/usr/bin/env tsx
+
+/**
+ * Game Code Allocation Concurrency Harness
+ *
+ * Fires many checkouts in parallel against a local Postgres and asserts that no
+ * game code is sold twice. Each simulated checkout runs the same
+ * `claimGameCodes()` allocation the orders API uses, inside its own transaction.
+ *
+ * A throwaway product and code pool are created for the run and removed after.
+ * Refuses to run against a non-local DATABASE_URL unless --allow-remote is set.
+ *
+ * Usage:
+ *   npm run test:concurrency
+ *   npm run test:concurrency -- --buyers 50 --codes 20 --per-order 2
+ *   npm run test:concurrency -- --naive   # Old findMany + updateMany flow, expected to fail
+ */
+
+import { randomUUID } from 'crypto'
+import { Prisma, PrismaClient } from '@prisma/client'
+import { config } from 'dotenv'
+import { claimGameCodes, ClaimedGameCode } from '../src/lib/inventory'
+
+// Load environment variables
+config({ path: '.env.local' })
+
+interface HarnessOptions {
+  buyers: number
+  codes: number
+  perOrder: number
+  naive: boolean
+  allowRemote: boolean
+}
+
+/**
+ * Parse command line flags
+ */
+function parseOptions(argv: string[]): HarnessOptions {
+  const readNumber = (flag: string, fallback: number) => {
+    const index = argv.indexOf(flag)
+    return index >= 0 ? parseInt(argv[index + 1], 10) : fallback
+  }
+
+  return {
+    buyers: readNumber('--buyers', 25),
+    codes: readNumber('--codes', 10),
+    perOrder: readNumber('--per-order', 1),
+    naive: argv.includes('--naive'),
+    allowRemote: argv.includes('--allow-remote'),
+  }
+}
+
+/**
+ * Pre-fix allocation: count, read, then update without row locks
+ */
+async function naiveClaim(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  quantity: number,
+  orderId: string
+): Promise<ClaimedGameCode[]> {
+  const codes = await tx.gameCode.findMany({
+    where: { product_id: productId, is_sold: false },
+    take: quantity,
+    orderBy: { created_at: 'asc' },
+    select: { id: true, encrypted_code: true },
+  })
+
+  if (codes.length < quantity) {
+    throw new Error('Insufficient stock')
+  }
+
+  // Widen the race window the way a slow request would
+  await tx.$queryRaw`SELECT pg_sleep(0.05)`
+
+  await tx.gameCode.updateMany({
+    where: { id: { in: codes.map(code => code.id) } },
+    data: { is_sold: true, sold_at: new Date(), order_id: orderId },
+  })
+
+  return codes
+}
+
+/**
+ * Run the harness and report whether any code was allocated twice
+ */
+async function main() {
+  const options = parseOptions(process.argv.slice(2))
+  const databaseUrl = process.env.DATABASE_URL
+
+  if (!databaseUrl) {
+    console.error('❌ DATABASE_URL is required')
+    process.exit(2)
+  }
+
+  const host = new URL(databaseUrl).hostname
+  if (!['localhost', '127.0.0.1', '::1'].includes(host) && !options.allowRemote) {
+    console.error(`❌ Refusing to run against non-local database host "${host}" (use --allow-remote)`)
+    process.exit(2)
+  }
+
+  // One connection per buyer so the transactions really run side by side
+  const url = new URL(databaseUrl)
+  url.searchParams.set('connection_limit', String(options.buyers))
+  const prisma = new PrismaClient({ datasources: { db: { url: url.toString() } } })
+
+  console.log('🧪 Game code allocation concurrency test')
+  console.log(`   buyers=${options.buyers} codes=${options.codes} perOrder=${options.perOrder} mode=${options.naive ? 'naive' : 'locked'}\n`)
+
+  const product = await prisma.product.create({
+    data: {
+      name: `Concurrency Test ${Date.now()}`,
+      platform: 'TEST',
+      price: 1,
+      is_active: false,
+    },
+  })
+
+  try {
+    await prisma.gameCode.createMany({
+      data: Array.from({ length: options.codes }, (_, i) => ({
+        product_id: product.id,
+        encrypted_code: `CONCURRENCY_TEST_${i}`,
+      })),
+    })
+
+    const results = await Promise.allSettled(
+      Array.from({ length: options.buyers }, () => {
+        const orderId: string = randomUUID()
+        return prisma.$transaction(async (tx) => {
+          const codes = options.naive
+            ? await naiveClaim(tx, product.id, options.perOrder, orderId)
+            : await claimGameCodes(tx, { productId: product.id, quantity: options.perOrder, orderId })
+          return { orderId, codeIds: codes.map(code => code.id) }
+        }, { maxWait: 30000, timeout: 30000 })
+      })
+    )
+
+    const successful = results
+      .filter((r): r is PromiseFulfilledResult<{ orderId: string; codeIds: string[] }> => r.status === 'fulfilled')
+      .map(r => r.value)
+    const failed = results.length - successful.length
+
+    // Every code handed out must be unique across all successful checkouts
+    const allocations = new Map<string, string[]>()
+    successful.forEach(({ orderId, codeIds }) => {
+      codeIds.forEach(codeId => {
+        allocations.set(codeId, [...(allocations.get(codeId) || []), orderId])
+      })
+    })
+    const doubleSold = Array.from(allocations.entries()).filter(([, orders]) => orders.length > 1)
+
+    // The database must agree with what the checkouts believe they received
+    const soldRows = await prisma.gameCode.findMany({
+      where: { product_id: product.id, is_sold: true },
+      select: { id: true, order_id: true },
+    })
+    const handedOut = successful.reduce((sum, s) => sum + s.codeIds.length, 0)
+    const expectedSales = Math.min(options.buyers, Math.floor(options.codes / options.perOrder))
+
+    const checks = [
+      { name: 'No code allocated to more than one order', ok: doubleSold.length === 0 },
+      { name: 'Sold rows match codes handed out', ok: soldRows.length === handedOut },
+      { name: 'Every sold row points at the order that received it', ok: soldRows.every(row => allocations.get(row.id)?.[0] === row.order_id) },
+      { name: `Exactly ${expectedSales} checkout(s) succeeded`, ok: successful.length === expectedSales },
+    ]
+
+    console.log(`   ${successful.length} checkout(s) succeeded, ${failed} rejected for insufficient stock`)
+    checks.forEach(check => console.log(`${check.ok ? '✅' : '❌'} ${check.name}`))
+    doubleSold.slice(0, 10).forEach(([codeId, orders]) => {
+      console.log(`   ⚠️  code ${codeId} allocated to ${orders.length} orders`)
+    })
+
+    process.exitCode = checks.every(check => check.ok) ? 0 : 1
+  } finally {
+    await prisma.gameCode.deleteMany({ where: { product_id: product.id } })
+    await prisma.product.delete({ where: { id: product.id } })
+    await prisma.$disconnect()
+  }
+}
+
+// Execute if called directly
+if (require.main === module) {
+  main().catch(error => {
+    console.error('❌ Concurrency test failed to run:', error)
+    process.exit(2)
+  })
+}
@@ -8,6 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Textarea } from '@/components/ui/textarea'
 import { Input } from '@/components/ui/input'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import { 
   CreditCard, 
   Users, 
@@ -29,6 +30,8 @@ interface CreditRequest {
   id: string
   amount: number
   payment_method: string
+  reference_number?: string | null
+  payer_name?: string | null
   notes?: string
   status: 'pending' | 'approved' | 'rejected'
   admin_notes?: string
@@ -41,6 +44,18 @@ interface CreditRequest {
     credit_balance: number
   }
   payment_proof_url?: string
+  payment_proof_type?: string | null
+  duplicate_proofs?: DuplicateProof[]
+}
+
+interface DuplicateProof {
+  requestId: string
+  userId: string
+  userEmail: string | null
+  amount: number
+  status: string
+  createdAt: string
+  match: 'exact' | 'similar'
 }
 
 interface CreditStats {
@@ -126,9 +141,19 @@ export default function AdminCreditsPage() {
         }),
       })
 
+      if (response.status === 409) {
+        // Another admin reviewed this request first - show the latest state
+        const error = await response.json()
+        toast.warning(error.error || 'This request was already processed by another admin')
+        setSelectedRequest(null)
+        setAdminNotes('')
+        fetchCreditData()
+        return
+      }
+
       if (!response.ok) {
         const error = await response.json()
-        throw new Error(error.message || 'Failed to process request')
+        throw new Error(error.error || 'Failed to process request')
       }
 
       toast.success(`Credit request ${action}d successfully`)
@@ -335,12 +360,25 @@ export default function AdminCreditsPage() {
                         <TableCell className="font-medium">
                           ${request.amount.toFixed(2)}
                         </TableCell>
-                        <TableCell>{request.payment_method}</TableCell>
                         <TableCell>
-                          <Badge variant={statusDisplay.variant} className="gap-1">
-                            {statusDisplay.icon}
-                            {statusDisplay.text}
-                          </Badge>
+                          <div>{request.payment_method}</div>
+                          {request.reference_number && (
+                            <div className="text-sm text-gray-500 font-mono">{request.reference_number}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-col items-start gap-1">
+                            <Badge variant={statusDisplay.variant} className="gap-1">
+                              {statusDisplay.icon}
+                              {statusDisplay.text}
+                            </Badge>
+                            {request.duplicate_proofs && request.duplicate_proofs.length > 0 && (
+                              <Badge variant="destructive" className="gap-1">
+                                <AlertTriangle className="w-3 h-3" />
+                                Proof reused
+                              </Badge>
+                            )}
+                          </div>
                         </TableCell>
                         <TableCell className="text-sm text-gray-600">
                           <div className="flex items-center gap-1">
@@ -393,6 +431,14 @@ export default function AdminCreditsPage() {
                                       <label className="text-sm font-medium text-gray-700">Payment Method</label>
                                       <p className="text-sm text-gray-900">{selectedRequest.payment_method}</p>
                                     </div>
+                                    <div>
+                                      <label className="text-sm font-medium text-gray-700">Reference Number</label>
+                                      <p className="text-sm text-gray-900 font-mono">{selectedRequest.reference_number || 'Not provided'}</p>
+                                    </div>
+                                    <div>
+                                      <label className="text-sm font-medium text-gray-700">Payer Name</label>
+                                      <p className="text-sm text-gray-900">{selectedRequest.payer_name || 'Not provided'}</p>
+                                    </div>
                                   </div>
 
                                   {/* Customer Notes */}
@@ -405,12 +451,32 @@ export default function AdminCreditsPage() {
                                     </div>
                                   )}
 
+                                  {/* Reused Payment Proof */}
+                                  {selectedRequest.duplicate_proofs && selectedRequest.duplicate_proofs.length > 0 && (
+                                    <Alert variant="destructive">
+                                      <AlertTriangle className="h-4 w-4" />
+                                      <AlertTitle>This payment proof was already used</AlertTitle>
+                                      <AlertDescription>
+                                        <ul className="mt-1 space-y-1">
+                                          {selectedRequest.duplicate_proofs.map(duplicate => (
+                                            <li key={duplicate.requestId}>
+                                              {duplicate.match === 'exact' ? 'Same file' : 'Near-identical image'} on request
+                                              #{duplicate.requestId.slice(-8).toUpperCase()} for ${duplicate.amount.toFixed(2)}
+                                              {' '}by {duplicate.userId === selectedRequest.user.id ? 'this customer' : duplicate.userEmail || 'another customer'}
+                                              {' '}({duplicate.status}, {formatDistanceToNow(new Date(duplicate.createdAt), { addSuffix: true })})
+                                            </li>
+                                          ))}
+                                        </ul>
+                                      </AlertDescription>
+                                    </Alert>
+                                  )}
+
                                   {/* Payment Proof */}
                                   {selectedRequest.payment_proof_url && (
                                     <div>
                                       <label className="text-sm font-medium text-gray-700">Payment Proof</label>
                                       <div className="mt-2 border rounded-lg overflow-hidden">
-                                        {selectedRequest.payment_proof_url.startsWith('data:image') ? (
+                                        {selectedRequest.payment_proof_type?.startsWith('image/') ? (
                                           <img 
                                             src={selectedRequest.payment_proof_url} 
                                             alt="Payment proof" 
@@ -419,14 +485,16 @@ export default function AdminCreditsPage() {
                                         ) : (
                                           <div className="p-4 text-center">
                                             <FileText className="w-12 h-12 text-gray-400 mx-auto mb-2" />
-                                            <p className="text-sm text-gray-600">PDF Document</p>
+                                            <p className="text-sm text-gray-600">
+                                              {selectedRequest.payment_proof_type === 'application/pdf' ? 'PDF Document' : 'Attached File'}
+                                            </p>
                                             <Button 
                                               variant="outline" 
                                               size="sm" 
                                               className="mt-2"
                                               onClick={() => window.open(selectedRequest.payment_proof_url, '_blank')}
                                             >
-                                              View PDF
+                                              Open File
                                             </Button>
                                           </div>
                                         )}
@@ -0,0 +1,433 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  ShieldAlert,
+  RefreshCw,
+  Eye,
+  Replace,
+  Undo2,
+  XCircle,
+  Calendar
+} from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { toast } from 'sonner'
+
+type DisputeStatus = 'open' | 'replaced' | 'refunded' | 'rejected'
+type DisputeResolution = 'replace' | 'refund' | 'reject'
+
+interface CodeDispute {
+  id: string
+  order_id: string
+  game_code_id: string
+  reason: string
+  status: DisputeStatus
+  resolution_note: string | null
+  refund_amount: number | null
+  created_at: string
+  resolved_at: string | null
+  resolved_by: string | null
+  customer: {
+    email: string
+    full_name: string | null
+  }
+  product: {
+    id: string
+    name: string
+    platform: string
+  }
+  unit_price: number
+  code_status: string
+  code_revealed_at: string | null
+  available_stock: number
+}
+
+const STATUS_DISPLAY: Record<DisputeStatus, { text: string, variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  open: { text: 'Open', variant: 'secondary' },
+  replaced: { text: 'Replaced', variant: 'default' },
+  refunded: { text: 'Refunded', variant: 'outline' },
+  rejected: { text: 'Rejected', variant: 'destructive' },
+}
+
+/**
+ * Admin Disputes Page
+ * Triage customer reports of codes that do not work and resolve them with a
+ * replacement code, a credit refund or a rejection
+ */
+export default function AdminDisputesPage() {
+  const [disputes, setDisputes] = useState<CodeDispute[]>([])
+  const [counts, setCounts] = useState<Record<DisputeStatus, number>>({
+    open: 0,
+    replaced: 0,
+    refunded: 0,
+    rejected: 0
+  })
+  const [statusFilter, setStatusFilter] = useState<DisputeStatus | 'all'>('open')
+  const [isLoading, setIsLoading] = useState(true)
+  const [selectedDispute, setSelectedDispute] = useState<CodeDispute | null>(null)
+  const [note, setNote] = useState('')
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [pagination, setPagination] = useState({
+    page: 1,
+    limit: 20,
+    total: 0,
+    totalPages: 0
+  })
+
+  /**
+   * Fetch disputes for the selected status
+   */
+  const fetchDisputes = useCallback(async () => {
+    try {
+      setIsLoading(true)
+
+      const response = await fetch(`/api/admin/disputes?status=${statusFilter}&page=${pagination.page}&limit=${pagination.limit}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch disputes')
+      }
+
+      const data = await response.json()
+      setDisputes(data.disputes)
+      setCounts(data.counts)
+      setPagination(data.pagination)
+    } catch (error) {
+      console.error('Error fetching disputes:', error)
+      toast.error('Failed to load disputes')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [statusFilter, pagination.page, pagination.limit])
+
+  useEffect(() => {
+    fetchDisputes()
+  }, [fetchDisputes])
+
+  /**
+   * Resolve the selected dispute
+   */
+  const resolveDispute = async (resolution: DisputeResolution) => {
+    if (!selectedDispute) return
+
+    setIsProcessing(true)
+    try {
+      const response = await fetch(`/api/admin/disputes/${selectedDispute.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          resolution,
+          note: note.trim() || undefined,
+        }),
+      })
+
+      if (response.status === 409) {
+        // Another admin resolved this dispute first - show the latest state
+        const error = await response.json()
+        toast.warning(error.error || 'This dispute was already resolved by another admin')
+        setSelectedDispute(null)
+        setNote('')
+        fetchDisputes()
+        return
+      }
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to resolve dispute')
+      }
+
+      toast.success(data.message)
+      setSelectedDispute(null)
+      setNote('')
+      fetchDisputes()
+    } catch (error) {
+      console.error('Error resolving dispute:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve dispute')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Code Disputes</h1>
+          <p className="text-gray-600 mt-1">
+            Review codes customers reported as not working
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => {
+              setStatusFilter(value as DisputeStatus | 'all')
+              setPagination(prev => ({ ...prev, page: 1 }))
+            }}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(STATUS_DISPLAY) as DisputeStatus[]).map(status => (
+                <SelectItem key={status} value={status}>
+                  {STATUS_DISPLAY[status].text} ({counts[status]})
+                </SelectItem>
+              ))}
+              <SelectItem value="all">All disputes</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={fetchDisputes} className="gap-2">
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Disputes Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="w-5 h-5" />
+            Disputes
+          </CardTitle>
+          <CardDescription>
+            Open disputes are listed oldest first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <RefreshCw className="w-8 h-8 text-gray-400 animate-spin" />
+            </div>
+          ) : disputes.length === 0 ? (
+            <div className="text-center py-12">
+              <ShieldAlert className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                No disputes found
+              </h3>
+              <p className="text-gray-600">
+                Disputes will appear here when customers report a code that does not work
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {disputes.map((dispute) => (
+                    <TableRow key={dispute.id}>
+                      <TableCell>
+                        <div className="font-medium">{dispute.customer.full_name || 'N/A'}</div>
+                        <div className="text-sm text-gray-600">{dispute.customer.email}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{dispute.product.name}</span>
+                          <Badge variant="outline">{dispute.product.platform}</Badge>
+                        </div>
+                        <div className="text-sm text-gray-500">${dispute.unit_price.toFixed(2)}</div>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        #{dispute.order_id.slice(-8).toUpperCase()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_DISPLAY[dispute.status].variant}>
+                          {STATUS_DISPLAY[dispute.status].text}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        <div className="flex items-center gap-1">
+                          <Calendar className="w-3 h-3" />
+                          {formatDistanceToNow(new Date(dispute.created_at), { addSuffix: true })}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1"
+                          onClick={() => {
+                            setSelectedDispute(dispute)
+                            setNote(dispute.resolution_note || '')
+                          }}
+                        >
+                          <Eye className="w-3 h-3" />
+                          Review
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {/* Pagination */}
+              {pagination.totalPages > 1 && (
+                <div className="flex items-center justify-between pt-4">
+                  <p className="text-sm text-gray-600">
+                    Showing {((pagination.page - 1) * pagination.limit) + 1} to{' '}
+                    {Math.min(pagination.page * pagination.limit, pagination.total)} of{' '}
+                    {pagination.total} disputes
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPagination(prev => ({ ...prev, page: prev.page - 1 }))}
+                      disabled={pagination.page === 1}
+                    >
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPagination(prev => ({ ...prev, page: prev.page + 1 }))}
+                      disabled={pagination.page === pagination.totalPages}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Review Dialog */}
+      <Dialog open={!!selectedDispute} onOpenChange={(open) => !open && setSelectedDispute(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Review Dispute</DialogTitle>
+            <DialogDescription>
+              Replace the code from stock, refund the unit price to credit, or reject the dispute
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedDispute && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Customer</label>
+                  <p className="text-sm text-gray-900">{selectedDispute.customer.full_name || 'N/A'}</p>
+                  <p className="text-sm text-gray-600">{selectedDispute.customer.email}</p>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Product</label>
+                  <p className="text-sm text-gray-900">{selectedDispute.product.name}</p>
+                  <p className="text-sm text-gray-600">
+                    ${selectedDispute.unit_price.toFixed(2)} · {selectedDispute.available_stock} in stock
+                  </p>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Order</label>
+                  <p className="text-sm font-mono text-gray-900">{selectedDispute.order_id}</p>
+                </div>
+                <div>
+                  <label className="text-sm font-medium text-gray-700">Code</label>
+                  <p className="text-sm text-gray-900 capitalize">{selectedDispute.code_status}</p>
+                  <p className="text-sm text-gray-600">
+                    {selectedDispute.code_revealed_at
+                      ? `Revealed ${formatDistanceToNow(new Date(selectedDispute.code_revealed_at), { addSuffix: true })}`
+                      : 'Never revealed'}
+                  </p>
+                </div>
+              </div>
+
+              <div>
+                <label className="text-sm font-medium text-gray-700">Customer Report</label>
+                <p className="text-sm text-gray-900 bg-gray-50 p-3 rounded border mt-1 whitespace-pre-wrap">
+                  {selectedDispute.reason}
+                </p>
+              </div>
+
+              {selectedDispute.status === 'open' ? (
+                <>
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">Note to Customer</label>
+                    <Textarea
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="Required when rejecting, optional otherwise"
+                      className="mt-1"
+                      rows={3}
+                    />
+                  </div>
+
+                  <div className="flex gap-3 pt-4 border-t">
+                    <Button
+                      onClick={() => resolveDispute('replace')}
+                      disabled={isProcessing || selectedDispute.available_stock === 0}
+                      className="flex-1 bg-green-600 hover:bg-green-700"
+                    >
+                      <Replace className="w-4 h-4 mr-2" />
+                      Send Replacement
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => resolveDispute('refund')}
+                      disabled={isProcessing}
+                      className="flex-1"
+                    >
+                      <Undo2 className="w-4 h-4 mr-2" />
+                      Refund ${selectedDispute.unit_price.toFixed(2)}
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={() => resolveDispute('reject')}
+                      disabled={isProcessing || !note.trim()}
+                      className="flex-1"
+                    >
+                      <XCircle className="w-4 h-4 mr-2" />
+                      Reject
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <div className="flex items-center gap-2 mb-2">
+                    <Badge variant={STATUS_DISPLAY[selectedDispute.status].variant}>
+                      {STATUS_DISPLAY[selectedDispute.status].text}
+                    </Badge>
+                    {selectedDispute.refund_amount !== null && (
+                      <span className="text-sm text-gray-700">${selectedDispute.refund_amount.toFixed(2)} credited</span>
+                    )}
+                  </div>
+                  {selectedDispute.resolution_note && (
+                    <p className="text-sm text-gray-600">
+                      <strong>Note:</strong> {selectedDispute.resolution_note}
+                    </p>
+                  )}
+                  {selectedDispute.resolved_at && (
+                    <p className="text-sm text-gray-500 mt-1">
+                      Resolved {formatDistanceToNow(new Date(selectedDispute.resolved_at), { addSuffix: true })}
+                      {selectedDispute.resolved_by && ` by ${selectedDispute.resolved_by}`}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -25,21 +25,43 @@ import {
   CreditCard,
   FileText,
   X,
-  Loader2
+  Loader2,
+  Undo2
 } from 'lucide-react'
 import { formatDistanceToNow, format } from 'date-fns'
 import { toast } from 'sonner'
+import type { MarginSummary } from '@/lib/margins'
+import { OrderRefundDialog } from '@/components/admin/order-refund-dialog'
 
 interface Order {
   id: string
   user_id: string
   total_amount: number
+  discount_total?: number
+  fee_total?: number
+  promotion_code?: string | null
   payment_method: string
-  status: 'pending' | 'completed' | 'failed'
+  status: 'pending' | 'completed' | 'failed' | 'cancelled'
+  payment_expires_at?: string | null
+  paid_at?: string | null
+  payment_reference?: string | null
+  payment_confirmed_by?: string | null
   created_at: string
   customer_name?: string
   customer_email?: string
   items: OrderItem[]
+  margin?: MarginSummary
+  refunds?: OrderRefund[]
+}
+
+interface OrderRefund {
+  id: string
+  amount: number
+  reason: string
+  code_action: 'restock' | 'void'
+  refunded_by: string
+  item_count: number
+  created_at: string
 }
 
 interface OrderItem {
@@ -49,7 +71,18 @@ interface OrderItem {
   platform: string
   quantity: number
   unit_price: number
-  game_codes: string[]
+  discount_amount?: number
+  bundle_name?: string | null
+  game_code?: { id: string; masked_code: string } | null
+  supplier?: string | null
+  unit_cost?: number | null
+  cost_currency?: string | null
+  refundable?: boolean
+  refund_value?: number
+  refund?: {
+    amount: number
+    code_outcome: 'restocked' | 'voided' | 'refunded'
+  } | null
 }
 
 interface OrderStats {
@@ -84,6 +117,11 @@ export default function AdminOrdersPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [isLoadingDetails, setIsLoadingDetails] = useState(false)
   const [loadingDetailOrderId, setLoadingDetailOrderId] = useState<string | null>(null)
+  const [refundOrderId, setRefundOrderId] = useState<string | null>(null)
+  const [paymentReference, setPaymentReference] = useState('')
+  const [isConfirmingPayment, setIsConfirmingPayment] = useState(false)
+  const [revealedCodes, setRevealedCodes] = useState<Record<string, string>>({})
+  const [revealingCodeId, setRevealingCodeId] = useState<string | null>(null)
   const [isExporting, setIsExporting] = useState(false)
   const [showFilters, setShowFilters] = useState(false)
   const [filters, setFilters] = useState<OrderFilters>({
@@ -155,6 +193,9 @@ export default function AdminOrdersPage() {
       }
 
       const order = await response.json()
+      if (order.id !== selectedOrder?.id) {
+        setRevealedCodes({})
+      }
       setSelectedOrder(order)
       setIsDetailDialogOpen(true)
 
@@ -167,6 +208,84 @@ export default function AdminOrdersPage() {
     }
   }
 
+  // Items of the open order that can still be refunded
+  const refundableItems = useMemo(() => (selectedOrder?.items ?? [])
+    .filter(item => item.refundable)
+    .map(item => ({
+      id: item.id,
+      product_name: item.product_name,
+      refund_value: item.refund_value ?? 0
+    })), [selectedOrder])
+
+  /**
+   * Reload the order and the list after a refund
+   */
+  const handleRefunded = () => {
+    if (selectedOrder) {
+      fetchOrderDetails(selectedOrder.id)
+    }
+    fetchOrders()
+  }
+
+  /**
+   * Confirm by hand that a pending external order was paid
+   */
+  const confirmPayment = async () => {
+    if (!selectedOrder) return
+
+    try {
+      setIsConfirmingPayment(true)
+
+      const response = await fetch(`/api/admin/orders/${selectedOrder.id}/confirm-payment`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reference: paymentReference.trim() || undefined })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to confirm payment')
+      }
+
+      toast.success(data.message)
+      setPaymentReference('')
+      fetchOrderDetails(selectedOrder.id)
+      fetchOrders()
+    } catch (error) {
+      console.error('Error confirming payment:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to confirm payment')
+    } finally {
+      setIsConfirmingPayment(false)
+    }
+  }
+
+  /**
+   * Decrypt one code of the open order through the audited admin reveal
+   */
+  const revealCode = async (codeId: string) => {
+    if (!selectedOrder) return
+
+    try {
+      setRevealingCodeId(codeId)
+
+      const response = await fetch(`/api/admin/orders/${selectedOrder.id}/codes/${codeId}/reveal`, {
+        method: 'POST'
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reveal code')
+      }
+
+      setRevealedCodes(prev => ({ ...prev, [codeId]: data.pin ? `${data.code} · PIN ${data.pin}` : data.code }))
+    } catch (error) {
+      console.error('Error revealing code:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to reveal code')
+    } finally {
+      setRevealingCodeId(null)
+    }
+  }
+
   /**
    * Export orders to CSV
    */
@@ -236,6 +355,8 @@ export default function AdminOrdersPage() {
         return { variant: 'secondary' as const, className: 'bg-orange-100 text-orange-800 border-orange-200', text: 'Pending' }
       case 'failed':
         return { variant: 'destructive' as const, className: 'bg-red-100 text-red-800 border-red-200', text: 'Failed' }
+      case 'cancelled':
+        return { variant: 'outline' as const, className: 'bg-gray-100 text-gray-600 border-gray-300', text: 'Cancelled' }
       default:
         return { variant: 'outline' as const, className: 'bg-gray-100 text-gray-800 border-gray-200', text: status }
     }
@@ -367,6 +488,7 @@ export default function AdminOrdersPage() {
                     <SelectItem value="completed">Completed</SelectItem>
                     <SelectItem value="pending">Pending</SelectItem>
                     <SelectItem value="failed">Failed</SelectItem>
+                    <SelectItem value="cancelled">Cancelled</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -612,7 +734,63 @@ export default function AdminOrdersPage() {
                   <div className="space-y-2">
                     <label className="text-sm font-medium text-gray-700">Total Amount</label>
                     <p className="text-lg font-semibold text-green-600">${selectedOrder.total_amount.toFixed(2)}</p>
+                    {selectedOrder.promotion_code && (
+                      <p className="text-xs text-gray-500">
+                        Code {selectedOrder.promotion_code} · -${(selectedOrder.discount_total ?? 0).toFixed(2)}
+                      </p>
+                    )}
                   </div>
+                  {selectedOrder.paid_at && selectedOrder.payment_method === 'external' && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-gray-700">Paid</label>
+                      <p className="text-sm text-gray-900">{format(new Date(selectedOrder.paid_at), 'PPP p')}</p>
+                      <p className="text-xs text-gray-500">
+                        {selectedOrder.payment_reference ? `Ref ${selectedOrder.payment_reference} · ` : ''}
+                        {selectedOrder.payment_confirmed_by ? `Confirmed by ${selectedOrder.payment_confirmed_by}` : 'Confirmed by payment provider'}
+                      </p>
+                    </div>
+                  )}
+                  {selectedOrder.status === 'pending' && selectedOrder.payment_expires_at && (
+                    <div className="space-y-2 md:col-span-2">
+                      <label className="text-sm font-medium text-gray-700">Awaiting Payment</label>
+                      <p className="text-sm text-gray-600">
+                        Codes reserved until {format(new Date(selectedOrder.payment_expires_at), 'PPP p')}
+                        {' '}({formatDistanceToNow(new Date(selectedOrder.payment_expires_at), { addSuffix: true })})
+                      </p>
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="Payment reference (optional)"
+                          value={paymentReference}
+                          onChange={(e) => setPaymentReference(e.target.value)}
+                          disabled={isConfirmingPayment}
+                        />
+                        <Button onClick={confirmPayment} disabled={isConfirmingPayment}>
+                          {isConfirmingPayment ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <CheckCircle className="w-4 h-4 mr-2" />
+                          )}
+                          Confirm Payment
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                  {selectedOrder.margin && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-gray-700">Margin</label>
+                      {selectedOrder.margin.marginPercent !== null ? (
+                        <p className={`text-lg font-semibold ${selectedOrder.margin.margin < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                          ${selectedOrder.margin.margin.toFixed(2)} ({selectedOrder.margin.marginPercent}%)
+                        </p>
+                      ) : (
+                        <p className="text-sm text-gray-500">No cost data</p>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        Cost ${selectedOrder.margin.cost.toFixed(2)}
+                        {selectedOrder.margin.uncostedCodes > 0 && ` · ${selectedOrder.margin.uncostedCodes} uncosted code(s) excluded`}
+                      </p>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -620,10 +798,18 @@ export default function AdminOrdersPage() {
 
               {/* Order Items */}
               <div className="space-y-4">
-                <h3 className="font-semibold text-lg flex items-center gap-2">
-                  <Package className="w-5 h-5" />
-                  Order Items ({selectedOrder.items?.length || 0})
-                </h3>
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-lg flex items-center gap-2">
+                    <Package className="w-5 h-5" />
+                    Order Items ({selectedOrder.items?.length || 0})
+                  </h3>
+                  {selectedOrder.status === 'completed' && (refundableItems.length > 0 || (selectedOrder.fee_total ?? 0) > 0) && (
+                    <Button variant="outline" size="sm" onClick={() => setRefundOrderId(selectedOrder.id)}>
+                      <Undo2 className="w-4 h-4 mr-2" />
+                      Refund
+                    </Button>
+                  )}
+                </div>
                 {selectedOrder.items && selectedOrder.items.length > 0 ? (
                   <div className="space-y-3">
                     {selectedOrder.items.map((item, index) => (
@@ -633,20 +819,48 @@ export default function AdminOrdersPage() {
                             <div className="flex items-center gap-2">
                               <h4 className="font-medium">{item.product_name}</h4>
                               <Badge variant="secondary">{item.platform}</Badge>
+                              {item.bundle_name && (
+                                <Badge variant="outline">Bundle: {item.bundle_name}</Badge>
+                              )}
+                              {item.refund && (
+                                <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                                  Refunded ${item.refund.amount.toFixed(2)} · code {item.refund.code_outcome}
+                                </Badge>
+                              )}
                             </div>
                             <div className="text-sm text-gray-600 mt-1">
                               Quantity: {item.quantity} × ${item.unit_price.toFixed(2)} = ${(item.quantity * item.unit_price).toFixed(2)}
+                              {!!item.discount_amount && ` (discount -$${item.discount_amount.toFixed(2)})`}
                             </div>
-                            {item.game_codes && item.game_codes.length > 0 && (
+                            {item.supplier && (
+                              <div className="text-sm text-gray-500 mt-1">
+                                Supplier: {item.supplier} · Cost: {item.unit_cost?.toFixed(2)} {item.cost_currency}
+                              </div>
+                            )}
+                            {item.game_code && (
                               <div className="mt-3">
-                                <label className="text-sm font-medium text-gray-700">Game Codes:</label>
-                                <div className="mt-1 space-y-1">
-                                  {item.game_codes.map((code, codeIndex) => (
-                                    <div key={codeIndex} className="font-mono text-xs bg-gray-50 p-2 rounded border">
-                                      {code}
-                                    </div>
-                                  ))}
+                                <label className="text-sm font-medium text-gray-700">Game Code:</label>
+                                <div className="mt-1 flex items-center gap-2">
+                                  <div className="flex-1 font-mono text-xs bg-gray-50 p-2 rounded border">
+                                    {revealedCodes[item.game_code.id] ?? item.game_code.masked_code}
+                                  </div>
+                                  {!revealedCodes[item.game_code.id] && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => item.game_code && revealCode(item.game_code.id)}
+                                      disabled={revealingCodeId === item.game_code.id}
+                                    >
+                                      {revealingCodeId === item.game_code.id ? (
+                                        <Loader2 className="w-4 h-4 animate-spin" />
+                                      ) : (
+                                        <Eye className="w-4 h-4" />
+                                      )}
+                                      Reveal
+                                    </Button>
+                                  )}
                                 </div>
+                                <p className="text-xs text-gray-500 mt-1">Reveals are logged with your account</p>
                               </div>
                             )}
                           </div>
@@ -658,6 +872,33 @@ export default function AdminOrdersPage() {
                   <p className="text-gray-600">No items found for this order</p>
                 )}
               </div>
+
+              {/* Refunds */}
+              {selectedOrder.refunds && selectedOrder.refunds.length > 0 && (
+                <>
+                  <Separator />
+                  <div className="space-y-3">
+                    <h3 className="font-semibold text-lg flex items-center gap-2">
+                      <Undo2 className="w-5 h-5" />
+                      Refunds
+                    </h3>
+                    {selectedOrder.refunds.map(refund => (
+                      <div key={refund.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">
+                            ${refund.amount.toFixed(2)} · {refund.item_count} item(s) · codes {refund.code_action === 'restock' ? 'returned to inventory' : 'voided'}
+                          </span>
+                          <span className="text-xs text-gray-500">
+                            {format(new Date(refund.created_at), 'PPP p')}
+                          </span>
+                        </div>
+                        <p className="text-gray-600 mt-1">{refund.reason}</p>
+                        <p className="text-xs text-gray-500 mt-1">By {refund.refunded_by}</p>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
             </div>
           ) : (
             <div className="text-center py-12">
@@ -670,6 +911,14 @@ export default function AdminOrdersPage() {
           )}
         </DialogContent>
       </Dialog>
+
+      <OrderRefundDialog
+        orderId={refundOrderId}
+        items={refundableItems}
+        feeTotal={selectedOrder?.fee_total ?? 0}
+        onClose={() => setRefundOrderId(null)}
+        onRefunded={handleRefunded}
+      />
     </div>
   )
 } 
\ No newline at end of file
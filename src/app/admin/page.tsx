@@ -1,14 +1,26 @@
 import { createClient } from '@/lib/supabase/server'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
 import Link from 'next/link'
+import { prisma } from '@/lib/prisma'
+import { getLowStockProducts, DEFAULT_VELOCITY_DAYS } from '@/lib/stock-alerts'
 import { 
   Users, 
   Package, 
   ShoppingCart, 
   CreditCard,
   TrendingUp,
-  AlertCircle
+  AlertCircle,
+  PackageX
 } from 'lucide-react'
 
 /**
@@ -35,6 +47,8 @@ export default async function AdminPage() {
     supabase.from('game_codes').select('*', { count: 'exact', head: true }).eq('is_sold', true)
   ])
 
+  const lowStockProducts = await getLowStockProducts(prisma)
+
   const availableCodes = (gameCodes || 0) - (soldCodes || 0)
 
   return (
@@ -144,6 +158,56 @@ export default async function AdminPage() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Low Stock */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <PackageX className="h-5 w-5 text-red-600" />
+            Low Stock
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Products below their restock threshold. Days of cover uses sales from the last {DEFAULT_VELOCITY_DAYS} days.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {lowStockProducts.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Available</TableHead>
+                  <TableHead>Threshold</TableHead>
+                  <TableHead>Sold / Day</TableHead>
+                  <TableHead>Days of Cover</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lowStockProducts.map(product => (
+                  <TableRow key={product.productId}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{product.productName}</span>
+                        <Badge variant="outline">{product.platform}</Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell className={product.availableCodes === 0 ? 'font-medium text-red-600' : 'font-medium text-orange-600'}>
+                      {product.availableCodes}
+                    </TableCell>
+                    <TableCell className="text-gray-600">{product.threshold}</TableCell>
+                    <TableCell className="text-gray-600">{product.dailySales}</TableCell>
+                    <TableCell>{product.daysOfCover === null ? '—' : product.daysOfCover}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-gray-600 py-4 text-center">
+              All active products are above their restock threshold.
+            </p>
+          )}
+        </CardContent>
+      </Card>
       
       {/* Quick Actions */}
       <Card>
@@ -0,0 +1,156 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Wallet, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface PaymentProvider {
+  id: string
+  name: string
+  description: string
+  isAvailable: boolean
+  isEnabled: boolean
+}
+
+/**
+ * Admin Payments Page
+ * Choose which online payment providers customers can pay with at checkout
+ * and when topping up their credit balance
+ */
+export default function AdminPaymentsPage() {
+  const [providers, setProviders] = useState<PaymentProvider[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  /**
+   * Load the payment providers
+   */
+  const fetchProviders = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/admin/payment-providers', { credentials: 'include' })
+      if (!response.ok) {
+        throw new Error('Failed to fetch payment providers')
+      }
+
+      const data = await response.json()
+      setProviders(data.providers)
+    } catch (error) {
+      console.error('Error fetching payment providers:', error)
+      toast.error('Failed to load payment providers')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchProviders()
+  }, [fetchProviders])
+
+  /**
+   * Enable or disable a provider and reload on success
+   * @param provider - Provider to change
+   * @param isEnabled - New setting
+   */
+  const handleToggle = async (provider: PaymentProvider, isEnabled: boolean) => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/admin/payment-providers/${provider.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ is_enabled: isEnabled }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save')
+      }
+
+      toast.success(data.message)
+      await fetchProviders()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Payments</h1>
+          <p className="text-gray-600 mt-2">
+            Online payment providers for checkout and credit top-ups
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchProviders} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Providers */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Payment Providers
+          </CardTitle>
+          <CardDescription>
+            Enabled providers are offered to customers. A provider that is not configured in this environment cannot be enabled.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Provider</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Enabled</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {providers.map(provider => (
+                <TableRow key={provider.id}>
+                  <TableCell>
+                    <p className="font-medium">{provider.name}</p>
+                    <p className="text-sm text-gray-500">{provider.description}</p>
+                  </TableCell>
+                  <TableCell>
+                    {provider.isAvailable ? (
+                      <Badge variant="secondary">Configured</Badge>
+                    ) : (
+                      <Badge variant="outline">Not configured</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={provider.isEnabled}
+                      disabled={isSaving || (!provider.isAvailable && !provider.isEnabled)}
+                      onCheckedChange={(checked) => handleToggle(provider, checked)}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+              {providers.length === 0 && !isLoading && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-gray-500">
+                    No payment providers are installed.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,394 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Percent, Plus, RefreshCw, Trash2, Receipt } from 'lucide-react'
+import { toast } from 'sonner'
+
+interface TaxRule {
+  id: string
+  region: string
+  name: string
+  rate: number
+  is_active: boolean
+}
+
+interface CheckoutFee {
+  id: string
+  name: string
+  payment_method: 'credit' | 'external' | null
+  percent_rate: number
+  fixed_amount: number
+  is_active: boolean
+}
+
+// Select value for fees that apply to every payment method
+const ALL_PAYMENT_METHODS = 'all'
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  [ALL_PAYMENT_METHODS]: 'All payment methods',
+  credit: 'Account credit',
+  external: 'External payment',
+}
+
+/**
+ * Convert a percentage typed by an admin to the fraction stored in the database
+ * @param percent - Percentage, e.g. "8.75"
+ * @returns Rate as a fraction, e.g. 0.0875
+ */
+function percentToRate(percent: string): number {
+  return Math.round(Number(percent) * 100) / 10000
+}
+
+/**
+ * Admin Pricing Page
+ * Manage the tax rules and checkout fees the server applies when it prices a cart
+ */
+export default function AdminPricingPage() {
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([])
+  const [fees, setFees] = useState<CheckoutFee[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [newRule, setNewRule] = useState({ region: '', name: '', percent: '' })
+  const [newFee, setNewFee] = useState({ name: '', paymentMethod: ALL_PAYMENT_METHODS, percent: '', fixed: '' })
+
+  /**
+   * Load tax rules and checkout fees
+   */
+  const fetchPricing = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const [rulesResponse, feesResponse] = await Promise.all([
+        fetch('/api/admin/tax-rules', { credentials: 'include' }),
+        fetch('/api/admin/checkout-fees', { credentials: 'include' }),
+      ])
+
+      if (!rulesResponse.ok || !feesResponse.ok) {
+        throw new Error('Failed to fetch pricing settings')
+      }
+
+      const rulesData = await rulesResponse.json()
+      const feesData = await feesResponse.json()
+      setTaxRules(rulesData.taxRules.map((rule: TaxRule) => ({ ...rule, rate: Number(rule.rate) })))
+      setFees(feesData.fees.map((fee: CheckoutFee) => ({
+        ...fee,
+        percent_rate: Number(fee.percent_rate),
+        fixed_amount: Number(fee.fixed_amount),
+      })))
+    } catch (error) {
+      console.error('Error fetching pricing settings:', error)
+      toast.error('Failed to load pricing settings')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPricing()
+  }, [fetchPricing])
+
+  /**
+   * Send a change to the API and reload on success
+   * @param url - Endpoint to call
+   * @param method - HTTP method
+   * @param body - JSON body, if any
+   * @returns True if the request succeeded
+   */
+  const saveChange = async (url: string, method: string, body?: unknown): Promise<boolean> => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save')
+      }
+
+      toast.success(data.message)
+      await fetchPricing()
+      return true
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save')
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Add the tax rule from the form
+   */
+  const handleAddRule = async () => {
+    const saved = await saveChange('/api/admin/tax-rules', 'POST', {
+      region: newRule.region,
+      name: newRule.name,
+      rate: percentToRate(newRule.percent),
+    })
+    if (saved) {
+      setNewRule({ region: '', name: '', percent: '' })
+    }
+  }
+
+  /**
+   * Add the checkout fee from the form
+   */
+  const handleAddFee = async () => {
+    const saved = await saveChange('/api/admin/checkout-fees', 'POST', {
+      name: newFee.name,
+      payment_method: newFee.paymentMethod === ALL_PAYMENT_METHODS ? null : newFee.paymentMethod,
+      percent_rate: newFee.percent ? percentToRate(newFee.percent) : 0,
+      fixed_amount: newFee.fixed ? Number(newFee.fixed) : 0,
+    })
+    if (saved) {
+      setNewFee({ name: '', paymentMethod: ALL_PAYMENT_METHODS, percent: '', fixed: '' })
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Pricing</h1>
+          <p className="text-gray-600 mt-2">
+            Tax rules and fees applied to every checkout quote and order
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchPricing} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Tax Rules */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Percent className="w-5 h-5" />
+            Tax Rules
+          </CardTitle>
+          <CardDescription>
+            One rate per country (DE) or subdivision (US-CA). A subdivision rule wins over its country; regions without a rule pay no tax.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Region</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {taxRules.map(rule => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-mono">{rule.region}</TableCell>
+                  <TableCell>{rule.name}</TableCell>
+                  <TableCell>{(rule.rate * 100).toFixed(2)}%</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.is_active}
+                      disabled={isSaving}
+                      onCheckedChange={(checked) => saveChange(`/api/admin/tax-rules/${rule.id}`, 'PATCH', { is_active: checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={isSaving}
+                      onClick={() => saveChange(`/api/admin/tax-rules/${rule.id}`, 'DELETE')}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {taxRules.length === 0 && !isLoading && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-gray-500">
+                    No tax rules. Checkouts are not taxed.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="grid gap-3 sm:grid-cols-4 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="rule-region">Region</Label>
+              <Input
+                id="rule-region"
+                placeholder="US-CA"
+                value={newRule.region}
+                onChange={(e) => setNewRule(prev => ({ ...prev, region: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                placeholder="California sales tax"
+                value={newRule.name}
+                onChange={(e) => setNewRule(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rule-rate">Rate (%)</Label>
+              <Input
+                id="rule-rate"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="8.75"
+                value={newRule.percent}
+                onChange={(e) => setNewRule(prev => ({ ...prev, percent: e.target.value }))}
+              />
+            </div>
+            <Button
+              onClick={handleAddRule}
+              disabled={isSaving || !newRule.region.trim() || !newRule.name.trim() || newRule.percent === ''}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Checkout Fees */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Receipt className="w-5 h-5" />
+            Checkout Fees
+          </CardTitle>
+          <CardDescription>
+            Charged on the discounted subtotal, before tax is added, for one payment method or all of them
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Percentage</TableHead>
+                <TableHead>Fixed</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fees.map(fee => (
+                <TableRow key={fee.id}>
+                  <TableCell>{fee.name}</TableCell>
+                  <TableCell>{PAYMENT_METHOD_LABELS[fee.payment_method ?? ALL_PAYMENT_METHODS]}</TableCell>
+                  <TableCell>{(fee.percent_rate * 100).toFixed(2)}%</TableCell>
+                  <TableCell>${fee.fixed_amount.toFixed(2)}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={fee.is_active}
+                      disabled={isSaving}
+                      onCheckedChange={(checked) => saveChange(`/api/admin/checkout-fees/${fee.id}`, 'PATCH', { is_active: checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={isSaving}
+                      onClick={() => saveChange(`/api/admin/checkout-fees/${fee.id}`, 'DELETE')}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {fees.length === 0 && !isLoading && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-gray-500">
+                    No checkout fees.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="grid gap-3 sm:grid-cols-5 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="fee-name">Name</Label>
+              <Input
+                id="fee-name"
+                placeholder="Processing fee"
+                value={newFee.name}
+                onChange={(e) => setNewFee(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Applies To</Label>
+              <Select
+                value={newFee.paymentMethod}
+                onValueChange={(value) => setNewFee(prev => ({ ...prev, paymentMethod: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fee-percent">Percentage (%)</Label>
+              <Input
+                id="fee-percent"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="2.9"
+                value={newFee.percent}
+                onChange={(e) => setNewFee(prev => ({ ...prev, percent: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fee-fixed">Fixed ($)</Label>
+              <Input
+                id="fee-fixed"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.30"
+                value={newFee.fixed}
+                onChange={(e) => setNewFee(prev => ({ ...prev, fixed: e.target.value }))}
+              />
+            </div>
+            <Button
+              onClick={handleAddFee}
+              disabled={isSaving || !newFee.name.trim() || (!newFee.percent && !newFee.fixed)}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Fee
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
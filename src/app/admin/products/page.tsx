@@ -9,6 +9,7 @@ import {
   RefreshCw
 } from 'lucide-react'
 import { ProductsDataTable, type Product } from '@/components/admin/products-data-table'
+import { ExpiringCodesReport } from '@/components/admin/expiring-codes-report'
 import { Button } from '@/components/ui/button'
 import { toast } from 'sonner'
 
@@ -143,6 +144,9 @@ export default function AdminProductsPage() {
         </Card>
       </div>
 
+      {/* Codes nearing expiry */}
+      <ExpiringCodesReport />
+
       {/* Products Data Table */}
       <Card>
         <CardHeader>
@@ -0,0 +1,490 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Plus, RefreshCw, Tag, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import type { DiscountType } from '@/lib/promotions'
+
+interface Promotion {
+  id: string
+  code: string
+  description: string | null
+  discount_type: DiscountType
+  discount_value: number
+  product_ids: string[]
+  platforms: string[]
+  min_subtotal: number
+  max_redemptions: number | null
+  max_redemptions_per_user: number | null
+  starts_at: string | null
+  ends_at: string | null
+  is_active: boolean
+  redemption_count: number
+}
+
+interface ProductOption {
+  id: string
+  name: string
+  platform: string
+}
+
+const EMPTY_FORM = {
+  code: '',
+  description: '',
+  discountType: 'percentage' as DiscountType,
+  value: '',
+  minSubtotal: '',
+  maxRedemptions: '',
+  maxRedemptionsPerUser: '',
+  startsAt: '',
+  endsAt: '',
+  productIds: [] as string[],
+  platforms: [] as string[],
+}
+
+/**
+ * Convert an optional number field to its API value
+ * @param value - Input value, possibly empty
+ * @returns The number, or null if empty
+ */
+function optionalNumber(value: string): number | null {
+  return value === '' ? null : Number(value)
+}
+
+/**
+ * Convert a datetime-local input value to an ISO timestamp
+ * @param value - Input value, possibly empty
+ * @returns ISO timestamp, or null if empty
+ */
+function optionalDate(value: string): string | null {
+  return value ? new Date(value).toISOString() : null
+}
+
+/**
+ * Describe a promotion's discount for the table
+ * @param promotion - Promotion
+ * @returns e.g. "15% off" or "$5.00 off"
+ */
+function formatDiscount(promotion: Promotion): string {
+  return promotion.discount_type === 'percentage'
+    ? `${Math.round(promotion.discount_value * 10000) / 100}% off`
+    : `$${promotion.discount_value.toFixed(2)} off`
+}
+
+/**
+ * Admin Promotions Page
+ * Create discount codes and follow how often they are used
+ */
+export default function AdminPromotionsPage() {
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [products, setProducts] = useState<ProductOption[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const platforms = [...new Set(products.map(product => product.platform))].sort()
+  const productNames = new Map(products.map(product => [product.id, product.name]))
+
+  /**
+   * Load promotions and the products they can be limited to
+   */
+  const fetchPromotions = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const [promotionsResponse, productsResponse] = await Promise.all([
+        fetch('/api/admin/promotions', { credentials: 'include' }),
+        fetch('/api/admin/products', { credentials: 'include' }),
+      ])
+
+      if (!promotionsResponse.ok || !productsResponse.ok) {
+        throw new Error('Failed to fetch promotions')
+      }
+
+      const promotionsData = await promotionsResponse.json()
+      const productsData = await productsResponse.json()
+      setPromotions(promotionsData.promotions.map((promotion: Promotion) => ({
+        ...promotion,
+        discount_value: Number(promotion.discount_value),
+        min_subtotal: Number(promotion.min_subtotal),
+      })))
+      setProducts((productsData.products || []).map((product: ProductOption) => ({
+        id: product.id,
+        name: product.name,
+        platform: product.platform,
+      })))
+    } catch (error) {
+      console.error('Error fetching promotions:', error)
+      toast.error('Failed to load promotions')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPromotions()
+  }, [fetchPromotions])
+
+  /**
+   * Send a change to the API and reload on success
+   * @param url - Endpoint to call
+   * @param method - HTTP method
+   * @param body - JSON body, if any
+   * @returns True if the request succeeded
+   */
+  const saveChange = async (url: string, method: string, body?: unknown): Promise<boolean> => {
+    setIsSaving(true)
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save')
+      }
+
+      toast.success(data.message)
+      await fetchPromotions()
+      return true
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save')
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  /**
+   * Create the promotion from the form
+   */
+  const handleCreate = async () => {
+    const saved = await saveChange('/api/admin/promotions', 'POST', {
+      code: form.code,
+      description: form.description.trim() || null,
+      discount_type: form.discountType,
+      // Percentages are entered as "15" and stored as 0.15
+      discount_value: form.discountType === 'percentage'
+        ? Math.round(Number(form.value) * 100) / 10000
+        : Number(form.value),
+      product_ids: form.productIds,
+      platforms: form.platforms,
+      min_subtotal: form.minSubtotal ? Number(form.minSubtotal) : 0,
+      max_redemptions: optionalNumber(form.maxRedemptions),
+      max_redemptions_per_user: optionalNumber(form.maxRedemptionsPerUser),
+      starts_at: optionalDate(form.startsAt),
+      ends_at: optionalDate(form.endsAt),
+    })
+
+    if (saved) {
+      setIsFormOpen(false)
+      setForm(EMPTY_FORM)
+    }
+  }
+
+  /**
+   * Add or remove a value from one of the form's scope lists
+   */
+  const toggleScope = (field: 'productIds' | 'platforms', value: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      [field]: checked ? [...prev[field], value] : prev[field].filter(item => item !== value),
+    }))
+  }
+
+  /**
+   * Describe what a promotion applies to
+   */
+  const formatScope = (promotion: Promotion): string => {
+    if (promotion.product_ids.length === 0 && promotion.platforms.length === 0) {
+      return 'All products'
+    }
+
+    return [
+      ...promotion.platforms,
+      ...promotion.product_ids.map(id => productNames.get(id) ?? 'Deleted product'),
+    ].join(', ')
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Promotions</h1>
+          <p className="text-gray-600 mt-2">
+            Discount codes customers can enter at checkout
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={fetchPromotions} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button onClick={() => setIsFormOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Promotion
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tag className="w-5 h-5" />
+            Discount Codes
+          </CardTitle>
+          <CardDescription>
+            Used promotions cannot be deleted; deactivate them instead. Refunding an order does not give its use back.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Min. Spend</TableHead>
+                <TableHead>Uses</TableHead>
+                <TableHead>Valid</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promotions.map(promotion => (
+                <TableRow key={promotion.id}>
+                  <TableCell>
+                    <div className="font-mono font-medium">{promotion.code}</div>
+                    {promotion.description && (
+                      <div className="text-xs text-gray-500">{promotion.description}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{formatDiscount(promotion)}</Badge>
+                  </TableCell>
+                  <TableCell className="max-w-48 text-sm">{formatScope(promotion)}</TableCell>
+                  <TableCell>{promotion.min_subtotal > 0 ? `$${promotion.min_subtotal.toFixed(2)}` : '—'}</TableCell>
+                  <TableCell className="text-sm">
+                    {promotion.redemption_count}
+                    {promotion.max_redemptions !== null && ` / ${promotion.max_redemptions}`}
+                    {promotion.max_redemptions_per_user !== null && (
+                      <div className="text-xs text-gray-500">{promotion.max_redemptions_per_user} per customer</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {promotion.starts_at || promotion.ends_at ? (
+                      <>
+                        {promotion.starts_at ? new Date(promotion.starts_at).toLocaleDateString() : 'Now'}
+                        {' – '}
+                        {promotion.ends_at ? new Date(promotion.ends_at).toLocaleDateString() : 'No end'}
+                      </>
+                    ) : 'Always'}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={promotion.is_active}
+                      disabled={isSaving}
+                      onCheckedChange={(checked) => saveChange(`/api/admin/promotions/${promotion.id}`, 'PATCH', { is_active: checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={isSaving || promotion.redemption_count > 0}
+                      onClick={() => saveChange(`/api/admin/promotions/${promotion.id}`, 'DELETE')}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {promotions.length === 0 && !isLoading && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-gray-500">
+                    No promotions yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Create Promotion Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Promotion</DialogTitle>
+            <DialogDescription>
+              Without products or platforms the code applies to the whole cart. The minimum spend counts only the items the code applies to.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="promotion-code">Code</Label>
+              <Input
+                id="promotion-code"
+                placeholder="SUMMER15"
+                value={form.code}
+                onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promotion-description">Description</Label>
+              <Input
+                id="promotion-description"
+                placeholder="Summer sale"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Discount Type</Label>
+              <Select
+                value={form.discountType}
+                onValueChange={(value) => setForm(prev => ({ ...prev, discountType: value as DiscountType }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percentage</SelectItem>
+                  <SelectItem value="fixed">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promotion-value">{form.discountType === 'percentage' ? 'Discount (%)' : 'Discount ($)'}</Label>
+              <Input
+                id="promotion-value"
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.value}
+                onChange={(e) => setForm(prev => ({ ...prev, value: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promotion-min">Minimum Spend ($)</Label>
+              <Input
+                id="promotion-min"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="None"
+                value={form.minSubtotal}
+                onChange={(e) => setForm(prev => ({ ...prev, minSubtotal: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="promotion-max">Total Uses</Label>
+                <Input
+                  id="promotion-max"
+                  type="number"
+                  min="1"
+                  placeholder="Unlimited"
+                  value={form.maxRedemptions}
+                  onChange={(e) => setForm(prev => ({ ...prev, maxRedemptions: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="promotion-max-user">Per Customer</Label>
+                <Input
+                  id="promotion-max-user"
+                  type="number"
+                  min="1"
+                  placeholder="Unlimited"
+                  value={form.maxRedemptionsPerUser}
+                  onChange={(e) => setForm(prev => ({ ...prev, maxRedemptionsPerUser: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promotion-starts">Starts</Label>
+              <Input
+                id="promotion-starts"
+                type="datetime-local"
+                value={form.startsAt}
+                onChange={(e) => setForm(prev => ({ ...prev, startsAt: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promotion-ends">Ends</Label>
+              <Input
+                id="promotion-ends"
+                type="datetime-local"
+                value={form.endsAt}
+                onChange={(e) => setForm(prev => ({ ...prev, endsAt: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Platforms</Label>
+            <div className="flex flex-wrap gap-4">
+              {platforms.map(platform => (
+                <label key={platform} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.platforms.includes(platform)}
+                    onCheckedChange={(checked) => toggleScope('platforms', platform, checked === true)}
+                  />
+                  {platform}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Products</Label>
+            <div className="grid gap-2 sm:grid-cols-2 max-h-40 overflow-y-auto border rounded-lg p-2">
+              {products.map(product => (
+                <label key={product.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={form.productIds.includes(product.id)}
+                    onCheckedChange={(checked) => toggleScope('productIds', product.id, checked === true)}
+                  />
+                  {product.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={isSaving || !form.code.trim() || !form.value}>
+              {isSaving && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+              Create Promotion
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+
+// Checkout fee update schema
+const updateCheckoutFeeSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  payment_method: z.enum(['credit', 'external']).nullable().optional(),
+  percent_rate: z.number().min(0, 'Rate cannot be negative').max(0.9999, 'Rate must be below 100%').optional(),
+  fixed_amount: z.number().min(0, 'Fixed amount cannot be negative').optional(),
+  is_active: z.boolean().optional(),
+})
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * PATCH /api/admin/checkout-fees/[id]
+ * Change a checkout fee (Admin only). Orders already placed keep the fees they were charged.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: feeId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedData = updateCheckoutFeeSchema.parse(body)
+
+    const { data: fee, error } = await supabase
+      .from('checkout_fees')
+      .update(validatedData)
+      .eq('id', feeId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating checkout fee:', error)
+      return NextResponse.json({ error: 'Failed to update checkout fee' }, { status: 500 })
+    }
+
+    if (!fee) {
+      return NextResponse.json({ error: 'Checkout fee not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      fee,
+      message: 'Checkout fee updated successfully'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.errors,
+      }, { status: 400 })
+    }
+
+    console.error('Checkout fee PATCH error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/admin/checkout-fees/[id]
+ * Remove a checkout fee (Admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: feeId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { data: fee, error } = await supabase
+      .from('checkout_fees')
+      .delete()
+      .eq('id', feeId)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error deleting checkout fee:', error)
+      return NextResponse.json({ error: 'Failed to delete checkout fee' }, { status: 500 })
+    }
+
+    if (!fee) {
+      return NextResponse.json({ error: 'Checkout fee not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Checkout fee deleted successfully' })
+  } catch (error) {
+    console.error('Checkout fee DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+
+// Checkout fee creation schema; a null payment method applies to all of them
+const createCheckoutFeeSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  payment_method: z.enum(['credit', 'external']).nullable().default(null),
+  percent_rate: z.number().min(0, 'Rate cannot be negative').max(0.9999, 'Rate must be below 100%').default(0),
+  fixed_amount: z.number().min(0, 'Fixed amount cannot be negative').default(0),
+  is_active: z.boolean().default(true),
+}).refine(data => data.percent_rate > 0 || data.fixed_amount > 0, {
+  message: 'A fee needs a percentage or a fixed amount',
+  path: ['percent_rate'],
+})
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * GET /api/admin/checkout-fees
+ * List all checkout fees, active or not (Admin only)
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { data: fees, error } = await supabase
+      .from('checkout_fees')
+      .select('*')
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching checkout fees:', error)
+      return NextResponse.json({ error: 'Failed to fetch checkout fees' }, { status: 500 })
+    }
+
+    return NextResponse.json({ fees: fees || [] })
+  } catch (error) {
+    console.error('Checkout fees GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/checkout-fees
+ * Add a checkout fee (Admin only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedData = createCheckoutFeeSchema.parse(body)
+
+    const { data: fee, error: createError } = await supabase
+      .from('checkout_fees')
+      .insert(validatedData)
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Error creating checkout fee:', createError)
+      return NextResponse.json({ error: 'Failed to create checkout fee' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      fee,
+      message: 'Checkout fee created successfully'
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.errors,
+      }, { status: 400 })
+    }
+
+    console.error('Checkout fees POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
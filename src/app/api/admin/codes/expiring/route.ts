@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { getExpiringCodesReport } from '@/lib/inventory'
+
+const DEFAULT_WINDOW_DAYS = 30
+const MAX_WINDOW_DAYS = 365
+
+/**
+ * GET /api/admin/codes/expiring?days=30
+ * Per-product report of unsold codes expiring within N days (Admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { searchParams } = new URL(request.url)
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check admin role
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    const days = parseInt(searchParams.get('days') || String(DEFAULT_WINDOW_DAYS), 10)
+    if (isNaN(days) || days < 1 || days > MAX_WINDOW_DAYS) {
+      return NextResponse.json({
+        error: `days must be between 1 and ${MAX_WINDOW_DAYS}`
+      }, { status: 400 })
+    }
+
+    const products = await getExpiringCodesReport(prisma, days)
+
+    return NextResponse.json({
+      days,
+      products,
+      totalExpiring: products.reduce((sum, p) => sum + p.expiringCodes, 0),
+      totalExpired: products.reduce((sum, p) => sum + p.expiredCodes, 0),
+    })
+  } catch (error) {
+    console.error('Expiring codes report error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { db } from '@/lib/prisma'
+import { createProofViewUrl, getProofStorage, getProofType } from '@/lib/proof-storage'
 
 // Credit request processing validation schema
 const processRequestSchema = z.object({
@@ -8,6 +11,23 @@ const processRequestSchema = z.object({
   admin_notes: z.string().optional(),
 })
 
+// SQLSTATE codes raised by the review_credit_request() database function
+const REVIEW_ERROR_CODES = {
+  notFound: 'P0002', // no_data_found
+  alreadyReviewed: '55000', // object_not_in_prerequisite_state
+  forbidden: '42501', // insufficient_privilege
+}
+
+/**
+ * SQLSTATE of an error raised inside a raw Prisma query
+ */
+function getSqlState(error: unknown): string | undefined {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2010') {
+    return (error.meta as { code?: string } | undefined)?.code
+  }
+  return undefined
+}
+
 /**
  * PATCH /api/admin/credits/[id]
  * Process a credit request (approve/reject) - Admin only
@@ -50,88 +70,26 @@ export async function PATCH(
 
     const { action, admin_notes } = validation.data
 
-    // Get the credit request
-    const { data: creditRequest, error: fetchError } = await supabase
-      .from('credit_requests')
-      .select('id, user_id, amount, status')
-      .eq('id', requestId)
-      .single()
-
-    if (fetchError || !creditRequest) {
-      return NextResponse.json({ error: 'Credit request not found' }, { status: 404 })
-    }
-
-    // Check if request is already processed
-    if (creditRequest.status !== 'pending') {
-      return NextResponse.json({ 
-        error: `Credit request is already ${creditRequest.status}` 
-      }, { status: 400 })
-    }
-
-    // Start transaction for credit request processing
-    const { data: updatedRequest, error: updateError } = await supabase
-      .from('credit_requests')
-      .update({
-        status: action === 'approve' ? 'approved' : 'rejected',
-        admin_notes: admin_notes || null,
-        reviewed_at: new Date().toISOString(),
-        reviewed_by: user.id,
-      })
-      .eq('id', requestId)
-      .select()
-      .single()
-
-    if (updateError) {
-      console.error('Error updating credit request:', updateError)
-      return NextResponse.json({ error: 'Failed to update credit request' }, { status: 500 })
-    }
-
-    // If approved, update user's credit balance
-    if (action === 'approve') {
-      const { error: balanceError } = await supabase.rpc('increment_credit_balance', {
-        user_id: creditRequest.user_id,
-        amount: creditRequest.amount
-      })
-
-      // If RPC doesn't exist, fall back to manual update
-      if (balanceError) {
-        console.log('RPC not found, using manual balance update')
-        
-        // Get current balance
-        const { data: userProfile, error: profileFetchError } = await supabase
-          .from('profiles')
-          .select('credit_balance')
-          .eq('id', creditRequest.user_id)
-          .single()
-
-        if (profileFetchError) {
-          console.error('Error fetching user profile:', profileFetchError)
-          // Rollback the request status update
-          await supabase
-            .from('credit_requests')
-            .update({ status: 'pending', admin_notes: null, reviewed_at: null, reviewed_by: null })
-            .eq('id', requestId)
-          
-          return NextResponse.json({ error: 'Failed to update user balance' }, { status: 500 })
-        }
-
-        // Update balance manually
-        const newBalance = (userProfile.credit_balance || 0) + creditRequest.amount
-        const { error: balanceUpdateError } = await supabase
-          .from('profiles')
-          .update({ credit_balance: newBalance })
-          .eq('id', creditRequest.user_id)
-
-        if (balanceUpdateError) {
-          console.error('Error updating credit balance:', balanceUpdateError)
-          // Rollback the request status update
-          await supabase
-            .from('credit_requests')
-            .update({ status: 'pending', admin_notes: null, reviewed_at: null, reviewed_by: null })
-            .eq('id', requestId)
-          
-          return NextResponse.json({ error: 'Failed to update user balance' }, { status: 500 })
-        }
+    // Lock, status check, review fields and ledger entry in one transaction.
+    // review_credit_request() is only callable over the server connection,
+    // which is why this goes through Prisma rather than the user's session.
+    let updatedRequest
+    try {
+      updatedRequest = action === 'approve'
+        ? await db.creditRequest.approve(requestId, user.id, admin_notes || undefined)
+        : await db.creditRequest.reject(requestId, user.id, admin_notes || undefined)
+    } catch (reviewError) {
+      switch (getSqlState(reviewError)) {
+        case REVIEW_ERROR_CODES.notFound:
+          return NextResponse.json({ error: 'Credit request not found' }, { status: 404 })
+        case REVIEW_ERROR_CODES.alreadyReviewed:
+          // Reason: another admin reviewed the request while this one was in flight
+          return NextResponse.json({ error: 'Credit request has already been reviewed' }, { status: 409 })
+        case REVIEW_ERROR_CODES.forbidden:
+          return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+        default:
+          console.error('Error reviewing credit request:', reviewError)
+          return NextResponse.json({ error: 'Failed to process credit request' }, { status: 500 })
       }
     }
 
@@ -182,12 +140,16 @@ export async function GET(
         id,
         amount,
         payment_method,
+        reference_number,
+        payer_name,
         notes,
         status,
         admin_notes,
         created_at,
         reviewed_at,
         payment_proof_url,
+        payment_proof_path,
+        payment_proof_type,
         profiles!credit_requests_user_id_fkey(
           id,
           email,
@@ -209,12 +171,15 @@ export async function GET(
       id: creditRequest.id,
       amount: creditRequest.amount,
       payment_method: creditRequest.payment_method,
+      reference_number: creditRequest.reference_number,
+      payer_name: creditRequest.payer_name,
       notes: creditRequest.notes,
       status: creditRequest.status,
       admin_notes: creditRequest.admin_notes,
       created_at: creditRequest.created_at,
       reviewed_at: creditRequest.reviewed_at,
-      payment_proof_url: creditRequest.payment_proof_url,
+      payment_proof_url: await createProofViewUrl(getProofStorage(), creditRequest),
+      payment_proof_type: getProofType(creditRequest),
       user: {
         id: userProfile?.id,
         email: userProfile?.email,
@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { getProofReferenceUrl } from '@/lib/proof-storage'
+import { findDuplicateProofs } from '@/lib/proof-validation'
 
 /**
  * GET /api/admin/credits
- * Get all credit requests with statistics (Admin only)
+ * Get all credit requests with statistics (Admin only). Each request lists
+ * the other requests whose payment proof matches its own.
  */
 export async function GET(request: NextRequest) {
   try {
@@ -40,12 +44,14 @@ export async function GET(request: NextRequest) {
         id,
         amount,
         payment_method,
+        reference_number,
+        payer_name,
         notes,
         status,
         admin_notes,
         created_at,
         reviewed_at,
-        payment_proof_url,
+        payment_proof_type,
         user_id,
         profiles!credit_requests_user_id_fkey(
           id,
@@ -106,6 +112,9 @@ export async function GET(request: NextRequest) {
       totalAmountApproved: statsData?.filter(r => r.status === 'approved').reduce((sum, r) => sum + (r.amount || 0), 0) || 0,
     }
 
+    // Same or near-identical proof on other requests, a common fraud pattern
+    const duplicateProofs = await findDuplicateProofs(prisma, (requests || []).map(request => request.id))
+
     // Transform data for response
     const transformedRequests = (requests || []).map((request: any) => {
       const userProfile = Array.isArray(request.profiles) ? request.profiles[0] : request.profiles
@@ -114,12 +123,17 @@ export async function GET(request: NextRequest) {
         id: request.id,
         amount: request.amount,
         payment_method: request.payment_method,
+        reference_number: request.reference_number,
+        payer_name: request.payer_name,
         notes: request.notes,
         status: request.status,
         admin_notes: request.admin_notes,
         created_at: request.created_at,
         reviewed_at: request.reviewed_at,
-        payment_proof_url: request.payment_proof_url,
+        // Reference only; the file is fetched when an admin opens it
+        payment_proof_url: getProofReferenceUrl(request.id),
+        payment_proof_type: request.payment_proof_type,
+        duplicate_proofs: duplicateProofs.get(request.id) ?? [],
         user: {
           id: userProfile?.id,
           email: userProfile?.email,
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { resolveCodeDispute } from '@/lib/disputes'
+import { z } from 'zod'
+
+// Dispute resolution validation schema
+const resolveDisputeSchema = z.object({
+  resolution: z.enum(['replace', 'refund', 'reject']),
+  note: z.string().trim().max(1000).optional(),
+}).refine(data => data.resolution !== 'reject' || !!data.note, {
+  message: 'A note for the customer is required when rejecting a dispute',
+  path: ['note'],
+})
+
+/**
+ * PATCH /api/admin/disputes/[id]
+ * Resolve a code dispute with a replacement code, a credit refund or a rejection (Admin only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: disputeId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check admin role
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    // Parse request body
+    const body = await request.json()
+    const validation = resolveDisputeSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      }, { status: 400 })
+    }
+
+    const { resolution, note } = validation.data
+
+    const existing = await prisma.codeDispute.findUnique({
+      where: { id: disputeId },
+      select: { id: true },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Dispute not found' }, { status: 404 })
+    }
+
+    let resolved
+    try {
+      resolved = await prisma.$transaction(tx => resolveCodeDispute(tx, {
+        disputeId,
+        resolution,
+        note: note || undefined,
+        adminId: user.id,
+      }))
+    } catch (error) {
+      // Out of stock for a replacement, or the code was already refunded
+      if (error instanceof Error) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+
+    if (!resolved) {
+      // Reason: another admin resolved the dispute while this one was in flight
+      return NextResponse.json({ error: 'Dispute has already been resolved' }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      message: `Dispute ${resolved.status}`,
+      dispute: resolved,
+    })
+  } catch (error) {
+    console.error('Resolve dispute error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
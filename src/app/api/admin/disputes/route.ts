@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { availableGameCodeWhere } from '@/lib/inventory'
+
+const DISPUTE_STATUSES = ['open', 'replaced', 'refunded', 'rejected']
+
+/**
+ * GET /api/admin/disputes
+ * List code disputes with status filter, pagination and counts (Admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+    const { searchParams } = new URL(request.url)
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check admin role
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    // Parse query parameters
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100)
+    const status = searchParams.get('status') || 'open'
+    const offset = (page - 1) * limit
+
+    const where: Prisma.CodeDisputeWhereInput = DISPUTE_STATUSES.includes(status) ? { status } : {}
+
+    const [disputes, total, statusCounts] = await Promise.all([
+      prisma.codeDispute.findMany({
+        where,
+        include: {
+          user: { select: { email: true, full_name: true } },
+          resolver: { select: { email: true } },
+          order_item: {
+            select: {
+              unit_price: true,
+              product: { select: { id: true, name: true, platform: true } },
+            },
+          },
+          game_code: {
+            select: {
+              status: true,
+              reveals: { where: { by_admin: false }, select: { revealed_at: true }, orderBy: { revealed_at: 'asc' }, take: 1 },
+            },
+          },
+        },
+        orderBy: { created_at: status === 'open' ? 'asc' : 'desc' },
+        skip: offset,
+        take: limit,
+      }),
+      prisma.codeDispute.count({ where }),
+      prisma.codeDispute.groupBy({
+        by: ['status'],
+        _count: { id: true },
+      }),
+    ])
+
+    // Stock left for replacements, per disputed product
+    const productIds = Array.from(new Set(disputes.map(dispute => dispute.order_item.product.id)))
+    const stock = await prisma.gameCode.groupBy({
+      by: ['product_id'],
+      where: { product_id: { in: productIds }, ...availableGameCodeWhere() },
+      _count: { id: true },
+    })
+
+    return NextResponse.json({
+      disputes: disputes.map(dispute => ({
+        id: dispute.id,
+        order_id: dispute.order_id,
+        game_code_id: dispute.game_code_id,
+        reason: dispute.reason,
+        status: dispute.status,
+        resolution_note: dispute.resolution_note,
+        refund_amount: dispute.refund_amount === null ? null : Number(dispute.refund_amount),
+        created_at: dispute.created_at,
+        resolved_at: dispute.resolved_at,
+        resolved_by: dispute.resolver?.email ?? null,
+        customer: dispute.user,
+        product: dispute.order_item.product,
+        unit_price: Number(dispute.order_item.unit_price),
+        code_status: dispute.game_code.status,
+        code_revealed_at: dispute.game_code.reveals[0]?.revealed_at ?? null,
+        available_stock: stock.find(row => row.product_id === dispute.order_item.product.id)?._count.id ?? 0,
+      })),
+      counts: Object.fromEntries(
+        DISPUTE_STATUSES.map(value => [value, statusCounts.find(row => row.status === value)?._count.id ?? 0])
+      ),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    })
+  } catch (error) {
+    console.error('Admin disputes GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
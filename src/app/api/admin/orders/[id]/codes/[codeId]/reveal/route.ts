@@ -0,0 +1,62 @@
+/**
+ * Admin Game Code Reveal API Route
+ * 
+ * Decrypts a single code of any order for an admin and records the admin as
+ * the revealer in the audit trail.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { revealGameCodeForAdmin } from '@/lib/code-delivery'
+
+/**
+ * Reveal a game code as an admin
+ * POST /api/admin/orders/[id]/codes/[codeId]/reveal
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; codeId: string }> }
+) {
+  try {
+    const { id: orderId, codeId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check admin role
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    const revealed = await revealGameCodeForAdmin(prisma, {
+      orderId,
+      codeId,
+      adminId: user.id,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      userAgent: request.headers.get('user-agent'),
+    })
+
+    if (!revealed) {
+      return NextResponse.json({ error: 'Game code not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(revealed, {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+
+  } catch (error) {
+    console.error('Admin game code reveal error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
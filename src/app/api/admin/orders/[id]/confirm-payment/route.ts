@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { confirmOrderPayment, OrderPaymentError } from '@/lib/order-payments'
+import { z } from 'zod'
+
+// Manual payment confirmation schema
+const confirmPaymentSchema = z.object({
+  reference: z.string().trim().min(1).max(200).optional(),
+})
+
+/**
+ * POST /api/admin/orders/[id]/confirm-payment
+ * Confirm by hand that an external order's payment arrived, e.g. a bank
+ * transfer (Admin only). The reserved codes are sold and the order completes.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: orderId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check admin role
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    // Parse request body; the reference is optional, so an empty body is fine
+    const body = await request.json().catch(() => ({}))
+    const validation = confirmPaymentSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      }, { status: 400 })
+    }
+
+    let payment
+    try {
+      payment = await prisma.$transaction(tx => confirmOrderPayment(tx, {
+        orderId,
+        reference: validation.data.reference,
+        confirmedBy: user.id,
+      }))
+    } catch (error) {
+      // Reason: the reference already completed another order
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return NextResponse.json({ error: 'This payment reference is already used by another order' }, { status: 409 })
+      }
+      // Order not pending, not an external payment or its codes were released
+      if (error instanceof OrderPaymentError) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+
+    if (!payment) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      message: payment.alreadyConfirmed
+        ? 'Payment was already confirmed'
+        : `Payment confirmed; ${payment.codesSold} code(s) delivered`,
+      payment,
+    })
+  } catch (error) {
+    console.error('Order payment confirmation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { refundOrder } from '@/lib/order-refunds'
+import { refundOrderPayment } from '@/lib/payment-intents'
+import { z } from 'zod'
+
+// Order refund validation schema
+const refundOrderSchema = z.object({
+  itemIds: z.array(z.string().uuid()).min(1).optional(),
+  codeAction: z.enum(['restock', 'void']),
+  reason: z.string().trim().min(3, 'A reason is required').max(500),
+})
+
+/**
+ * POST /api/admin/orders/[id]/refund
+ * Refund a completed order in full, or only the given order items, to the
+ * customer's credit balance, or to the original payment for orders paid
+ * online (Admin only). Unrevealed codes are returned to stock or voided; the
+ * order is cancelled once nothing is left to refund.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: orderId } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Check admin role
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+      return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+    }
+
+    // Parse request body
+    const body = await request.json()
+    const validation = refundOrderSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      }, { status: 400 })
+    }
+
+    const { itemIds, codeAction, reason } = validation.data
+
+    let refund
+    try {
+      refund = await prisma.$transaction(async tx => {
+        const orderRefund = await refundOrder(tx, {
+          orderId,
+          itemIds,
+          codeAction,
+          reason,
+          adminId: user.id,
+        })
+
+        // Last step, so a refund the provider refuses undoes the whole refund
+        if (orderRefund?.paymentIntentId && orderRefund.amount > 0) {
+          await refundOrderPayment(tx, {
+            paymentIntentId: orderRefund.paymentIntentId,
+            refundId: orderRefund.refundId,
+            amount: orderRefund.amount,
+            reason,
+          })
+        }
+
+        return orderRefund
+      }, {
+        timeout: 15000, // The provider is called inside the transaction
+      })
+    } catch (error) {
+      // Reason: the same item was refunded by a concurrent request
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return NextResponse.json({ error: 'Order item has already been refunded' }, { status: 409 })
+      }
+      // Order not completed, item already refunded or disputed, or the provider refused
+      if (error instanceof Error) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+
+    if (!refund) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+    }
+
+    const destination = refund.paymentIntentId ? 'returned to the original payment' : 'credited'
+
+    return NextResponse.json({
+      message: refund.orderStatus === 'cancelled'
+        ? `Order refunded and cancelled ($${refund.amount.toFixed(2)} ${destination})`
+        : `${refund.items.length} item(s) refunded ($${refund.amount.toFixed(2)} ${destination})`,
+      refund,
+    })
+  } catch (error) {
+    console.error('Order refund error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
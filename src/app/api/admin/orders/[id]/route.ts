@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { decryptGameCode } from '@/lib/encryption'
 import { prisma } from '@/lib/prisma'
+import { summarizeMargin } from '@/lib/margins'
+import { getRefundAmount } from '@/lib/order-refunds'
+import { MASKED_GAME_CODE } from '@/lib/code-delivery'
 
 /**
  * GET /api/admin/orders/[id]
@@ -58,10 +60,41 @@ export async function GET(
             game_code: {
               select: {
                 id: true,
-                encrypted_code: true
+                status: true,
+                batch: {
+                  select: {
+                    supplier: true,
+                    unit_cost: true,
+                    currency: true
+                  }
+                }
+              }
+            },
+            refund_item: {
+              select: {
+                amount: true,
+                code_outcome: true
+              }
+            },
+            order_bundle: {
+              select: {
+                product: { select: { name: true } }
+              }
+            },
+            replacement_for: {
+              select: {
+                order_item: { select: { quantity: true, unit_price: true, discount_amount: true, tax_amount: true } }
               }
             }
           }
+        },
+        payment_confirmer: { select: { email: true } },
+        refunds: {
+          orderBy: { created_at: 'desc' },
+          include: {
+            refunder: { select: { email: true } },
+            items: { select: { order_item_id: true } }
+          }
         }
       }
     })
@@ -71,43 +104,65 @@ export async function GET(
     }
 
     // Transform order items efficiently
-    const transformedItems = order.order_items.map((item) => {
-      // Decrypt game codes for admin viewing
-      const gameCodes = item.game_code ? (() => {
-        try {
-          const decryptedCode = decryptGameCode(item.game_code.encrypted_code)
-          return [decryptedCode]
-        } catch (decryptError) {
-          console.error('Failed to decrypt game code for admin:', decryptError)
-          return [`[DECRYPTION_ERROR: ${item.game_code.encrypted_code.substring(0, 20)}...]`]
-        }
-      })() : []
-
-      return {
-        id: item.id,
-        product_id: item.product_id,
-        product_name: item.product.name,
-        platform: item.product.platform,
-        description: item.product.description || '',
-        quantity: item.quantity,
-        unit_price: Number(item.unit_price),
-        game_codes: gameCodes
-      }
-    })
+    const transformedItems = order.order_items.map((item) => ({
+      id: item.id,
+      product_id: item.product_id,
+      product_name: item.product.name,
+      platform: item.product.platform,
+      description: item.product.description || '',
+      quantity: item.quantity,
+      unit_price: Number(item.unit_price),
+      discount_amount: Number(item.discount_amount),
+      bundle_name: item.order_bundle?.product.name ?? null,
+      // Masked like every other order response; plaintext goes through the audited admin reveal
+      game_code: item.game_code ? { id: item.game_code.id, masked_code: MASKED_GAME_CODE } : null,
+      code_status: item.game_code?.status ?? null,
+      refundable: item.game_code?.status === 'sold' && !item.refund_item,
+      refund_value: getRefundAmount(item),
+      refund: item.refund_item ? {
+        amount: Number(item.refund_item.amount),
+        code_outcome: item.refund_item.code_outcome
+      } : null,
+      supplier: item.game_code?.batch?.supplier ?? null,
+      unit_cost: item.game_code?.batch ? Number(item.game_code.batch.unit_cost) : null,
+      cost_currency: item.game_code?.batch?.currency ?? null
+    }))
 
     // Build optimized response
     const orderDetails = {
       id: order.id,
       user_id: order.user_id,
       total_amount: Number(order.total_amount),
+      discount_total: Number(order.discount_total),
+      fee_total: Number(order.fee_total),
+      promotion_code: order.promotion_code,
       payment_method: order.payment_method,
       status: order.status,
+      payment_expires_at: order.payment_expires_at?.toISOString() ?? null,
+      paid_at: order.paid_at?.toISOString() ?? null,
+      payment_reference: order.payment_reference,
+      payment_confirmed_by: order.payment_confirmer?.email ?? null,
       created_at: order.created_at.toISOString(),
       updated_at: order.created_at.toISOString(),
       customer_name: order.user?.full_name || null,
       customer_email: order.user?.email || null,
       customer_credit_balance: order.user?.credit_balance ? Number(order.user.credit_balance) : 0,
-      items: transformedItems
+      items: transformedItems,
+      // Refunded items no longer count towards the order's margin; revenue is net of discounts
+      margin: summarizeMargin(order.order_items.filter(item => !item.refund_item).map(item => ({
+        unitPrice: Number(item.unit_price) - Number(item.discount_amount) / item.quantity,
+        quantity: item.quantity,
+        batch: item.game_code?.batch ?? null
+      }))),
+      refunds: order.refunds.map(refund => ({
+        id: refund.id,
+        amount: Number(refund.amount),
+        reason: refund.reason,
+        code_action: refund.code_action,
+        refunded_by: refund.refunder.email,
+        item_count: refund.items.length,
+        created_at: refund.created_at.toISOString()
+      }))
     }
 
     return NextResponse.json(orderDetails)
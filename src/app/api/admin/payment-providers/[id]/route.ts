@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { setPaymentProviderEnabled } from '@/lib/payment-providers'
+import { z } from 'zod'
+
+// Payment provider update schema
+const updatePaymentProviderSchema = z.object({
+  is_enabled: z.boolean(),
+})
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * PATCH /api/admin/payment-providers/[id]
+ * Enable or disable a payment provider for customers (Admin only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedData = updatePaymentProviderSchema.parse(body)
+
+    let provider
+    try {
+      provider = await setPaymentProviderEnabled(prisma, id, validatedData.is_enabled, authResult.user.id)
+    } catch (error) {
+      // Unknown provider, or enabling one that is not configured here
+      if (error instanceof Error) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+      throw error
+    }
+
+    return NextResponse.json({
+      provider,
+      message: `${provider.name} ${provider.isEnabled ? 'enabled' : 'disabled'}`
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.errors,
+      }, { status: 400 })
+    }
+
+    console.error('Payment provider PATCH error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
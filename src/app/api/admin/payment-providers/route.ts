@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { listPaymentProviders } from '@/lib/payment-providers'
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * GET /api/admin/payment-providers
+ * List every payment provider the store ships with, whether it can run in
+ * this environment and whether customers may use it (Admin only)
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const providers = await listPaymentProviders(prisma)
+
+    return NextResponse.json({ providers })
+  } catch (error) {
+    console.error('Payment providers GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
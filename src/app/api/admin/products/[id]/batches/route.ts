@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+
+// Batch creation schema
+const createBatchSchema = z.object({
+  supplier: z.string().trim().min(1, 'Supplier is required'),
+  purchase_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Purchase date must be YYYY-MM-DD'),
+  unit_cost: z.number().min(0, 'Unit cost cannot be negative'),
+  currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter code').default('USD'),
+  invoice_reference: z.string().trim().min(1).nullable().optional(),
+})
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * GET /api/admin/products/[id]/batches
+ * List supplier batches for a product with their code counts (Admin only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: productId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { data: batches, error } = await supabase
+      .from('code_batches')
+      .select(`
+        *,
+        game_codes(count)
+      `)
+      .eq('product_id', productId)
+      .order('purchase_date', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching code batches:', error)
+      return NextResponse.json({ error: 'Failed to fetch batches' }, { status: 500 })
+    }
+
+    return NextResponse.json({ batches: batches || [] })
+  } catch (error) {
+    console.error('Code batches GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/products/[id]/batches
+ * Record a new supplier batch for a product (Admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: productId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    // Verify product exists
+    const { data: product, error: productError } = await supabase
+      .from('products')
+      .select('id, product_type')
+      .eq('id', productId)
+      .single()
+
+    if (productError || !product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    if (product.product_type === 'bundle') {
+      return NextResponse.json({ error: 'Bundles have no batches of their own; record batches on their component products' }, { status: 400 })
+    }
+
+    // Products sold in variants hold no codes; each variant has its own pool
+    const { count: variantCount } = await supabase
+      .from('products')
+      .select('id', { count: 'exact', head: true })
+      .eq('parent_id', productId)
+
+    if (variantCount) {
+      return NextResponse.json({ error: 'Products sold in variants have no batches of their own; record batches on a variant' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validatedData = createBatchSchema.parse(body)
+
+    const { data: batch, error: createError } = await supabase
+      .from('code_batches')
+      .insert({
+        ...validatedData,
+        invoice_reference: validatedData.invoice_reference ?? null,
+        product_id: productId,
+        created_by: authResult.user.id,
+      })
+      .select()
+      .single()
+
+    if (createError) {
+      console.error('Error creating code batch:', createError)
+      return NextResponse.json({ error: 'Failed to create batch' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      batch,
+      message: 'Batch created successfully'
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.errors,
+      }, { status: 400 })
+    }
+
+    console.error('Code batches POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import {
+  GAME_CODE_STATUSES,
+  GameCodeStatus,
+  changeGameCodeStatus,
+  getManualGameCodeTransitions,
+} from '@/lib/code-status'
+import { z } from 'zod'
+
+const changeStatusSchema = z.object({
+  status: z.enum(GAME_CODE_STATUSES as [GameCodeStatus, ...GameCodeStatus[]]),
+  reason: z.string().trim().min(3, 'A reason is required').max(500),
+})
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * GET /api/admin/products/[id]/codes/[codeId]/status
+ * Status history of a game code, newest first (Admin only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; codeId: string }> }
+) {
+  try {
+    const { id: productId, codeId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const gameCode = await prisma.gameCode.findFirst({
+      where: { id: codeId, product_id: productId },
+      select: {
+        id: true,
+        status: true,
+        status_changes: {
+          orderBy: { created_at: 'desc' },
+          select: {
+            id: true,
+            from_status: true,
+            to_status: true,
+            reason: true,
+            order_id: true,
+            created_at: true,
+            changer: { select: { email: true } },
+          },
+        },
+      },
+    })
+
+    if (!gameCode) {
+      return NextResponse.json({ error: 'Game code not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      status: gameCode.status,
+      allowedTransitions: getManualGameCodeTransitions(gameCode.status as GameCodeStatus),
+      history: gameCode.status_changes.map(change => ({
+        id: change.id,
+        from_status: change.from_status,
+        to_status: change.to_status,
+        reason: change.reason,
+        order_id: change.order_id,
+        changed_by: change.changer?.email ?? null,
+        created_at: change.created_at,
+      })),
+    })
+  } catch (error) {
+    console.error('Game code status GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/products/[id]/codes/[codeId]/status
+ * Move a game code to a new status with a reason (Admin only).
+ * Reserving and selling happen through checkout and are rejected here.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; codeId: string }> }
+) {
+  try {
+    const { id: productId, codeId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const { status, reason } = changeStatusSchema.parse(body)
+
+    const gameCode = await prisma.gameCode.findFirst({
+      where: { id: codeId, product_id: productId },
+      select: { id: true, status: true, order_id: true },
+    })
+
+    if (!gameCode) {
+      return NextResponse.json({ error: 'Game code not found' }, { status: 404 })
+    }
+
+    const currentStatus = gameCode.status as GameCodeStatus
+    if (!getManualGameCodeTransitions(currentStatus).includes(status)) {
+      return NextResponse.json({
+        error: `Cannot change a ${currentStatus} code to ${status}`
+      }, { status: 400 })
+    }
+
+    const changed = await prisma.$transaction(tx => changeGameCodeStatus(tx, {
+      codeId,
+      from: currentStatus,
+      to: status,
+      reason,
+      changedBy: authResult.user.id,
+      orderId: gameCode.order_id ?? undefined,
+    }))
+
+    // A checkout or another admin changed the code after we read it
+    if (!changed) {
+      return NextResponse.json({
+        error: 'Game code status changed in the meantime. Please refresh and retry.'
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      message: `Game code marked as ${status}`,
+      codeId,
+      status,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.errors,
+      }, { status: 400 })
+    }
+
+    console.error('Game code status POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,14 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { encryptGameCode } from '@/lib/encryption'
+import { encryptGameCode, fingerprintGameCode } from '@/lib/encryption'
 import { z } from 'zod'
 
 // Bulk upload schema
 const bulkUploadSchema = z.object({
   codes: z.array(z.string().min(1, 'Code cannot be empty')),
   method: z.enum(['textarea', 'csv']).default('textarea'),
+  batchId: z.string().uuid().nullable().optional(),
+  expiresAt: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expiry date must be YYYY-MM-DD')
+    .refine(date => new Date(date).getTime() > Date.now(), 'Expiry date must be in the future')
+    .nullable()
+    .optional(),
 })
 
+// Keep `.in()` filters well under URL length limits
+const FINGERPRINT_LOOKUP_CHUNK = 200
+
 /**
  * Helper function to verify admin access
  */
@@ -52,7 +61,7 @@ export async function POST(
     // Verify product exists
     const { data: product, error: productError } = await supabase
       .from('products')
-      .select('id, name')
+      .select('id, name, product_type')
       .eq('id', productId)
       .single()
 
@@ -60,9 +69,23 @@ export async function POST(
       return NextResponse.json({ error: 'Product not found' }, { status: 404 })
     }
 
+    if (product.product_type === 'bundle') {
+      return NextResponse.json({ error: 'Bundles have no codes of their own; add codes to their component products' }, { status: 400 })
+    }
+
+    // Products sold in variants hold no codes; each variant has its own pool
+    const { count: variantCount } = await supabase
+      .from('products')
+      .select('id', { count: 'exact', head: true })
+      .eq('parent_id', productId)
+
+    if (variantCount) {
+      return NextResponse.json({ error: 'Products sold in variants have no codes of their own; add codes to a variant' }, { status: 400 })
+    }
+
     // Parse and validate request body
     const body = await request.json()
-    const { codes, method } = bulkUploadSchema.parse(body)
+    const { codes, method, batchId, expiresAt } = bulkUploadSchema.parse(body)
 
     if (codes.length === 0) {
       return NextResponse.json({ error: 'No codes provided' }, { status: 400 })
@@ -74,6 +97,20 @@ export async function POST(
       }, { status: 400 })
     }
 
+    // A batch must belong to the same product
+    if (batchId) {
+      const { data: batch, error: batchError } = await supabase
+        .from('code_batches')
+        .select('id')
+        .eq('id', batchId)
+        .eq('product_id', productId)
+        .single()
+
+      if (batchError || !batch) {
+        return NextResponse.json({ error: 'Batch not found for this product' }, { status: 400 })
+      }
+    }
+
     // Process codes for bulk insertion
     const results = {
       success: true,
@@ -83,25 +120,36 @@ export async function POST(
       totalProcessed: codes.length,
     }
 
-    // Get existing codes for this product to check for duplicates
-    const { data: existingCodes, error: existingError } = await supabase
-      .from('game_codes')
-      .select('encrypted_code')
-      .eq('product_id', productId)
+    // Fingerprint every code up front so duplicates can be found without decrypting
+    const fingerprints = codes.map(code => code.trim() ? fingerprintGameCode(code) : null)
+    const uniqueFingerprints = Array.from(new Set(fingerprints.filter((f): f is string => !!f)))
 
-    if (existingError) {
-      console.error('Error fetching existing codes:', existingError)
-      return NextResponse.json({ error: 'Failed to check existing codes' }, { status: 500 })
-    }
+    // Look up fingerprints that already exist anywhere in the inventory
+    const existingByFingerprint = new Map<string, string>()
+    for (let i = 0; i < uniqueFingerprints.length; i += FINGERPRINT_LOOKUP_CHUNK) {
+      const { data: existingCodes, error: existingError } = await supabase
+        .from('game_codes')
+        .select('code_fingerprint, product_id')
+        .in('code_fingerprint', uniqueFingerprints.slice(i, i + FINGERPRINT_LOOKUP_CHUNK))
+
+      if (existingError) {
+        console.error('Error fetching existing codes:', existingError)
+        return NextResponse.json({ error: 'Failed to check existing codes' }, { status: 500 })
+      }
 
-    const existingCodeSet = new Set(existingCodes?.map(c => c.encrypted_code) || [])
+      existingCodes?.forEach(c => existingByFingerprint.set(c.code_fingerprint, c.product_id))
+    }
     
     // Process each code
     const codesToInsert: Array<{
       product_id: string
       encrypted_code: string
-      is_sold: boolean
+      code_fingerprint: string
+      batch_id: string | null
+      expires_at: string | null
+      status: 'available'
     }> = []
+    const batchFingerprints = new Set<string>()
 
     codes.forEach((code, index) => {
       try {
@@ -112,6 +160,7 @@ export async function POST(
         }
 
         const cleanCode = code.trim()
+        const fingerprint = fingerprints[index] as string
 
         // Check for minimum length
         if (cleanCode.length < 3) {
@@ -120,25 +169,33 @@ export async function POST(
         }
 
         // Check for duplicates within the upload batch
-        const isDuplicateInBatch = codesToInsert.some(c => c.encrypted_code === cleanCode)
-        if (isDuplicateInBatch) {
+        if (batchFingerprints.has(fingerprint)) {
           results.duplicates++
           results.errors.push(`Line ${index + 1}: Duplicate code in upload: "${cleanCode}"`)
           return
         }
 
-        // Check for duplicates in database
-        if (existingCodeSet.has(cleanCode)) {
+        // Check for duplicates across the inventory
+        const existingProductId = existingByFingerprint.get(fingerprint)
+        if (existingProductId) {
           results.duplicates++
-          results.errors.push(`Line ${index + 1}: Code already exists: "${cleanCode}"`)
+          results.errors.push(
+            existingProductId === productId
+              ? `Line ${index + 1}: Code already exists: "${cleanCode}"`
+              : `Line ${index + 1}: Code already exists for another product: "${cleanCode}"`
+          )
           return
         }
 
         // Code is valid, add to insertion list
+        batchFingerprints.add(fingerprint)
         codesToInsert.push({
           product_id: productId,
-          encrypted_code: encryptGameCode(cleanCode), // Now properly encrypted!
-          is_sold: false,
+          encrypted_code: encryptGameCode(cleanCode),
+          code_fingerprint: fingerprint,
+          batch_id: batchId ?? null,
+          expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+          status: 'available',
         })
       } catch (error) {
         results.errors.push(`Line ${index + 1}: Processing error: ${error}`)
@@ -151,6 +208,13 @@ export async function POST(
         .from('game_codes')
         .insert(codesToInsert)
 
+      // Another upload inserted one of these codes after our duplicate check
+      if (insertError?.code === '23505') {
+        return NextResponse.json({ 
+          error: 'One or more codes were added by another upload. Please retry.',
+        }, { status: 409 })
+      }
+
       if (insertError) {
         console.error('Error inserting codes:', insertError)
         return NextResponse.json({ 
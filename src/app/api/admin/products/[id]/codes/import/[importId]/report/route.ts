@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { formatImportReportCsv, ImportRowIssue } from '@/lib/code-import'
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * GET /api/admin/products/[id]/codes/import/[importId]/report
+ * Download the rejected-row report of an import as CSV (Admin only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; importId: string }> }
+) {
+  try {
+    const { id: productId, importId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { data: codeImport, error } = await supabase
+      .from('code_imports')
+      .select('id, file_name, report')
+      .eq('id', importId)
+      .eq('product_id', productId)
+      .single()
+
+    if (error || !codeImport) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 })
+    }
+
+    const issues: ImportRowIssue[] = codeImport.report?.issues || []
+    const baseName = codeImport.file_name.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_')
+
+    return new NextResponse(formatImportReportCsv(issues), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${baseName}-import-report.csv"`,
+      },
+    })
+  } catch (error) {
+    console.error('Code import report error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
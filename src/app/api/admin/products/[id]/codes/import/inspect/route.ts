@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { inspectImportFile, readImportForm } from '@/lib/code-import'
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * POST /api/admin/products/[id]/codes/import/inspect
+ * Read the header row and a few sample rows of a CSV/XLSX file (Admin only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const form = readImportForm(await request.formData())
+    if ('error' in form) {
+      return NextResponse.json({ error: form.error }, { status: 400 })
+    }
+
+    try {
+      const inspection = await inspectImportFile(form.file, form.fileType)
+      return NextResponse.json({ fileType: form.fileType, ...inspection })
+    } catch (error) {
+      console.error('Import file could not be read:', error)
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Could not read the file'
+      }, { status: 400 })
+    }
+  } catch (error) {
+    console.error('Import inspect error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
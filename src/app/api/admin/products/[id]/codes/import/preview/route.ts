@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createSupabaseImportStore, processCodeImport, readImportForm } from '@/lib/code-import'
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * POST /api/admin/products/[id]/codes/import/preview
+ * Validate every row of an import file without inserting anything (Admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: productId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const form = readImportForm(await request.formData())
+    if ('error' in form) {
+      return NextResponse.json({ error: form.error }, { status: 400 })
+    }
+
+    try {
+      const result = await processCodeImport({
+        file: form.file,
+        fileType: form.fileType,
+        mapping: form.mapping,
+        productId,
+        store: createSupabaseImportStore(supabase, productId),
+        commit: false,
+      })
+
+      return NextResponse.json(result)
+    } catch (error) {
+      console.error('Import preview failed:', error)
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Could not read the file'
+      }, { status: 400 })
+    }
+  } catch (error) {
+    console.error('Import preview error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { createSupabaseImportStore, processCodeImport, readImportForm } from '@/lib/code-import'
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * GET /api/admin/products/[id]/codes/import
+ * List past imports for a product (Admin only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: productId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { data: imports, error } = await supabase
+      .from('code_imports')
+      .select('id, file_name, file_type, status, total_rows, imported_rows, duplicate_rows, error_rows, error_message, created_at, completed_at')
+      .eq('product_id', productId)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    if (error) {
+      console.error('Error fetching code imports:', error)
+      return NextResponse.json({ error: 'Failed to fetch imports' }, { status: 500 })
+    }
+
+    return NextResponse.json({ imports: imports || [] })
+  } catch (error) {
+    console.error('Code import list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/products/[id]/codes/import
+ * Import a CSV/XLSX file of game codes in chunks and store the report (Admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: productId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    // Verify product exists
+    const { data: product, error: productError } = await supabase
+      .from('products')
+      .select('id, name, product_type')
+      .eq('id', productId)
+      .single()
+
+    if (productError || !product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    if (product.product_type === 'bundle') {
+      return NextResponse.json({ error: 'Bundles have no codes of their own; add codes to their component products' }, { status: 400 })
+    }
+
+    // Products sold in variants hold no codes; each variant has its own pool
+    const { count: variantCount } = await supabase
+      .from('products')
+      .select('id', { count: 'exact', head: true })
+      .eq('parent_id', productId)
+
+    if (variantCount) {
+      return NextResponse.json({ error: 'Products sold in variants have no codes of their own; add codes to a variant' }, { status: 400 })
+    }
+
+    const form = readImportForm(await request.formData())
+    if ('error' in form) {
+      return NextResponse.json({ error: form.error }, { status: 400 })
+    }
+
+    if (!form.mapping.code) {
+      return NextResponse.json({ error: 'A column must be mapped to the code field' }, { status: 400 })
+    }
+
+    // A batch must belong to the same product
+    if (form.batchId) {
+      const { data: batch, error: batchError } = await supabase
+        .from('code_batches')
+        .select('id')
+        .eq('id', form.batchId)
+        .eq('product_id', productId)
+        .single()
+
+      if (batchError || !batch) {
+        return NextResponse.json({ error: 'Batch not found for this product' }, { status: 400 })
+      }
+    }
+
+    // Record the import first so inserted codes can reference it
+    const { data: codeImport, error: createError } = await supabase
+      .from('code_imports')
+      .insert({
+        product_id: productId,
+        created_by: authResult.user.id,
+        file_name: form.file.name,
+        file_type: form.fileType,
+        column_mapping: form.mapping,
+        status: 'processing',
+      })
+      .select('id')
+      .single()
+
+    if (createError || !codeImport) {
+      console.error('Error creating code import:', createError)
+      return NextResponse.json({ error: 'Failed to start import' }, { status: 500 })
+    }
+
+    try {
+      const result = await processCodeImport({
+        file: form.file,
+        fileType: form.fileType,
+        mapping: form.mapping,
+        productId,
+        store: createSupabaseImportStore(supabase, productId, codeImport.id, form.batchId),
+        commit: true,
+        previewLimit: 0,
+      })
+
+      await supabase
+        .from('code_imports')
+        .update({
+          status: 'completed',
+          total_rows: result.summary.totalRows,
+          imported_rows: result.summary.importedRows,
+          duplicate_rows: result.summary.duplicateRows,
+          error_rows: result.summary.errorRows,
+          report: { issues: result.issues, truncated: result.issuesTruncated },
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', codeImport.id)
+
+      return NextResponse.json({
+        message: `Import completed. Added ${result.summary.importedRows} codes.`,
+        importId: codeImport.id,
+        productName: product.name,
+        ...result,
+      }, { status: 201 })
+    } catch (error) {
+      // Chunks already committed stay in stock; the record shows how far it got
+      const { count: importedRows } = await supabase
+        .from('game_codes')
+        .select('id', { count: 'exact', head: true })
+        .eq('import_id', codeImport.id)
+
+      await supabase
+        .from('code_imports')
+        .update({
+          status: 'failed',
+          imported_rows: importedRows || 0,
+          error_message: error instanceof Error ? error.message : 'Import failed',
+          completed_at: new Date().toISOString(),
+        })
+        .eq('id', codeImport.id)
+
+      console.error('Code import failed:', error)
+      return NextResponse.json({
+        error: error instanceof Error ? error.message : 'Import failed',
+        importId: codeImport.id,
+        importedRows: importedRows || 0,
+      }, { status: 400 })
+    }
+  } catch (error) {
+    console.error('Code import error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
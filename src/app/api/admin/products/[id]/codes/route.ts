@@ -1,6 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { decryptGameCode } from '@/lib/encryption'
+import { decryptGameCode, encryptGameCode, fingerprintGameCode, loadKeyring } from '@/lib/encryption'
+import { GAME_CODE_STATUSES, GameCodeStatus } from '@/lib/code-status'
+import { z } from 'zod'
+
+// Single code upload schema
+const addCodeSchema = z.object({
+  code: z.string().trim().min(3, 'Code must be at least 3 characters'),
+  batchId: z.string().uuid().nullable().optional(),
+  expiresAt: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expiry date must be YYYY-MM-DD')
+    .refine(date => new Date(date).getTime() > Date.now(), 'Expiry date must be in the future')
+    .nullable()
+    .optional(),
+})
 
 /**
  * Verify admin access for the request
@@ -59,8 +72,10 @@ export async function GET(
       .select(`
         id,
         encrypted_code,
+        status,
         is_sold,
         sold_at,
+        expires_at,
         created_at,
         order_id
       `)
@@ -72,11 +87,13 @@ export async function GET(
       return NextResponse.json({ error: 'Failed to fetch game codes' }, { status: 500 })
     }
 
-    // Decrypt codes for admin viewing
+    // Decrypt codes for admin viewing, loading the keyring once for the whole inventory
+    const keyring = loadKeyring()
+    const now = Date.now()
     const decryptedCodes = (gameCodes || []).map(code => {
       let decryptedCode = 'DECRYPTION_ERROR'
       try {
-        decryptedCode = decryptGameCode(code.encrypted_code)
+        decryptedCode = decryptGameCode(code.encrypted_code, keyring)
       } catch (error) {
         console.error('Error decrypting game code:', error)
       }
@@ -84,13 +101,20 @@ export async function GET(
       return {
         id: code.id,
         code: decryptedCode,
+        status: code.status as GameCodeStatus,
         is_sold: code.is_sold,
         sold_at: code.sold_at,
+        expires_at: code.expires_at,
+        is_expired: code.status === 'available' && !!code.expires_at && new Date(code.expires_at).getTime() <= now,
         created_at: code.created_at,
         order_id: code.order_id,
       }
     })
 
+    const statusCounts = Object.fromEntries(
+      GAME_CODE_STATUSES.map(status => [status, decryptedCodes.filter(code => code.status === status).length])
+    ) as Record<GameCodeStatus, number>
+
     return NextResponse.json({
       product: {
         id: product.id,
@@ -98,8 +122,10 @@ export async function GET(
       },
       codes: decryptedCodes,
       total: decryptedCodes.length,
-      available: decryptedCodes.filter(code => !code.is_sold).length,
+      available: decryptedCodes.filter(code => code.status === 'available' && !code.is_expired).length,
       sold: decryptedCodes.filter(code => code.is_sold).length,
+      expired: decryptedCodes.filter(code => code.is_expired).length,
+      statusCounts,
     })
   } catch (error) {
     console.error('Admin product codes GET error:', error)
@@ -107,6 +133,127 @@ export async function GET(
   }
 }
 
+/**
+ * POST /api/admin/products/[id]/codes
+ * Add a single game code to a product (Admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: productId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    // Verify product exists
+    const { data: product, error: productError } = await supabase
+      .from('products')
+      .select('id, product_type')
+      .eq('id', productId)
+      .single()
+
+    if (productError || !product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    if (product.product_type === 'bundle') {
+      return NextResponse.json({ error: 'Bundles have no codes of their own; add codes to their component products' }, { status: 400 })
+    }
+
+    // Products sold in variants hold no codes; each variant has its own pool
+    const { count: variantCount } = await supabase
+      .from('products')
+      .select('id', { count: 'exact', head: true })
+      .eq('parent_id', productId)
+
+    if (variantCount) {
+      return NextResponse.json({ error: 'Products sold in variants have no codes of their own; add codes to a variant' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const { code, batchId, expiresAt } = addCodeSchema.parse(body)
+    const fingerprint = fingerprintGameCode(code)
+
+    // A batch must belong to the same product
+    if (batchId) {
+      const { data: batch, error: batchError } = await supabase
+        .from('code_batches')
+        .select('id')
+        .eq('id', batchId)
+        .eq('product_id', productId)
+        .single()
+
+      if (batchError || !batch) {
+        return NextResponse.json({ error: 'Batch not found for this product' }, { status: 400 })
+      }
+    }
+
+    // Reject codes that already exist anywhere in the inventory
+    const { data: existingCode, error: existingError } = await supabase
+      .from('game_codes')
+      .select('id, product_id')
+      .eq('code_fingerprint', fingerprint)
+      .maybeSingle()
+
+    if (existingError) {
+      console.error('Error checking existing code:', existingError)
+      return NextResponse.json({ error: 'Failed to check existing codes' }, { status: 500 })
+    }
+
+    if (existingCode) {
+      return NextResponse.json({
+        error: existingCode.product_id === productId
+          ? 'Code already exists for this product'
+          : 'Code already exists for another product'
+      }, { status: 409 })
+    }
+
+    const { data: gameCode, error: insertError } = await supabase
+      .from('game_codes')
+      .insert({
+        product_id: productId,
+        encrypted_code: encryptGameCode(code),
+        code_fingerprint: fingerprint,
+        batch_id: batchId ?? null,
+        expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+        status: 'available',
+      })
+      .select('id, status, is_sold, created_at')
+      .single()
+
+    // The unique index catches a concurrent upload of the same code
+    if (insertError?.code === '23505') {
+      return NextResponse.json({ error: 'Code already exists' }, { status: 409 })
+    }
+
+    if (insertError || !gameCode) {
+      console.error('Error inserting game code:', insertError)
+      return NextResponse.json({ error: 'Failed to add game code' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      message: 'Game code added successfully',
+      code: gameCode,
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.errors,
+      }, { status: 400 })
+    }
+
+    console.error('Admin game code POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
 /**
  * DELETE /api/admin/products/[id]/codes
  * Delete a specific game code (Admin only)
@@ -136,7 +283,7 @@ export async function DELETE(
     // Check if the code exists and belongs to this product
     const { data: gameCode, error: codeError } = await supabase
       .from('game_codes')
-      .select('id, is_sold, product_id')
+      .select('id, status, product_id')
       .eq('id', codeId)
       .eq('product_id', productId)
       .single()
@@ -145,10 +292,10 @@ export async function DELETE(
       return NextResponse.json({ error: 'Game code not found' }, { status: 404 })
     }
 
-    // Prevent deletion of sold codes
-    if (gameCode.is_sold) {
+    // Prevent deletion of sold or reserved codes
+    if (!['available', 'voided'].includes(gameCode.status)) {
       return NextResponse.json({ 
-        error: 'Cannot delete sold game codes. This would break order history.' 
+        error: 'Cannot delete sold or reserved game codes. This would break order history.' 
       }, { status: 400 })
     }
 
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { setBundleComponents } from '@/lib/bundles'
+import { z } from 'zod'
+
+// Bundle component list schema; replaces the whole list
+const bundleComponentsSchema = z.object({
+  components: z.array(z.object({
+    componentId: z.string().uuid(),
+    quantity: z.number().int().min(1, 'Quantity must be at least 1').max(100),
+  })).min(1, 'A bundle needs at least one component'),
+})
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * GET /api/admin/products/[id]/components
+ * List a bundle's component products and quantities (Admin only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bundleId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const components = await prisma.bundleComponent.findMany({
+      where: { bundle_id: bundleId },
+      include: { component: { select: { id: true, name: true, platform: true, price: true } } },
+      orderBy: { created_at: 'asc' },
+    })
+
+    return NextResponse.json({ components })
+  } catch (error) {
+    console.error('Bundle components GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/admin/products/[id]/components
+ * Replace a bundle's components (Admin only). Orders already placed keep the
+ * codes they were given.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bundleId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validation = bundleComponentsSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      }, { status: 400 })
+    }
+
+    let components
+    try {
+      components = await prisma.$transaction(tx =>
+        setBundleComponents(tx, bundleId, validation.data.components)
+      )
+    } catch (error) {
+      // Not a bundle, or a component is missing, a bundle or listed twice
+      if (error instanceof Error) {
+        const status = error.message === 'Product not found' ? 404 : 400
+        return NextResponse.json({ error: error.message }, { status })
+      }
+      throw error
+    }
+
+    return NextResponse.json({
+      components,
+      message: 'Bundle components updated successfully'
+    })
+  } catch (error) {
+    console.error('Bundle components PUT error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
+import { SOLD_GAME_CODE_STATUSES } from '@/lib/code-status'
 
 // Product update schema (all fields optional for PATCH)
 const updateProductSchema = z.object({
@@ -10,6 +11,7 @@ const updateProductSchema = z.object({
   price: z.number().min(0.01, 'Price must be greater than 0').optional(),
   image_url: z.string().url('Must be a valid URL').nullable().optional(),
   is_active: z.boolean().optional(),
+  low_stock_threshold: z.number().int().min(0, 'Threshold cannot be negative').optional(),
 })
 
 // Full product update schema for PUT
@@ -20,6 +22,7 @@ const replaceProductSchema = z.object({
   price: z.number().min(0.01, 'Price must be greater than 0'),
   image_url: z.string().url('Must be a valid URL').nullable().optional(),
   is_active: z.boolean().default(true),
+  low_stock_threshold: z.number().int().min(0, 'Threshold cannot be negative').default(5),
 })
 
 /**
@@ -226,12 +229,12 @@ export async function DELETE(
       return NextResponse.json({ error: authResult.error }, { status: authResult.status })
     }
 
-    // Check if product has any sold game codes (should not delete if there are orders)
+    // Check if product has any sold or reserved game codes (should not delete if there are orders)
     const { data: soldCodes, error: soldCodesError } = await supabase
       .from('game_codes')
       .select('id')
       .eq('product_id', id)
-      .eq('is_sold', true)
+      .in('status', ['reserved', ...SOLD_GAME_CODE_STATUSES])
       .limit(1)
 
     if (soldCodesError) {
@@ -250,7 +253,7 @@ export async function DELETE(
       .from('game_codes')
       .delete()
       .eq('product_id', id)
-      .eq('is_sold', false)
+      .in('status', ['available', 'voided'])
 
     if (deleteCodesError) {
       console.error('Error deleting game codes:', deleteCodesError)
@@ -263,6 +266,13 @@ export async function DELETE(
       .delete()
       .eq('id', id)
 
+    // Still a component of a bundle, sold as a bundle, or has variants
+    if (deleteProductError?.code === '23503') {
+      return NextResponse.json({
+        error: 'This product has variants, is part of a bundle or is in order history. Remove its variants or bundles, or deactivate it instead.'
+      }, { status: 409 })
+    }
+
     if (deleteProductError) {
       if (deleteProductError.code === 'PGRST116') {
         return NextResponse.json({ error: 'Product not found' }, { status: 404 })
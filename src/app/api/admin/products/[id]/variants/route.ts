@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { setProductVariants } from '@/lib/variants'
+import { z } from 'zod'
+
+// Variant list schema; replaces the whole list
+const productVariantsSchema = z.object({
+  variants: z.array(z.object({
+    id: z.string().uuid().optional(),
+    label: z.string().trim().min(1, 'Label is required').max(50),
+    price: z.number().min(0.01, 'Price must be greater than 0'),
+    isActive: z.boolean().default(true),
+  })).max(20),
+})
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * GET /api/admin/products/[id]/variants
+ * List a product's variants, cheapest first (Admin only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: productId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const variants = await prisma.product.findMany({
+      where: { parent_id: productId },
+      orderBy: [{ price: 'asc' }, { created_at: 'asc' }],
+    })
+
+    return NextResponse.json({ variants })
+  } catch (error) {
+    console.error('Product variants GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/admin/products/[id]/variants
+ * Replace a product's variants (Admin only). Variants left out are deleted,
+ * or deactivated if they have codes or are part of a bundle.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: productId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validation = productVariantsSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      }, { status: 400 })
+    }
+
+    let variants
+    try {
+      variants = await prisma.$transaction(tx =>
+        setProductVariants(tx, productId, validation.data.variants)
+      )
+    } catch (error) {
+      // Reason: a concurrent request saved the same label
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return NextResponse.json({ error: 'Each variant label can only be used once' }, { status: 409 })
+      }
+      // A variant, bundle or product with codes, or a repeated label
+      if (error instanceof Error) {
+        const status = error.message === 'Product not found' ? 404 : 400
+        return NextResponse.json({ error: error.message }, { status })
+      }
+      throw error
+    }
+
+    return NextResponse.json({
+      variants,
+      message: 'Product variants updated successfully'
+    })
+  } catch (error) {
+    console.error('Product variants PUT error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
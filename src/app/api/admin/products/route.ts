@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { getProductMargins } from '@/lib/margins'
+import { getAvailableStock } from '@/lib/bundles'
 import { z } from 'zod'
 
 // Product creation schema
@@ -10,11 +13,15 @@ const createProductSchema = z.object({
   price: z.number().min(0.01, 'Price must be greater than 0'),
   image_url: z.string().url('Must be a valid URL').nullable().optional(),
   is_active: z.boolean().default(true),
+  low_stock_threshold: z.number().int().min(0, 'Threshold cannot be negative').default(5),
+  // Fixed once created; bundles get their components from the components endpoint
+  product_type: z.enum(['single', 'bundle']).default('single'),
 })
 
 /**
  * GET /api/admin/products
- * Retrieve all products with game code counts (Admin only)
+ * Retrieve all products with game code counts, sellable stock, bundle
+ * components and margins (Admin only)
  */
 export async function GET() {
   try {
@@ -37,12 +44,17 @@ export async function GET() {
       return NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 })
     }
 
-    // Get products with game code counts
+    // Get products with game code counts and bundle components
     const { data: products, error: productsError } = await supabase
       .from('products')
       .select(`
         *,
-        game_codes(count)
+        game_codes(count),
+        bundle_components!bundle_components_bundle_id_fkey(
+          component_id,
+          quantity,
+          component:products!bundle_components_component_id_fkey(id, name, platform, price)
+        )
       `)
       .order('created_at', { ascending: false })
 
@@ -51,7 +63,18 @@ export async function GET() {
       return NextResponse.json({ error: 'Failed to fetch products' }, { status: 500 })
     }
 
-    return NextResponse.json({ products })
+    // Margins need order, code and batch data together; read them from the view
+    const margins = await getProductMargins(prisma)
+    // Bundles have no codes of their own; their stock comes from their components
+    const stock = await getAvailableStock(prisma, products?.map(product => product.id) ?? [])
+
+    return NextResponse.json({
+      products: products?.map(product => ({
+        ...product,
+        available_stock: stock.get(product.id) ?? 0,
+        margin: margins.get(product.id) ?? null,
+      })),
+    })
   } catch (error) {
     console.error('Admin products GET error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+
+// Promotion update schema; the code, discount and scope are fixed once created
+const updatePromotionSchema = z.object({
+  description: z.string().trim().max(200).nullable().optional(),
+  min_subtotal: z.number().min(0, 'Minimum spend cannot be negative').optional(),
+  max_redemptions: z.number().int().positive().nullable().optional(),
+  max_redemptions_per_user: z.number().int().positive().nullable().optional(),
+  starts_at: z.string().datetime().nullable().optional(),
+  ends_at: z.string().datetime().nullable().optional(),
+  is_active: z.boolean().optional(),
+})
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * PATCH /api/admin/promotions/[id]
+ * Change a promotion's description, minimum spend, limits, validity window or
+ * active flag (Admin only). Orders already placed keep their discount.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: promotionId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedData = updatePromotionSchema.parse(body)
+
+    const { data: promotion, error } = await supabase
+      .from('promotions')
+      .update(validatedData)
+      .eq('id', promotionId)
+      .select()
+      .maybeSingle()
+
+    // Check constraint, e.g. an end date before the start date
+    if (error?.code === '23514') {
+      return NextResponse.json({ error: 'End date must be after the start date' }, { status: 400 })
+    }
+
+    if (error) {
+      console.error('Error updating promotion:', error)
+      return NextResponse.json({ error: 'Failed to update promotion' }, { status: 500 })
+    }
+
+    if (!promotion) {
+      return NextResponse.json({ error: 'Promotion not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      promotion,
+      message: 'Promotion updated successfully'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.errors,
+      }, { status: 400 })
+    }
+
+    console.error('Promotion PATCH error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/admin/promotions/[id]
+ * Remove a promotion that was never used (Admin only). Used promotions are
+ * kept for their order history and can only be deactivated.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: promotionId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { data: promotion, error } = await supabase
+      .from('promotions')
+      .delete()
+      .eq('id', promotionId)
+      .select('id')
+      .maybeSingle()
+
+    // Redemptions reference the promotion
+    if (error?.code === '23503') {
+      return NextResponse.json({
+        error: 'This promotion has been used and cannot be deleted. Deactivate it instead.'
+      }, { status: 409 })
+    }
+
+    if (error) {
+      console.error('Error deleting promotion:', error)
+      return NextResponse.json({ error: 'Failed to delete promotion' }, { status: 500 })
+    }
+
+    if (!promotion) {
+      return NextResponse.json({ error: 'Promotion not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Promotion deleted successfully' })
+  } catch (error) {
+    console.error('Promotion DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
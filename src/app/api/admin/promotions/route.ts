@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+import { PROMOTION_CODE_PATTERN } from '@/lib/promotions'
+
+// Promotion creation schema; percentages are fractions (0.15 = 15%)
+const createPromotionSchema = z.object({
+  code: z.string().trim().toUpperCase().regex(PROMOTION_CODE_PATTERN, 'Code must be 3-32 letters, digits, dashes or underscores'),
+  description: z.string().trim().max(200).nullable().optional(),
+  discount_type: z.enum(['percentage', 'fixed']),
+  discount_value: z.number().positive('Discount must be positive'),
+  product_ids: z.array(z.string().uuid()).default([]),
+  platforms: z.array(z.string().trim().min(1)).default([]),
+  min_subtotal: z.number().min(0, 'Minimum spend cannot be negative').default(0),
+  max_redemptions: z.number().int().positive().nullable().optional(),
+  max_redemptions_per_user: z.number().int().positive().nullable().optional(),
+  starts_at: z.string().datetime().nullable().optional(),
+  ends_at: z.string().datetime().nullable().optional(),
+  is_active: z.boolean().default(true),
+}).refine(data => data.discount_type !== 'percentage' || data.discount_value <= 1, {
+  message: 'Percentage discount cannot exceed 100%',
+  path: ['discount_value'],
+}).refine(data => !data.starts_at || !data.ends_at || new Date(data.ends_at) > new Date(data.starts_at), {
+  message: 'End date must be after the start date',
+  path: ['ends_at'],
+})
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * GET /api/admin/promotions
+ * List all promotions with how often each was used (Admin only)
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { data: promotions, error } = await supabase
+      .from('promotions')
+      .select(`
+        *,
+        promotion_redemptions(count)
+      `)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching promotions:', error)
+      return NextResponse.json({ error: 'Failed to fetch promotions' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      promotions: (promotions || []).map(({ promotion_redemptions, ...promotion }) => ({
+        ...promotion,
+        redemption_count: promotion_redemptions?.[0]?.count ?? 0,
+      })),
+    })
+  } catch (error) {
+    console.error('Promotions GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/promotions
+ * Create a discount code (Admin only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedData = createPromotionSchema.parse(body)
+
+    const { data: promotion, error: createError } = await supabase
+      .from('promotions')
+      .insert({ ...validatedData, created_by: authResult.user.id })
+      .select()
+      .single()
+
+    if (createError?.code === '23505') {
+      return NextResponse.json({
+        error: `Discount code ${validatedData.code} already exists`
+      }, { status: 409 })
+    }
+
+    if (createError) {
+      console.error('Error creating promotion:', createError)
+      return NextResponse.json({ error: 'Failed to create promotion' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      promotion,
+      message: 'Promotion created successfully'
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.errors,
+      }, { status: 400 })
+    }
+
+    console.error('Promotions POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
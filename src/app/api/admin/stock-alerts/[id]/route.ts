@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * PATCH /api/admin/stock-alerts/[id]
+ * Acknowledge a low-stock alert so the next drop can raise a new one (Admin only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: alertId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { data: alert, error } = await supabase
+      .from('stock_alerts')
+      .update({
+        acknowledged_at: new Date().toISOString(),
+        acknowledged_by: authResult.user.id,
+      })
+      .eq('id', alertId)
+      .is('acknowledged_at', null)
+      .select('id, acknowledged_at')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error acknowledging stock alert:', error)
+      return NextResponse.json({ error: 'Failed to acknowledge alert' }, { status: 500 })
+    }
+
+    if (!alert) {
+      return NextResponse.json({ error: 'Alert not found or already acknowledged' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      alert,
+      message: 'Alert acknowledged'
+    })
+  } catch (error) {
+    console.error('Stock alert PATCH error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
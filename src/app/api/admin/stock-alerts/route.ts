@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * GET /api/admin/stock-alerts
+ * List unacknowledged low-stock alerts, newest first (Admin only)
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { data: alerts, error } = await supabase
+      .from('stock_alerts')
+      .select(`
+        id,
+        product_id,
+        order_id,
+        available_codes,
+        threshold,
+        created_at,
+        products(name, platform)
+      `)
+      .is('acknowledged_at', null)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching stock alerts:', error)
+      return NextResponse.json({ error: 'Failed to fetch stock alerts' }, { status: 500 })
+    }
+
+    return NextResponse.json({ alerts: alerts || [] })
+  } catch (error) {
+    console.error('Stock alerts GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
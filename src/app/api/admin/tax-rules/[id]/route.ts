@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+
+// Tax rule update schema; the region identifies the rule and cannot change
+const updateTaxRuleSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100).optional(),
+  rate: z.number().min(0, 'Rate cannot be negative').max(0.9999, 'Rate must be below 100%').optional(),
+  is_active: z.boolean().optional(),
+})
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * PATCH /api/admin/tax-rules/[id]
+ * Change a tax rule's name, rate or active flag (Admin only).
+ * Orders already placed keep the tax they were charged.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: taxRuleId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedData = updateTaxRuleSchema.parse(body)
+
+    const { data: taxRule, error } = await supabase
+      .from('tax_rules')
+      .update(validatedData)
+      .eq('id', taxRuleId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating tax rule:', error)
+      return NextResponse.json({ error: 'Failed to update tax rule' }, { status: 500 })
+    }
+
+    if (!taxRule) {
+      return NextResponse.json({ error: 'Tax rule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      taxRule,
+      message: 'Tax rule updated successfully'
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.errors,
+      }, { status: 400 })
+    }
+
+    console.error('Tax rule PATCH error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/admin/tax-rules/[id]
+ * Remove a tax rule; its region pays no tax from then on (Admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: taxRuleId } = await params
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { data: taxRule, error } = await supabase
+      .from('tax_rules')
+      .delete()
+      .eq('id', taxRuleId)
+      .select('id')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error deleting tax rule:', error)
+      return NextResponse.json({ error: 'Failed to delete tax rule' }, { status: 500 })
+    }
+
+    if (!taxRule) {
+      return NextResponse.json({ error: 'Tax rule not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: 'Tax rule deleted successfully' })
+  } catch (error) {
+    console.error('Tax rule DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { z } from 'zod'
+
+// Tax rule creation schema
+const createTaxRuleSchema = z.object({
+  region: z.string().trim().toUpperCase().regex(/^[A-Z]{2}(-[A-Z0-9]{1,3})?$/, 'Region must be a country code like DE or a subdivision like US-CA'),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  rate: z.number().min(0, 'Rate cannot be negative').max(0.9999, 'Rate must be below 100%'),
+  is_active: z.boolean().default(true),
+})
+
+/**
+ * Helper function to verify admin access
+ */
+async function verifyAdminAccess(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { error: 'Unauthorized', status: 401 }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+    return { error: 'Forbidden: Admin access required', status: 403 }
+  }
+
+  return { user, profile }
+}
+
+/**
+ * GET /api/admin/tax-rules
+ * List all tax rules, active or not (Admin only)
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { data: taxRules, error } = await supabase
+      .from('tax_rules')
+      .select('*')
+      .order('region', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching tax rules:', error)
+      return NextResponse.json({ error: 'Failed to fetch tax rules' }, { status: 500 })
+    }
+
+    return NextResponse.json({ taxRules: taxRules || [] })
+  } catch (error) {
+    console.error('Tax rules GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/admin/tax-rules
+ * Add a tax rule for a region (Admin only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient()
+
+    // Verify admin access
+    const authResult = await verifyAdminAccess(supabase)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedData = createTaxRuleSchema.parse(body)
+
+    const { data: taxRule, error: createError } = await supabase
+      .from('tax_rules')
+      .insert(validatedData)
+      .select()
+      .single()
+
+    if (createError?.code === '23505') {
+      return NextResponse.json({
+        error: `A tax rule for ${validatedData.region} already exists`
+      }, { status: 409 })
+    }
+
+    if (createError) {
+      console.error('Error creating tax rule:', createError)
+      return NextResponse.json({ error: 'Failed to create tax rule' }, { status: 500 })
+    }
+
+    return NextResponse.json({
+      taxRule,
+      message: 'Tax rule created successfully'
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Validation failed',
+        details: error.errors,
+      }, { status: 400 })
+    }
+
+    console.error('Tax rules POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { recordCreditTransaction } from '@/lib/credit-ledger'
 
 // User creation validation schema
 const createUserSchema = z.object({
@@ -275,7 +277,6 @@ export async function POST(request: NextRequest) {
         email,
         full_name,
         role,
-        credit_balance,
         is_banned: false,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
@@ -294,6 +295,26 @@ export async function POST(request: NextRequest) {
       }, { status: 500 })
     }
 
+    // Seed the initial balance through the credit ledger
+    let creditBalance = newProfile.credit_balance
+    if (credit_balance > 0) {
+      try {
+        const ledgerEntry = await recordCreditTransaction(prisma, {
+          userId: newProfile.id,
+          type: 'adjustment',
+          amount: credit_balance,
+          description: 'Initial balance on account creation',
+          createdBy: user.id,
+        })
+        creditBalance = Number(ledgerEntry.balance_after)
+      } catch (ledgerError) {
+        console.error('Error recording initial credit balance:', ledgerError)
+        return NextResponse.json({
+          error: 'User created but failed to set initial credit balance'
+        }, { status: 500 })
+      }
+    }
+
     return NextResponse.json({
       message: 'User created successfully',
       user: {
@@ -301,7 +322,7 @@ export async function POST(request: NextRequest) {
         email: newProfile.email,
         full_name: newProfile.full_name,
         role: newProfile.role,
-        credit_balance: newProfile.credit_balance,
+        credit_balance: creditBalance,
         is_banned: newProfile.is_banned,
         created_at: newProfile.created_at
       }
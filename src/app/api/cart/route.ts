@@ -0,0 +1,98 @@
+/**
+ * Saved Cart API Route
+ *
+ * Keeps signed-in users' carts on the server so they follow the user across
+ * devices. The browser loads the saved cart after sign-in and writes the
+ * whole cart back whenever it changes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { getSavedCart, saveCart } from '@/lib/cart'
+
+// Validation schema; the request replaces the whole saved cart
+const saveCartSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: z.number().int().min(1).max(100),
+  })).max(50).refine(
+    items => new Set(items.map(item => item.productId)).size === items.length,
+    'Each product can only be listed once'
+  ),
+})
+
+/**
+ * Get the signed-in user's saved cart with current prices and stock
+ * GET /api/cart
+ */
+export async function GET() {
+  try {
+    // Get authenticated user
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const items = await getSavedCart(prisma, user.id)
+
+    return NextResponse.json({ items })
+
+  } catch (error) {
+    console.error('Saved cart fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Replace the signed-in user's saved cart
+ * PUT /api/cart
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = saveCartSchema.parse(body)
+
+    await saveCart(prisma, user.id, validatedData.items)
+
+    return NextResponse.json({ message: 'Cart saved' })
+
+  } catch (error) {
+    console.error('Saved cart update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
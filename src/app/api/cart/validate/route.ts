@@ -0,0 +1,56 @@
+/**
+ * Cart Validation API Route
+ *
+ * Returns the current price, stock and availability of each product in a
+ * cart, so carts kept in the browser can be brought up to date before
+ * checkout. Open to guests as well as signed-in users.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import { getCartProductStatus } from '@/lib/cart'
+
+// Validation schema; quantities are accepted for symmetry with the cart but not needed
+const validateCartSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: z.number().int().min(1).optional(),
+  })).max(50),
+})
+
+/**
+ * Current state of the products in a cart
+ * POST /api/cart/validate
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validatedData = validateCartSchema.parse(body)
+
+    const items = await getCartProductStatus(
+      prisma,
+      validatedData.items.map(item => item.productId)
+    )
+
+    return NextResponse.json({ items })
+
+  } catch (error) {
+    console.error('Cart validation error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
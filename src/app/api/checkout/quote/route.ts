@@ -0,0 +1,75 @@
+/**
+ * Checkout Quote API Route
+ *
+ * Prices a cart on the server with the same code order creation uses, so the
+ * total shown at checkout is the total charged.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { buildCheckoutQuote } from '@/lib/pricing'
+
+// Validation schema; items mirror POST /api/orders
+const quoteSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string().uuid(),
+    quantity: z.number().min(1).max(10),
+  })).min(1),
+  paymentMethod: z.enum(['credit', 'external']).default('credit'),
+  region: z.string().trim().max(10).optional(),
+  promotionCode: z.string().trim().max(32).optional(),
+})
+
+/**
+ * Quote a cart: line items, discounts, tax, fees and grand total
+ * POST /api/checkout/quote
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = quoteSchema.parse(body)
+
+    const quote = await buildCheckoutQuote(prisma, { ...validatedData, userId: user.id })
+
+    return NextResponse.json(quote)
+
+  } catch (error) {
+    console.error('Checkout quote error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    // Unknown or inactive product, or a discount code that cannot be used
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Tax Regions API Route
+ *
+ * Lists the regions with an active tax rule, for the region picker at checkout.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+
+/**
+ * Get regions that have an active tax rule
+ * GET /api/checkout/tax-regions
+ */
+export async function GET() {
+  try {
+    const rules = await prisma.taxRule.findMany({
+      where: { is_active: true },
+      orderBy: { region: 'asc' },
+      select: { region: true, name: true, rate: true }
+    })
+
+    return NextResponse.json({
+      regions: rules.map(rule => ({
+        region: rule.region,
+        name: rule.name,
+        rate: Number(rule.rate)
+      }))
+    })
+
+  } catch (error) {
+    console.error('Tax regions fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
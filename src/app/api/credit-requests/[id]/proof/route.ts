@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { getProofStorage, parseProofDataUrl, PROOF_URL_TTL_SECONDS } from '@/lib/proof-storage'
+
+/**
+ * GET /api/credit-requests/[id]/proof
+ * Open a credit request's payment proof (owner or admin). Redirects to a
+ * freshly signed, short-lived storage URL; proofs not yet moved out of the
+ * database are served directly.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Check authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: creditRequest, error: requestError } = await supabase
+      .from('credit_requests')
+      .select('id, user_id, payment_proof_path, payment_proof_url')
+      .eq('id', id)
+      .single()
+
+    if (requestError || !creditRequest) {
+      return NextResponse.json({ error: 'Credit request not found' }, { status: 404 })
+    }
+
+    // Other users' proofs are for admins only
+    if (creditRequest.user_id !== user.id) {
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('role')
+        .eq('id', user.id)
+        .single()
+
+      if (profileError || !profile || !['admin', 'super_admin'].includes(profile.role)) {
+        return NextResponse.json({ error: 'Credit request not found' }, { status: 404 })
+      }
+    }
+
+    if (creditRequest.payment_proof_path) {
+      const signedUrl = await getProofStorage().createSignedUrl(creditRequest.payment_proof_path, PROOF_URL_TTL_SECONDS)
+      const response = NextResponse.redirect(new URL(signedUrl, request.url))
+      response.headers.set('Cache-Control', 'private, no-store')
+      return response
+    }
+
+    const legacyProof = creditRequest.payment_proof_url ? parseProofDataUrl(creditRequest.payment_proof_url) : null
+    if (!legacyProof) {
+      return NextResponse.json({ error: 'Payment proof not found' }, { status: 404 })
+    }
+
+    return new NextResponse(legacyProof.data, {
+      headers: {
+        'Content-Type': legacyProof.contentType,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+
+  } catch (error) {
+    console.error('Get payment proof error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
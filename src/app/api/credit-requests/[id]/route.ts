@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
+import { createProofViewUrl, getProofStorage, getProofType } from '@/lib/proof-storage'
 
 /**
  * GET /api/credit-requests/[id]
- * Get individual credit request details including payment proof
+ * Get individual credit request details including a signed payment proof URL
  */
 export async function GET(
   request: NextRequest,
@@ -26,10 +27,14 @@ export async function GET(
         id,
         amount,
         payment_method,
+        reference_number,
+        payer_name,
         notes,
         status,
         admin_notes,
         payment_proof_url,
+        payment_proof_path,
+        payment_proof_type,
         created_at,
         reviewed_at,
         reviewed_by,
@@ -56,10 +61,13 @@ export async function GET(
       id: creditRequest.id,
       amount: creditRequest.amount,
       payment_method: creditRequest.payment_method,
+      reference_number: creditRequest.reference_number,
+      payer_name: creditRequest.payer_name,
       notes: creditRequest.notes,
       status: creditRequest.status,
       admin_notes: creditRequest.admin_notes,
-      payment_proof_url: creditRequest.payment_proof_url,
+      payment_proof_url: await createProofViewUrl(getProofStorage(), creditRequest),
+      payment_proof_type: getProofType(creditRequest),
       created_at: creditRequest.created_at,
       reviewed_at: creditRequest.reviewed_at,
       reviewed_by: creditRequest.reviewed_by,
@@ -1,14 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
 import { z } from 'zod'
+import { prisma } from '@/lib/prisma'
+import {
+  CREDIT_PAYMENT_METHODS,
+  normalizeReferenceNumber,
+  REFERENCE_NUMBER_MAX_LENGTH,
+  REFERENCE_NUMBER_MIN_LENGTH,
+  REFERENCE_NUMBER_PATTERN,
+} from '@/lib/credit-request-details'
+import { buildProofPath, getProofStorage, PROOF_FILE_EXTENSIONS } from '@/lib/proof-storage'
+import { processPaymentProof } from '@/lib/proof-validation'
 
 // Credit request validation schema
 const createCreditRequestSchema = z.object({
   amount: z.number().min(5, 'Minimum amount is $5').max(1000, 'Maximum amount is $1000'),
-  paymentMethod: z.string().min(1, 'Payment method is required'),
+  paymentMethod: z.enum(CREDIT_PAYMENT_METHODS, { errorMap: () => ({ message: 'Payment method is required' }) }),
+  referenceNumber: z.string()
+    .transform(normalizeReferenceNumber)
+    .pipe(z.string()
+      .min(REFERENCE_NUMBER_MIN_LENGTH, 'Reference number is required')
+      .max(REFERENCE_NUMBER_MAX_LENGTH, 'Reference number is too long')
+      .regex(REFERENCE_NUMBER_PATTERN, 'Reference number may only contain letters, digits and - _ / . #')),
+  payerName: z.string().trim().min(2, 'Payer name is required').max(100, 'Payer name is too long'),
   notes: z.string().optional(),
 })
 
+// Postgres unique_violation, raised by the reference number index
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Message for a reference number that already backs another request
+ */
+function duplicateReferenceMessage(paymentMethod: string): string {
+  return `This reference number was already submitted for a ${paymentMethod} payment. Please check the reference on your receipt.`
+}
+
 /**
  * POST /api/credit-requests
  * Create a new credit request with payment proof upload
@@ -27,6 +54,8 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData()
     const amount = parseFloat(formData.get('amount') as string)
     const paymentMethod = formData.get('paymentMethod') as string
+    const referenceNumber = (formData.get('referenceNumber') as string | null) ?? ''
+    const payerName = (formData.get('payerName') as string | null) ?? ''
     const notesValue = formData.get('notes') as string
     const notes = notesValue && notesValue.trim() ? notesValue.trim() : undefined
     const paymentProofFile = formData.get('paymentProof') as File
@@ -35,6 +64,8 @@ export async function POST(request: NextRequest) {
     const validation = createCreditRequestSchema.safeParse({
       amount,
       paymentMethod,
+      referenceNumber,
+      payerName,
       notes,
     })
 
@@ -49,9 +80,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Payment proof file is required' }, { status: 400 })
     }
 
-    // Validate file type and size
-    const allowedTypes = ['image/jpeg', 'image/png', 'image/gif', 'application/pdf']
-    if (!allowedTypes.includes(paymentProofFile.type)) {
+    // Quick check of the reported type and size; the content is checked below
+    if (!PROOF_FILE_EXTENSIONS[paymentProofFile.type]) {
       return NextResponse.json({ 
         error: 'Invalid file type. Please upload JPEG, PNG, GIF, or PDF files only.' 
       }, { status: 400 })
@@ -82,10 +112,31 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Convert file to base64 for database storage (temporary solution)
-    const fileBuffer = await paymentProofFile.arrayBuffer()
-    const fileBase64 = Buffer.from(fileBuffer).toString('base64')
-    const fileDataUrl = `data:${paymentProofFile.type};base64,${fileBase64}`
+    // A receipt can back only one request; checked across all customers
+    const existingReference = await prisma.creditRequest.findFirst({
+      where: {
+        payment_method: validation.data.paymentMethod,
+        reference_number: validation.data.referenceNumber,
+        status: { not: 'rejected' },
+      },
+      select: { id: true },
+    })
+
+    if (existingReference) {
+      return NextResponse.json({ error: duplicateReferenceMessage(validation.data.paymentMethod) }, { status: 409 })
+    }
+
+    // Check the file content, strip image metadata and hash it for duplicate checks
+    const processed = await processPaymentProof(Buffer.from(await paymentProofFile.arrayBuffer()))
+    if ('error' in processed) {
+      return NextResponse.json({ error: processed.error }, { status: 400 })
+    }
+    const { proof } = processed
+
+    // Store the proof file; the request row only references it
+    const storage = getProofStorage()
+    const proofPath = buildProofPath(user.id, proof.contentType)
+    await storage.put(proofPath, proof.data, proof.contentType)
 
     // Create credit request record
     const { data: creditRequest, error: createError } = await supabase
@@ -94,8 +145,13 @@ export async function POST(request: NextRequest) {
         user_id: user.id,
         amount: validation.data.amount,
         payment_method: validation.data.paymentMethod,
+        reference_number: validation.data.referenceNumber,
+        payer_name: validation.data.payerName,
         notes: validation.data.notes,
-        payment_proof_url: fileDataUrl, // Store as data URL temporarily
+        payment_proof_path: proofPath,
+        payment_proof_type: proof.contentType,
+        payment_proof_sha256: proof.sha256,
+        payment_proof_phash: proof.phash,
         status: 'pending',
       })
       .select()
@@ -103,6 +159,12 @@ export async function POST(request: NextRequest) {
 
     if (createError) {
       console.error('Error creating credit request:', createError)
+      await storage.remove(proofPath).catch(error => console.error('Error removing payment proof:', error))
+
+      // Reason: another request claimed the reference after the check above
+      if (createError.code === UNIQUE_VIOLATION) {
+        return NextResponse.json({ error: duplicateReferenceMessage(validation.data.paymentMethod) }, { status: 409 })
+      }
       return NextResponse.json({ error: 'Failed to create credit request' }, { status: 500 })
     }
 
@@ -111,6 +173,7 @@ export async function POST(request: NextRequest) {
       creditRequest: {
         id: creditRequest.id,
         amount: creditRequest.amount,
+        reference_number: creditRequest.reference_number,
         status: creditRequest.status,
         created_at: creditRequest.created_at,
       }
@@ -149,6 +212,8 @@ export async function GET(request: NextRequest) {
         id,
         amount,
         payment_method,
+        reference_number,
+        payer_name,
         notes,
         status,
         admin_notes,
@@ -0,0 +1,94 @@
+/**
+ * Game Code Dispute API Route
+ * 
+ * Lets the buyer report a purchased game code that does not work. Admins
+ * resolve the dispute from /admin/disputes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { openCodeDispute } from '@/lib/disputes'
+import { z } from 'zod'
+
+const openDisputeSchema = z.object({
+  reason: z.string().trim().min(10, 'Please describe the problem (at least 10 characters)').max(1000),
+})
+
+/**
+ * Open a dispute on a game code
+ * POST /api/orders/[id]/codes/[codeId]/dispute
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; codeId: string }> }
+) {
+  try {
+    // Get authenticated user
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Await params in Next.js 15
+    const { id: orderId, codeId } = await params
+
+    const body = await request.json()
+    const { reason } = openDisputeSchema.parse(body)
+
+    const dispute = await openCodeDispute(prisma, {
+      orderId,
+      codeId,
+      userId: user.id,
+      reason,
+    })
+
+    if (!dispute) {
+      return NextResponse.json(
+        { error: 'Game code not found or already disputed' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Dispute opened. We will review it shortly.',
+      dispute: {
+        id: dispute.id,
+        status: dispute.status,
+        createdAt: dispute.created_at,
+      }
+    }, { status: 201 })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { 
+          error: 'Validation error', 
+          details: error.errors 
+        },
+        { status: 400 }
+      )
+    }
+
+    // The partial unique index caught a second dispute submitted at the same time
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'This code already has an open dispute' },
+        { status: 409 }
+      )
+    }
+
+    console.error('Game code dispute error:', error)
+    
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
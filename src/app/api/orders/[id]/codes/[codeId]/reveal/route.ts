@@ -0,0 +1,71 @@
+/**
+ * Game Code Reveal API Route
+ * 
+ * Decrypts a single purchased game code for its owner and records the reveal
+ * in the audit trail.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { revealGameCode } from '@/lib/code-delivery'
+
+/**
+ * Reveal a game code
+ * POST /api/orders/[id]/codes/[codeId]/reveal
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; codeId: string }> }
+) {
+  try {
+    // Get authenticated user
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Await params in Next.js 15
+    const { id: orderId, codeId } = await params
+
+    if (!orderId || !codeId) {
+      return NextResponse.json(
+        { error: 'Order ID and code ID are required' },
+        { status: 400 }
+      )
+    }
+
+    const revealed = await revealGameCode(prisma, {
+      orderId,
+      codeId,
+      userId: user.id,
+      ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      userAgent: request.headers.get('user-agent'),
+    })
+
+    // Codes outside the user's completed orders are indistinguishable from missing ones
+    if (!revealed) {
+      return NextResponse.json(
+        { error: 'Game code not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(revealed, {
+      headers: { 'Cache-Control': 'no-store' }
+    })
+
+  } catch (error) {
+    console.error('Game code reveal error:', error)
+    
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
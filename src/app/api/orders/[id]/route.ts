@@ -2,12 +2,13 @@
  * Individual Order API Route
  * 
  * Handles fetching specific order details by order ID.
+ * Game codes are returned masked; use the reveal endpoint for plaintext.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase/server'
-import { decryptGameCode } from '@/lib/encryption'
 import { prisma } from '@/lib/prisma'
+import { deliveredOrderItemInclude, groupDeliveredOrderItems } from '@/lib/code-delivery'
 
 /**
  * Get order details by ID
@@ -47,15 +48,14 @@ export async function GET(
       },
       include: {
         order_items: {
-          include: {
-            product: true,
-            game_code: {
-              select: {
-                id: true,
-                encrypted_code: true
-              }
-            }
-          }
+          include: deliveredOrderItemInclude,
+          orderBy: { created_at: 'asc' }
+        },
+        // Latest unfinished online payment, so the buyer can go back and pay
+        payment_intents: {
+          where: { status: 'requires_payment', checkout_url: { not: null } },
+          orderBy: { created_at: 'desc' },
+          take: 1
         }
       }
     })
@@ -68,41 +68,22 @@ export async function GET(
     }
 
     // Format response
-    const itemsMap = new Map()
-    
-    order.order_items.forEach(orderItem => {
-      const key = orderItem.product_id
-      if (!itemsMap.has(key)) {
-        itemsMap.set(key, {
-          productId: orderItem.product_id,
-          productName: orderItem.product.name,
-          platform: orderItem.product.platform,
-          quantity: 0,
-          unitPrice: Number(orderItem.unit_price),
-          gameCodes: []
-        })
-      }
-      
-      const item = itemsMap.get(key)
-      item.quantity += orderItem.quantity
-      if (orderItem.game_code) {
-        try {
-          const decryptedCode = decryptGameCode(orderItem.game_code.encrypted_code)
-          item.gameCodes.push(decryptedCode)
-        } catch (decryptError) {
-          console.error('Failed to decrypt game code:', decryptError)
-          item.gameCodes.push('CODE_DECRYPTION_ERROR')
-        }
-      }
-    })
-
     const formattedOrder = {
       orderId: order.id,
       totalAmount: Number(order.total_amount),
+      subtotal: Number(order.subtotal),
+      discountTotal: Number(order.discount_total),
+      taxTotal: Number(order.tax_total),
+      taxRegion: order.tax_region,
+      feeTotal: Number(order.fee_total),
+      promotionCode: order.promotion_code,
       paymentMethod: order.payment_method,
       status: order.status,
+      paymentExpiresAt: order.payment_expires_at?.toISOString() ?? null,
+      paidAt: order.paid_at?.toISOString() ?? null,
+      paymentCheckoutUrl: order.status === 'pending' ? order.payment_intents[0]?.checkout_url ?? null : null,
       createdAt: order.created_at.toISOString(),
-      items: Array.from(itemsMap.values())
+      items: groupDeliveredOrderItems(order.order_items)
     }
 
     return NextResponse.json(formattedOrder)
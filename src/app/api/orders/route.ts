@@ -2,13 +2,31 @@
  * Orders API Route
  * 
  * Handles order creation, game code assignment, and order processing.
+ * Credit orders complete at once; external orders stay pending with their
+ * codes reserved until the payment is confirmed or the window runs out.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { createClient } from '@/lib/supabase/server'
 import { prisma } from '@/lib/prisma'
-import { PrismaClient } from '@prisma/client'
+import { recordCreditTransaction } from '@/lib/credit-ledger'
+import { availableGameCodeWhere, claimGameCodes, type ClaimedGameCode } from '@/lib/inventory'
+import { buildCheckoutQuote, toCents } from '@/lib/pricing'
+import { planOrderCodes } from '@/lib/bundles'
+import { lockPromotion, recordPromotionRedemption } from '@/lib/promotions'
+import { recordLowStockAlerts } from '@/lib/stock-alerts'
+import { deliveredOrderItemInclude, groupDeliveredOrderItems } from '@/lib/code-delivery'
+import { getPaymentExpiry } from '@/lib/order-payments'
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  hashRequestPayload,
+  isValidIdempotencyKey,
+  releaseIdempotentRequest,
+} from '@/lib/idempotency'
+import { Prisma, PrismaClient } from '@prisma/client'
 
 // Validation schemas
 const createOrderSchema = z.object({
@@ -17,6 +35,10 @@ const createOrderSchema = z.object({
     quantity: z.number().min(1).max(10),
   })),
   paymentMethod: z.enum(['credit', 'external']).default('credit'),
+  region: z.string().trim().max(10).optional(),
+  promotionCode: z.string().trim().max(32).optional(),
+  // Total the customer was shown; the order is refused if pricing changed since
+  quotedTotal: z.number().nonnegative().optional(),
 })
 
 const orderResponseSchema = z.object({
@@ -25,11 +47,29 @@ const orderResponseSchema = z.object({
   items: z.array(z.object({
     productId: z.string(),
     productName: z.string(),
+    platform: z.string(),
     quantity: z.number(),
     unitPrice: z.number(),
-    gameCodes: z.array(z.string()).optional(), // Only included if order is completed
+    gameCodes: z.array(z.object({
+      codeId: z.string(),
+      maskedCode: z.string(),
+      revealedAt: z.string().nullable(),
+    })).optional(), // Masked; plaintext is served by the reveal endpoint
+    // Bundles only: the same codes grouped by component product
+    bundleComponents: z.array(z.object({
+      productId: z.string(),
+      productName: z.string(),
+      platform: z.string(),
+    })).nullable(),
   })),
+  subtotal: z.number(),
+  discountTotal: z.number(),
+  taxTotal: z.number(),
+  feeTotal: z.number(),
+  promotionCode: z.string().nullable(),
   status: z.enum(['pending', 'completed', 'failed']),
+  // External payments only: when the reserved codes are released if still unpaid
+  paymentExpiresAt: z.date().nullable(),
   createdAt: z.date(),
 })
 
@@ -38,6 +78,8 @@ const orderResponseSchema = z.object({
  * POST /api/orders
  */
 export async function POST(request: NextRequest) {
+  let idempotencyRecordId: string | null = null
+
   try {
     // Get authenticated user
     const supabase = await createClient()
@@ -72,51 +114,84 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const validatedData = createOrderSchema.parse(body)
 
-    // Start database transaction with extended timeout
-    const result = await prisma.$transaction(async (tx) => {
-      // 1. Calculate order total and validate stock
-      let totalAmount = 0
-      const orderItems = []
-
-      for (const item of validatedData.items) {
-        // Get product details
-        const product = await tx.product.findUnique({
-          where: { id: item.productId },
-          include: {
-            _count: {
-              select: {
-                game_codes: {
-                  where: { is_sold: false }
-                }
-              }
-            }
-          }
+    // Reserve the idempotency key before doing any work
+    const idempotencyKey = request.headers.get(IDEMPOTENCY_KEY_HEADER)
+    if (idempotencyKey !== null) {
+      if (!isValidIdempotencyKey(idempotencyKey)) {
+        return NextResponse.json(
+          { error: `Invalid ${IDEMPOTENCY_KEY_HEADER} header` },
+          { status: 400 }
+        )
+      }
+
+      const idempotency = await beginIdempotentRequest({
+        userId: user.id,
+        key: idempotencyKey,
+        scope: 'POST /api/orders',
+        requestHash: hashRequestPayload(validatedData)
+      })
+
+      if (idempotency.status === 'replay') {
+        return NextResponse.json(idempotency.responseBody, {
+          status: idempotency.responseStatus,
+          headers: { 'Idempotent-Replayed': 'true' }
         })
+      }
 
-        if (!product) {
-          throw new Error(`Product ${item.productId} not found`)
-        }
+      if (idempotency.status === 'conflict') {
+        return NextResponse.json(
+          { error: idempotency.error },
+          { status: idempotency.httpStatus }
+        )
+      }
 
-        if (!product.is_active) {
-          throw new Error(`Product ${product.name} is not available`)
-        }
+      idempotencyRecordId = idempotency.recordId
+    }
 
-        // Check stock availability
-        const availableStock = product._count.game_codes
-        if (availableStock < item.quantity) {
-          throw new Error(`Insufficient stock for ${product.name}. Available: ${availableStock}, Requested: ${item.quantity}`)
-        }
+    const isExternalPayment = validatedData.paymentMethod === 'external'
+
+    // Start database transaction with extended timeout
+    const response = await prisma.$transaction(async (tx) => {
+      // 1. Price the cart server-side and validate stock. The discount code
+      // stays locked until commit so its usage limits cannot be overrun
+      const promotionId = validatedData.promotionCode
+        ? await lockPromotion(tx, validatedData.promotionCode)
+        : null
+
+      const quote = await buildCheckoutQuote(tx, {
+        items: validatedData.items,
+        paymentMethod: validatedData.paymentMethod,
+        region: validatedData.region,
+        promotionCode: validatedData.promotionCode,
+        userId: user.id
+      })
+      const totalAmount = quote.total
 
-        const itemTotal = Number(product.price) * item.quantity
-        totalAmount += itemTotal
+      if (validatedData.quotedTotal !== undefined && toCents(validatedData.quotedTotal) !== toCents(totalAmount)) {
+        throw new Error(`Prices changed since your quote. New total: $${totalAmount.toFixed(2)}. Please review your order.`)
+      }
 
-        orderItems.push({
-          productId: item.productId,
-          productName: product.name,
-          quantity: item.quantity,
-          unitPrice: product.price,
-          itemTotal
+      // Bundles need codes from each of their components; a product may be
+      // bought on its own and in a bundle in the same order
+      const plannedLines = await planOrderCodes(tx, quote.lines)
+      const codesNeeded = new Map<string, { productName: string; quantity: number }>()
+      plannedLines.forEach(line => line.codes.forEach(code => {
+        const needed = codesNeeded.get(code.productId)
+        if (needed) {
+          needed.quantity += 1
+        } else {
+          codesNeeded.set(code.productId, { productName: code.productName, quantity: 1 })
+        }
+      }))
+
+      for (const [productId, needed] of Array.from(codesNeeded.entries())) {
+        // Early stock check for a friendly error; allocation below is authoritative
+        const availableStock = await tx.gameCode.count({
+          where: { product_id: productId, ...availableGameCodeWhere() }
         })
+        if (availableStock < needed.quantity) {
+          throw new Error(`Insufficient stock for ${needed.productName}. Available: ${availableStock}, Requested: ${needed.quantity}`)
+        }
       }
 
       // 2. Check user credit balance if using credit payment
@@ -131,130 +206,143 @@ export async function POST(request: NextRequest) {
         data: {
           user_id: user.id,
           total_amount: totalAmount,
+          subtotal: quote.subtotal,
+          discount_total: quote.discountTotal,
+          tax_total: quote.taxTotal,
+          fee_total: quote.feeTotal,
+          tax_region: quote.tax?.region ?? null,
+          tax_rate: quote.tax?.rate ?? null,
+          price_breakdown: quote as unknown as Prisma.InputJsonObject,
+          promotion_code: quote.promotionCode,
           payment_method: validatedData.paymentMethod,
           status: 'pending',
+          payment_expires_at: isExternalPayment ? getPaymentExpiry() : null,
         }
       })
 
-      // 4. Batch process order items and game codes for better performance
+      // 4. Claim specific code rows with row locks so concurrent checkouts
+      // can never be assigned the same code. Orders awaiting payment only
+      // reserve them
+      const claimedCodes = new Map<string, ClaimedGameCode[]>()
+      for (const [productId, needed] of Array.from(codesNeeded.entries())) {
+        claimedCodes.set(productId, await claimGameCodes(tx, {
+          productId,
+          quantity: needed.quantity,
+          orderId: order.id,
+          productName: needed.productName,
+          reserve: isExternalPayment
+        }))
+      }
+
+      // Create one order item per game code, linked to its bundle line if any
       const createdOrderItems = []
-      
-      for (const item of orderItems) {
-        // Get available game codes for this product in one query
-        const availableCodes = await tx.gameCode.findMany({
-          where: {
-            product_id: item.productId,
-            is_sold: false
-          },
-          take: item.quantity,
-          orderBy: { created_at: 'asc' } // First-in-first-out
-        })
 
-        if (availableCodes.length < item.quantity) {
-          throw new Error(`Failed to allocate game codes for ${item.productName}`)
-        }
+      for (const line of plannedLines) {
+        const orderBundle = line.isBundle
+          ? await tx.orderBundle.create({
+              data: {
+                order_id: order.id,
+                product_id: line.productId,
+                quantity: line.quantity,
+                unit_price: line.unitPrice,
+              }
+            })
+          : null
 
-        // Batch update game codes to sold status
-        const codeIds = availableCodes.map(code => code.id)
-        await tx.gameCode.updateMany({
-          where: {
-            id: { in: codeIds }
-          },
-          data: {
-            is_sold: true,
-            sold_at: new Date(),
-            order_id: order.id
-          }
-        })
+        for (const code of line.codes) {
+          const gameCode = claimedCodes.get(code.productId)!.shift()!
 
-        // Create order items for each game code
-        for (let i = 0; i < item.quantity; i++) {
-          const gameCode = availableCodes[i]
-          
           const orderItem = await tx.orderItem.create({
             data: {
               order_id: order.id,
-              product_id: item.productId,
+              product_id: code.productId,
               game_code_id: gameCode.id,
+              order_bundle_id: orderBundle?.id ?? null,
               quantity: 1, // Always 1 since each item represents one game code
-              unit_price: item.unitPrice,
+              unit_price: code.unitPrice,
+              discount_amount: code.discountAmount,
+              tax_amount: code.taxAmount,
             },
-            include: {
-              product: true,
-              game_code: {
-                select: {
-                  id: true,
-                  encrypted_code: true
-                }
-              }
-            }
+            include: deliveredOrderItemInclude
           })
 
           createdOrderItems.push(orderItem)
         }
       }
 
-      // 5. Deduct credit balance if using credit payment
+      if (promotionId && quote.promotionCode) {
+        await recordPromotionRedemption(tx, {
+          promotionId,
+          orderId: order.id,
+          userId: user.id,
+          amount: quote.discountTotal
+        })
+      }
+
+      // Raise restock alerts for products this order pushed below their threshold
+      await recordLowStockAlerts(tx, order.id, Array.from(codesNeeded.entries()).map(
+        ([productId, needed]) => ({ productId, quantity: needed.quantity })
+      ))
+
+      // 5. Deduct credit balance through the ledger if using credit payment
       if (validatedData.paymentMethod === 'credit') {
-        await tx.profile.update({
-          where: { id: user.id },
-          data: {
-            credit_balance: {
-              decrement: totalAmount
-            }
-          }
+        await recordCreditTransaction(tx, {
+          userId: user.id,
+          type: 'purchase',
+          amount: -totalAmount,
+          orderId: order.id,
+          description: `Order ${order.id}`,
         })
       }
 
-      // 6. Update order status to completed
-      const completedOrder = await tx.order.update({
-        where: { id: order.id },
-        data: { status: 'completed' }
-      })
+      // 6. Credit orders are paid, so they complete now; external orders wait for their payment
+      const placedOrder = isExternalPayment
+        ? order
+        : await tx.order.update({
+            where: { id: order.id },
+            data: { status: 'completed', paid_at: new Date() }
+          })
 
-      return {
-        order: completedOrder,
-        orderItems: createdOrderItems
+      const response = {
+        orderId: placedOrder.id,
+        totalAmount: Number(placedOrder.total_amount),
+        subtotal: Number(placedOrder.subtotal),
+        discountTotal: Number(placedOrder.discount_total),
+        taxTotal: Number(placedOrder.tax_total),
+        feeTotal: Number(placedOrder.fee_total),
+        promotionCode: placedOrder.promotion_code,
+        items: groupDeliveredOrderItems(createdOrderItems),
+        status: placedOrder.status as 'pending' | 'completed',
+        paymentExpiresAt: placedOrder.payment_expires_at,
+        createdAt: placedOrder.created_at
       }
-    }, {
-      maxWait: 10000, // Maximum time to wait for a transaction slot (10s)
-      timeout: 15000, // Maximum time the transaction can run (15s)
-    })
 
-    // Format response - group order items by product
-    const itemsMap = new Map()
-    
-    result.orderItems.forEach(orderItem => {
-      const key = orderItem.product_id
-      if (!itemsMap.has(key)) {
-        itemsMap.set(key, {
-          productId: orderItem.product_id,
-          productName: orderItem.product.name,
-          quantity: 0,
-          unitPrice: Number(orderItem.unit_price),
-          gameCodes: []
+      // 7. Persist the response against the idempotency key in the same transaction
+      if (idempotencyRecordId) {
+        await completeIdempotentRequest(tx, idempotencyRecordId, {
+          orderId: placedOrder.id,
+          responseStatus: 201,
+          responseBody: response
         })
       }
-      
-      const item = itemsMap.get(key)
-      item.quantity += orderItem.quantity
-      if (orderItem.game_code) {
-        item.gameCodes.push(orderItem.game_code.encrypted_code)
-      }
-    })
 
-    const response = {
-      orderId: result.order.id,
-      totalAmount: Number(result.order.total_amount),
-      items: Array.from(itemsMap.values()),
-      status: result.order.status as 'completed',
-      createdAt: result.order.created_at
-    }
+      return response
+    }, {
+      maxWait: 10000, // Maximum time to wait for a transaction slot (10s)
+      timeout: 15000, // Maximum time the transaction can run (15s)
+    })
 
     return NextResponse.json(response, { status: 201 })
 
   } catch (error) {
     console.error('Order creation error:', error)
+
+    // Free the key so the client can retry after a failed attempt
+    if (idempotencyRecordId) {
+      await releaseIdempotentRequest(idempotencyRecordId).catch(releaseError =>
+        console.error('Failed to release idempotency key:', releaseError)
+      )
+    }
     
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -335,15 +423,8 @@ export async function GET(request: NextRequest) {
       where: { user_id: user.id },
       include: {
         order_items: {
-          include: {
-            product: true,
-            game_code: {
-              select: {
-                id: true,
-                encrypted_code: true
-              }
-            }
-          }
+          include: deliveredOrderItemInclude,
+          orderBy: { created_at: 'asc' }
         }
       },
       orderBy: { created_at: 'desc' },
@@ -353,36 +434,20 @@ export async function GET(request: NextRequest) {
 
     // Format response
     const formattedOrders = orders.map(order => {
-      // Group order items by product
-      const itemsMap = new Map()
-      
-      order.order_items.forEach(orderItem => {
-        const key = orderItem.product_id
-        if (!itemsMap.has(key)) {
-          itemsMap.set(key, {
-            productId: orderItem.product_id,
-            productName: orderItem.product.name,
-            platform: orderItem.product.platform,
-            quantity: 0,
-            unitPrice: Number(orderItem.unit_price),
-            gameCodes: []
-          })
-        }
-        
-        const item = itemsMap.get(key)
-        item.quantity += orderItem.quantity
-        if (orderItem.game_code) {
-          item.gameCodes.push(orderItem.game_code.encrypted_code)
-        }
-      })
-
       return {
         orderId: order.id,
         totalAmount: Number(order.total_amount),
+        subtotal: Number(order.subtotal),
+        discountTotal: Number(order.discount_total),
+        taxTotal: Number(order.tax_total),
+        feeTotal: Number(order.fee_total),
+        promotionCode: order.promotion_code,
         paymentMethod: order.payment_method,
         status: order.status,
+        paymentExpiresAt: order.payment_expires_at,
         createdAt: order.created_at,
-        items: Array.from(itemsMap.values())
+        // Bundles are listed once with their codes grouped by component
+        items: groupDeliveredOrderItems(order.order_items)
       }
     })
 
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getProofStorage } from '@/lib/proof-storage'
+import { verifyProofUrl } from '@/lib/local-proof-storage'
+
+/**
+ * GET /api/payment-proofs/[...path]?expires=...&signature=...
+ * Serve a payment proof kept by the local storage driver. The signed URL is
+ * the authorization: it is only handed out to the proof's owner and admins
+ * and stops working once it expires.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  try {
+    const { path } = await params
+    const proofPath = path.join('/')
+    const { searchParams } = new URL(request.url)
+
+    const storage = getProofStorage()
+    const isValid = storage.driver === 'local' && verifyProofUrl({
+      path: proofPath,
+      expires: searchParams.get('expires'),
+      signature: searchParams.get('signature'),
+    })
+
+    if (!isValid) {
+      return NextResponse.json({ error: 'Invalid or expired link' }, { status: 403 })
+    }
+
+    const proof = await storage.get(proofPath)
+    if (!proof) {
+      return NextResponse.json({ error: 'Payment proof not found' }, { status: 404 })
+    }
+
+    return new NextResponse(proof.data, {
+      headers: {
+        'Content-Type': proof.contentType,
+        'Cache-Control': 'private, no-store',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    })
+
+  } catch (error) {
+    console.error('Serve payment proof error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Payment Confirmation API Route
+ *
+ * Called when the buyer returns from the provider's checkout page. Asks the
+ * provider for the payment's outcome and applies it, so the order or top-up
+ * does not wait for the webhook.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { refreshPayment } from '@/lib/payment-intents'
+import { OrderPaymentError } from '@/lib/order-payments'
+
+/**
+ * Check and apply the outcome of one of the signed-in user's payments
+ * POST /api/payments/intents/[id]/confirm
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    // Get authenticated user
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const payment = await refreshPayment(prisma, id, user.id)
+
+    if (!payment) {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ payment })
+
+  } catch (error) {
+    console.error('Payment confirmation error:', error)
+
+    // Reason: the provider payment id already completed another order
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'Payment already applied to another order' },
+        { status: 409 }
+      )
+    }
+
+    // Amount mismatch or the order cannot take the payment; needs a manual look
+    if (error instanceof OrderPaymentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
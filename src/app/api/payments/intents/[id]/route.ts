@@ -0,0 +1,67 @@
+/**
+ * Payment Intent API Route
+ *
+ * Lets the buyer look up one of their online payments, e.g. to show what is
+ * being paid on a checkout page.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { getPaymentProvider } from '@/lib/payment-providers'
+
+/**
+ * Get one of the signed-in user's payments
+ * GET /api/payments/intents/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    // Get authenticated user
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const intent = await prisma.paymentIntent.findFirst({
+      where: { id, user_id: user.id },
+    })
+
+    if (!intent) {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      payment: {
+        paymentIntentId: intent.id,
+        provider: intent.provider,
+        providerName: getPaymentProvider(intent.provider)?.name ?? intent.provider,
+        purpose: intent.purpose,
+        orderId: intent.order_id,
+        amount: Number(intent.amount),
+        status: intent.status,
+        failureReason: intent.failure_reason,
+        createdAt: intent.created_at.toISOString(),
+      }
+    })
+
+  } catch (error) {
+    console.error('Payment fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Payment Intents API Route
+ *
+ * Starts an online payment with a payment provider, for a pending order or
+ * a credit top-up. The response carries the provider's checkout page the
+ * buyer is sent to.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { startPayment } from '@/lib/payment-intents'
+
+// Validation schema; top-up limits match manual credit requests
+const startPaymentSchema = z.discriminatedUnion('purpose', [
+  z.object({
+    purpose: z.literal('order'),
+    provider: z.string().min(1),
+    orderId: z.string().uuid(),
+  }),
+  z.object({
+    purpose: z.literal('credit_top_up'),
+    provider: z.string().min(1),
+    amount: z.number().min(5, 'Minimum amount is $5').max(1000, 'Maximum amount is $1000'),
+  }),
+])
+
+/**
+ * Start an online payment
+ * POST /api/payments/intents
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Get authenticated user
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = startPaymentSchema.parse(body)
+
+    const payment = await startPayment(prisma, {
+      ...validatedData,
+      providerId: validatedData.provider,
+      userId: user.id,
+      origin: request.nextUrl.origin,
+    })
+
+    if (!payment) {
+      return NextResponse.json(
+        { error: 'Order not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ payment }, { status: 201 })
+
+  } catch (error) {
+    console.error('Payment start error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    // Provider disabled or refused, or the order is not awaiting payment
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
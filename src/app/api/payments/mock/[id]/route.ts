@@ -0,0 +1,110 @@
+/**
+ * Mock Payment Webhook Simulator API Route
+ *
+ * Backs the mock provider's checkout page. Settles the buyer's mock payment
+ * as paid or declined and delivers the signed webhook the mock provider
+ * sends to the store's webhook endpoint, so the full payment flow runs
+ * locally without a real provider.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { prisma } from '@/lib/prisma'
+import { mockPaymentProvider, settleMockPayment } from '@/lib/mock-payment-provider'
+import { getEnabledPaymentProvider } from '@/lib/payment-providers'
+
+// Validation schema for the buyer's choice on the mock checkout page
+const settleMockPaymentSchema = z.object({
+  outcome: z.enum(['succeeded', 'failed']),
+})
+
+/**
+ * Pay or decline a mock payment
+ * POST /api/payments/mock/[id]
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    // The webhook endpoint would refuse the event if the provider is off
+    const isEnabled = await getEnabledPaymentProvider(prisma, mockPaymentProvider.id).then(() => true, () => false)
+    if (!isEnabled) {
+      return NextResponse.json(
+        { error: 'Not found' },
+        { status: 404 }
+      )
+    }
+
+    // Get authenticated user
+    const supabase = await createClient()
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { outcome } = settleMockPaymentSchema.parse(body)
+
+    const intent = await prisma.paymentIntent.findFirst({
+      where: { id, user_id: user.id, provider: mockPaymentProvider.id },
+    })
+
+    if (!intent?.provider_intent_id) {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      )
+    }
+
+    const webhook = settleMockPayment(intent.provider_intent_id, outcome)
+
+    // Deliver the webhook over HTTP, exactly as the provider would
+    const webhookResponse = await fetch(
+      new URL(`/api/payments/webhook/${mockPaymentProvider.id}`, request.nextUrl.origin),
+      { method: 'POST', headers: webhook.headers, body: webhook.body }
+    )
+    const webhookResult = await webhookResponse.json().catch(() => null)
+
+    return NextResponse.json({
+      outcome,
+      webhook: {
+        status: webhookResponse.status,
+        response: webhookResult,
+      },
+    })
+
+  } catch (error) {
+    console.error('Mock payment error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          details: error.errors
+        },
+        { status: 400 }
+      )
+    }
+
+    // Unknown to the mock provider (e.g. after a restart) or already settled
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
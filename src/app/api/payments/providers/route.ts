@@ -0,0 +1,33 @@
+/**
+ * Payment Providers API Route
+ *
+ * Lists the online payment providers customers can pay with at checkout and
+ * when topping up their credit balance.
+ */
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { listPaymentProviders } from '@/lib/payment-providers'
+
+/**
+ * Get the enabled payment providers
+ * GET /api/payments/providers
+ */
+export async function GET() {
+  try {
+    const providers = await listPaymentProviders(prisma)
+
+    return NextResponse.json({
+      providers: providers
+        .filter(provider => provider.isEnabled)
+        .map(provider => ({ id: provider.id, name: provider.name })),
+    })
+
+  } catch (error) {
+    console.error('Payment providers fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Payment Webhook API Route
+ *
+ * Receives payment notifications from a payment provider, one endpoint per
+ * provider. Only providers an admin has enabled are listened to. The provider
+ * checks each request's signature; a reported outcome is applied to the
+ * payment intent it is about, completing the order or crediting the top-up
+ * once the payment succeeds.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { applyPaymentUpdate } from '@/lib/payment-intents'
+import { OrderPaymentError } from '@/lib/order-payments'
+import { getEnabledPaymentProvider, type PaymentProvider, type PaymentWebhookEvent } from '@/lib/payment-providers'
+
+/**
+ * Handle a payment event
+ * POST /api/payments/webhook/[provider]
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  try {
+    const { provider: providerId } = await params
+
+    // Disabled providers are refused like unknown ones, so their webhooks cannot settle payments
+    let provider: PaymentProvider
+    try {
+      provider = await getEnabledPaymentProvider(prisma, providerId)
+    } catch {
+      return NextResponse.json(
+        { error: 'Unknown payment provider' },
+        { status: 404 }
+      )
+    }
+
+    // The signature covers the exact bytes sent, so read the body as text
+    const body = await request.text()
+
+    let paymentEvent: PaymentWebhookEvent | null
+    try {
+      paymentEvent = provider.verifyWebhook({ body, headers: request.headers })
+    } catch (error) {
+      if (error instanceof z.ZodError || error instanceof SyntaxError) {
+        return NextResponse.json(
+          { error: 'Invalid payment event' },
+          { status: 400 }
+        )
+      }
+      return NextResponse.json(
+        { error: 'Invalid signature' },
+        { status: 401 }
+      )
+    }
+
+    // Events that are not about a payment outcome are acknowledged
+    if (!paymentEvent) {
+      return NextResponse.json({ received: true })
+    }
+
+    const payment = await prisma.$transaction(tx => applyPaymentUpdate(tx, {
+      provider: provider.id,
+      ...paymentEvent,
+    }))
+
+    if (!payment) {
+      return NextResponse.json(
+        { error: 'Payment not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ received: true, payment })
+
+  } catch (error) {
+    console.error('Payment webhook error:', error)
+
+    // Reason: the payment id already completed another order
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'Payment already applied to another order' },
+        { status: 409 }
+      )
+    }
+
+    // Amount mismatch or the order cannot take the payment; needs a manual look
+    if (error instanceof OrderPaymentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,10 +6,12 @@
 
 import { NextResponse } from 'next/server'
 import { PrismaClient } from '@prisma/client'
+import { getAvailableStock } from '@/lib/bundles'
 
 /**
  * GET /api/products
- * Fetch all products with available game codes count
+ * Fetch all products with their available stock (unsold, unexpired codes, or
+ * complete sets of components for bundles) and their active variants
  */
 export async function GET() {
   // Create fresh client to avoid prepared statement conflicts in development
@@ -24,26 +26,39 @@ export async function GET() {
   try {
     console.log('🛒 Fetching products...')
     
-    // Simplified query to avoid prepared statement conflicts
+    // Simplified query to avoid prepared statement conflicts. Variants are
+    // listed under the product they belong to
     const products = await prisma.product.findMany({
       where: { 
-        is_active: true
+        is_active: true,
+        parent_id: null
       },
       include: {
-        _count: {
-          select: { 
-            game_codes: { 
-              where: { is_sold: false } 
-            } 
-          }
+        variants: {
+          where: { is_active: true },
+          orderBy: { price: 'asc' }
         }
       }
     })
+
+    // Singles count their codes; bundles count complete sets of their components
+    // and products sold in variants add up their variants
+    const stock = await getAvailableStock(prisma, products.flatMap(product => [
+      product.id,
+      ...product.variants.map(variant => variant.id)
+    ]))
     
     // Filter products that have available codes
-    const productsWithCodes = products.filter(product => 
-      product._count.game_codes > 0
-    )
+    const productsWithCodes = products
+      .map(product => ({
+        ...product,
+        available_stock: stock.get(product.id) ?? 0,
+        variants: product.variants.map(variant => ({
+          ...variant,
+          available_stock: stock.get(variant.id) ?? 0
+        }))
+      }))
+      .filter(product => product.available_stock > 0)
     
     console.log(`✅ Found ${productsWithCodes.length} products with available codes`)
     
@@ -7,7 +7,7 @@
 
 'use client'
 
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useCart } from '@/contexts/CartContext'
 import { useOrders } from '@/hooks/use-orders'
@@ -16,28 +16,133 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Loader2, ShoppingCart, CreditCard, AlertCircle, CheckCircle2 } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, ShoppingCart, CreditCard, AlertCircle, CheckCircle2, Tag, X } from 'lucide-react'
 import Link from 'next/link'
+import type { CheckoutQuote } from '@/lib/pricing'
+
+interface TaxRegion {
+  region: string
+  name: string
+  rate: number
+}
+
+interface PaymentProviderOption {
+  id: string
+  name: string
+}
+
+// Select value for customers outside every taxed region
+const NO_TAX_REGION = 'none'
+
+// Payment option for the credit balance; every other option is an online payment provider
+const CREDIT_PAYMENT = 'credit'
 
 export default function CheckoutPage() {
   const router = useRouter()
-  const { state: cartState, clearCart } = useCart()
+  const { state: cartState, clearCart, validateCart, isValidating } = useCart()
   const { createOrder, isCreatingOrder, error, clearError } = useOrders()
   const [userProfile, setUserProfile] = useState<{ credit_balance: number; full_name: string } | null>(null)
   const [isLoadingProfile, setIsLoadingProfile] = useState(true)
+  // One idempotency key per cart submission, reused if the user retries
+  const idempotencyKeyRef = useRef<string | null>(null)
+
+  const [regions, setRegions] = useState<TaxRegion[]>([])
+  const [region, setRegion] = useState(NO_TAX_REGION)
+  const [quote, setQuote] = useState<CheckoutQuote | null>(null)
+  const [isQuoting, setIsQuoting] = useState(false)
+  const [quoteError, setQuoteError] = useState<string | null>(null)
+  const [promotionInput, setPromotionInput] = useState('')
+  const [promotionCode, setPromotionCode] = useState<string | null>(null)
+  const [promotionError, setPromotionError] = useState<string | null>(null)
+  // What changed in the cart when it was checked before placing the order
+  const [cartChanges, setCartChanges] = useState<string[]>([])
+  const [providers, setProviders] = useState<PaymentProviderOption[]>([])
+  const [paymentOption, setPaymentOption] = useState(CREDIT_PAYMENT)
 
   const { items } = cartState
+  const paymentMethod = paymentOption === CREDIT_PAYMENT ? 'credit' : 'external'
+
+  // Fetch the regions customers can be taxed in
+  useEffect(() => {
+    const fetchRegions = async () => {
+      try {
+        const response = await fetch('/api/checkout/tax-regions')
+        if (response.ok) {
+          const data = await response.json()
+          setRegions(data.regions || [])
+        }
+      } catch (error) {
+        console.error('Failed to fetch tax regions:', error)
+      }
+    }
 
-  // Calculate totals from cart items
-  const subtotal = items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
-  const tax = subtotal * 0.0875 // 8.75% tax rate
-  const total = subtotal + tax
+    fetchRegions()
+  }, [])
 
-  const totals = {
-    subtotal,
-    tax,
-    total
-  }
+  // Fetch the online payment providers customers can pay with
+  useEffect(() => {
+    const fetchProviders = async () => {
+      try {
+        const response = await fetch('/api/payments/providers')
+        if (response.ok) {
+          const data = await response.json()
+          setProviders(data.providers || [])
+        }
+      } catch (error) {
+        console.error('Failed to fetch payment providers:', error)
+      }
+    }
+
+    fetchProviders()
+  }, [])
+
+  /**
+   * Price the cart on the server; the order is charged exactly this quote
+   */
+  const fetchQuote = useCallback(async () => {
+    if (items.length === 0) return
+
+    setIsQuoting(true)
+    setQuoteError(null)
+    try {
+      const response = await fetch('/api/checkout/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          items: items.map(item => ({ productId: item.productId, quantity: item.quantity })),
+          paymentMethod,
+          region: region === NO_TAX_REGION ? undefined : region,
+          promotionCode: promotionCode ?? undefined
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok && promotionCode) {
+        // Most likely the code cannot be used: drop it, which prices the cart again without it
+        setPromotionError(data.error || 'This discount code cannot be used')
+        setPromotionCode(null)
+        return
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to price your order')
+      }
+
+      setQuote(data)
+    } catch (error) {
+      setQuote(null)
+      setQuoteError(error instanceof Error ? error.message : 'Failed to price your order')
+    } finally {
+      setIsQuoting(false)
+    }
+  }, [items, region, promotionCode, paymentMethod])
+
+  useEffect(() => {
+    fetchQuote()
+  }, [fetchQuote])
 
   // Fetch user profile to check credit balance
   useEffect(() => {
@@ -58,6 +163,11 @@ export default function CheckoutPage() {
     fetchUserProfile()
   }, [])
 
+  // A different cart, region, discount code or payment option is a different submission and needs a fresh key
+  useEffect(() => {
+    idempotencyKeyRef.current = null
+  }, [items, region, promotionCode, paymentOption])
+
   // Redirect if cart is empty (but not during order processing)
   useEffect(() => {
     // Only redirect if cart is empty AND we're not currently processing an order
@@ -72,19 +182,62 @@ export default function CheckoutPage() {
     }
   }, [items.length, isLoadingProfile, router])
 
+  /**
+   * Apply the entered discount code; the next quote validates it
+   */
+  const handleApplyPromotion = () => {
+    const code = promotionInput.trim().toUpperCase()
+    if (!code) return
+
+    setPromotionError(null)
+    setPromotionCode(code)
+  }
+
+  /**
+   * Remove the applied discount code
+   */
+  const handleRemovePromotion = () => {
+    setPromotionCode(null)
+    setPromotionInput('')
+    setPromotionError(null)
+  }
+
   /**
    * Handle order submission
    */
   const handlePlaceOrder = async () => {
+    if (!quote) return
+
     clearError()
+    setCartChanges([])
+
+    // Stock and prices may have moved since the cart was filled; let the buyer review any change
+    const changes = await validateCart()
+    if (changes.length > 0) {
+      setCartChanges(changes.map(change => change.message))
+      return
+    }
+    
+    if (!idempotencyKeyRef.current) {
+      idempotencyKeyRef.current = crypto.randomUUID()
+    }
     
     try {
-      const orderData = await createOrder(items, 'credit')
+      const orderData = await createOrder(items, paymentMethod, idempotencyKeyRef.current, {
+        region: region === NO_TAX_REGION ? undefined : region,
+        promotionCode: quote.promotionCode ?? undefined,
+        quotedTotal: quote.total
+      }, paymentMethod === 'external' ? paymentOption : undefined)
       
       if (orderData) {
         // Navigation is handled by the useOrders hook
         // Cart will be cleared after successful navigation
         // Don't clear cart here to prevent race condition with redirect useEffect
+      } else {
+        // Prices or stock may have changed; update the cart and show the current quote
+        const changes = await validateCart()
+        setCartChanges(changes.map(change => change.message))
+        fetchQuote()
       }
     } catch (error) {
       console.error('Order placement failed:', error)
@@ -107,7 +260,7 @@ export default function CheckoutPage() {
     )
   }
 
-  const hasInsufficientCredit = userProfile && userProfile.credit_balance < totals.total
+  const hasInsufficientCredit = paymentMethod === 'credit' && userProfile && quote && userProfile.credit_balance < quote.total
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-8">
@@ -175,7 +328,7 @@ export default function CheckoutPage() {
                       <Alert className="mt-4">
                         <AlertCircle className="h-4 w-4" />
                         <AlertDescription>
-                          Insufficient credit balance. You need ${(totals.total - userProfile.credit_balance).toFixed(2)} more to complete this order.
+                          Insufficient credit balance. You need ${((quote?.total ?? 0) - userProfile.credit_balance).toFixed(2)} more to complete this order.
                         </AlertDescription>
                       </Alert>
                     )}
@@ -191,27 +344,138 @@ export default function CheckoutPage() {
                   <CardTitle>Payment Summary</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-4">
-                  <div className="space-y-2">
-                    <div className="flex justify-between">
-                      <span>Subtotal:</span>
-                      <span>${totals.subtotal.toFixed(2)}</span>
+                  {regions.length > 0 && (
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">Billing Region</p>
+                      <Select value={region} onValueChange={setRegion}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_TAX_REGION}>Other / not listed</SelectItem>
+                          {regions.map(option => (
+                            <SelectItem key={option.region} value={option.region}>
+                              {option.name} ({option.region})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
-                    <div className="flex justify-between">
-                      <span>Tax:</span>
-                      <span>${totals.tax.toFixed(2)}</span>
+                  )}
+
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Discount Code</p>
+                    {promotionCode ? (
+                      <div className="flex items-center justify-between rounded-md border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700">
+                        <span className="flex items-center gap-2">
+                          <Tag className="h-4 w-4" />
+                          {promotionCode}
+                        </span>
+                        <Button variant="ghost" size="sm" onClick={handleRemovePromotion} disabled={isQuoting}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="Enter code"
+                          value={promotionInput}
+                          onChange={(e) => setPromotionInput(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleApplyPromotion()}
+                        />
+                        <Button variant="outline" onClick={handleApplyPromotion} disabled={!promotionInput.trim() || isQuoting}>
+                          Apply
+                        </Button>
+                      </div>
+                    )}
+                    {promotionError && (
+                      <p className="text-sm text-red-600">{promotionError}</p>
+                    )}
+                  </div>
+
+                  {quoteError ? (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{quoteError}</AlertDescription>
+                    </Alert>
+                  ) : !quote ? (
+                    <div className="flex justify-center py-4">
+                      <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
                     </div>
-                    <Separator />
-                    <div className="flex justify-between font-bold text-lg">
-                      <span>Total:</span>
-                      <span>${totals.total.toFixed(2)}</span>
+                  ) : (
+                    <div className="space-y-2">
+                      <div className="flex justify-between">
+                        <span>Subtotal:</span>
+                        <span>${quote.subtotal.toFixed(2)}</span>
+                      </div>
+                      {quote.discounts.map(discount => (
+                        <div key={discount.code} className="flex justify-between text-green-700">
+                          <span>{discount.label}:</span>
+                          <span>−${discount.amount.toFixed(2)}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between">
+                        <span>{quote.tax ? `${quote.tax.name} (${(quote.tax.rate * 100).toFixed(2)}%)` : 'Tax'}:</span>
+                        <span>${quote.taxTotal.toFixed(2)}</span>
+                      </div>
+                      {quote.fees.map(fee => (
+                        <div key={fee.code} className="flex justify-between">
+                          <span>{fee.label}:</span>
+                          <span>${fee.amount.toFixed(2)}</span>
+                        </div>
+                      ))}
+                      <Separator />
+                      <div className="flex justify-between font-bold text-lg">
+                        <span>Total:</span>
+                        <span>${quote.total.toFixed(2)}</span>
+                      </div>
                     </div>
-                  </div>
+                  )}
 
                   <div className="pt-4">
-                    <p className="text-sm text-gray-600 mb-4">
-                      Payment Method: Credit Balance
-                    </p>
+                    {providers.length > 0 ? (
+                      <div className="space-y-1 mb-4">
+                        <p className="text-sm font-medium">Payment Method</p>
+                        <Select value={paymentOption} onValueChange={setPaymentOption}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={CREDIT_PAYMENT}>Credit Balance</SelectItem>
+                            {providers.map(provider => (
+                              <SelectItem key={provider.id} value={provider.id}>
+                                Pay online ({provider.name})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {paymentMethod === 'external' && (
+                          <p className="text-xs text-gray-500">
+                            Your codes are reserved while you pay and delivered once the payment is confirmed
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-600 mb-4">
+                        Payment Method: Credit Balance
+                      </p>
+                    )}
                     
+                    {/* Cart Changes */}
+                    {cartChanges.length > 0 && (
+                      <Alert className="mb-4">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>
+                          <p className="font-medium">Your cart was updated. Please review it before placing your order.</p>
+                          <ul className="mt-1 list-disc pl-4">
+                            {cartChanges.map(change => (
+                              <li key={change}>{change}</li>
+                            ))}
+                          </ul>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
                     {/* Error Display */}
                     {error && (
                       <Alert className="mb-4" variant="destructive">
@@ -222,8 +486,7 @@ export default function CheckoutPage() {
 
                     <Button 
                       onClick={handlePlaceOrder}
-                      // @ts-expect-error - isCreatingOrder can be null from useOrders hook
-                      disabled={Boolean(isCreatingOrder) || hasInsufficientCredit}
+                      disabled={Boolean(isCreatingOrder) || hasInsufficientCredit || !quote || isQuoting || isValidating}
                       className="w-full"
                       size="lg"
                     >
@@ -232,12 +495,17 @@ export default function CheckoutPage() {
                           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                           Processing Order...
                         </>
+                      ) : isValidating ? (
+                        <>
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          Checking Cart...
+                        </>
                       ) : hasInsufficientCredit ? (
                         'Insufficient Credit'
                       ) : (
                         <>
                           <CheckCircle2 className="w-4 h-4 mr-2" />
-                          Place Order - ${totals.total.toFixed(2)}
+                          {paymentMethod === 'external' ? 'Continue to Payment' : 'Place Order'}{quote ? ` - $${quote.total.toFixed(2)}` : ''}
                         </>
                       )}
                     </Button>
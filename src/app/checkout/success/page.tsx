@@ -1,7 +1,10 @@
 /**
  * Order Success Page
  * 
- * Displays order confirmation with game codes and purchase details.
+ * Displays order confirmation with masked game codes and purchase details.
+ * Codes are revealed one at a time through the audited reveal endpoint.
+ * Orders awaiting an external payment show how long their codes are held
+ * instead; the codes are delivered once the payment is confirmed.
  * Fetches real order data from the API based on order ID.
  */
 
@@ -18,18 +21,21 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { 
   CheckCircle2, 
   Download, 
-  Copy, 
   ShoppingCart, 
   User, 
   Loader2,
   AlertCircle,
-  ExternalLink 
+  ExternalLink,
+  Clock
 } from 'lucide-react'
 import Link from 'next/link'
+import { GameCodeReveal, DeliveredGameCode } from '@/components/customer/game-code-reveal'
 
-interface GameCode {
-  id: string
-  encrypted_code: string
+interface BundleComponent {
+  productId: string
+  productName: string
+  platform: string
+  gameCodes: DeliveredGameCode[]
 }
 
 interface OrderItem {
@@ -38,14 +44,24 @@ interface OrderItem {
   platform: string
   quantity: number
   unitPrice: number
-  gameCodes: string[]
+  gameCodes: DeliveredGameCode[]
+  bundleComponents: BundleComponent[] | null
 }
 
 interface OrderDetails {
   orderId: string
   totalAmount: number
+  subtotal: number
+  discountTotal: number
+  taxTotal: number
+  taxRegion: string | null
+  feeTotal: number
+  promotionCode: string | null
   paymentMethod: string
   status: string
+  paymentExpiresAt: string | null
+  /** Provider page to finish an online payment started earlier */
+  paymentCheckoutUrl: string | null
   createdAt: string
   items: OrderItem[]
 }
@@ -58,7 +74,6 @@ function CheckoutSuccessContent() {
   const [orderDetails, setOrderDetails] = useState<OrderDetails | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [copiedCodes, setCopiedCodes] = useState<Set<string>>(new Set())
 
   // Clear cart immediately when success page loads
   useEffect(() => {
@@ -96,27 +111,6 @@ function CheckoutSuccessContent() {
     fetchOrderDetails()
   }, [orderId])
 
-  /**
-   * Copy game code to clipboard
-   */
-  const handleCopyCode = async (code: string) => {
-    try {
-      await navigator.clipboard.writeText(code)
-      setCopiedCodes(prev => new Set([...prev, code]))
-      
-      // Reset copied state after 2 seconds
-      setTimeout(() => {
-        setCopiedCodes(prev => {
-          const newSet = new Set(prev)
-          newSet.delete(code)
-          return newSet
-        })
-      }, 2000)
-    } catch (err) {
-      console.error('Failed to copy code:', err)
-    }
-  }
-
   // Loading state
   if (isLoading) {
     return (
@@ -190,21 +184,35 @@ function CheckoutSuccessContent() {
     )
   }
 
+  const isAwaitingPayment = orderDetails.status === 'pending' && orderDetails.paymentExpiresAt !== null
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-50 to-blue-50 py-8">
       <div className="container mx-auto px-4">
         <div className="max-w-4xl mx-auto space-y-8">
           
           {/* Success Header */}
-          <div className="text-center">
-            <div className="inline-flex items-center justify-center w-16 h-16 bg-green-100 rounded-full mb-4">
-              <CheckCircle2 className="h-8 w-8 text-green-600" />
+          {isAwaitingPayment ? (
+            <div className="text-center">
+              <div className="inline-flex items-center justify-center w-16 h-16 bg-yellow-100 rounded-full mb-4">
+                <Clock className="h-8 w-8 text-yellow-600" />
+              </div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Awaiting Payment</h1>
+              <p className="text-gray-600 text-lg">
+                Your order has been placed and your game codes are reserved
+              </p>
             </div>
-            <h1 className="text-3xl font-bold text-gray-900 mb-2">Order Successful!</h1>
-            <p className="text-gray-600 text-lg">
-              Your order has been processed and your game codes are ready
-            </p>
-          </div>
+          ) : (
+            <div className="text-center">
+              <div className="inline-flex items-center justify-center w-16 h-16 bg-green-100 rounded-full mb-4">
+                <CheckCircle2 className="h-8 w-8 text-green-600" />
+              </div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Order Successful!</h1>
+              <p className="text-gray-600 text-lg">
+                Your order has been processed and your game codes are ready
+              </p>
+            </div>
+          )}
 
           {/* Order Summary */}
           <Card>
@@ -222,6 +230,14 @@ function CheckoutSuccessContent() {
                 <div>
                   <p className="text-sm text-gray-600">Total Amount</p>
                   <p className="font-bold text-lg">${orderDetails.totalAmount.toFixed(2)}</p>
+                  {(orderDetails.discountTotal > 0 || orderDetails.taxTotal > 0 || orderDetails.feeTotal > 0) && (
+                    <p className="text-xs text-gray-500">
+                      Subtotal ${orderDetails.subtotal.toFixed(2)}
+                      {orderDetails.discountTotal > 0 && ` − ${orderDetails.promotionCode ? `code ${orderDetails.promotionCode}` : 'discounts'} $${orderDetails.discountTotal.toFixed(2)}`}
+                      {orderDetails.taxTotal > 0 && ` + tax${orderDetails.taxRegion ? ` (${orderDetails.taxRegion})` : ''} $${orderDetails.taxTotal.toFixed(2)}`}
+                      {orderDetails.feeTotal > 0 && ` + fees $${orderDetails.feeTotal.toFixed(2)}`}
+                    </p>
+                  )}
                 </div>
                 <div>
                   <p className="text-sm text-gray-600">Payment Method</p>
@@ -237,68 +253,97 @@ function CheckoutSuccessContent() {
             </CardContent>
           </Card>
 
+          {/* Payment Window */}
+          {isAwaitingPayment && (
+            <Alert>
+              <Clock className="h-4 w-4" />
+              <AlertDescription>
+                Your codes are held until {new Date(orderDetails.paymentExpiresAt!).toLocaleString()}.
+                They are delivered here as soon as your payment is confirmed; if it has not arrived
+                by then, the order is cancelled and the codes are released.
+              </AlertDescription>
+            </Alert>
+          )}
+          {isAwaitingPayment && orderDetails.paymentCheckoutUrl && (
+            <div className="text-center">
+              <Button asChild size="lg">
+                <a href={orderDetails.paymentCheckoutUrl}>
+                  <ExternalLink className="w-4 h-4 mr-2" />
+                  Complete Payment
+                </a>
+              </Button>
+            </div>
+          )}
+
           {/* Game Codes */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Download className="h-5 w-5" />
-                Your Game Codes
-              </CardTitle>
-              <CardDescription>
-                Click on any code to copy it to your clipboard
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-6">
-              {orderDetails.items.map((item, itemIndex) => (
-                <div key={itemIndex} className="border rounded-lg p-4">
-                  <div className="flex items-center justify-between mb-4">
-                    <div>
-                      <h3 className="font-semibold">{item.productName}</h3>
-                      <div className="flex items-center gap-2 mt-1">
-                        <Badge variant="secondary">{item.platform}</Badge>
-                        <span className="text-sm text-gray-600">{item.quantity} code{item.quantity !== 1 ? 's' : ''}</span>
+          {!isAwaitingPayment && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Download className="h-5 w-5" />
+                  Your Game Codes
+                </CardTitle>
+                <CardDescription>
+                  Reveal a code when you are ready to redeem it, then copy it to your clipboard
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {orderDetails.items.map((item, itemIndex) => (
+                  <div key={itemIndex} className="border rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-4">
+                      <div>
+                        <h3 className="font-semibold">{item.productName}</h3>
+                        <div className="flex items-center gap-2 mt-1">
+                          <Badge variant="secondary">{item.platform}</Badge>
+                          <span className="text-sm text-gray-600">
+                            {item.bundleComponents
+                              ? `${item.quantity} bundle${item.quantity !== 1 ? 's' : ''}`
+                              : `${item.quantity} code${item.quantity !== 1 ? 's' : ''}`}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-semibold">${(item.unitPrice * item.quantity).toFixed(2)}</p>
+                        <p className="text-sm text-gray-600">${item.unitPrice.toFixed(2)} each</p>
                       </div>
                     </div>
-                    <div className="text-right">
-                      <p className="font-semibold">${(item.unitPrice * item.quantity).toFixed(2)}</p>
-                      <p className="text-sm text-gray-600">${item.unitPrice.toFixed(2)} each</p>
-                    </div>
-                  </div>
-                  
-                  <Separator className="mb-4" />
-                  
-                  <div className="space-y-2">
-                    <p className="text-sm font-medium text-gray-700">Game Codes:</p>
-                    {item.gameCodes.map((code, codeIndex) => (
-                      <div key={codeIndex} className="flex items-center gap-2 p-3 bg-gray-50 rounded border">
-                        <code className="flex-1 font-mono text-sm bg-white px-2 py-1 rounded border">
-                          {code}
-                        </code>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleCopyCode(code)}
-                          className="px-3"
-                        >
-                          {copiedCodes.has(code) ? (
-                            <>
-                              <CheckCircle2 className="h-4 w-4 mr-1 text-green-600" />
-                              Copied
-                            </>
-                          ) : (
-                            <>
-                              <Copy className="h-4 w-4 mr-1" />
-                              Copy
-                            </>
-                          )}
-                        </Button>
+                    
+                    <Separator className="mb-4" />
+                    
+                    {item.bundleComponents ? (
+                      <div className="space-y-4">
+                        {item.bundleComponents.map((component) => (
+                          <div key={component.productId} className="space-y-2">
+                            <p className="text-sm font-medium text-gray-700">
+                              {component.productName} ({component.platform}):
+                            </p>
+                            {component.gameCodes.map((gameCode) => (
+                              <GameCodeReveal
+                                key={gameCode.codeId}
+                                orderId={orderDetails.orderId}
+                                gameCode={gameCode}
+                              />
+                            ))}
+                          </div>
+                        ))}
                       </div>
-                    ))}
+                    ) : (
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium text-gray-700">Game Codes:</p>
+                        {item.gameCodes.map((gameCode) => (
+                          <GameCodeReveal
+                            key={gameCode.codeId}
+                            orderId={orderDetails.orderId}
+                            gameCode={gameCode}
+                          />
+                        ))}
+                      </div>
+                    )}
                   </div>
-                </div>
-              ))}
-            </CardContent>
-          </Card>
+                ))}
+              </CardContent>
+            </Card>
+          )}
 
           {/* Next Steps */}
           <Card>
@@ -19,6 +19,7 @@ import {
   Calendar
 } from 'lucide-react'
 import { CreditRequestForm } from '@/components/customer/credit-request-form'
+import { OnlineTopUpForm } from '@/components/customer/online-top-up-form'
 import { CreditRequestDetail } from '@/components/customer/credit-request-detail'
 import { formatDistanceToNow } from 'date-fns'
 import { createClient } from '@/lib/supabase/client'
@@ -58,6 +59,8 @@ export default function CreditsPage() {
   const [isRequestDialogOpen, setIsRequestDialogOpen] = useState(false)
   const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null)
   const [isDetailDialogOpen, setIsDetailDialogOpen] = useState(false)
+  const [isTopUpDialogOpen, setIsTopUpDialogOpen] = useState(false)
+  const [paymentProviders, setPaymentProviders] = useState<Array<{ id: string; name: string }>>([])
   const [pagination, setPagination] = useState({
     page: 1,
     limit: 10,
@@ -155,6 +158,23 @@ export default function CreditsPage() {
     fetchCreditData()
   }, [pagination.page]) // Re-fetch when page changes
 
+  // Online top-ups are offered when a payment provider is enabled
+  useEffect(() => {
+    const fetchPaymentProviders = async () => {
+      try {
+        const response = await fetch('/api/payments/providers')
+        if (response.ok) {
+          const data = await response.json()
+          setPaymentProviders(data.providers || [])
+        }
+      } catch (error) {
+        console.error('Error fetching payment providers:', error)
+      }
+    }
+
+    fetchPaymentProviders()
+  }, [])
+
   /**
    * Handle successful credit request submission
    */
@@ -230,26 +250,47 @@ export default function CreditsPage() {
             Manage your account balance and view request history
           </p>
         </div>
-        <Dialog open={isRequestDialogOpen} onOpenChange={setIsRequestDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className="gap-2">
-              <Plus className="w-4 h-4" />
-              Request Credits
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Request Credits</DialogTitle>
-              <DialogDescription>
-                Submit a payment proof to add credits to your account
-              </DialogDescription>
-            </DialogHeader>
-            <CreditRequestForm
-              onSuccess={handleRequestSuccess}
-              userCreditBalance={creditStats.balance}
-            />
-          </DialogContent>
-        </Dialog>
+        <div className="flex gap-2">
+          {paymentProviders.length > 0 && (
+            <Dialog open={isTopUpDialogOpen} onOpenChange={setIsTopUpDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <CreditCard className="w-4 h-4" />
+                  Pay Online
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-md">
+                <DialogHeader>
+                  <DialogTitle>Top Up Online</DialogTitle>
+                  <DialogDescription>
+                    Pay online and your balance is credited as soon as the payment is confirmed
+                  </DialogDescription>
+                </DialogHeader>
+                <OnlineTopUpForm providers={paymentProviders} />
+              </DialogContent>
+            </Dialog>
+          )}
+          <Dialog open={isRequestDialogOpen} onOpenChange={setIsRequestDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="gap-2">
+                <Plus className="w-4 h-4" />
+                Request Credits
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Request Credits</DialogTitle>
+                <DialogDescription>
+                  Submit a payment proof to add credits to your account
+                </DialogDescription>
+              </DialogHeader>
+              <CreditRequestForm
+                onSuccess={handleRequestSuccess}
+                userCreditBalance={creditStats.balance}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Credit Statistics Cards */}
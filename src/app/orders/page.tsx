@@ -28,6 +28,14 @@ import {
 } from 'lucide-react'
 import Link from 'next/link'
 import { useOrders } from '@/hooks/use-orders'
+import { GameCodeReveal, DeliveredGameCode } from '@/components/customer/game-code-reveal'
+
+interface BundleComponent {
+  productId: string
+  productName: string
+  platform: string
+  gameCodes: DeliveredGameCode[]
+}
 
 interface OrderItem {
   productId: string
@@ -35,14 +43,16 @@ interface OrderItem {
   platform: string
   quantity: number
   unitPrice: number
-  gameCodes: string[]
+  gameCodes: DeliveredGameCode[]
+  bundleComponents: BundleComponent[] | null
 }
 
 interface Order {
   orderId: string
   totalAmount: number
   paymentMethod: string
-  status: 'pending' | 'completed' | 'failed'
+  status: 'pending' | 'completed' | 'failed' | 'cancelled'
+  paymentExpiresAt: string | null
   createdAt: string
   items: OrderItem[]
 }
@@ -296,29 +306,62 @@ export default function OrdersPage() {
                           <h4 className="font-medium mb-2">Items ({order.items.length})</h4>
                           <div className="space-y-2">
                             {order.items.map((item, index) => (
-                              <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                                <div className="flex items-center gap-3">
-                                  <div>
-                                    <p className="font-medium">{item.productName}</p>
-                                    <div className="flex items-center gap-2 mt-1">
-                                      <Badge variant="secondary" className="text-xs">
-                                        {item.platform}
-                                      </Badge>
-                                      <span className="text-sm text-gray-600">
-                                        Qty: {item.quantity}
-                                      </span>
-                                      {order.status === 'completed' && (
-                                        <span className="text-xs text-green-600 font-medium">
-                                          {item.gameCodes.length} code{item.gameCodes.length !== 1 ? 's' : ''} delivered
+                              <div key={index} className="p-3 bg-gray-50 rounded-lg">
+                                <div className="flex items-center justify-between">
+                                  <div className="flex items-center gap-3">
+                                    <div>
+                                      <p className="font-medium">{item.productName}</p>
+                                      <div className="flex items-center gap-2 mt-1">
+                                        <Badge variant="secondary" className="text-xs">
+                                          {item.platform}
+                                        </Badge>
+                                        <span className="text-sm text-gray-600">
+                                          Qty: {item.quantity}
                                         </span>
-                                      )}
+                                        {order.status === 'completed' && (
+                                          <span className="text-xs text-green-600 font-medium">
+                                            {item.gameCodes.length} code{item.gameCodes.length !== 1 ? 's' : ''} delivered
+                                          </span>
+                                        )}
+                                      </div>
                                     </div>
                                   </div>
+                                  <div className="text-right">
+                                    <p className="font-semibold">${(item.unitPrice * item.quantity).toFixed(2)}</p>
+                                    <p className="text-sm text-gray-600">${item.unitPrice.toFixed(2)} each</p>
+                                  </div>
                                 </div>
-                                <div className="text-right">
-                                  <p className="font-semibold">${(item.unitPrice * item.quantity).toFixed(2)}</p>
-                                  <p className="text-sm text-gray-600">${item.unitPrice.toFixed(2)} each</p>
-                                </div>
+                                {/* Bundle codes are grouped under the product they redeem */}
+                                {order.status === 'completed' && item.bundleComponents && (
+                                  <div className="space-y-3 mt-3">
+                                    {item.bundleComponents.map((component) => (
+                                      <div key={component.productId} className="space-y-2">
+                                        <p className="text-sm font-medium text-gray-700">
+                                          {component.productName}
+                                          <span className="ml-2 text-xs text-gray-500">{component.platform}</span>
+                                        </p>
+                                        {component.gameCodes.map((gameCode) => (
+                                          <GameCodeReveal
+                                            key={gameCode.codeId}
+                                            orderId={order.orderId}
+                                            gameCode={gameCode}
+                                          />
+                                        ))}
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                                {order.status === 'completed' && !item.bundleComponents && item.gameCodes.length > 0 && (
+                                  <div className="space-y-2 mt-3">
+                                    {item.gameCodes.map((gameCode) => (
+                                      <GameCodeReveal
+                                        key={gameCode.codeId}
+                                        orderId={order.orderId}
+                                        gameCode={gameCode}
+                                      />
+                                    ))}
+                                  </div>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -334,7 +377,9 @@ export default function OrdersPage() {
                             )}
                             {order.status === 'pending' && (
                               <span className="text-yellow-600 font-medium">
-                                ⏳ Processing order
+                                {order.paymentExpiresAt
+                                  ? `⏳ Awaiting payment until ${formatDate(order.paymentExpiresAt)}`
+                                  : '⏳ Processing order'}
                               </span>
                             )}
                             {order.status === 'failed' && (
@@ -342,6 +387,13 @@ export default function OrdersPage() {
                                 ✗ Order failed
                               </span>
                             )}
+                            {order.status === 'cancelled' && (
+                              <span className="text-gray-600 font-medium">
+                                {order.paymentExpiresAt
+                                  ? 'Order cancelled because payment was not received in time'
+                                  : 'Order cancelled and refunded to your credit balance'}
+                              </span>
+                            )}
                           </div>
                           <Button variant="outline" asChild>
                             <Link href={`/checkout/success?orderId=${order.orderId}`}>
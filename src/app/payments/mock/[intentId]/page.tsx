@@ -0,0 +1,199 @@
+/**
+ * Mock Payment Checkout Page
+ *
+ * The mock payment provider's stand-in for a hosted checkout page. The buyer
+ * pays or declines; the page then has the mock provider send its signed
+ * webhook, confirms the outcome with the store and returns the buyer to
+ * where the payment was started.
+ */
+
+'use client'
+
+import { useEffect, useState, Suspense } from 'react'
+import { useParams, useSearchParams } from 'next/navigation'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CreditCard, Loader2, AlertCircle, FlaskConical } from 'lucide-react'
+
+interface MockPayment {
+  paymentIntentId: string
+  providerName: string
+  purpose: 'order' | 'credit_top_up'
+  orderId: string | null
+  amount: number
+  status: string
+  failureReason: string | null
+}
+
+/**
+ * Where to send the buyer afterwards; only pages of this store are allowed
+ * @param returnUrl - Return address the provider was given
+ * @param payment - The payment, for a fallback
+ * @returns A same-origin URL
+ */
+function getReturnUrl(returnUrl: string | null, payment: MockPayment): string {
+  const fallback = payment.orderId ? `/checkout/success?orderId=${payment.orderId}` : '/credits'
+  if (!returnUrl) {
+    return fallback
+  }
+
+  const url = new URL(returnUrl, window.location.origin)
+  return url.origin === window.location.origin ? url.toString() : fallback
+}
+
+function MockPaymentContent() {
+  const { intentId } = useParams<{ intentId: string }>()
+  const searchParams = useSearchParams()
+
+  const [payment, setPayment] = useState<MockPayment | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Load the payment being made
+  useEffect(() => {
+    const fetchPayment = async () => {
+      try {
+        const response = await fetch(`/api/payments/intents/${intentId}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load payment')
+        }
+
+        setPayment(data.payment)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load payment')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchPayment()
+  }, [intentId])
+
+  /**
+   * Settle the mock payment, confirm it with the store and head back
+   * @param outcome - Pay or decline
+   */
+  const handleSettle = async (outcome: 'succeeded' | 'failed') => {
+    if (!payment) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const settleResponse = await fetch(`/api/payments/mock/${payment.paymentIntentId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ outcome }),
+      })
+      const settleData = await settleResponse.json()
+      if (!settleResponse.ok) {
+        throw new Error(settleData.error || 'Mock payment failed')
+      }
+
+      // The webhook has normally applied it already; this covers a lost webhook
+      const confirmResponse = await fetch(`/api/payments/intents/${payment.paymentIntentId}/confirm`, {
+        method: 'POST',
+      })
+      const confirmData = await confirmResponse.json()
+      if (!confirmResponse.ok) {
+        throw new Error(confirmData.error || 'Payment could not be confirmed')
+      }
+
+      window.location.href = getReturnUrl(searchParams.get('returnUrl'), payment)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Mock payment failed')
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isLoading) {
+    return <MockPaymentLoading />
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="container mx-auto px-4">
+        <div className="max-w-md mx-auto space-y-4">
+          <Alert>
+            <FlaskConical className="h-4 w-4" />
+            <AlertDescription>
+              Test checkout of the mock payment provider. No real money is moved.
+            </AlertDescription>
+          </Alert>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {payment && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CreditCard className="h-5 w-5" />
+                  {payment.providerName}
+                </CardTitle>
+                <CardDescription>
+                  {payment.purpose === 'order'
+                    ? `Order #${payment.orderId?.slice(-8).toUpperCase()}`
+                    : 'Credit top-up'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="flex items-center justify-between">
+                  <span className="text-gray-600">Amount</span>
+                  <span className="text-2xl font-bold">${payment.amount.toFixed(2)}</span>
+                </div>
+
+                {payment.status === 'requires_payment' ? (
+                  <div className="flex gap-3">
+                    <Button className="flex-1" onClick={() => handleSettle('succeeded')} disabled={isSubmitting}>
+                      {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                      Pay ${payment.amount.toFixed(2)}
+                    </Button>
+                    <Button variant="outline" onClick={() => handleSettle('failed')} disabled={isSubmitting}>
+                      Decline
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-600">Status</span>
+                    <Badge variant={payment.status === 'succeeded' ? 'default' : 'destructive'}>
+                      {payment.status === 'succeeded' ? 'Paid' : 'Failed'}
+                    </Badge>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function MockPaymentLoading() {
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="text-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
+        <p className="text-gray-600">Loading payment...</p>
+      </div>
+    </div>
+  )
+}
+
+export default function MockPaymentPage() {
+  return (
+    <Suspense fallback={<MockPaymentLoading />}>
+      <MockPaymentContent />
+    </Suspense>
+  )
+}
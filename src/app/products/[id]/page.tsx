@@ -5,41 +5,62 @@
  * with purchase options and stock information.
  */
 
-import { notFound } from 'next/navigation'
+import { notFound, redirect } from 'next/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { ArrowLeft, ShoppingCart, AlertTriangle, CheckCircle, Package } from 'lucide-react'
 import Link from 'next/link'
 import { prisma } from '@/lib/prisma'
+import { getAvailableStock } from '@/lib/bundles'
 import { AddToCartButton } from '@/components/customer/cart/AddToCartButton'
+import { VariantSelector } from '@/components/customer/variant-selector'
 
 /**
- * Fetch product details with game codes
+ * Fetch product details with available stock and, for bundles and products
+ * sold in variants, their components or variants
  */
 async function getProduct(id: string) {
   try {
     const product = await prisma.product.findUnique({
       where: { id },
       include: {
-        game_codes: {
-          where: { is_sold: false },
-          select: {
-            id: true,
-            created_at: true,
-          }
-        },
-        _count: {
-          select: {
-            game_codes: {
-              where: { is_sold: false }
+        bundle_components: {
+          include: {
+            component: {
+              select: { id: true, name: true, platform: true }
             }
-          }
+          },
+          orderBy: { created_at: 'asc' }
+        },
+        variants: {
+          where: { is_active: true },
+          orderBy: { price: 'asc' }
         }
       }
     })
 
-    return product
+    if (!product) {
+      return null
+    }
+
+    // Expired codes cannot be sold, so they do not count as stock
+    const stock = await getAvailableStock(prisma, [
+      product.id,
+      ...product.variants.map(variant => variant.id)
+    ])
+
+    return {
+      ...product,
+      availableStock: stock.get(product.id) ?? 0,
+      variants: product.variants.map(variant => ({
+        id: variant.id,
+        name: variant.name,
+        label: variant.variant_label ?? variant.name,
+        price: Number(variant.price),
+        availableStock: stock.get(variant.id) ?? 0
+      }))
+    }
   } catch (error) {
     console.error('Error fetching product:', error)
     return null
@@ -51,17 +72,27 @@ async function getProduct(id: string) {
  */
 export default async function ProductDetailPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ id: string }>
+  searchParams: Promise<{ variant?: string }>
 }) {
   const { id } = await params
+  const { variant: variantId } = await searchParams
   const product = await getProduct(id)
 
   if (!product) {
     notFound()
   }
 
-  const availableCodes = product._count.game_codes
+  // Variants are shown on the page of the product they belong to
+  if (product.parent_id) {
+    redirect(`/products/${product.parent_id}?variant=${product.id}`)
+  }
+
+  const availableCodes = product.availableStock
+  const isBundle = product.product_type === 'bundle'
+  const hasVariants = product.variants.length > 0
   const inStock = availableCodes > 0
 
   return (
@@ -99,7 +130,8 @@ export default async function ProductDetailPage({
               <CardTitle className="text-3xl mb-2">{product.name}</CardTitle>
               
               <div className="text-3xl font-bold text-green-600 mb-4">
-                ${product.price.toString()}
+                {hasVariants && <span className="text-base font-normal text-muted-foreground mr-2">From</span>}
+                ${hasVariants ? product.variants[0].price.toFixed(2) : product.price.toString()}
               </div>
             </CardHeader>
             
@@ -124,7 +156,9 @@ export default async function ProductDetailPage({
                     <div>
                       <dt className="text-sm font-medium text-muted-foreground">Availability</dt>
                       <dd className="text-sm">
-                        {inStock ? `${availableCodes} codes available` : 'Currently out of stock'}
+                        {inStock
+                          ? `${availableCodes} ${isBundle ? 'bundles' : 'codes'} available`
+                          : 'Currently out of stock'}
                       </dd>
                     </div>
                     <div>
@@ -133,11 +167,31 @@ export default async function ProductDetailPage({
                     </div>
                     <div>
                       <dt className="text-sm font-medium text-muted-foreground">Product Type</dt>
-                      <dd className="text-sm">Digital Game Code</dd>
+                      <dd className="text-sm">{isBundle ? 'Game Code Bundle' : 'Digital Game Code'}</dd>
                     </div>
                   </dl>
                 </div>
 
+                {isBundle && product.bundle_components.length > 0 && (
+                  <>
+                    <hr className="border-gray-200" />
+
+                    <div>
+                      <h3 className="text-lg font-semibold mb-2">What&apos;s included</h3>
+                      <ul className="space-y-2 text-sm">
+                        {product.bundle_components.map(bundleComponent => (
+                          <li key={bundleComponent.id} className="flex items-center justify-between">
+                            <span>
+                              {bundleComponent.quantity} × {bundleComponent.component.name}
+                            </span>
+                            <Badge variant="outline">{bundleComponent.component.platform}</Badge>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </>
+                )}
+
                 <hr className="border-gray-200" />
 
                 <div>
@@ -165,33 +219,45 @@ export default async function ProductDetailPage({
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">Price</span>
-                    <span className="text-lg font-semibold">${product.price.toString()}</span>
-                  </div>
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">Stock</span>
-                    <span className={`text-sm font-medium ${inStock ? 'text-green-600' : 'text-red-600'}`}>
-                      {inStock ? `${availableCodes} available` : 'Out of stock'}
-                    </span>
-                  </div>
-                </div>
+                {hasVariants ? (
+                  <VariantSelector
+                    parentId={product.id}
+                    platform={product.platform}
+                    imageUrl={product.image_url || undefined}
+                    variants={product.variants}
+                    initialVariantId={variantId}
+                  />
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Price</span>
+                        <span className="text-lg font-semibold">${product.price.toString()}</span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm text-muted-foreground">Stock</span>
+                        <span className={`text-sm font-medium ${inStock ? 'text-green-600' : 'text-red-600'}`}>
+                          {inStock ? `${availableCodes} available` : 'Out of stock'}
+                        </span>
+                      </div>
+                    </div>
 
-                <hr className="border-gray-200" />
+                    <hr className="border-gray-200" />
 
-                <AddToCartButton
-                  product={{
-                    id: product.id,
-                    name: product.name,
-                    price: Number(product.price),
-                    platform: product.platform,
-                    image_url: product.image_url || undefined,
-                  }}
-                  availableStock={availableCodes}
-                  size="lg"
-                  className="w-full"
-                />
+                    <AddToCartButton
+                      product={{
+                        id: product.id,
+                        name: product.name,
+                        price: Number(product.price),
+                        platform: product.platform,
+                        image_url: product.image_url || undefined,
+                      }}
+                      availableStock={availableCodes}
+                      size="lg"
+                      className="w-full"
+                    />
+                  </>
+                )}
 
                 {inStock ? (
                   <div className="rounded-lg border border-green-200 bg-green-50 p-3">
@@ -199,7 +265,7 @@ export default async function ProductDetailPage({
                       <CheckCircle className="h-4 w-4 text-green-600 mt-0.5" />
                       <div className="ml-3">
                         <p className="text-sm text-green-800">
-                          Instant delivery! You'll receive your code immediately after purchase.
+                          Instant delivery! You'll receive your {isBundle ? 'codes' : 'code'} immediately after purchase.
                         </p>
                       </div>
                     </div>
@@ -225,14 +291,14 @@ export default async function ProductDetailPage({
               </CardContent>
             </Card>
 
-            {/* Stock Alert */}
-            {inStock && availableCodes <= 5 && (
+            {/* Stock Alert; variants show their own stock in the selector */}
+            {inStock && !hasVariants && availableCodes <= 5 && (
               <div className="rounded-lg border border-red-200 bg-red-50 p-3">
                 <div className="flex">
                   <AlertTriangle className="h-4 w-4 text-red-600 mt-0.5" />
                   <div className="ml-3">
                     <p className="text-sm text-red-800">
-                      Low stock! Only {availableCodes} codes remaining.
+                      Low stock! Only {availableCodes} {isBundle ? 'bundles' : 'codes'} remaining.
                     </p>
                   </div>
                 </div>
@@ -50,8 +50,11 @@ const useProductsData = () => {
  * Enhanced Product card component with actions
  */
 function ProductCard({ product }: { product: ProductWithCodes }) {
-  const availableCodes = product._count?.game_codes || 0
+  const availableCodes = product.available_stock || 0
   const inStock = availableCodes > 0
+  // Products sold in variants are bought from their detail page
+  const variants = product.variants ?? []
+  const hasVariants = variants.length > 0
 
   return (
     <Card className={`h-full transition-all duration-200 hover:shadow-lg ${!inStock ? 'opacity-75' : ''} flex flex-col`}>
@@ -79,23 +82,39 @@ function ProductCard({ product }: { product: ProductWithCodes }) {
       
       <CardContent className="flex-shrink-0 pb-2">
         <div className="text-2xl font-bold text-green-600">
-          ${product.price.toString()}
+          {hasVariants && <span className="text-sm font-normal text-gray-500 mr-1">From</span>}
+          ${hasVariants ? variants[0].price.toString() : product.price.toString()}
         </div>
+        {hasVariants && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {variants.map(variant => (
+              <Badge key={variant.id} variant="outline" className="text-xs">
+                {variant.variant_label}
+              </Badge>
+            ))}
+          </div>
+        )}
       </CardContent>
       
       <CardFooter className="flex gap-2 flex-shrink-0 pt-2">
-        <AddToCartButton
-          product={{
-            id: product.id,
-            name: product.name,
-            price: Number(product.price),
-            platform: product.platform,
-            image_url: product.image_url || undefined,
-          }}
-          availableStock={availableCodes}
-          className="flex-1"
-          variant={inStock ? 'default' : 'outline'}
-        />
+        {hasVariants ? (
+          <Button asChild className="flex-1" variant={inStock ? 'default' : 'outline'} disabled={!inStock}>
+            <Link href={`/products/${product.id}`}>Choose option</Link>
+          </Button>
+        ) : (
+          <AddToCartButton
+            product={{
+              id: product.id,
+              name: product.name,
+              price: Number(product.price),
+              platform: product.platform,
+              image_url: product.image_url || undefined,
+            }}
+            availableStock={availableCodes}
+            className="flex-1"
+            variant={inStock ? 'default' : 'outline'}
+          />
+        )}
         <Link href={`/products/${product.id}`}>
           <Button variant="outline" size="icon">
             <Eye className="w-4 h-4" />
@@ -243,7 +262,7 @@ function ProductsGrid() {
         case 'price-desc':
           return parseFloat(b.price.toString()) - parseFloat(a.price.toString())
         case 'stock-desc':
-          return (b._count?.game_codes || 0) - (a._count?.game_codes || 0)
+          return (b.available_stock || 0) - (a.available_stock || 0)
         case 'platform':
           return a.platform.localeCompare(b.platform)
         default:
@@ -1,8 +1,10 @@
 import { createClient } from '@/lib/supabase/server'
 import { UserNav } from '@/components/shared/user-nav'
+import { StockAlertsMenu, type StockAlertSummary } from './stock-alerts-menu'
 
 /**
- * Minimal admin header component that only shows user profile/logout functionality.
+ * Minimal admin header component that only shows user profile/logout functionality
+ * and open low-stock alerts.
  * No customer navigation items (Home, Products, Cart, etc.)
  */
 export async function AdminHeader() {
@@ -22,6 +24,26 @@ export async function AdminHeader() {
     profile = data
   }
 
+  // Open low-stock alerts; RLS returns none for non-admins
+  let stockAlerts: StockAlertSummary[] = []
+  if (profile && ['admin', 'super_admin'].includes(profile.role)) {
+    const { data } = await supabase
+      .from('stock_alerts')
+      .select('id, product_id, available_codes, threshold, created_at, products(name)')
+      .is('acknowledged_at', null)
+      .order('created_at', { ascending: false })
+      .limit(20)
+
+    stockAlerts = (data || []).map(alert => ({
+      id: alert.id,
+      product_id: alert.product_id,
+      available_codes: alert.available_codes,
+      threshold: alert.threshold,
+      created_at: alert.created_at,
+      product_name: (alert.products as unknown as { name: string } | null)?.name ?? 'Unknown product',
+    }))
+  }
+
   return (
     <header className="bg-white border-b border-gray-200">
       <div className="px-4 sm:px-6 lg:px-8">
@@ -36,7 +58,10 @@ export async function AdminHeader() {
           {/* User profile dropdown */}
           <div className="flex items-center">
             {user && profile ? (
-              <UserNav user={user} profile={profile} />
+              <>
+                <StockAlertsMenu initialAlerts={stockAlerts} />
+                <UserNav user={user} profile={profile} />
+              </>
             ) : null}
           </div>
         </div>
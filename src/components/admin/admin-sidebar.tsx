@@ -13,6 +13,10 @@ import {
   ShoppingCart,
   Users,
   CreditCard,
+  ShieldAlert,
+  Percent,
+  Tag,
+  Wallet,
   Home,
   Menu,
   X
@@ -57,6 +61,30 @@ export function AdminSidebar() {
       href: '/admin/credits',
       icon: CreditCard,
       description: 'Review credit requests'
+    },
+    {
+      title: 'Disputes',
+      href: '/admin/disputes',
+      icon: ShieldAlert,
+      description: 'Resolve code disputes'
+    },
+    {
+      title: 'Pricing',
+      href: '/admin/pricing',
+      icon: Percent,
+      description: 'Tax rules and checkout fees'
+    },
+    {
+      title: 'Payments',
+      href: '/admin/payments',
+      icon: Wallet,
+      description: 'Online payment providers'
+    },
+    {
+      title: 'Promotions',
+      href: '/admin/promotions',
+      icon: Tag,
+      description: 'Discount codes'
     }
   ]
 
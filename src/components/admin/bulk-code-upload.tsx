@@ -27,6 +27,7 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form'
+import { CodeBatchSelect } from './code-batch-select'
 import { toast } from 'sonner'
 import {
   Upload,
@@ -65,7 +66,8 @@ interface UploadResult {
 
 /**
  * Bulk Game Code Upload Component
- * Allows admins to upload multiple game codes for a product via textarea or CSV file
+ * Allows admins to upload multiple game codes for a product via textarea or CSV file,
+ * optionally assigning them to a supplier batch
  * @param isOpen - Dialog open state
  * @param onClose - Close dialog callback
  * @param productId - Pre-selected product ID
@@ -84,6 +86,8 @@ export function BulkCodeUpload({
   const [previewCodes, setPreviewCodes] = useState<string[]>([])
   const [uploadResult, setUploadResult] = useState<UploadResult | null>(null)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [batchId, setBatchId] = useState<string | null>(null)
+  const [expiresAt, setExpiresAt] = useState('')
 
   const form = useForm<BulkUploadFormData>({
     resolver: zodResolver(bulkUploadSchema),
@@ -202,6 +206,8 @@ RTY456-FGH789-VBN012`
         body: JSON.stringify({
           codes,
           method: uploadMethod,
+          batchId,
+          expiresAt: expiresAt || null,
         }),
       })
 
@@ -221,7 +227,7 @@ RTY456-FGH789-VBN012`
       } else {
         const error = await response.json()
         console.error('API Error:', error)
-        toast.error(error.message || 'Failed to upload codes')
+        toast.error(error.error || error.message || 'Failed to upload codes')
       }
     } catch (error) {
       console.error('Bulk upload error:', error)
@@ -239,6 +245,8 @@ RTY456-FGH789-VBN012`
     setPreviewCodes([])
     setUploadResult(null)
     setSelectedFile(null)
+    setBatchId(null)
+    setExpiresAt('')
     onClose()
   }
 
@@ -323,6 +331,21 @@ RTY456-FGH789-VBN012`
           // Upload Form
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <CodeBatchSelect productId={productId} value={batchId} onChange={setBatchId} />
+
+              <div className="space-y-2">
+                <Label htmlFor="codes-expiry">Expiry Date (optional)</Label>
+                <Input
+                  id="codes-expiry"
+                  type="date"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                />
+                <p className="text-sm text-gray-500">
+                  Applies to every code in this upload. Expired codes are never sold.
+                </p>
+              </div>
+
               {/* Upload Method Tabs */}
               <Tabs
                 value={uploadMethod}
@@ -0,0 +1,205 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { toast } from 'sonner'
+import { Plus, Loader2 } from 'lucide-react'
+
+// Select items cannot have an empty value
+const NO_BATCH = '__none__'
+
+export interface CodeBatch {
+  id: string
+  supplier: string
+  purchase_date: string
+  unit_cost: number
+  currency: string
+  invoice_reference: string | null
+  game_codes?: { count: number }[]
+}
+
+interface CodeBatchSelectProps {
+  productId?: string
+  value: string | null
+  onChange: (batchId: string | null) => void
+}
+
+/**
+ * Supplier Batch Picker
+ * Lists the product's supplier batches and lets an admin record a new one
+ * inline, so uploaded codes carry their purchase cost
+ * @param productId - Product the batches belong to
+ * @param value - Selected batch ID, or null for none
+ * @param onChange - Called with the newly selected batch ID
+ */
+export function CodeBatchSelect({ productId, value, onChange }: CodeBatchSelectProps) {
+  const [batches, setBatches] = useState<CodeBatch[]>([])
+  const [isCreating, setIsCreating] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [draft, setDraft] = useState({
+    supplier: '',
+    purchaseDate: new Date().toISOString().slice(0, 10),
+    unitCost: '',
+    currency: 'USD',
+    invoiceReference: '',
+  })
+
+  /**
+   * Load the product's batches
+   */
+  const fetchBatches = useCallback(async () => {
+    if (!productId) return
+
+    try {
+      const response = await fetch(`/api/admin/products/${productId}/batches`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch batches')
+      }
+      const data = await response.json()
+      setBatches(data.batches)
+    } catch (error) {
+      console.error('Error fetching batches:', error)
+      toast.error('Failed to load supplier batches')
+    }
+  }, [productId])
+
+  useEffect(() => {
+    fetchBatches()
+  }, [fetchBatches])
+
+  /**
+   * Save the new batch and select it
+   */
+  const handleCreate = async () => {
+    const unitCost = parseFloat(draft.unitCost)
+    if (!draft.supplier.trim() || isNaN(unitCost) || unitCost < 0) {
+      toast.error('Supplier and a valid unit cost are required')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/admin/products/${productId}/batches`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          supplier: draft.supplier,
+          purchase_date: draft.purchaseDate,
+          unit_cost: unitCost,
+          currency: draft.currency,
+          invoice_reference: draft.invoiceReference.trim() || null,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create batch')
+      }
+
+      setBatches(prev => [data.batch, ...prev])
+      onChange(data.batch.id)
+      setIsCreating(false)
+      setDraft(prev => ({ ...prev, supplier: '', unitCost: '', invoiceReference: '' }))
+      toast.success('Batch created')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create batch')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Supplier Batch</Label>
+      <div className="flex gap-2">
+        <Select
+          value={value || NO_BATCH}
+          onValueChange={(selected) => onChange(selected === NO_BATCH ? null : selected)}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="No batch" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_BATCH}>No batch (cost unknown)</SelectItem>
+            {batches.map(batch => (
+              <SelectItem key={batch.id} value={batch.id}>
+                {batch.supplier} · {batch.purchase_date} · {Number(batch.unit_cost).toFixed(2)} {batch.currency}
+                {batch.invoice_reference ? ` · ${batch.invoice_reference}` : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" variant="outline" onClick={() => setIsCreating(!isCreating)}>
+          <Plus className="w-4 h-4 mr-1" />
+          New Batch
+        </Button>
+      </div>
+
+      {isCreating && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 border rounded-lg p-3">
+          <div className="space-y-1">
+            <Label htmlFor="batch-supplier">Supplier</Label>
+            <Input
+              id="batch-supplier"
+              value={draft.supplier}
+              onChange={(e) => setDraft(prev => ({ ...prev, supplier: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="batch-date">Purchase Date</Label>
+            <Input
+              id="batch-date"
+              type="date"
+              value={draft.purchaseDate}
+              onChange={(e) => setDraft(prev => ({ ...prev, purchaseDate: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="batch-cost">Unit Cost</Label>
+            <Input
+              id="batch-cost"
+              type="number"
+              min="0"
+              step="0.01"
+              value={draft.unitCost}
+              onChange={(e) => setDraft(prev => ({ ...prev, unitCost: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="batch-currency">Currency</Label>
+            <Input
+              id="batch-currency"
+              maxLength={3}
+              value={draft.currency}
+              onChange={(e) => setDraft(prev => ({ ...prev, currency: e.target.value.toUpperCase() }))}
+            />
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="batch-invoice">Invoice Reference (optional)</Label>
+            <Input
+              id="batch-invoice"
+              value={draft.invoiceReference}
+              onChange={(e) => setDraft(prev => ({ ...prev, invoiceReference: e.target.value }))}
+            />
+          </div>
+          <div className="flex justify-end gap-2 md:col-span-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setIsCreating(false)}>
+              Cancel
+            </Button>
+            <Button type="button" size="sm" onClick={handleCreate} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Batch
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-500">
+        Codes from a batch carry its unit cost, which is used for margin reporting.
+      </p>
+    </div>
+  )
+}
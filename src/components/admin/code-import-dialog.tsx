@@ -0,0 +1,464 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { CodeBatchSelect } from './code-batch-select'
+import { toast } from 'sonner'
+import {
+  FileSpreadsheet,
+  CheckCircle2,
+  AlertTriangle,
+  Download,
+  Loader2
+} from 'lucide-react'
+import type {
+  ColumnMapping,
+  ImportField,
+  ImportPreviewRow,
+  ImportRowIssue,
+  ImportSummary,
+} from '@/lib/code-import'
+
+// Select items cannot have an empty value
+const UNMAPPED = '__unmapped__'
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  code: 'Code (required)',
+  pin: 'PIN',
+  expiresAt: 'Expiry date',
+  denomination: 'Denomination',
+  batchNumber: 'Batch number',
+}
+
+type ImportStep = 'select' | 'map' | 'preview' | 'done'
+
+interface CodeImportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  productId?: string
+  productName?: string
+  onSuccess: () => void
+}
+
+interface FileInspection {
+  headers: string[]
+  sampleRows: string[][]
+  suggestedMapping: ColumnMapping
+}
+
+interface ImportResult {
+  importId?: string
+  summary: ImportSummary
+  issues: ImportRowIssue[]
+  issuesTruncated: boolean
+  previewRows: ImportPreviewRow[]
+}
+
+/**
+ * Spreadsheet Code Import Dialog
+ * Walks an admin through importing a supplier CSV/XLSX file: pick a file,
+ * map its columns, preview the validation result, then commit
+ * @param isOpen - Dialog open state
+ * @param onClose - Close dialog callback
+ * @param productId - Product the codes are imported into
+ * @param productName - Product name for display
+ * @param onSuccess - Callback to refresh parent data after an import
+ */
+export function CodeImportDialog({
+  isOpen,
+  onClose,
+  productId,
+  productName,
+  onSuccess
+}: CodeImportDialogProps) {
+  const [step, setStep] = useState<ImportStep>('select')
+  const [file, setFile] = useState<File | null>(null)
+  const [inspection, setInspection] = useState<FileInspection | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [batchId, setBatchId] = useState<string | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  /**
+   * Build the multipart body shared by every import endpoint
+   */
+  const buildFormData = (includeMapping: boolean) => {
+    const formData = new FormData()
+    formData.append('file', file as File)
+    if (includeMapping) {
+      formData.append('mapping', JSON.stringify(mapping))
+    }
+    if (batchId) {
+      formData.append('batchId', batchId)
+    }
+    return formData
+  }
+
+  /**
+   * POST to an import endpoint and return the parsed body
+   */
+  const postImport = async (path: string, includeMapping: boolean) => {
+    const response = await fetch(`/api/admin/products/${productId}/codes/import${path}`, {
+      method: 'POST',
+      body: buildFormData(includeMapping),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed')
+    }
+    return data
+  }
+
+  /**
+   * Read the header row and suggest a column mapping
+   */
+  const handleInspect = async () => {
+    if (!file || !productId) return
+
+    setIsWorking(true)
+    try {
+      const data: FileInspection = await postImport('/inspect', false)
+      setInspection(data)
+      setMapping(data.suggestedMapping)
+      setStep('map')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not read the file')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  /**
+   * Validate the whole file against the mapping without inserting
+   */
+  const handlePreview = async () => {
+    setIsWorking(true)
+    try {
+      const data: ImportResult = await postImport('/preview', true)
+      setResult(data)
+      setStep('preview')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Preview failed')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  /**
+   * Import the valid rows
+   */
+  const handleCommit = async () => {
+    setIsWorking(true)
+    try {
+      const data: ImportResult & { message: string } = await postImport('', true)
+      setResult(data)
+      setStep('done')
+      toast.success(data.message)
+      if (data.summary.importedRows > 0) {
+        onSuccess()
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Import failed')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  /**
+   * Reset state and close the dialog
+   */
+  const handleClose = () => {
+    setStep('select')
+    setFile(null)
+    setInspection(null)
+    setMapping({})
+    setBatchId(null)
+    setResult(null)
+    onClose()
+  }
+
+  /**
+   * Status badge for a preview row
+   */
+  const renderStatus = (status: ImportPreviewRow['status']) => {
+    if (status === 'valid') return <Badge className="bg-green-100 text-green-800">Valid</Badge>
+    if (status === 'duplicate') return <Badge className="bg-yellow-100 text-yellow-800">Duplicate</Badge>
+    return <Badge variant="destructive">Error</Badge>
+  }
+
+  /**
+   * Totals card shown after preview and commit
+   */
+  const renderSummary = (summary: ImportSummary, committed: boolean) => (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+      <div>
+        <div className="text-2xl font-bold">{summary.totalRows}</div>
+        <div className="text-sm text-gray-600">Rows</div>
+      </div>
+      <div>
+        <div className="text-2xl font-bold text-green-600">
+          {committed ? summary.importedRows : summary.validRows}
+        </div>
+        <div className="text-sm text-gray-600">{committed ? 'Imported' : 'Ready to import'}</div>
+      </div>
+      <div>
+        <div className="text-2xl font-bold text-yellow-600">{summary.duplicateRows}</div>
+        <div className="text-sm text-gray-600">Duplicates</div>
+      </div>
+      <div>
+        <div className="text-2xl font-bold text-red-600">{summary.errorRows}</div>
+        <div className="text-sm text-gray-600">Errors</div>
+      </div>
+    </div>
+  )
+
+  /**
+   * List of rejected rows
+   */
+  const renderIssues = (issues: ImportRowIssue[], truncated: boolean) => (
+    issues.length > 0 && (
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Rejected rows:</Label>
+        <div className="max-h-40 overflow-y-auto space-y-1">
+          {issues.slice(0, 100).map(issue => (
+            <div key={`${issue.row}-${issue.message}`} className="text-sm text-red-600 bg-red-50 p-2 rounded">
+              Row {issue.row}: {issue.message}
+            </div>
+          ))}
+        </div>
+        {(issues.length > 100 || truncated) && (
+          <p className="text-xs text-gray-500">
+            Showing the first 100 rejected rows. Download the report for the full list.
+          </p>
+        )}
+      </div>
+    )
+  )
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            <span>Import Game Codes</span>
+          </DialogTitle>
+          <DialogDescription>
+            {productName
+              ? `Import codes for "${productName}" from a supplier CSV or Excel file.`
+              : 'Import codes from a supplier CSV or Excel file.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'select' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">Spreadsheet</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.txt,.xlsx"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+              <p className="text-sm text-gray-500">
+                The first row must contain column headers. Only the first sheet of an Excel file is read.
+              </p>
+            </div>
+            <CodeBatchSelect productId={productId} value={batchId} onChange={setBatchId} />
+            <div className="flex justify-end space-x-3">
+              <Button type="button" variant="outline" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button onClick={handleInspect} disabled={!file || isWorking}>
+                {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && inspection && (
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Column Mapping</CardTitle>
+                <CardDescription>
+                  Choose which column of {file?.name} holds each field.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(Object.keys(FIELD_LABELS) as ImportField[]).map(field => (
+                  <div key={field} className="space-y-2">
+                    <Label>{FIELD_LABELS[field]}</Label>
+                    <Select
+                      value={mapping[field] || UNMAPPED}
+                      onValueChange={(value) => setMapping(prev => ({
+                        ...prev,
+                        [field]: value === UNMAPPED ? undefined : value,
+                      }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Not mapped" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                        {inspection.headers.filter(Boolean).map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {inspection.sampleRows.length > 0 && (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {inspection.headers.map((header, index) => (
+                        <TableHead key={index}>{header}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {inspection.sampleRows.map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {inspection.headers.map((_, index) => (
+                          <TableCell key={index} className="font-mono text-sm">{row[index] ?? ''}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <Button type="button" variant="outline" onClick={() => setStep('select')}>
+                Back
+              </Button>
+              <Button onClick={handlePreview} disabled={!mapping.code || isWorking}>
+                {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Preview Import
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && result && (
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Preview</CardTitle>
+                <CardDescription>Nothing has been imported yet.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {renderSummary(result.summary, false)}
+                {renderIssues(result.issues, result.issuesTruncated)}
+              </CardContent>
+            </Card>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Code</TableHead>
+                    <TableHead>PIN</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Denomination</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.previewRows.map(row => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell className="font-mono text-sm">{row.code}</TableCell>
+                      <TableCell className="font-mono text-sm">{row.pin || '-'}</TableCell>
+                      <TableCell>{row.expiresAt ? new Date(row.expiresAt).toLocaleDateString() : '-'}</TableCell>
+                      <TableCell>{row.denomination || '-'}</TableCell>
+                      <TableCell>{row.batchNumber || '-'}</TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          {renderStatus(row.status)}
+                          {row.message && <div className="text-xs text-gray-500">{row.message}</div>}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <Button type="button" variant="outline" onClick={() => setStep('map')} disabled={isWorking}>
+                Back
+              </Button>
+              <Button onClick={handleCommit} disabled={result.summary.validRows === 0 || isWorking}>
+                {isWorking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Import {result.summary.validRows} Codes
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2 text-lg">
+                  {result.summary.errorRows + result.summary.duplicateRows === 0 ? (
+                    <CheckCircle2 className="w-5 h-5 text-green-600" />
+                  ) : (
+                    <AlertTriangle className="w-5 h-5 text-yellow-600" />
+                  )}
+                  <span>Import Complete</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {renderSummary(result.summary, true)}
+                {renderIssues(result.issues, result.issuesTruncated)}
+              </CardContent>
+            </Card>
+
+            <div className="flex justify-end space-x-3">
+              {result.importId && result.issues.length > 0 && (
+                <Button variant="outline" asChild>
+                  <a href={`/api/admin/products/${productId}/codes/import/${result.importId}/report`}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Download Report
+                  </a>
+                </Button>
+              )}
+              <Button onClick={handleClose}>Done</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Clock, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import type { ExpiringCodesReportRow } from '@/lib/inventory'
+
+const WINDOW_OPTIONS = [7, 30, 90]
+
+/**
+ * Expiring Codes Report
+ * Lists, per product, unsold codes expiring within the selected window and
+ * those that have already expired and can no longer be sold
+ */
+export function ExpiringCodesReport() {
+  const [days, setDays] = useState(30)
+  const [rows, setRows] = useState<ExpiringCodesReportRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  /**
+   * Fetch the report for the selected window
+   */
+  const fetchReport = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/admin/codes/expiring?days=${days}`, {
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to fetch expiring codes')
+      }
+
+      const data = await response.json()
+      setRows(data.products || [])
+    } catch (error) {
+      console.error('Error fetching expiring codes:', error)
+      toast.error('Failed to load expiring codes')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5 text-orange-600" />
+            Expiring Codes
+          </CardTitle>
+          <Select value={String(days)} onValueChange={(value) => setDays(parseInt(value, 10))}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOW_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>Next {option} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <RefreshCw className="w-6 h-6 text-gray-400 animate-spin" />
+          </div>
+        ) : rows.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Expiring</TableHead>
+                <TableHead>Next Expiry</TableHead>
+                <TableHead>Already Expired</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.productId}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{row.productName}</span>
+                      <Badge variant="outline">{row.platform}</Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-medium text-orange-600">{row.expiringCodes}</TableCell>
+                  <TableCell className="text-sm text-gray-500">
+                    {row.nextExpiry ? new Date(row.nextExpiry).toLocaleDateString() : '-'}
+                  </TableCell>
+                  <TableCell className={row.expiredCodes > 0 ? 'font-medium text-red-600' : 'text-gray-500'}>
+                    {row.expiredCodes}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-gray-600 py-4 text-center">
+            No unsold codes expire in the next {days} days.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
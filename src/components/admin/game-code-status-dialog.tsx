@@ -0,0 +1,220 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { History, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import type { GameCodeStatus } from '@/lib/code-status'
+
+export const GAME_CODE_STATUS_LABELS: Record<GameCodeStatus, string> = {
+  available: 'Available',
+  reserved: 'Reserved',
+  sold: 'Sold',
+  refunded: 'Refunded',
+  defective: 'Defective',
+  voided: 'Voided',
+}
+
+interface StatusChange {
+  id: string
+  from_status: GameCodeStatus
+  to_status: GameCodeStatus
+  reason: string
+  order_id: string | null
+  changed_by: string | null
+  created_at: string
+}
+
+interface GameCodeStatusDialogProps {
+  productId: string | null
+  codeId: string | null
+  onClose: () => void
+  onChanged: () => void
+}
+
+/**
+ * Game Code Status Dialog
+ * Shows a code's status history and lets an admin move it to another
+ * allowed status with a reason
+ * @param productId - Product the code belongs to
+ * @param codeId - Code to show, or null when closed
+ * @param onClose - Called when the dialog closes
+ * @param onChanged - Called after the status was changed
+ */
+export function GameCodeStatusDialog({ productId, codeId, onClose, onChanged }: GameCodeStatusDialogProps) {
+  const [status, setStatus] = useState<GameCodeStatus | null>(null)
+  const [allowedTransitions, setAllowedTransitions] = useState<GameCodeStatus[]>([])
+  const [history, setHistory] = useState<StatusChange[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [target, setTarget] = useState<GameCodeStatus | ''>('')
+  const [reason, setReason] = useState('')
+
+  /**
+   * Load the code's current status and history
+   */
+  const fetchHistory = useCallback(async () => {
+    if (!productId || !codeId) return
+
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/admin/products/${productId}/codes/${codeId}/status`, {
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to fetch status history')
+      }
+
+      const data = await response.json()
+      setStatus(data.status)
+      setAllowedTransitions(data.allowedTransitions || [])
+      setHistory(data.history || [])
+    } catch (error) {
+      console.error('Error fetching code status history:', error)
+      toast.error('Failed to load status history')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [productId, codeId])
+
+  useEffect(() => {
+    setTarget('')
+    setReason('')
+    fetchHistory()
+  }, [fetchHistory])
+
+  /**
+   * Submit the status change
+   */
+  const handleSubmit = async () => {
+    if (!productId || !codeId || !target) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/admin/products/${productId}/codes/${codeId}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ status: target, reason }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change status')
+      }
+
+      toast.success(data.message)
+      onChanged()
+      onClose()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to change status')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!codeId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-600" />
+            Code Status
+            {status && <Badge variant="outline">{GAME_CODE_STATUS_LABELS[status]}</Badge>}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <RefreshCw className="w-6 h-6 text-gray-400 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {allowedTransitions.length > 0 ? (
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <Label>New Status</Label>
+                  <Select value={target} onValueChange={(value) => setTarget(value as GameCodeStatus)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {allowedTransitions.map(option => (
+                        <SelectItem key={option} value={option}>{GAME_CODE_STATUS_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="status-reason">Reason</Label>
+                  <Textarea
+                    id="status-reason"
+                    placeholder="e.g. Customer reported the code as already redeemed"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                  />
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                This code&apos;s status cannot be changed by hand.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-900">History</h4>
+              {history.length > 0 ? (
+                <ul className="space-y-2 max-h-60 overflow-auto">
+                  {history.map(change => (
+                    <li key={change.id} className="border rounded-lg p-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">
+                          {GAME_CODE_STATUS_LABELS[change.from_status]} → {GAME_CODE_STATUS_LABELS[change.to_status]}
+                        </span>
+                        <span className="text-xs text-gray-500">
+                          {new Date(change.created_at).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="text-gray-600">{change.reason}</p>
+                      <p className="text-xs text-gray-500">
+                        {change.changed_by ?? 'System'}
+                        {change.order_id && ` · Order ${change.order_id.slice(0, 8)}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500">No status changes recorded.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Close
+          </Button>
+          {allowedTransitions.length > 0 && (
+            <Button onClick={handleSubmit} disabled={isSaving || !target || reason.trim().length < 3}>
+              {isSaving && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+              Change Status
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
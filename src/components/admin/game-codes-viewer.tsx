@@ -18,6 +18,7 @@ import {
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { 
   Trash2,
   Search,
@@ -27,7 +28,9 @@ import {
   Eye,
   Package,
   CheckCircle,
-  XCircle
+  XCircle,
+  Clock,
+  History
 } from 'lucide-react'
 import { toast } from 'sonner'
 import {
@@ -40,12 +43,28 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
+import { GameCodeStatusDialog, GAME_CODE_STATUS_LABELS } from './game-code-status-dialog'
+import { GAME_CODE_STATUSES, type GameCodeStatus } from '@/lib/code-status'
+
+type StatusFilter = GameCodeStatus | 'expired' | 'all'
+
+const STATUS_BADGE_VARIANTS: Record<GameCodeStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  available: 'default',
+  reserved: 'outline',
+  sold: 'destructive',
+  refunded: 'secondary',
+  defective: 'destructive',
+  voided: 'secondary',
+}
 
 interface GameCode {
   id: string
   code: string
+  status: GameCodeStatus
   is_sold: boolean
   sold_at: string | null
+  expires_at: string | null
+  is_expired: boolean
   created_at: string
   order_id: string | null
 }
@@ -60,7 +79,8 @@ interface GameCodesViewerProps {
 
 /**
  * Game Codes Viewer Component
- * Displays all game codes for a product with delete functionality
+ * Displays all game codes for a product with status filtering, status
+ * changes and delete functionality
  */
 export function GameCodesViewer({
   isOpen,
@@ -72,12 +92,16 @@ export function GameCodesViewer({
   const [codes, setCodes] = useState<GameCode[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [searchTerm, setSearchTerm] = useState('')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [statusCodeId, setStatusCodeId] = useState<string | null>(null)
+  const [statusCounts, setStatusCounts] = useState<Partial<Record<GameCodeStatus, number>>>({})
   const [deleteCodeId, setDeleteCodeId] = useState<string | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
   const [stats, setStats] = useState({
     total: 0,
     available: 0,
-    sold: 0
+    sold: 0,
+    expired: 0
   })
 
   /**
@@ -98,8 +122,10 @@ export function GameCodesViewer({
         setStats({
           total: data.total || 0,
           available: data.available || 0,
-          sold: data.sold || 0
+          sold: data.sold || 0,
+          expired: data.expired || 0
         })
+        setStatusCounts(data.statusCounts || {})
       } else {
         const error = await response.json()
         toast.error(error.message || 'Failed to fetch game codes')
@@ -155,17 +181,21 @@ export function GameCodesViewer({
     }
   }
 
-  // Filter codes based on search term
-  const filteredCodes = codes.filter(code =>
-    code.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    code.id.toLowerCase().includes(searchTerm.toLowerCase())
-  )
+  // Filter codes based on status and search term
+  const filteredCodes = codes.filter(code => {
+    if (statusFilter === 'expired' && !code.is_expired) return false
+    if (statusFilter !== 'all' && statusFilter !== 'expired' && code.status !== statusFilter) return false
+
+    return code.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      code.id.toLowerCase().includes(searchTerm.toLowerCase())
+  })
 
   // Load codes when dialog opens
   useEffect(() => {
     if (isOpen && productId) {
       fetchGameCodes()
       setSearchTerm('')
+      setStatusFilter('all')
     }
   }, [isOpen, productId])
 
@@ -182,7 +212,7 @@ export function GameCodesViewer({
 
           <div className="flex-1 overflow-hidden flex flex-col space-y-4">
             {/* Stats Cards */}
-            <div className="grid grid-cols-3 gap-4">
+            <div className="grid grid-cols-4 gap-4">
               <div className="bg-blue-50 rounded-lg p-3">
                 <div className="flex items-center justify-between">
                   <div>
@@ -210,6 +240,15 @@ export function GameCodesViewer({
                   <XCircle className="w-8 h-8 text-red-500" />
                 </div>
               </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">Expired</p>
+                    <p className="text-2xl font-bold text-gray-900">{stats.expired}</p>
+                  </div>
+                  <Clock className="w-8 h-8 text-gray-500" />
+                </div>
+              </div>
             </div>
 
             {/* Search and Actions */}
@@ -223,6 +262,20 @@ export function GameCodesViewer({
                   className="pl-10"
                 />
               </div>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {GAME_CODE_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>
+                      {GAME_CODE_STATUS_LABELS[status]} ({statusCounts[status] ?? 0})
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="expired">Expired ({stats.expired})</SelectItem>
+                </SelectContent>
+              </Select>
               <Button
                 variant="outline"
                 onClick={fetchGameCodes}
@@ -249,6 +302,7 @@ export function GameCodesViewer({
                       <TableHead>Game Code</TableHead>
                       <TableHead>Status</TableHead>
                       <TableHead>Created</TableHead>
+                      <TableHead>Expires</TableHead>
                       <TableHead>Sold Date</TableHead>
                       <TableHead className="w-[100px]">Actions</TableHead>
                     </TableRow>
@@ -272,30 +326,45 @@ export function GameCodesViewer({
                           </div>
                         </TableCell>
                         <TableCell>
-                          <Badge
-                            variant={code.is_sold ? "destructive" : "default"}
-                          >
-                            {code.is_sold ? "Sold" : "Available"}
-                          </Badge>
+                          {code.is_expired ? (
+                            <Badge variant="secondary">Expired</Badge>
+                          ) : (
+                            <Badge variant={STATUS_BADGE_VARIANTS[code.status]}>
+                              {GAME_CODE_STATUS_LABELS[code.status]}
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell className="text-sm text-gray-500">
                           {new Date(code.created_at).toLocaleDateString()}
                         </TableCell>
+                        <TableCell className="text-sm text-gray-500">
+                          {code.expires_at ? new Date(code.expires_at).toLocaleDateString() : '-'}
+                        </TableCell>
                         <TableCell className="text-sm text-gray-500">
                           {code.sold_at ? new Date(code.sold_at).toLocaleDateString() : '-'}
                         </TableCell>
                         <TableCell>
-                          {!code.is_sold && (
+                          <div className="flex items-center gap-1">
                             <Button
                               variant="ghost"
                               size="icon"
-                              className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
-                              onClick={() => setDeleteCodeId(code.id)}
-                              disabled={isDeleting}
+                              className="h-8 w-8"
+                              onClick={() => setStatusCodeId(code.id)}
                             >
-                              <Trash2 className="w-4 h-4" />
+                              <History className="w-4 h-4" />
                             </Button>
-                          )}
+                            {(code.status === 'available' || code.status === 'voided') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-red-600 hover:text-red-700 hover:bg-red-50"
+                                onClick={() => setDeleteCodeId(code.id)}
+                                disabled={isDeleting}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
                         </TableCell>
                       </TableRow>
                     ))}
@@ -305,15 +374,15 @@ export function GameCodesViewer({
                 <div className="text-center py-12">
                   <Package className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                   <h3 className="text-lg font-medium text-gray-900 mb-2">
-                    {searchTerm ? 'No codes found' : 'No game codes yet'}
+                    {searchTerm || statusFilter !== 'all' ? 'No codes found' : 'No game codes yet'}
                   </h3>
                   <p className="text-gray-600 mb-4">
-                    {searchTerm 
-                      ? 'Try adjusting your search terms.'
+                    {searchTerm || statusFilter !== 'all'
+                      ? 'Try adjusting your search terms or status filter.'
                       : 'Upload game codes using the bulk upload feature.'
                     }
                   </p>
-                  {!searchTerm && (
+                  {!searchTerm && statusFilter === 'all' && (
                     <Button variant="outline" onClick={onClose}>
                       Close and Upload Codes
                     </Button>
@@ -323,7 +392,7 @@ export function GameCodesViewer({
             </div>
 
             {/* Results Summary */}
-            {searchTerm && (
+            {(searchTerm || statusFilter !== 'all') && (
               <div className="text-sm text-gray-600">
                 Showing {filteredCodes.length} of {codes.length} codes
               </div>
@@ -332,6 +401,17 @@ export function GameCodesViewer({
         </DialogContent>
       </Dialog>
 
+      {/* Status History and Change Dialog */}
+      <GameCodeStatusDialog
+        productId={productId}
+        codeId={statusCodeId}
+        onClose={() => setStatusCodeId(null)}
+        onChanged={() => {
+          fetchGameCodes()
+          onSuccess?.()
+        }}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deleteCodeId} onOpenChange={(open) => !open && setDeleteCodeId(null)}>
         <AlertDialogContent>
@@ -342,7 +422,7 @@ export function GameCodesViewer({
             </AlertDialogTitle>
             <AlertDialogDescription>
               Are you sure you want to delete this game code? This action cannot be undone.
-              Only unsold codes can be deleted to maintain order integrity.
+              Only available or voided codes can be deleted to maintain order integrity.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
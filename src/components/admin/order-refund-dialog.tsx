@@ -0,0 +1,195 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { RefreshCw, Undo2 } from 'lucide-react'
+import { toast } from 'sonner'
+import type { RefundCodeAction } from '@/lib/order-refunds'
+
+export interface RefundableOrderItem {
+  id: string
+  product_name: string
+  /** Amount credited when the item is refunded */
+  refund_value: number
+}
+
+interface OrderRefundDialogProps {
+  orderId: string | null
+  items: RefundableOrderItem[]
+  /** Order fees, returned when every remaining item is refunded */
+  feeTotal: number
+  onClose: () => void
+  onRefunded: () => void
+}
+
+/**
+ * Order Refund Dialog
+ * Lets an admin refund selected items of a completed order to the customer's
+ * credit balance (or the online payment) and choose what happens to the
+ * unrevealed codes
+ * @param orderId - Order to refund, or null when closed
+ * @param items - Items that can still be refunded
+ * @param feeTotal - Order fees, refunded together with the last items or on
+ *   their own once every item was refunded
+ * @param onClose - Called when the dialog closes
+ * @param onRefunded - Called after the refund went through
+ */
+export function OrderRefundDialog({ orderId, items, feeTotal, onClose, onRefunded }: OrderRefundDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [codeAction, setCodeAction] = useState<RefundCodeAction>('restock')
+  const [reason, setReason] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setSelectedIds(items.map(item => item.id))
+    setCodeAction('restock')
+    setReason('')
+  }, [orderId, items])
+
+  // Every item was refunded through disputes; only the fees are left
+  const feesOnly = items.length === 0 && feeTotal > 0
+  const refundsEverything = feesOnly || (items.length > 0 && selectedIds.length === items.length)
+  const refundTotal = items
+    .filter(item => selectedIds.includes(item.id))
+    .reduce((sum, item) => sum + item.refund_value, refundsEverything ? feeTotal : 0)
+
+  /**
+   * Toggle an item in the refund selection
+   */
+  const toggleItem = (itemId: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, itemId] : prev.filter(id => id !== itemId))
+  }
+
+  /**
+   * Submit the refund
+   */
+  const handleSubmit = async () => {
+    if (!orderId || (selectedIds.length === 0 && !feesOnly)) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/refund`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          // Omitting the items refunds everything that is left
+          itemIds: refundsEverything ? undefined : selectedIds,
+          codeAction,
+          reason,
+        }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to refund order')
+      }
+
+      toast.success(data.message)
+      onRefunded()
+      onClose()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to refund order')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!orderId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="w-5 h-5 text-red-600" />
+            Refund Order
+          </DialogTitle>
+          <DialogDescription>
+            The refund is credited to the customer&apos;s balance, or returned to the original payment for orders paid online. Codes the customer already revealed stay refunded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Items</Label>
+            <ul className="space-y-2 max-h-60 overflow-auto">
+              {items.map(item => (
+                <li key={item.id} className="flex items-center gap-3 border rounded-lg p-2 text-sm">
+                  <Checkbox
+                    id={`refund-item-${item.id}`}
+                    checked={selectedIds.includes(item.id)}
+                    onCheckedChange={(checked) => toggleItem(item.id, checked === true)}
+                  />
+                  <label htmlFor={`refund-item-${item.id}`} className="flex-1 cursor-pointer">
+                    {item.product_name}
+                  </label>
+                  <span className="text-gray-600">${item.refund_value.toFixed(2)}</span>
+                </li>
+              ))}
+            </ul>
+            {feesOnly && (
+              <p className="text-sm text-gray-600">
+                Every item was already refunded. Refunding the order fees (${feeTotal.toFixed(2)}) cancels the order.
+              </p>
+            )}
+            {feeTotal > 0 && !feesOnly && (
+              <p className="text-xs text-gray-500">
+                Order fees (${feeTotal.toFixed(2)}) are refunded with the last remaining items.
+              </p>
+            )}
+          </div>
+
+          {!feesOnly && (
+            <div className="space-y-1">
+              <Label>Unrevealed Codes</Label>
+              <Select value={codeAction} onValueChange={(value) => setCodeAction(value as RefundCodeAction)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="restock">Return to inventory</SelectItem>
+                  <SelectItem value="void">Void</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Textarea
+              id="refund-reason"
+              placeholder="e.g. Customer ordered the wrong region"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={isSaving || (selectedIds.length === 0 && !feesOnly) || reason.trim().length < 3}
+          >
+            {isSaving && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+            Refund ${refundTotal.toFixed(2)}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -19,7 +19,7 @@ import {
   FormMessage,
 } from '@/components/ui/form'
 import { toast } from 'sonner'
-import { Loader2 } from 'lucide-react'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
 import type { Product } from './products-data-table'
 
 // Product form validation schema
@@ -30,16 +30,34 @@ const productSchema = z.object({
   price: z.number().min(0.01, 'Price must be greater than 0'),
   image_url: z.string().url('Must be a valid URL').optional().or(z.literal('')),
   is_active: z.boolean(),
+  low_stock_threshold: z.number().int().min(0, 'Threshold cannot be negative'),
+  product_type: z.enum(['single', 'bundle']),
 })
 
 type ProductFormData = z.infer<typeof productSchema>
 
 interface ProductFormProps {
   product?: Product
+  /** Existing variants of the product in edit mode */
+  variants?: Product[]
+  /** Single products that can be added to a bundle */
+  componentOptions?: Product[]
   onSuccess: () => void
   onCancel: () => void
 }
 
+interface ComponentRow {
+  componentId: string
+  quantity: number
+}
+
+interface VariantRow {
+  id?: string
+  label: string
+  price: number
+  isActive: boolean
+}
+
 const PLATFORMS = [
   'PS5',
   'Xbox',
@@ -54,11 +72,29 @@ const PLATFORMS = [
  * Product Form Component
  * Handles both create and edit operations for products
  * @param product - Existing product data for edit mode
+ * @param variants - Existing variants of the product in edit mode
+ * @param componentOptions - Single products offered as bundle components
  * @param onSuccess - Callback on successful form submission
  * @param onCancel - Callback on form cancellation
  */
-export function ProductForm({ product, onSuccess, onCancel }: ProductFormProps) {
+export function ProductForm({ product, variants = [], componentOptions = [], onSuccess, onCancel }: ProductFormProps) {
   const [isLoading, setIsLoading] = useState(false)
+  const [components, setComponents] = useState<ComponentRow[]>(
+    product?.bundle_components?.map(bundleComponent => ({
+      componentId: bundleComponent.component_id,
+      quantity: bundleComponent.quantity,
+    })) ?? []
+  )
+  const [variantRows, setVariantRows] = useState<VariantRow[]>(
+    [...variants]
+      .sort((a, b) => a.price - b.price)
+      .map(variant => ({
+        id: variant.id,
+        label: variant.variant_label ?? '',
+        price: variant.price,
+        isActive: variant.is_active,
+      }))
+  )
   const isEditMode = Boolean(product)
 
   const form = useForm<ProductFormData>({
@@ -70,13 +106,43 @@ export function ProductForm({ product, onSuccess, onCancel }: ProductFormProps)
       price: product?.price || 0,
       image_url: product?.image_url || '',
       is_active: product?.is_active ?? true,
+      low_stock_threshold: product?.low_stock_threshold ?? 5,
+      product_type: product?.product_type ?? 'single',
     },
   })
+  const isBundle = form.watch('product_type') === 'bundle'
+
+  /**
+   * Update one row of the bundle component editor
+   */
+  const updateComponent = (index: number, changes: Partial<ComponentRow>) => {
+    setComponents(rows => rows.map((row, rowIndex) => rowIndex === index ? { ...row, ...changes } : row))
+  }
+
+  /**
+   * Update one row of the variant editor
+   */
+  const updateVariant = (index: number, changes: Partial<VariantRow>) => {
+    setVariantRows(rows => rows.map((row, rowIndex) => rowIndex === index ? { ...row, ...changes } : row))
+  }
 
   /**
    * Handle form submission for create/update operations
    */
   const onSubmit = async (data: ProductFormData) => {
+    const bundleComponents = components.filter(row => row.componentId)
+    if (data.product_type === 'bundle' && bundleComponents.length === 0) {
+      toast.error('Add at least one component to the bundle')
+      return
+    }
+
+    // Saved when the product has or gets variants; an empty list removes them
+    const saveVariants = data.product_type === 'single' && (variantRows.length > 0 || variants.length > 0)
+    if (saveVariants && variantRows.some(row => !row.label.trim() || row.price <= 0)) {
+      toast.error('Every variant needs a label and a price')
+      return
+    }
+
     setIsLoading(true)
     
     try {
@@ -85,6 +151,8 @@ export function ProductForm({ product, onSuccess, onCancel }: ProductFormProps)
         : '/api/admin/products'
       
       const method = isEditMode ? 'PUT' : 'POST'
+      // The product type is fixed once the product exists
+      const { product_type, ...productData } = data
       
       const response = await fetch(url, {
         method,
@@ -93,22 +161,66 @@ export function ProductForm({ product, onSuccess, onCancel }: ProductFormProps)
         },
         credentials: 'include',
         body: JSON.stringify({
-          ...data,
+          ...productData,
+          ...(isEditMode ? {} : { product_type }),
           image_url: data.image_url || null, // Convert empty string to null
         }),
       })
 
-      if (response.ok) {
-        toast.success(
-          isEditMode 
-            ? 'Product updated successfully!' 
-            : 'Product created successfully!'
-        )
-        onSuccess()
-      } else {
+      if (!response.ok) {
         const error = await response.json()
         toast.error(error.message || 'Something went wrong')
+        return
       }
+
+      const { product: savedProduct } = await response.json()
+
+      if (saveVariants) {
+        const variantsResponse = await fetch(`/api/admin/products/${savedProduct.id}/variants`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          credentials: 'include',
+          body: JSON.stringify({
+            variants: variantRows.map(row => ({ ...row, label: row.label.trim() })),
+          }),
+        })
+
+        if (!variantsResponse.ok) {
+          const error = await variantsResponse.json()
+          toast.error(error.error || 'Failed to save variants')
+          // The product itself was saved; refresh so it can be fixed from the edit form
+          onSuccess()
+          return
+        }
+      }
+
+      if (product_type === 'bundle') {
+        const componentsResponse = await fetch(`/api/admin/products/${savedProduct.id}/components`, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          credentials: 'include',
+          body: JSON.stringify({ components: bundleComponents }),
+        })
+
+        if (!componentsResponse.ok) {
+          const error = await componentsResponse.json()
+          toast.error(error.error || 'Failed to save bundle components')
+          // The product itself was saved; refresh so it can be fixed from the edit form
+          onSuccess()
+          return
+        }
+      }
+
+      toast.success(
+        isEditMode 
+          ? 'Product updated successfully!' 
+          : 'Product created successfully!'
+      )
+      onSuccess()
     } catch (error) {
       console.error('Form submission error:', error)
       toast.error('Failed to save product. Please try again.')
@@ -217,7 +329,9 @@ export function ProductForm({ product, onSuccess, onCancel }: ProductFormProps)
                   />
                 </FormControl>
                 <FormDescription>
-                  Price in US dollars
+                  {variantRows.length > 0
+                    ? 'Set from the cheapest variant when saved'
+                    : 'Price in US dollars'}
                 </FormDescription>
                 <FormMessage />
               </FormItem>
@@ -225,6 +339,160 @@ export function ProductForm({ product, onSuccess, onCancel }: ProductFormProps)
           />
         </div>
 
+        {/* Product Type */}
+        <FormField
+          control={form.control}
+          name="product_type"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Product Type</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                defaultValue={field.value}
+                disabled={isLoading || isEditMode}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="single">Single product</SelectItem>
+                  <SelectItem value="bundle">Bundle</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                {isEditMode
+                  ? 'The product type cannot be changed after creation'
+                  : 'A bundle sells codes from several products as one item'}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Bundle Components */}
+        {isBundle && (
+          <div className="space-y-3 rounded-lg border p-4">
+            <div>
+              <div className="text-sm font-medium">Bundle Components</div>
+              <p className="text-sm text-muted-foreground">
+                Codes delivered per bundle. Stock is limited by the scarcest component.
+              </p>
+            </div>
+            {components.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select
+                  value={row.componentId}
+                  onValueChange={componentId => updateComponent(index, { componentId })}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Select a product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {componentOptions
+                      .filter(option =>
+                        option.id === row.componentId ||
+                        !components.some(other => other.componentId === option.id)
+                      )
+                      .map(option => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.name} ({option.platform})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="1"
+                  step="1"
+                  className="w-20"
+                  value={row.quantity}
+                  onChange={(e) => updateComponent(index, { quantity: parseInt(e.target.value, 10) || 1 })}
+                  disabled={isLoading}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setComponents(rows => rows.filter((_, rowIndex) => rowIndex !== index))}
+                  disabled={isLoading}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setComponents(rows => [...rows, { componentId: '', quantity: 1 }])}
+              disabled={isLoading}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add component
+            </Button>
+          </div>
+        )}
+
+        {/* Variants */}
+        {!isBundle && (
+          <div className="space-y-3 rounded-lg border p-4">
+            <div>
+              <div className="text-sm font-medium">Variants (Optional)</div>
+              <p className="text-sm text-muted-foreground">
+                Sell this product in denominations such as $10, $25 and $50, each with its own
+                price and codes. The product price becomes the cheapest variant&apos;s.
+              </p>
+            </div>
+            {variantRows.map((row, index) => (
+              <div key={row.id ?? `new-${index}`} className="flex items-center gap-2">
+                <Input
+                  placeholder="Label, e.g. $25"
+                  className="flex-1"
+                  value={row.label}
+                  onChange={(e) => updateVariant(index, { label: e.target.value })}
+                  disabled={isLoading}
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  className="w-28"
+                  value={row.price}
+                  onChange={(e) => updateVariant(index, { price: parseFloat(e.target.value) || 0 })}
+                  disabled={isLoading}
+                />
+                <Switch
+                  checked={row.isActive}
+                  onCheckedChange={(isActive) => updateVariant(index, { isActive })}
+                  disabled={isLoading}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setVariantRows(rows => rows.filter((_, rowIndex) => rowIndex !== index))}
+                  disabled={isLoading}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setVariantRows(rows => [...rows, { label: '', price: 0, isActive: true }])}
+              disabled={isLoading}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add variant
+            </Button>
+          </div>
+        )}
+
         {/* Image URL */}
         <FormField
           control={form.control}
@@ -248,6 +516,31 @@ export function ProductForm({ product, onSuccess, onCancel }: ProductFormProps)
           )}
         />
 
+        {/* Low Stock Threshold */}
+        <FormField
+          control={form.control}
+          name="low_stock_threshold"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Low Stock Threshold</FormLabel>
+              <FormControl>
+                <Input 
+                  type="number"
+                  step="1"
+                  min="0"
+                  {...field}
+                  onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 0)}
+                  disabled={isLoading}
+                />
+              </FormControl>
+              <FormDescription>
+                Alert admins when available codes drop below this number (0 disables alerts)
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Active Status */}
         <FormField
           control={form.control}
@@ -37,11 +37,21 @@ import {
   Package,
   AlertTriangle,
   Upload,
-  List
+  List,
+  FileSpreadsheet
 } from 'lucide-react'
 import { ProductForm } from './product-form'
 import { BulkCodeUpload } from './bulk-code-upload'
+import { CodeImportDialog } from './code-import-dialog'
 import { GameCodesViewer } from './game-codes-viewer'
+import type { MarginSummary } from '@/lib/margins'
+import type { ProductType } from '@/lib/bundles'
+
+export interface BundleComponent {
+  component_id: string
+  quantity: number
+  component: { id: string; name: string; platform: string; price: number }
+}
 
 export interface Product {
   id: string
@@ -51,9 +61,18 @@ export interface Product {
   price: number
   image_url: string | null
   is_active: boolean
+  low_stock_threshold: number
+  product_type: ProductType
+  /** Set on variants of a parent product */
+  parent_id: string | null
+  variant_label: string | null
   created_at: string
   updated_at: string
   game_codes?: { count: number }[]
+  /** Sellable units; for bundles, complete sets of their components */
+  available_stock?: number
+  bundle_components?: BundleComponent[]
+  margin?: MarginSummary | null
 }
 
 interface ProductsDataTableProps {
@@ -74,10 +93,27 @@ export function ProductsDataTable({ products, onProductUpdate }: ProductsDataTab
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [isBulkUploadOpen, setIsBulkUploadOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
   const [isGameCodesViewerOpen, setIsGameCodesViewerOpen] = useState(false)
 
   // Filter products based on search term
-  const filteredProducts = products.filter(product =>
+  // Products that hold codes: singles and variants, not the products grouping variants
+  const parentIds = new Set(products.map(product => product.parent_id).filter(Boolean))
+  const componentOptions = products.filter(product =>
+    product.product_type === 'single' && !parentIds.has(product.id)
+  )
+
+  // Variants are listed right after the product they belong to
+  const orderedProducts = products
+    .filter(product => !product.parent_id)
+    .flatMap(product => [
+      product,
+      ...products
+        .filter(variant => variant.parent_id === product.id)
+        .sort((a, b) => a.price - b.price),
+    ])
+
+  const filteredProducts = orderedProducts.filter(product =>
     product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     product.platform.toLowerCase().includes(searchTerm.toLowerCase()) ||
     product.description.toLowerCase().includes(searchTerm.toLowerCase())
@@ -157,6 +193,7 @@ export function ProductsDataTable({ products, onProductUpdate }: ProductsDataTab
               <DialogTitle>Create New Product</DialogTitle>
             </DialogHeader>
             <ProductForm
+              componentOptions={componentOptions}
               onSuccess={() => {
                 onProductUpdate()
                 setIsCreateDialogOpen(false)
@@ -176,6 +213,7 @@ export function ProductsDataTable({ products, onProductUpdate }: ProductsDataTab
               <TableHead>Platform</TableHead>
               <TableHead>Price</TableHead>
               <TableHead>Stock</TableHead>
+              <TableHead>Margin</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Created</TableHead>
               <TableHead className="w-[70px]">Actions</TableHead>
@@ -183,118 +221,189 @@ export function ProductsDataTable({ products, onProductUpdate }: ProductsDataTab
           </TableHeader>
           <TableBody>
             {filteredProducts.length > 0 ? (
-              filteredProducts.map((product) => (
-                <TableRow key={product.id}>
-                  <TableCell>
-                    <div className="flex items-center space-x-3">
-                      <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center">
-                        <Package className="w-5 h-5 text-gray-400" />
-                      </div>
-                      <div>
-                        <div className="font-medium text-gray-900">{product.name}</div>
-                        <div className="text-sm text-gray-500 truncate max-w-[200px]">
-                          {product.description}
+              filteredProducts.map((product) => {
+                const variantCount = products.filter(variant => variant.parent_id === product.id).length
+                // Codes live on singles and variants, not on bundles or the products grouping variants
+                const holdsCodes = product.product_type === 'single' && variantCount === 0
+
+                return (
+                  <TableRow key={product.id}>
+                    <TableCell>
+                      <div className={`flex items-center space-x-3 ${product.parent_id ? 'pl-8' : ''}`}>
+                        <div className="w-10 h-10 bg-gray-100 rounded-lg flex items-center justify-center">
+                          <Package className="w-5 h-5 text-gray-400" />
+                        </div>
+                        <div>
+                          <div className="font-medium text-gray-900">{product.name}</div>
+                          <div className="text-sm text-gray-500 truncate max-w-[200px]">
+                            {product.description}
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <Badge variant="outline">{product.platform}</Badge>
-                  </TableCell>
-                  <TableCell className="font-medium">
-                    ${product.price.toFixed(2)}
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex items-center space-x-1">
-                      <span className="font-medium">
-                        {product.game_codes?.[0]?.count || 0}
-                      </span>
-                      <span className="text-sm text-gray-500">codes</span>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <Badge
-                      variant={product.is_active ? "default" : "secondary"}
-                      className="cursor-pointer"
-                      onClick={() => handleToggleStatus(product)}
-                    >
-                      {product.is_active ? "Active" : "Inactive"}
-                    </Badge>
-                  </TableCell>
-                  <TableCell className="text-sm text-gray-500">
-                    {new Date(product.created_at).toLocaleDateString()}
-                  </TableCell>
-                  <TableCell>
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" className="h-8 w-8 p-0">
-                          <span className="sr-only">Open menu</span>
-                          <MoreHorizontal className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                        <DropdownMenuItem
-                          onClick={() => navigator.clipboard.writeText(product.id)}
-                        >
-                          Copy product ID
-                        </DropdownMenuItem>
-                        <DropdownMenuSeparator />
-                        <DropdownMenuItem
-                          onClick={() => {
-                            // Navigate to product view
-                            window.open(`/products/${product.id}`, '_blank')
-                          }}
-                        >
-                          <Eye className="w-4 h-4 mr-2" />
-                          View product
-                        </DropdownMenuItem>
-                        <DropdownMenuItem
-                          onClick={() => {
-                            setSelectedProduct(product)
-                            setIsEditDialogOpen(true)
-                          }}
-                        >
-                          <Edit className="w-4 h-4 mr-2" />
-                          Edit product
-                        </DropdownMenuItem>
-                        <DropdownMenuItem
-                          onClick={() => {
-                            setSelectedProduct(product)
-                            setIsBulkUploadOpen(true)
-                          }}
-                        >
-                          <Upload className="w-4 h-4 mr-2" />
-                          Bulk upload codes
-                        </DropdownMenuItem>
-                        <DropdownMenuItem
-                          onClick={() => {
-                            setSelectedProduct(product)
-                            setIsGameCodesViewerOpen(true)
-                          }}
-                        >
-                          <List className="w-4 h-4 mr-2" />
-                          View game codes
-                        </DropdownMenuItem>
-                        <DropdownMenuSeparator />
-                        <DropdownMenuItem
-                          onClick={() => {
-                            setSelectedProduct(product)
-                            setIsDeleteDialogOpen(true)
-                          }}
-                          className="text-red-600 focus:text-red-600"
-                        >
-                          <Trash2 className="w-4 h-4 mr-2" />
-                          Delete product
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </TableCell>
-                </TableRow>
-              ))
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="outline">{product.platform}</Badge>
+                        {product.product_type === 'bundle' && (
+                          <Badge variant="secondary">Bundle</Badge>
+                        )}
+                        {product.parent_id && (
+                          <Badge variant="secondary">Variant {product.variant_label}</Badge>
+                        )}
+                        {variantCount > 0 && (
+                          <Badge variant="secondary">{variantCount} variants</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      ${product.price.toFixed(2)}
+                    </TableCell>
+                    <TableCell>
+                      {product.product_type === 'bundle' ? (
+                        <div>
+                          <div className="flex items-center space-x-1">
+                            <span className="font-medium">{product.available_stock ?? 0}</span>
+                            <span className="text-sm text-gray-500">bundles</span>
+                          </div>
+                          <div className="text-xs text-gray-500 truncate max-w-[200px]">
+                            {product.bundle_components?.length
+                              ? product.bundle_components
+                                  .map(bundleComponent => `${bundleComponent.quantity}× ${bundleComponent.component.name}`)
+                                  .join(', ')
+                              : 'No components'}
+                          </div>
+                        </div>
+                      ) : variantCount > 0 ? (
+                        <div className="flex items-center space-x-1">
+                          <span className="font-medium">{product.available_stock ?? 0}</span>
+                          <span className="text-sm text-gray-500">available across variants</span>
+                        </div>
+                      ) : (
+                        <div className="flex items-center space-x-1">
+                          <span className="font-medium">
+                            {product.game_codes?.[0]?.count || 0}
+                          </span>
+                          <span className="text-sm text-gray-500">codes</span>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {product.margin && product.margin.marginPercent !== null ? (
+                        <div>
+                          <div className={`font-medium ${product.margin.margin < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            ${product.margin.margin.toFixed(2)}
+                          </div>
+                          <div className="text-sm text-gray-500">
+                            {product.margin.marginPercent}%
+                            {product.margin.uncostedCodes > 0 && ` · ${product.margin.uncostedCodes} uncosted`}
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-500">
+                          {product.margin?.uncostedCodes ? `${product.margin.uncostedCodes} uncosted` : '—'}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={product.is_active ? "default" : "secondary"}
+                        className="cursor-pointer"
+                        onClick={() => handleToggleStatus(product)}
+                      >
+                        {product.is_active ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-500">
+                      {new Date(product.created_at).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" className="h-8 w-8 p-0">
+                            <span className="sr-only">Open menu</span>
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                          <DropdownMenuItem
+                            onClick={() => navigator.clipboard.writeText(product.id)}
+                          >
+                            Copy product ID
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            onClick={() => {
+                              // Navigate to product view
+                              window.open(`/products/${product.id}`, '_blank')
+                            }}
+                          >
+                            <Eye className="w-4 h-4 mr-2" />
+                            View product
+                          </DropdownMenuItem>
+                          {/* Variants are edited from the product they belong to */}
+                          {!product.parent_id && (
+                            <DropdownMenuItem
+                              onClick={() => {
+                                setSelectedProduct(product)
+                                setIsEditDialogOpen(true)
+                              }}
+                            >
+                              <Edit className="w-4 h-4 mr-2" />
+                              Edit product
+                            </DropdownMenuItem>
+                          )}
+                          {holdsCodes && (
+                            <>
+                              <DropdownMenuItem
+                                onClick={() => {
+                                  setSelectedProduct(product)
+                                  setIsBulkUploadOpen(true)
+                                }}
+                              >
+                                <Upload className="w-4 h-4 mr-2" />
+                                Bulk upload codes
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => {
+                                  setSelectedProduct(product)
+                                  setIsImportOpen(true)
+                                }}
+                              >
+                                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                                Import spreadsheet
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => {
+                                  setSelectedProduct(product)
+                                  setIsGameCodesViewerOpen(true)
+                                }}
+                              >
+                                <List className="w-4 h-4 mr-2" />
+                                View game codes
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            onClick={() => {
+                              setSelectedProduct(product)
+                              setIsDeleteDialogOpen(true)
+                            }}
+                            className="text-red-600 focus:text-red-600"
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete product
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                )
+              })
             ) : (
               <TableRow>
-                <TableCell colSpan={7} className="text-center py-12">
+                <TableCell colSpan={8} className="text-center py-12">
                   <Package className="w-12 h-12 text-gray-400 mx-auto mb-4" />
                   <h3 className="text-lg font-medium text-gray-900 mb-2">
                     {searchTerm ? 'No products found' : 'No products yet'}
@@ -327,6 +436,8 @@ export function ProductsDataTable({ products, onProductUpdate }: ProductsDataTab
           {selectedProduct && (
             <ProductForm
               product={selectedProduct}
+              variants={products.filter(variant => variant.parent_id === selectedProduct.id)}
+              componentOptions={componentOptions}
               onSuccess={() => {
                 onProductUpdate()
                 setIsEditDialogOpen(false)
@@ -393,6 +504,18 @@ export function ProductsDataTable({ products, onProductUpdate }: ProductsDataTab
         }}
       />
 
+      {/* Spreadsheet Import Dialog */}
+      <CodeImportDialog
+        isOpen={isImportOpen}
+        onClose={() => {
+          setIsImportOpen(false)
+          setSelectedProduct(null)
+        }}
+        productId={selectedProduct?.id}
+        productName={selectedProduct?.name}
+        onSuccess={onProductUpdate}
+      />
+
       {/* Game Codes Viewer Dialog */}
       <GameCodesViewer
         isOpen={isGameCodesViewerOpen}
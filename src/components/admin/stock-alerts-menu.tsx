@@ -0,0 +1,111 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Button } from '@/components/ui/button'
+import { Bell, Check } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+
+export interface StockAlertSummary {
+  id: string
+  product_id: string
+  available_codes: number
+  threshold: number
+  created_at: string
+  product_name: string
+}
+
+interface StockAlertsMenuProps {
+  initialAlerts: StockAlertSummary[]
+}
+
+/**
+ * Admin header bell listing open low-stock alerts.
+ * Alerts are acknowledged one at a time from the dropdown.
+ */
+export function StockAlertsMenu({ initialAlerts }: StockAlertsMenuProps) {
+  const [alerts, setAlerts] = useState(initialAlerts)
+
+  /**
+   * Acknowledge an alert and drop it from the list
+   */
+  const handleAcknowledge = async (alertId: string) => {
+    try {
+      const response = await fetch(`/api/admin/stock-alerts/${alertId}`, {
+        method: 'PATCH',
+        credentials: 'include',
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to acknowledge alert')
+      }
+
+      setAlerts(prev => prev.filter(alert => alert.id !== alertId))
+    } catch (error) {
+      console.error('Stock alert acknowledge error:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to acknowledge alert')
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative mr-2">
+          <Bell className="h-5 w-5" />
+          <span className="sr-only">Stock alerts</span>
+          {alerts.length > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+              {alerts.length}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel>Low Stock Alerts</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {alerts.length > 0 ? (
+          alerts.map(alert => (
+            <DropdownMenuItem
+              key={alert.id}
+              className="flex items-start justify-between gap-2"
+              onSelect={(event) => event.preventDefault()}
+            >
+              <div className="flex-1">
+                <p className="text-sm font-medium">{alert.product_name}</p>
+                <p className="text-xs text-gray-500">
+                  {alert.available_codes} left (threshold {alert.threshold}) ·{' '}
+                  {formatDistanceToNow(new Date(alert.created_at), { addSuffix: true })}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => handleAcknowledge(alert.id)}
+              >
+                <Check className="h-4 w-4" />
+                <span className="sr-only">Acknowledge</span>
+              </Button>
+            </DropdownMenuItem>
+          ))
+        ) : (
+          <div className="px-2 py-3 text-sm text-gray-500">No open alerts</div>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/admin">View low-stock products</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -19,6 +19,9 @@ interface AddToCartButtonProps {
     price: number
     platform: string
     image_url?: string
+    /** Set when `id` is a variant of this product */
+    parentId?: string
+    variantLabel?: string
   }
   availableStock: number
   disabled?: boolean
@@ -50,6 +53,8 @@ export function AddToCartButton({
     const cartItemData: Omit<CartItem, 'quantity'> = {
       id: `cart-${product.id}-${Date.now()}`,
       productId: product.id,
+      parentProductId: product.parentId,
+      variantLabel: product.variantLabel,
       name: product.name,
       price: product.price,
       platform: product.platform,
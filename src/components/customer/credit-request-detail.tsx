@@ -24,10 +24,13 @@ interface CreditRequestDetail {
   id: string
   amount: number
   payment_method: string
+  reference_number: string | null
+  payer_name: string | null
   notes?: string
   status: 'pending' | 'approved' | 'rejected'
   admin_notes?: string
-  payment_proof_url: string
+  payment_proof_url: string | null
+  payment_proof_type: string | null
   created_at: string
   reviewed_at?: string
   reviewed_by?: string
@@ -118,17 +121,17 @@ export function CreditRequestDetail({ requestId, open, onOpenChange }: CreditReq
   /**
    * Check if payment proof is an image
    */
-  const isImageFile = (url: string) => {
-    return url.startsWith('data:image/')
+  const isImageFile = (contentType: string | null) => {
+    return contentType?.startsWith('image/') ?? false
   }
 
   /**
    * Get file type display
    */
-  const getFileTypeDisplay = (url: string) => {
-    if (url.startsWith('data:image/')) {
+  const getFileTypeDisplay = (contentType: string | null) => {
+    if (contentType?.startsWith('image/')) {
       return { type: 'Image', icon: <ImageIcon className="w-4 h-4" /> }
-    } else if (url.startsWith('data:application/pdf')) {
+    } else if (contentType === 'application/pdf') {
       return { type: 'PDF Document', icon: <File className="w-4 h-4" /> }
     } else {
       return { type: 'File', icon: <File className="w-4 h-4" /> }
@@ -140,7 +143,7 @@ export function CreditRequestDetail({ requestId, open, onOpenChange }: CreditReq
   }
 
   const statusDisplay = requestDetail ? getStatusDisplay(requestDetail.status) : null
-  const fileDisplay = requestDetail ? getFileTypeDisplay(requestDetail.payment_proof_url) : null
+  const fileDisplay = requestDetail ? getFileTypeDisplay(requestDetail.payment_proof_type) : null
 
   return (
     <>
@@ -188,6 +191,12 @@ export function CreditRequestDetail({ requestId, open, onOpenChange }: CreditReq
                     <span className="text-sm font-medium">Payment Method</span>
                   </div>
                   <p className="text-gray-900 ml-6">{requestDetail.payment_method}</p>
+                  {requestDetail.reference_number && (
+                    <p className="text-sm text-gray-600 ml-6">
+                      Ref: <span className="font-mono">{requestDetail.reference_number}</span>
+                      {requestDetail.payer_name && <> · Paid by {requestDetail.payer_name}</>}
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-3">
@@ -226,10 +235,10 @@ export function CreditRequestDetail({ requestId, open, onOpenChange }: CreditReq
                     <span>Type: {fileDisplay?.type}</span>
                   </div>
                   
-                  {isImageFile(requestDetail.payment_proof_url) ? (
+                  {isImageFile(requestDetail.payment_proof_type) ? (
                     <div className="space-y-2">
                       <img
-                        src={requestDetail.payment_proof_url}
+                        src={requestDetail.payment_proof_url ?? undefined}
                         alt="Payment proof"
                         className="max-w-full h-32 object-cover rounded-lg border cursor-pointer hover:opacity-80 transition-opacity"
                         onClick={() => setIsImageDialogOpen(true)}
@@ -254,7 +263,7 @@ export function CreditRequestDetail({ requestId, open, onOpenChange }: CreditReq
                         variant="outline" 
                         size="sm"
                         className="mt-2"
-                        onClick={() => window.open(requestDetail.payment_proof_url, '_blank')}
+                        onClick={() => window.open(requestDetail.payment_proof_url ?? undefined, '_blank')}
                       >
                         Open File
                       </Button>
@@ -314,7 +323,7 @@ export function CreditRequestDetail({ requestId, open, onOpenChange }: CreditReq
       </Dialog>
 
       {/* Full Size Image Dialog */}
-      {requestDetail && isImageFile(requestDetail.payment_proof_url) && (
+      {requestDetail && isImageFile(requestDetail.payment_proof_type) && (
         <Dialog open={isImageDialogOpen} onOpenChange={setIsImageDialogOpen}>
           <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden">
             <DialogHeader>
@@ -325,7 +334,7 @@ export function CreditRequestDetail({ requestId, open, onOpenChange }: CreditReq
             </DialogHeader>
             <div className="flex items-center justify-center p-4">
               <img
-                src={requestDetail.payment_proof_url}
+                src={requestDetail.payment_proof_url ?? undefined}
                 alt="Payment proof - full size"
                 className="max-w-full max-h-[70vh] object-contain rounded-lg"
               />
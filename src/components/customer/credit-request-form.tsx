@@ -31,6 +31,13 @@ import {
   Loader2,
   X
 } from 'lucide-react'
+import {
+  CREDIT_PAYMENT_METHODS,
+  normalizeReferenceNumber,
+  REFERENCE_NUMBER_MAX_LENGTH,
+  REFERENCE_NUMBER_MIN_LENGTH,
+  REFERENCE_NUMBER_PATTERN,
+} from '@/lib/credit-request-details'
 
 // Credit request validation schema
 const creditRequestSchema = z.object({
@@ -39,6 +46,14 @@ const creditRequestSchema = z.object({
     .max(1000, 'Maximum credit request is $1000'),
   paymentMethod: z.string()
     .min(1, 'Please select a payment method'),
+  referenceNumber: z.string()
+    .refine(value => normalizeReferenceNumber(value).length >= REFERENCE_NUMBER_MIN_LENGTH, 'Please enter the reference number from your receipt')
+    .refine(value => normalizeReferenceNumber(value).length <= REFERENCE_NUMBER_MAX_LENGTH, 'Reference number is too long')
+    .refine(value => REFERENCE_NUMBER_PATTERN.test(normalizeReferenceNumber(value)), 'Reference number may only contain letters, digits and - _ / . #'),
+  payerName: z.string()
+    .trim()
+    .min(2, 'Please enter the name the payment was made under')
+    .max(100, 'Payer name must be less than 100 characters'),
   notes: z.string()
     .max(500, 'Notes must be less than 500 characters')
     .optional(),
@@ -69,6 +84,8 @@ export function CreditRequestForm({ onSuccess, userCreditBalance = 0 }: CreditRe
     defaultValues: {
       amount: 0,
       paymentMethod: '',
+      referenceNumber: '',
+      payerName: '',
       notes: '',
     },
   })
@@ -153,6 +170,8 @@ export function CreditRequestForm({ onSuccess, userCreditBalance = 0 }: CreditRe
       const formData = new FormData()
       formData.append('amount', data.amount.toString())
       formData.append('paymentMethod', data.paymentMethod)
+      formData.append('referenceNumber', data.referenceNumber)
+      formData.append('payerName', data.payerName)
       if (data.notes) formData.append('notes', data.notes)
       formData.append('paymentProof', selectedFile)
 
@@ -176,7 +195,7 @@ export function CreditRequestForm({ onSuccess, userCreditBalance = 0 }: CreditRe
         }, 3000)
       } else {
         const error = await response.json()
-        toast.error(error.message || 'Failed to submit credit request')
+        toast.error(error.details?.[0]?.message || error.error || 'Failed to submit credit request')
         setSubmitStep('form')
       }
     } catch (error) {
@@ -315,9 +334,9 @@ export function CreditRequestForm({ onSuccess, userCreditBalance = 0 }: CreditRe
                           <SelectValue placeholder="Select payment method" />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="PayPal">PayPal</SelectItem>
-                          <SelectItem value="Bank Transfer">Bank Transfer</SelectItem>
-                          <SelectItem value="Credit Card">Credit Card</SelectItem>
+                          {CREDIT_PAYMENT_METHODS.map(method => (
+                            <SelectItem key={method} value={method}>{method}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </FormControl>
@@ -329,6 +348,52 @@ export function CreditRequestForm({ onSuccess, userCreditBalance = 0 }: CreditRe
                 )}
               />
 
+              {/* Reference Number */}
+              <FormField
+                control={form.control}
+                name="referenceNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Transaction Reference</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g. 4XK12345AB678901C"
+                        autoComplete="off"
+                        {...field}
+                        disabled={isLoading}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      The transaction ID or reference number shown on your receipt
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Payer Name */}
+              <FormField
+                control={form.control}
+                name="payerName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payer Name</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Name on the account you paid from"
+                        autoComplete="name"
+                        {...field}
+                        disabled={isLoading}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Helps us match your payment on our statement
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               {/* Payment Proof Upload */}
               <div className="space-y-3">
                 <label className="text-sm font-medium text-gray-700">
@@ -0,0 +1,235 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { CheckCircle2, Copy, Eye, Flag, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+export interface DeliveredGameCode {
+  codeId: string
+  maskedCode: string
+  revealedAt: string | null
+  dispute: {
+    status: string
+    resolutionNote: string | null
+  } | null
+  isReplacement: boolean
+}
+
+// What the buyer sees for each dispute state
+const DISPUTE_MESSAGES: Record<string, string> = {
+  open: 'Problem reported - we are reviewing it',
+  replaced: 'Replaced - your new code is listed below',
+  refunded: 'Refunded to your credit balance',
+  rejected: 'Report reviewed - the code was found to be valid',
+}
+
+interface GameCodeRevealProps {
+  orderId: string
+  gameCode: DeliveredGameCode
+}
+
+/**
+ * Masked game code row
+ * Decrypts the code on demand through the audited reveal endpoint, shows
+ * when it was first revealed and lets the buyer report a code that does not work
+ */
+export function GameCodeReveal({ orderId, gameCode }: GameCodeRevealProps) {
+  const [code, setCode] = useState<string | null>(null)
+  const [pin, setPin] = useState<string | null>(null)
+  const [revealedAt, setRevealedAt] = useState<string | null>(gameCode.revealedAt)
+  const [isRevealing, setIsRevealing] = useState(false)
+  const [isCopied, setIsCopied] = useState(false)
+  const [dispute, setDispute] = useState(gameCode.dispute)
+  const [isReporting, setIsReporting] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [reportReason, setReportReason] = useState('')
+
+  /**
+   * Fetch the plaintext code from the reveal endpoint
+   */
+  const handleReveal = async () => {
+    try {
+      setIsRevealing(true)
+      const response = await fetch(
+        `/api/orders/${orderId}/codes/${gameCode.codeId}/reveal`,
+        { method: 'POST' }
+      )
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to reveal game code')
+      }
+
+      const revealed = await response.json()
+      setCode(revealed.code)
+      setPin(revealed.pin ?? null)
+      setRevealedAt(revealed.firstRevealedAt)
+    } catch (error) {
+      console.error('Game code reveal error:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to reveal game code')
+    } finally {
+      setIsRevealing(false)
+    }
+  }
+
+  /**
+   * Copy the revealed code to the clipboard
+   */
+  const handleCopy = async () => {
+    if (!code) return
+
+    try {
+      await navigator.clipboard.writeText(code)
+      setIsCopied(true)
+
+      // Reset copied state after 2 seconds
+      setTimeout(() => setIsCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy code:', error)
+    }
+  }
+
+  /**
+   * Open a dispute on this code
+   */
+  const handleReport = async () => {
+    try {
+      setIsSubmitting(true)
+      const response = await fetch(
+        `/api/orders/${orderId}/codes/${gameCode.codeId}/dispute`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ reason: reportReason })
+        }
+      )
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to report the problem')
+      }
+
+      setDispute({ status: data.dispute.status, resolutionNote: null })
+      setIsReporting(false)
+      setReportReason('')
+      toast.success(data.message)
+    } catch (error) {
+      console.error('Game code dispute error:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to report the problem')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const canReport = !dispute || dispute.status === 'rejected'
+
+  return (
+    <div className="p-3 bg-gray-50 rounded border">
+      {gameCode.isReplacement && (
+        <Badge variant="secondary" className="mb-2">Replacement</Badge>
+      )}
+      <div className="flex items-center gap-2">
+        <code className="flex-1 font-mono text-sm bg-white px-2 py-1 rounded border">
+          {code ?? gameCode.maskedCode}
+        </code>
+        {code ? (
+          <Button variant="outline" size="sm" onClick={handleCopy} className="px-3">
+            {isCopied ? (
+              <>
+                <CheckCircle2 className="h-4 w-4 mr-1 text-green-600" />
+                Copied
+              </>
+            ) : (
+              <>
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </>
+            )}
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleReveal}
+            disabled={isRevealing}
+            className="px-3"
+          >
+            {isRevealing ? (
+              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            ) : (
+              <Eye className="h-4 w-4 mr-1" />
+            )}
+            Reveal
+          </Button>
+        )}
+      </div>
+      {pin && (
+        <p className="text-sm mt-2">
+          PIN: <code className="font-mono bg-white px-2 py-0.5 rounded border">{pin}</code>
+        </p>
+      )}
+      <div className="flex items-center justify-between mt-1">
+        <p className="text-xs text-gray-500">
+          {revealedAt
+            ? `Revealed on ${new Date(revealedAt).toLocaleString()}`
+            : 'Not revealed yet'}
+        </p>
+        {canReport && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs text-gray-500"
+            onClick={() => setIsReporting(true)}
+          >
+            <Flag className="h-3 w-3 mr-1" />
+            Code doesn&apos;t work?
+          </Button>
+        )}
+      </div>
+      {dispute && (
+        <p className="text-xs mt-1 text-orange-700">
+          {DISPUTE_MESSAGES[dispute.status] ?? dispute.status}
+          {dispute.resolutionNote && `: ${dispute.resolutionNote}`}
+        </p>
+      )}
+
+      <Dialog open={isReporting} onOpenChange={setIsReporting}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report a Problem</DialogTitle>
+            <DialogDescription>
+              Tell us what happened when you tried to redeem this code. We will send a
+              replacement or refund it to your credit balance if it is faulty.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={reportReason}
+            onChange={(e) => setReportReason(e.target.value)}
+            placeholder="e.g. The store says the code has already been redeemed"
+            rows={4}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsReporting(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleReport} disabled={isSubmitting || reportReason.trim().length < 10}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Submit Report
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
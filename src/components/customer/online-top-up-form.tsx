@@ -0,0 +1,147 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { toast } from 'sonner'
+import { CreditCard, Loader2 } from 'lucide-react'
+
+// Online top-up validation schema; limits match manual credit requests
+const onlineTopUpSchema = z.object({
+  amount: z.number()
+    .min(5, 'Minimum top-up is $5')
+    .max(1000, 'Maximum top-up is $1000'),
+  provider: z.string()
+    .min(1, 'Please select a payment provider'),
+})
+
+type OnlineTopUpFormData = z.infer<typeof onlineTopUpSchema>
+
+interface OnlineTopUpFormProps {
+  providers: Array<{ id: string; name: string }>
+}
+
+/**
+ * Online Top-Up Form Component
+ * Lets customers add credits by paying online; the balance is credited as
+ * soon as the payment provider confirms the payment
+ * @param providers - Enabled payment providers
+ */
+export function OnlineTopUpForm({ providers }: OnlineTopUpFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+
+  const form = useForm<OnlineTopUpFormData>({
+    resolver: zodResolver(onlineTopUpSchema),
+    defaultValues: {
+      amount: 0,
+      provider: providers[0]?.id ?? '',
+    },
+  })
+
+  /**
+   * Start the payment and send the buyer to the provider's checkout page
+   */
+  const onSubmit = async (data: OnlineTopUpFormData) => {
+    setIsLoading(true)
+
+    try {
+      const response = await fetch('/api/payments/intents', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ purpose: 'credit_top_up', amount: data.amount, provider: data.provider }),
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.payment?.checkoutUrl) {
+        throw new Error(result.error || 'Failed to start the payment')
+      }
+
+      window.location.href = result.payment.checkoutUrl
+    } catch (error) {
+      console.error('Online top-up error:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to start the payment')
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {/* Amount Field */}
+        <FormField
+          control={form.control}
+          name="amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Top-Up Amount (USD)</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="5"
+                  max="1000"
+                  placeholder="Enter amount"
+                  {...field}
+                  onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                  disabled={isLoading}
+                />
+              </FormControl>
+              <FormDescription>
+                Minimum: $5.00 | Maximum: $1,000.00
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Payment Provider */}
+        <FormField
+          control={form.control}
+          name="provider"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Pay With</FormLabel>
+              <FormControl>
+                <Select onValueChange={field.onChange} value={field.value} disabled={isLoading}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a payment provider" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {providers.map(provider => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <CreditCard className="w-4 h-4 mr-2" />
+          )}
+          Continue to Payment
+        </Button>
+      </form>
+    </Form>
+  )
+}
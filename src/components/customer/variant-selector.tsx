@@ -0,0 +1,104 @@
+'use client'
+
+import { useState } from 'react'
+import { AddToCartButton } from '@/components/customer/cart/AddToCartButton'
+
+export interface SelectableVariant {
+  id: string
+  name: string
+  label: string
+  price: number
+  availableStock: number
+}
+
+interface VariantSelectorProps {
+  parentId: string
+  platform: string
+  imageUrl?: string
+  /** Variants cheapest first */
+  variants: SelectableVariant[]
+  /** Variant to preselect, e.g. from a link to a specific denomination */
+  initialVariantId?: string
+}
+
+/**
+ * Variant Selector Component
+ * Lets the buyer pick a denomination and adds that variant to the cart
+ * @param parentId - Product the variants belong to
+ * @param platform - Platform shared by the variants
+ * @param imageUrl - Image shared by the variants
+ * @param variants - Variants to choose from
+ * @param initialVariantId - Variant selected first; defaults to the first in stock
+ */
+export function VariantSelector({
+  parentId,
+  platform,
+  imageUrl,
+  variants,
+  initialVariantId,
+}: VariantSelectorProps) {
+  const [selectedId, setSelectedId] = useState(() =>
+    variants.find(variant => variant.id === initialVariantId)?.id ??
+    variants.find(variant => variant.availableStock > 0)?.id ??
+    variants[0]?.id
+  )
+  const selected = variants.find(variant => variant.id === selectedId)
+
+  if (!selected) {
+    return null
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <span className="text-sm text-muted-foreground">Choose an option</span>
+        <div className="grid grid-cols-3 gap-2" role="radiogroup">
+          {variants.map(variant => (
+            <button
+              key={variant.id}
+              type="button"
+              role="radio"
+              aria-checked={variant.id === selected.id}
+              onClick={() => setSelectedId(variant.id)}
+              className={`rounded-md border px-3 py-2 text-sm font-medium transition-colors ${
+                variant.id === selected.id
+                  ? 'border-primary bg-primary text-primary-foreground'
+                  : 'border-gray-200 hover:border-gray-400'
+              } ${variant.availableStock === 0 ? 'opacity-50 line-through' : ''}`}
+            >
+              {variant.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">Price</span>
+          <span className="text-lg font-semibold">${selected.price.toFixed(2)}</span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">Stock</span>
+          <span className={`text-sm font-medium ${selected.availableStock > 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {selected.availableStock > 0 ? `${selected.availableStock} available` : 'Out of stock'}
+          </span>
+        </div>
+      </div>
+
+      <AddToCartButton
+        product={{
+          id: selected.id,
+          name: selected.name,
+          price: selected.price,
+          platform,
+          image_url: imageUrl,
+          parentId,
+          variantLabel: selected.label,
+        }}
+        availableStock={selected.availableStock}
+        size="lg"
+        className="w-full"
+      />
+    </div>
+  )
+}
@@ -3,10 +3,12 @@
 import { usePathname } from 'next/navigation'
 import { CartProvider } from '@/contexts/CartContext'
 import { CartSheet } from '@/components/customer/cart/CartSheet'
+import { useUser } from '@/hooks/use-user'
 
 /**
  * Conditional cart provider that only applies cart functionality to non-admin routes.
- * Admin routes don't need cart functionality.
+ * Admin routes don't need cart functionality. The cart is told who is signed
+ * in so their cart can be saved with their account.
  */
 export function ConditionalCartProvider({ 
   children 
@@ -14,6 +16,7 @@ export function ConditionalCartProvider({
   children: React.ReactNode 
 }) {
   const pathname = usePathname()
+  const { user, loading } = useUser()
   
   // Check if current route is an admin route
   const isAdminRoute = pathname.startsWith('/admin')
@@ -25,7 +28,7 @@ export function ConditionalCartProvider({
   
   // Customer routes: include cart provider and cart sheet
   return (
-    <CartProvider>
+    <CartProvider userId={loading ? undefined : user?.id ?? null}>
       {children}
       <CartSheet />
     </CartProvider>
@@ -2,16 +2,22 @@
  * Shopping Cart Context
  * 
  * Provides global cart state management using React Context and useReducer.
- * Includes cart persistence and helper functions.
+ * Includes cart persistence and helper functions. The cart is kept in
+ * localStorage, checked against current prices and stock on load and before
+ * checkout, and saved on the server for signed-in users.
  */
 
 'use client'
 
-import React, { createContext, useContext, useReducer, useEffect, useCallback } from 'react'
-import { CartState, CartAction, CartContextType, CartItem } from '@/types/cart'
+import React, { createContext, useContext, useReducer, useEffect, useCallback, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { CartState, CartAction, CartContextType, CartItem, CartProductStatus, SavedCartLine } from '@/types/cart'
+import { mergeSavedCart, reconcileCartItems } from '@/lib/cart-reconcile'
 
 const CartContext = createContext<CartContextType | null>(null)
 const CART_STORAGE_KEY = 'amk-store-cart'
+// Wait for quantity changes to settle before saving the cart on the server
+const SAVE_DELAY_MS = 500
 
 /**
  * Initial cart state
@@ -148,11 +154,44 @@ function cartReducer(state: CartState, action: CartAction): CartState {
   }
 }
 
+/**
+ * Fetch the current state of the products in a cart
+ * @param items - Cart lines to check
+ * @returns Status of each product that still exists
+ */
+async function fetchCartStatus(items: CartItem[]): Promise<CartProductStatus[]> {
+  const response = await fetch('/api/cart/validate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      items: items.map(item => ({ productId: item.productId, quantity: item.quantity })),
+    }),
+  })
+
+  if (!response.ok) {
+    throw new Error('Failed to check your cart')
+  }
+
+  const data = await response.json()
+  return data.items
+}
+
 /**
  * Cart Provider component
+ * @param userId - Signed-in user whose cart is saved on the server, null for
+ * guests, or undefined while the session is still loading
  */
-export function CartProvider({ children }: { children: React.ReactNode }) {
+export function CartProvider({ children, userId }: { children: React.ReactNode; userId?: string | null }) {
   const [state, dispatch] = useReducer(cartReducer, initialState)
+  const [isLoaded, setIsLoaded] = useState(false)
+  const [isValidating, setIsValidating] = useState(false)
+  const itemsRef = useRef(state.items)
+  // User whose saved cart has been merged into this one; saving waits for it
+  const syncedUserIdRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    itemsRef.current = state.items
+  }, [state.items])
 
   // Load cart from localStorage on mount
   useEffect(() => {
@@ -161,9 +200,12 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       if (savedCart) {
         const cartItems: CartItem[] = JSON.parse(savedCart)
         dispatch({ type: 'LOAD_CART', payload: cartItems })
+        itemsRef.current = cartItems
       }
     } catch (error) {
       console.error('Error loading cart from localStorage:', error)
+    } finally {
+      setIsLoaded(true)
     }
   }, [])
 
@@ -176,6 +218,108 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     }
   }, [state.items])
 
+  /**
+   * Check cart lines against current prices and stock, replace the cart with
+   * the result and tell the buyer what changed
+   */
+  const checkItems = useCallback(async (items: CartItem[]) => {
+    if (items.length === 0) {
+      return []
+    }
+
+    const statuses = await fetchCartStatus(items)
+    const { items: checkedItems, changes } = reconcileCartItems(items, statuses)
+
+    // Leave an unchanged cart alone so pages keyed on it do not refresh
+    if (JSON.stringify(checkedItems) !== JSON.stringify(items)) {
+      dispatch({ type: 'LOAD_CART', payload: checkedItems })
+    }
+    changes.forEach(change => toast.warning(change.message))
+    return changes
+  }, [])
+
+  const validateCart = useCallback(async () => {
+    setIsValidating(true)
+    try {
+      return await checkItems(itemsRef.current)
+    } catch (error) {
+      // Checkout still verifies stock and prices when the order is placed
+      console.error('Error validating cart:', error)
+      return []
+    } finally {
+      setIsValidating(false)
+    }
+  }, [checkItems])
+
+  // Bring the cart up to date once it is loaded, merging in the saved cart after sign-in
+  useEffect(() => {
+    if (!isLoaded || userId === undefined) return
+
+    if (userId === null) {
+      if (syncedUserIdRef.current) {
+        // Signed out: the cart stays saved with the account, not on this device
+        syncedUserIdRef.current = null
+        dispatch({ type: 'CLEAR_CART' })
+      } else {
+        validateCart()
+      }
+      return
+    }
+
+    if (syncedUserIdRef.current === userId) return
+
+    let cancelled = false
+    const syncSavedCart = async () => {
+      setIsValidating(true)
+      try {
+        const response = await fetch('/api/cart', { credentials: 'include' })
+        if (!response.ok) {
+          throw new Error('Failed to load saved cart')
+        }
+
+        const { items: savedLines }: { items: SavedCartLine[] } = await response.json()
+        if (cancelled) return
+
+        // Keep the merged cart even if checking it fails, so saving never drops saved lines
+        const mergedItems = mergeSavedCart(itemsRef.current, savedLines)
+        syncedUserIdRef.current = userId
+        dispatch({ type: 'LOAD_CART', payload: mergedItems })
+        await checkItems(mergedItems)
+      } catch (error) {
+        console.error('Error syncing saved cart:', error)
+      } finally {
+        setIsValidating(false)
+      }
+    }
+
+    syncSavedCart()
+    return () => {
+      cancelled = true
+    }
+  }, [isLoaded, userId, checkItems, validateCart])
+
+  // Save signed-in users' carts on the server whenever they change
+  useEffect(() => {
+    if (!userId || syncedUserIdRef.current !== userId) return
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        await fetch('/api/cart', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            items: state.items.map(item => ({ productId: item.productId, quantity: item.quantity })),
+          }),
+        })
+      } catch (error) {
+        console.error('Error saving cart:', error)
+      }
+    }, SAVE_DELAY_MS)
+
+    return () => clearTimeout(timeoutId)
+  }, [state.items, userId])
+
   // Helper functions
   const addItem = useCallback((item: Omit<CartItem, 'quantity'>) => {
     dispatch({ type: 'ADD_ITEM', payload: item })
@@ -215,6 +359,8 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     toggleCart,
     openCart,
     closeCart,
+    validateCart,
+    isValidating,
   }
 
   return (
@@ -60,14 +60,19 @@ describe('useOrders Hook', () => {
             productName: 'Roblox Gift Card $10',
             quantity: 2,
             unitPrice: 10.00,
-            gameCodes: ['CODE1', 'CODE2']
+            gameCodes: [
+              { codeId: 'code-1', maskedCode: '••••-••••-••••', revealedAt: null, dispute: null, isReplacement: false },
+              { codeId: 'code-2', maskedCode: '••••-••••-••••', revealedAt: null, dispute: null, isReplacement: false }
+            ]
           },
           {
             productId: 'product-2',
             productName: 'PlayStation Store $25',
             quantity: 1,
             unitPrice: 25.00,
-            gameCodes: ['CODE3']
+            gameCodes: [
+              { codeId: 'code-3', maskedCode: '••••-••••-••••', revealedAt: null, dispute: null, isReplacement: false }
+            ]
           }
         ],
         status: 'completed',
@@ -106,6 +111,25 @@ describe('useOrders Hook', () => {
       expect(result.current.error).toBeNull()
     })
 
+    it('should send the idempotency key header when provided', async () => {
+      ;(fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ orderId: 'order-123' }),
+      })
+
+      const { result } = renderHook(() => useOrders())
+
+      await act(async () => {
+        await result.current.createOrder(mockCartItems, 'credit', 'checkout-key-1')
+      })
+
+      const [, options] = (fetch as jest.Mock).mock.calls[0]
+      expect(options.headers).toEqual({
+        'Content-Type': 'application/json',
+        'Idempotency-Key': 'checkout-key-1',
+      })
+    })
+
     it('should handle order creation failure', async () => {
       const mockErrorResponse = {
         error: 'Insufficient credit balance'
@@ -15,6 +15,36 @@ interface CreateOrderRequest {
     quantity: number
   }>
   paymentMethod?: 'credit' | 'external'
+  region?: string
+  promotionCode?: string
+  quotedTotal?: number
+}
+
+interface CreateOrderPricing {
+  /** Region the customer is taxed in */
+  region?: string
+  /** Discount code applied at checkout */
+  promotionCode?: string
+  /** Total from the checkout quote; the order is refused if it no longer matches */
+  quotedTotal?: number
+}
+
+interface DeliveredGameCode {
+  codeId: string
+  maskedCode: string
+  revealedAt: string | null
+  dispute: {
+    status: string
+    resolutionNote: string | null
+  } | null
+  isReplacement: boolean
+}
+
+interface BundleComponent {
+  productId: string
+  productName: string
+  platform: string
+  gameCodes: DeliveredGameCode[]
 }
 
 interface OrderItem {
@@ -23,14 +53,23 @@ interface OrderItem {
   platform: string
   quantity: number
   unitPrice: number
-  gameCodes: string[]
+  gameCodes: DeliveredGameCode[]
+  /** Bundles only: the same codes grouped by component product */
+  bundleComponents: BundleComponent[] | null
 }
 
 interface Order {
   orderId: string
   totalAmount: number
+  subtotal: number
+  discountTotal: number
+  taxTotal: number
+  feeTotal: number
+  promotionCode: string | null
   paymentMethod: string
-  status: 'pending' | 'completed' | 'failed'
+  status: 'pending' | 'completed' | 'failed' | 'cancelled'
+  /** External payments only: when the reserved codes are released if still unpaid */
+  paymentExpiresAt: string | null
   createdAt: string
   items: OrderItem[]
 }
@@ -48,17 +87,44 @@ interface OrdersResponse {
 interface CreateOrderResponse {
   orderId: string
   totalAmount: number
-  items: Array<{
-    productId: string
-    productName: string
-    quantity: number
-    unitPrice: number
-    gameCodes: string[]
-  }>
-  status: 'completed'
+  subtotal: number
+  discountTotal: number
+  taxTotal: number
+  feeTotal: number
+  promotionCode: string | null
+  items: OrderItem[]
+  /** Pending until an external payment is confirmed */
+  status: 'completed' | 'pending'
+  paymentExpiresAt: string | null
   createdAt: string
 }
 
+/**
+ * Start the online payment of a pending order
+ * @param orderId - Order awaiting payment
+ * @param provider - Payment provider id
+ * @returns The provider's checkout page, or null if the payment could not be started
+ */
+const startOrderPayment = async (orderId: string, provider: string): Promise<string | null> => {
+  try {
+    const response = await fetch('/api/payments/intents', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ purpose: 'order', orderId, provider }),
+    })
+    if (!response.ok) {
+      return null
+    }
+
+    const { payment } = await response.json()
+    return payment.checkoutUrl
+  } catch (err) {
+    console.error('Payment start error:', err)
+    return null
+  }
+}
+
 export const useOrders = () => {
   const [isCreatingOrder, setIsCreatingOrder] = useState(false)
   const [isFetchingOrders, setIsFetchingOrders] = useState(false)
@@ -69,11 +135,18 @@ export const useOrders = () => {
    * Create a new order from cart items
    * @param cartItems - Items from the shopping cart
    * @param paymentMethod - Payment method to use
+   * @param idempotencyKey - Key identifying this checkout attempt; reuse it on
+   *   retry so the server replays the original order instead of creating a new one
+   * @param pricing - Tax region, discount code and the quoted total the customer agreed to
+   * @param paymentProvider - External payments: provider whose checkout page the buyer pays on
    * @returns Created order data
    */
   const createOrder = async (
     cartItems: CartItem[],
-    paymentMethod: 'credit' | 'external' = 'credit'
+    paymentMethod: 'credit' | 'external' = 'credit',
+    idempotencyKey?: string,
+    pricing: CreateOrderPricing = {},
+    paymentProvider?: string
   ): Promise<CreateOrderResponse | null> => {
     setIsCreatingOrder(true)
     setError(null)
@@ -85,13 +158,17 @@ export const useOrders = () => {
           productId: item.productId,
           quantity: item.quantity
         })),
-        paymentMethod
+        paymentMethod,
+        region: pricing.region,
+        promotionCode: pricing.promotionCode,
+        quotedTotal: pricing.quotedTotal
       }
 
       const response = await fetch('/api/orders', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
         },
         credentials: 'include',
         body: JSON.stringify(orderRequest),
@@ -103,6 +180,15 @@ export const useOrders = () => {
       }
 
       const orderData: CreateOrderResponse = await response.json()
+
+      // Send the buyer to the provider to pay; the order page offers payment again if this fails
+      if (orderData.status === 'pending' && paymentProvider) {
+        const checkoutUrl = await startOrderPayment(orderData.orderId, paymentProvider)
+        if (checkoutUrl) {
+          window.location.href = checkoutUrl
+          return orderData
+        }
+      }
       
       // Redirect to order confirmation page
       router.push(`/checkout/success?orderId=${orderData.orderId}`)
@@ -0,0 +1,23 @@
+/**
+ * Server startup checks
+ *
+ * Next.js calls register() once when a server instance starts. Settings that
+ * would otherwise only fail deep inside a request are checked here so a
+ * misconfigured deployment refuses to start.
+ */
+
+/**
+ * Validate required server configuration
+ * @throws Error if CODE_FINGERPRINT_KEY is missing or too short, or the
+ *   payment proof storage is not configured (PROOF_STORAGE_SECRET for the
+ *   local driver)
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { loadFingerprintKey } = await import('./lib/encryption')
+    loadFingerprintKey()
+
+    const { getProofStorage } = await import('./lib/proof-storage')
+    getProofStorage()
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for product bundles
+ *
+ * Covers bundle stock from component pools, splitting a bundle's price,
+ * discount and tax over its codes, order planning and component validation.
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { calculateBundleStock, planOrderCodes, setBundleComponents, splitBundleUnit } from '../bundles'
+
+const COMPONENTS = [
+  { componentId: 'game', quantity: 1 },
+  { componentId: 'pass', quantity: 2 },
+]
+
+const PRICED_COMPONENTS = [
+  { ...COMPONENTS[0], priceCents: 5999 },
+  { ...COMPONENTS[1], priceCents: 1999 },
+]
+
+/**
+ * Transaction client stand-in for component updates
+ */
+function createTx(bundleType: string | null, singleIds: string[] = []) {
+  return {
+    product: {
+      findUnique: jest.fn().mockResolvedValue(bundleType ? { product_type: bundleType } : null),
+      findMany: jest.fn().mockResolvedValue(singleIds.map(id => ({ id }))),
+    },
+    bundleComponent: {
+      deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+      createMany: jest.fn().mockResolvedValue({ count: 2 }),
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+  }
+}
+
+const asTx = (tx: ReturnType<typeof createTx>) => tx as unknown as Prisma.TransactionClient
+
+describe('bundles', () => {
+  describe('calculateBundleStock', () => {
+    it('should be limited by the scarcest component', () => {
+      const available = new Map([['game', 5], ['pass', 7]])
+
+      expect(calculateBundleStock(COMPONENTS, available)).toBe(3)
+    })
+
+    it('should be zero when a component is out of stock or there are no components', () => {
+      expect(calculateBundleStock(COMPONENTS, new Map([['game', 5]]))).toBe(0)
+      expect(calculateBundleStock([], new Map())).toBe(0)
+    })
+  })
+
+  describe('splitBundleUnit', () => {
+    it('should split by component list price and add up to the bundle amounts', () => {
+      const shares = splitBundleUnit({ priceCents: 4999, discountCents: 500, taxCents: 450 }, PRICED_COMPONENTS)
+
+      expect(shares).toEqual([
+        { productId: 'game', unitPriceCents: 3000, discountCents: 300, taxCents: 270 },
+        { productId: 'pass', unitPriceCents: 1000, discountCents: 100, taxCents: 90 },
+        { productId: 'pass', unitPriceCents: 999, discountCents: 100, taxCents: 90 },
+      ])
+    })
+  })
+
+  describe('planOrderCodes', () => {
+    it('should expand bundles into component codes and keep single products as they are', async () => {
+      const client = {
+        product: {
+          findMany: jest.fn().mockResolvedValue([
+            {
+              id: 'bundle',
+              product_type: 'bundle',
+              bundle_components: [
+                { component_id: 'game', quantity: 1, component: { name: 'Game', price: 59.99 } },
+                { component_id: 'pass', quantity: 2, component: { name: 'Pass', price: 19.99 } },
+              ],
+            },
+            { id: 'card', product_type: 'single', bundle_components: [] },
+          ]),
+        },
+      } as unknown as PrismaClient
+
+      const [bundle, card] = await planOrderCodes(client, [
+        {
+          productId: 'bundle', productName: 'Game + Passes', platform: 'PC',
+          quantity: 2, unitPrice: 49.99, lineTotal: 99.98, discountAmount: 10, taxAmount: 9,
+        },
+        {
+          productId: 'card', productName: 'Gift Card', platform: 'PC',
+          quantity: 1, unitPrice: 10, lineTotal: 10, discountAmount: 0, taxAmount: 0.9,
+        },
+      ])
+
+      expect(bundle.isBundle).toBe(true)
+      expect(bundle.codes).toHaveLength(6)
+      expect(bundle.codes[0]).toEqual({
+        productId: 'game', productName: 'Game', unitPrice: 30, discountAmount: 3, taxAmount: 2.7,
+      })
+      expect(bundle.codes[2]).toEqual({
+        productId: 'pass', productName: 'Pass', unitPrice: 9.99, discountAmount: 1, taxAmount: 0.9,
+      })
+
+      expect(card.isBundle).toBe(false)
+      expect(card.codes).toEqual([
+        { productId: 'card', productName: 'Gift Card', unitPrice: 10, discountAmount: 0, taxAmount: 0.9 },
+      ])
+    })
+  })
+
+  describe('setBundleComponents', () => {
+    it('should only accept bundles with distinct single-product components', async () => {
+      await expect(setBundleComponents(asTx(createTx(null)), 'bundle', COMPONENTS))
+        .rejects.toThrow('Product not found')
+      await expect(setBundleComponents(asTx(createTx('single')), 'bundle', COMPONENTS))
+        .rejects.toThrow('Only bundle products have components')
+      await expect(setBundleComponents(asTx(createTx('bundle')), 'bundle', [COMPONENTS[0], COMPONENTS[0]]))
+        .rejects.toThrow('Each component can only be listed once')
+      await expect(setBundleComponents(asTx(createTx('bundle', ['game'])), 'bundle', COMPONENTS))
+        .rejects.toThrow('Bundle components must be existing single products or variants')
+    })
+
+    it('should replace the component list', async () => {
+      const tx = createTx('bundle', ['game', 'pass'])
+
+      await setBundleComponents(asTx(tx), 'bundle', COMPONENTS)
+
+      expect(tx.bundleComponent.deleteMany).toHaveBeenCalledWith({ where: { bundle_id: 'bundle' } })
+      expect(tx.bundleComponent.createMany).toHaveBeenCalledWith({
+        data: [
+          { bundle_id: 'bundle', component_id: 'game', quantity: 1 },
+          { bundle_id: 'bundle', component_id: 'pass', quantity: 2 },
+        ],
+      })
+    })
+  })
+})
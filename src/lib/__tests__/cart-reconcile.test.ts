@@ -0,0 +1,97 @@
+/**
+ * Unit tests for cart reconciliation
+ *
+ * Covers bringing cart lines up to date with current prices and stock, and
+ * merging a signed-in user's saved cart into the cart on the device.
+ */
+
+import { mergeSavedCart, reconcileCartItems } from '../cart-reconcile'
+import type { CartItem, CartProductStatus } from '@/types/cart'
+
+const ITEMS: CartItem[] = [
+  { id: 'line-1', productId: 'game', name: 'Game', price: 59.99, platform: 'PS5', quantity: 2, maxStock: 10 },
+  { id: 'line-2', productId: 'card', name: 'Gift Card $25', price: 25, platform: 'PSN', quantity: 3, maxStock: 10 },
+  { id: 'line-3', productId: 'dlc', name: 'DLC', price: 9.99, platform: 'PC', quantity: 1, maxStock: 10 },
+]
+
+/**
+ * Product status with the given overrides
+ */
+function status(productId: string, overrides: Partial<CartProductStatus> = {}): CartProductStatus {
+  const item = ITEMS.find(line => line.productId === productId)!
+  return {
+    productId,
+    name: item.name,
+    price: item.price,
+    platform: item.platform,
+    imageUrl: null,
+    parentProductId: null,
+    variantLabel: null,
+    isActive: true,
+    availableStock: 10,
+    ...overrides,
+  }
+}
+
+describe('cart-reconcile', () => {
+  describe('reconcileCartItems', () => {
+    it('should keep an up-to-date cart as it is apart from the stock', () => {
+      const { items, changes } = reconcileCartItems(ITEMS, ITEMS.map(item => status(item.productId, { availableStock: 4 })))
+
+      expect(changes).toEqual([])
+      expect(items.map(item => item.quantity)).toEqual([2, 3, 1])
+      expect(items.map(item => item.maxStock)).toEqual([4, 4, 4])
+    })
+
+    it('should remove lines that are missing, off sale or out of stock', () => {
+      const { items, changes } = reconcileCartItems(ITEMS, [
+        status('game', { isActive: false }),
+        status('card', { availableStock: 0 }),
+      ])
+
+      expect(items).toEqual([])
+      expect(changes).toEqual([
+        { productId: 'game', type: 'removed', message: 'Game is no longer available and was removed from your cart' },
+        { productId: 'card', type: 'removed', message: 'Gift Card $25 is out of stock and was removed from your cart' },
+        { productId: 'dlc', type: 'removed', message: 'DLC is no longer available and was removed from your cart' },
+      ])
+    })
+
+    it('should cap quantities at the stock left and pick up new prices', () => {
+      const { items, changes } = reconcileCartItems(ITEMS, [
+        status('game', { price: 49.99 }),
+        status('card', { availableStock: 1 }),
+        status('dlc'),
+      ])
+
+      expect(items[0].price).toBe(49.99)
+      expect(items[1]).toMatchObject({ quantity: 1, maxStock: 1 })
+      expect(changes).toEqual([
+        { productId: 'game', type: 'price_changed', message: 'Game is now $49.99 (was $59.99)' },
+        { productId: 'card', type: 'quantity_reduced', message: 'Only 1 of Gift Card $25 left; your cart now has 1' },
+      ])
+    })
+  })
+
+  describe('mergeSavedCart', () => {
+    it('should keep the larger quantity and add saved lines missing on the device', () => {
+      const merged = mergeSavedCart(ITEMS.slice(0, 2), [
+        { ...status('card'), quantity: 5 },
+        { ...status('dlc', { parentProductId: 'dlc-pack', variantLabel: 'Standard' }), quantity: 2 },
+      ])
+
+      expect(merged.map(item => [item.productId, item.quantity])).toEqual([
+        ['game', 2],
+        ['card', 5],
+        ['dlc', 2],
+      ])
+      expect(merged[2]).toMatchObject({
+        name: 'DLC',
+        price: 9.99,
+        parentProductId: 'dlc-pack',
+        variantLabel: 'Standard',
+        maxStock: 10,
+      })
+    })
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for game code delivery
+ *
+ * Covers masking in order responses and the reveal flows: ownership lookup,
+ * decryption and the audit record, for buyers and for admins.
+ */
+
+import { Prisma } from '@prisma/client'
+import { encryptGameCode } from '../encryption'
+import { MASKED_GAME_CODE, revealGameCode, revealGameCodeForAdmin, toDeliveredGameCode } from '../code-delivery'
+
+const TEST_KEY = 'abcdefghijklmnopqrstuvwxyz123456'
+
+const createMockClient = (orderItem: unknown) => ({
+  orderItem: { findFirst: jest.fn().mockResolvedValue(orderItem) },
+  gameCodeReveal: {
+    create: jest.fn().mockResolvedValue({ revealed_at: new Date('2025-06-02T10:00:00Z') }),
+  },
+})
+
+const asTx = (client: ReturnType<typeof createMockClient>) => client as unknown as Prisma.TransactionClient
+
+describe('code delivery', () => {
+  beforeAll(() => {
+    process.env.ENCRYPTION_KEY = TEST_KEY
+  })
+
+  describe('toDeliveredGameCode', () => {
+    it('should mask the code and expose the first reveal time', () => {
+      const delivered = toDeliveredGameCode({
+        id: 'code-1',
+        reveals: [{ revealed_at: new Date('2025-06-01T12:00:00Z') }],
+        order_item: null,
+      })
+
+      expect(delivered).toEqual({
+        codeId: 'code-1',
+        maskedCode: MASKED_GAME_CODE,
+        revealedAt: '2025-06-01T12:00:00.000Z',
+        dispute: null,
+        isReplacement: false,
+      })
+    })
+
+    it('should report unrevealed codes with a null reveal time', () => {
+      expect(toDeliveredGameCode({ id: 'code-1', reveals: [], order_item: null }).revealedAt).toBeNull()
+    })
+
+    it('should expose the latest dispute and flag replacement codes', () => {
+      const delivered = toDeliveredGameCode({
+        id: 'code-2',
+        reveals: [],
+        order_item: {
+          disputes: [{ status: 'replaced', resolution_note: 'Sent a new code' }],
+          replacement_for: { id: 'dispute-0' },
+        },
+      })
+
+      expect(delivered.dispute).toEqual({ status: 'replaced', resolutionNote: 'Sent a new code' })
+      expect(delivered.isReplacement).toBe(true)
+    })
+  })
+
+  describe('revealGameCode', () => {
+    it('should decrypt the code and record the reveal', async () => {
+      const client = createMockClient({
+        game_code: {
+          id: 'code-1',
+          encrypted_code: encryptGameCode('ABCD-1234'),
+          encrypted_pin: null,
+          reveals: [],
+        },
+      })
+
+      const result = await revealGameCode(asTx(client), {
+        orderId: 'order-1',
+        codeId: 'code-1',
+        userId: 'user-1',
+        ipAddress: '203.0.113.5',
+      })
+
+      expect(result).toEqual({
+        codeId: 'code-1',
+        code: 'ABCD-1234',
+        pin: null,
+        revealedAt: '2025-06-02T10:00:00.000Z',
+        firstRevealedAt: '2025-06-02T10:00:00.000Z',
+      })
+      expect(client.gameCodeReveal.create).toHaveBeenCalledWith({
+        data: {
+          game_code_id: 'code-1',
+          order_id: 'order-1',
+          user_id: 'user-1',
+          ip_address: '203.0.113.5',
+          user_agent: null,
+        },
+      })
+    })
+
+    it('should return null without auditing when the code is not in the user\'s order', async () => {
+      const client = createMockClient(null)
+
+      const result = await revealGameCode(asTx(client), {
+        orderId: 'order-1',
+        codeId: 'code-1',
+        userId: 'someone-else',
+      })
+
+      expect(result).toBeNull()
+      expect(client.gameCodeReveal.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('revealGameCodeForAdmin', () => {
+    it('should record the admin as the revealer and keep the buyer\'s first reveal', async () => {
+      const client = createMockClient({
+        game_code: {
+          id: 'code-1',
+          encrypted_code: encryptGameCode('ABCD-1234'),
+          encrypted_pin: encryptGameCode('9876'),
+          reveals: [{ revealed_at: new Date('2025-06-01T12:00:00Z') }],
+        },
+      })
+
+      const result = await revealGameCodeForAdmin(asTx(client), {
+        orderId: 'order-1',
+        codeId: 'code-1',
+        adminId: 'admin-1',
+        userAgent: 'test-agent',
+      })
+
+      expect(result).toEqual({
+        codeId: 'code-1',
+        code: 'ABCD-1234',
+        pin: '9876',
+        revealedAt: '2025-06-02T10:00:00.000Z',
+        buyerRevealedAt: '2025-06-01T12:00:00.000Z',
+      })
+      expect(client.gameCodeReveal.create).toHaveBeenCalledWith({
+        data: {
+          game_code_id: 'code-1',
+          order_id: 'order-1',
+          user_id: 'admin-1',
+          by_admin: true,
+          ip_address: null,
+          user_agent: 'test-agent',
+        },
+      })
+    })
+
+    it('should return null without auditing when the code is not in the order', async () => {
+      const client = createMockClient(null)
+
+      const result = await revealGameCodeForAdmin(asTx(client), {
+        orderId: 'order-1',
+        codeId: 'code-9',
+        adminId: 'admin-1',
+      })
+
+      expect(result).toBeNull()
+      expect(client.gameCodeReveal.create).not.toHaveBeenCalled()
+    })
+  })
+})
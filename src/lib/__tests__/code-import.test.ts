@@ -0,0 +1,125 @@
+/**
+ * Unit tests for spreadsheet code imports
+ *
+ * Covers header mapping suggestions, row validation and the streaming
+ * preview/commit pass against an in-memory store.
+ */
+
+import {
+  CodeImportStore,
+  formatImportReportCsv,
+  ImportedCodeRow,
+  processCodeImport,
+  suggestColumnMapping,
+  validateImportRow,
+} from '../code-import'
+import { fingerprintGameCode } from '../encryption'
+
+const TEST_KEY = 'abcdefghijklmnopqrstuvwxyz123456'
+
+/**
+ * Store backed by a map of fingerprint to product id
+ */
+const createMemoryStore = (existing: Record<string, string> = {}) => {
+  const inserted: ImportedCodeRow[] = []
+  const store: CodeImportStore = {
+    findExistingFingerprints: async (fingerprints) =>
+      new Map(fingerprints.filter(f => existing[f]).map(f => [f, existing[f]])),
+    insertCodes: async (rows) => {
+      inserted.push(...rows)
+      return 'inserted'
+    },
+  }
+  return { store, inserted }
+}
+
+describe('code import', () => {
+  beforeAll(() => {
+    process.env.ENCRYPTION_KEY = TEST_KEY
+    process.env.CODE_FINGERPRINT_KEY = 'fingerprint-test-key-0123456789abcdef'
+  })
+
+  describe('suggestColumnMapping', () => {
+    it('should match common supplier headers', () => {
+      expect(suggestColumnMapping(['Serial', 'PIN Code', 'Expiry Date', 'Face Value', 'Lot'])).toEqual({
+        code: 'Serial',
+        pin: 'PIN Code',
+        expiresAt: 'Expiry Date',
+        denomination: 'Face Value',
+        batchNumber: 'Lot',
+      })
+    })
+  })
+
+  describe('validateImportRow', () => {
+    const columns = { code: 0, expiresAt: 1 }
+
+    it('should reject missing and expired codes', () => {
+      expect(validateImportRow(['', ''], columns, 2)).toEqual({
+        issue: { row: 2, status: 'error', message: 'Missing code' },
+      })
+      expect(validateImportRow(['ABCD-1234', '2000-01-01'], columns, 3)).toMatchObject({
+        issue: { row: 3, status: 'error' },
+      })
+    })
+
+    it('should parse the expiry date', () => {
+      const result = validateImportRow(['ABCD-1234', '2099-12-31'], columns, 2)
+      expect('row' in result && result.row.expiresAt?.toISOString()).toBe('2099-12-31T00:00:00.000Z')
+    })
+  })
+
+  describe('processCodeImport', () => {
+    const csv = 'code;pin\nAAAA-1111;1234\nBBBB-2222;\nAAAA-1111;\nCCCC-3333;9999\n'
+
+    it('should report duplicates without inserting on preview', async () => {
+      const { store, inserted } = createMemoryStore({ [fingerprintGameCode('CCCC-3333')]: 'product-2' })
+
+      const result = await processCodeImport({
+        file: new Blob([csv]),
+        fileType: 'csv',
+        mapping: { code: 'code', pin: 'pin' },
+        productId: 'product-1',
+        store,
+        commit: false,
+      })
+
+      expect(result.summary).toEqual({
+        totalRows: 4,
+        validRows: 2,
+        importedRows: 0,
+        duplicateRows: 2,
+        errorRows: 0,
+      })
+      expect(result.previewRows.map(r => r.status)).toEqual(['valid', 'valid', 'duplicate', 'duplicate'])
+      expect(inserted).toHaveLength(0)
+    })
+
+    it('should insert valid rows on commit', async () => {
+      const { store, inserted } = createMemoryStore()
+
+      const result = await processCodeImport({
+        file: new Blob([csv]),
+        fileType: 'csv',
+        mapping: { code: 'code', pin: 'pin' },
+        productId: 'product-1',
+        store,
+        commit: true,
+      })
+
+      expect(result.summary.importedRows).toBe(3)
+      expect(inserted.map(r => [r.code, r.pin])).toEqual([
+        ['AAAA-1111', '1234'],
+        ['BBBB-2222', null],
+        ['CCCC-3333', '9999'],
+      ])
+    })
+  })
+
+  describe('formatImportReportCsv', () => {
+    it('should quote messages containing commas', () => {
+      expect(formatImportReportCsv([{ row: 4, status: 'error', message: 'Bad date, use YYYY-MM-DD' }]))
+        .toBe('row,status,message\n4,error,"Bad date, use YYYY-MM-DD"')
+    })
+  })
+})
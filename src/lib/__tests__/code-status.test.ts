@@ -0,0 +1,118 @@
+/**
+ * Unit tests for the game code status state machine
+ *
+ * Covers allowed transitions, admin-only targets and the guarded update.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import {
+  canTransitionGameCode,
+  changeGameCodeStatus,
+  getManualGameCodeTransitions,
+} from '../code-status'
+
+/**
+ * Minimal Prisma stand-in whose guarded update matches `count` rows
+ */
+function createClient(count: number) {
+  const updateMany = jest.fn().mockResolvedValue({ count })
+  const create = jest.fn().mockResolvedValue({})
+  const client = {
+    gameCode: { updateMany },
+    gameCodeStatusChange: { create },
+  } as unknown as PrismaClient
+  return { client, updateMany, create }
+}
+
+describe('code-status', () => {
+  describe('canTransitionGameCode', () => {
+    it('should follow the lifecycle', () => {
+      expect(canTransitionGameCode('available', 'reserved')).toBe(true)
+      expect(canTransitionGameCode('reserved', 'sold')).toBe(true)
+      // Credit checkout claims and sells a code in one step
+      expect(canTransitionGameCode('available', 'sold')).toBe(true)
+      expect(canTransitionGameCode('sold', 'defective')).toBe(true)
+      expect(canTransitionGameCode('available', 'voided')).toBe(true)
+    })
+
+    it('should treat defective and voided as final', () => {
+      expect(canTransitionGameCode('voided', 'available')).toBe(false)
+      expect(canTransitionGameCode('defective', 'refunded')).toBe(false)
+    })
+
+    it('should let a refunded code be restocked or voided', () => {
+      expect(canTransitionGameCode('refunded', 'available')).toBe(true)
+      expect(canTransitionGameCode('refunded', 'voided')).toBe(true)
+      expect(canTransitionGameCode('refunded', 'sold')).toBe(false)
+    })
+  })
+
+  describe('getManualGameCodeTransitions', () => {
+    it('should leave reserving and selling to checkout', () => {
+      expect(getManualGameCodeTransitions('available')).toEqual(['voided'])
+      expect(getManualGameCodeTransitions('reserved')).toEqual(['available'])
+      expect(getManualGameCodeTransitions('sold')).toEqual(['refunded', 'defective'])
+    })
+
+    it('should leave restocking refunded codes to the refund flow', () => {
+      expect(getManualGameCodeTransitions('refunded')).toEqual(['voided'])
+    })
+  })
+
+  describe('changeGameCodeStatus', () => {
+    it('should update the code and record the change', async () => {
+      const { client, updateMany, create } = createClient(1)
+
+      await expect(changeGameCodeStatus(client, {
+        codeId: 'code-1',
+        from: 'sold',
+        to: 'defective',
+        reason: 'Customer reported it as redeemed',
+        changedBy: 'admin-1',
+        orderId: 'order-1',
+      })).resolves.toBe(true)
+
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { id: 'code-1', status: 'sold' },
+        data: { status: 'defective' },
+      })
+      expect(create).toHaveBeenCalledWith({
+        data: {
+          game_code_id: 'code-1',
+          from_status: 'sold',
+          to_status: 'defective',
+          reason: 'Customer reported it as redeemed',
+          order_id: 'order-1',
+          changed_by: 'admin-1',
+        },
+      })
+    })
+
+    it('should detach the order when a hold is released', async () => {
+      const { client, updateMany } = createClient(1)
+
+      await changeGameCodeStatus(client, { codeId: 'code-1', from: 'reserved', to: 'available', reason: 'Payment expired' })
+
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { id: 'code-1', status: 'reserved' },
+        data: { status: 'available', order_id: null, sold_at: null },
+      })
+    })
+
+    it('should not record history when the code changed concurrently', async () => {
+      const { client, create } = createClient(0)
+
+      await expect(changeGameCodeStatus(client, { codeId: 'code-1', from: 'available', to: 'voided', reason: 'Leaked' }))
+        .resolves.toBe(false)
+      expect(create).not.toHaveBeenCalled()
+    })
+
+    it('should reject transitions the state machine does not allow', async () => {
+      const { client, updateMany } = createClient(1)
+
+      await expect(changeGameCodeStatus(client, { codeId: 'code-1', from: 'voided', to: 'available', reason: 'Oops' }))
+        .rejects.toThrow('Cannot change game code status from voided to available')
+      expect(updateMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Unit tests for the credit ledger helpers
+ *
+ * The SQL function does the locking and balance math, so these tests cover
+ * the TypeScript wrapper: argument passing, validation and result mapping.
+ */
+
+import { Prisma } from '@prisma/client'
+import { recordCreditTransaction, findCreditBalanceDiscrepancies } from '../credit-ledger'
+
+const createMockClient = (rows: unknown[]) => ({
+  $queryRaw: jest.fn().mockResolvedValue(rows),
+})
+
+const asTx = (client: ReturnType<typeof createMockClient>) => client as unknown as Prisma.TransactionClient
+
+describe('credit ledger', () => {
+  describe('recordCreditTransaction', () => {
+    it('should return the entry created by record_credit_transaction', async () => {
+      const entry = {
+        id: 'entry-1',
+        user_id: 'user-1',
+        type: 'purchase',
+        amount: new Prisma.Decimal(-25),
+        balance_after: new Prisma.Decimal(75),
+      }
+      const client = createMockClient([entry])
+
+      const result = await recordCreditTransaction(asTx(client), {
+        userId: 'user-1',
+        type: 'purchase',
+        amount: -25,
+        orderId: 'order-1',
+      })
+
+      expect(result).toBe(entry)
+      expect(client.$queryRaw).toHaveBeenCalledTimes(1)
+      const [, ...values] = client.$queryRaw.mock.calls[0]
+      expect(values).toEqual(['user-1', 'purchase', -25, null, 'order-1', null, null])
+    })
+
+    it('should reject zero-amount entries without touching the database', async () => {
+      const client = createMockClient([])
+
+      await expect(
+        recordCreditTransaction(asTx(client), { userId: 'user-1', type: 'adjustment', amount: 0 })
+      ).rejects.toThrow('cannot be zero')
+      expect(client.$queryRaw).not.toHaveBeenCalled()
+    })
+
+    it('should surface database errors such as insufficient balance', async () => {
+      const client = {
+        $queryRaw: jest.fn().mockRejectedValue(new Error('Insufficient credit balance')),
+      }
+
+      await expect(
+        recordCreditTransaction(asTx(client), { userId: 'user-1', type: 'purchase', amount: -500 })
+      ).rejects.toThrow('Insufficient credit balance')
+    })
+  })
+
+  describe('findCreditBalanceDiscrepancies', () => {
+    it('should convert decimal columns to numbers', async () => {
+      const client = createMockClient([
+        {
+          user_id: 'user-1',
+          email: 'customer1@test.dev',
+          stored_balance: new Prisma.Decimal('100.00'),
+          ledger_balance: new Prisma.Decimal('80.01'),
+          difference: new Prisma.Decimal('19.99'),
+        },
+      ])
+
+      const result = await findCreditBalanceDiscrepancies(asTx(client))
+
+      expect(result).toEqual([
+        {
+          userId: 'user-1',
+          email: 'customer1@test.dev',
+          storedBalance: 100,
+          ledgerBalance: 80.01,
+          difference: 19.99,
+        },
+      ])
+    })
+
+    it('should return an empty list when everything reconciles', async () => {
+      const client = createMockClient([])
+
+      await expect(findCreditBalanceDiscrepancies(asTx(client))).resolves.toEqual([])
+    })
+  })
+})
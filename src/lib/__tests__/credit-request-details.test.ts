@@ -0,0 +1,29 @@
+/**
+ * Unit tests for credit request details
+ *
+ * Covers reference number normalization, which decides whether two
+ * requests claim the same receipt.
+ */
+
+import { normalizeReferenceNumber, REFERENCE_NUMBER_PATTERN } from '../credit-request-details'
+
+describe('credit-request-details', () => {
+  describe('normalizeReferenceNumber', () => {
+    it('should ignore case and whitespace', () => {
+      expect(normalizeReferenceNumber(' 4xk1 2345 ab ')).toBe('4XK12345AB')
+      expect(normalizeReferenceNumber('4XK12345AB')).toBe(normalizeReferenceNumber('4xk12345ab'))
+    })
+
+    it('should keep separators that are part of the reference', () => {
+      expect(normalizeReferenceNumber('trx-2024/05.17#3')).toBe('TRX-2024/05.17#3')
+    })
+  })
+
+  describe('REFERENCE_NUMBER_PATTERN', () => {
+    it('should accept normalized references only', () => {
+      expect(REFERENCE_NUMBER_PATTERN.test('TRX-2024/05.17#3')).toBe(true)
+      expect(REFERENCE_NUMBER_PATTERN.test('trx-1')).toBe(false)
+      expect(REFERENCE_NUMBER_PATTERN.test('TRX;DROP')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for code dispute resolution
+ *
+ * Covers rejection, concurrent resolution, replacement and credit refunds.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { resolveCodeDispute } from '../disputes'
+
+const DISPUTE = {
+  id: 'dispute-1',
+  order_id: 'order-1',
+  game_code_id: 'code-1',
+  user_id: 'user-1',
+  reason: 'Already redeemed',
+  order_item: {
+    product_id: 'product-1',
+    quantity: 1,
+    unit_price: 19.99,
+    discount_amount: 0,
+    tax_amount: 0,
+    product: { name: 'Roblox $20' },
+    replacement_for: null,
+  },
+}
+
+/**
+ * Prisma transaction stand-in; `openCount` is how many disputes the guarded update claims
+ */
+function createClient(openCount: number) {
+  return {
+    codeDispute: {
+      updateMany: jest.fn().mockResolvedValue({ count: openCount }),
+      findUniqueOrThrow: jest.fn().mockResolvedValue(DISPUTE),
+      update: jest.fn().mockResolvedValue({}),
+    },
+    gameCode: {
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUnique: jest.fn(),
+    },
+    gameCodeStatusChange: { create: jest.fn().mockResolvedValue({}) },
+    orderItem: { create: jest.fn().mockResolvedValue({ id: 'item-2' }) },
+    $queryRaw: jest.fn(),
+  }
+}
+
+const asTx = (client: ReturnType<typeof createClient>) => client as unknown as Prisma.TransactionClient
+
+describe('disputes', () => {
+  describe('resolveCodeDispute', () => {
+    it('should return null when the dispute is no longer open', async () => {
+      const client = createClient(0)
+
+      await expect(resolveCodeDispute(asTx(client), { disputeId: 'dispute-1', resolution: 'refund', adminId: 'admin-1' }))
+        .resolves.toBeNull()
+      expect(client.$queryRaw).not.toHaveBeenCalled()
+    })
+
+    it('should leave the code untouched when rejecting', async () => {
+      const client = createClient(1)
+
+      await expect(resolveCodeDispute(asTx(client), {
+        disputeId: 'dispute-1',
+        resolution: 'reject',
+        note: 'Code was redeemed on your account',
+        adminId: 'admin-1',
+      })).resolves.toEqual({ id: 'dispute-1', status: 'rejected', replacementCodeId: null, refundAmount: null })
+      expect(client.gameCode.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should add the replacement code to the order as a free item', async () => {
+      const client = createClient(1)
+      client.$queryRaw.mockResolvedValue([{ id: 'code-2', encrypted_code: 'x' }])
+
+      const resolved = await resolveCodeDispute(asTx(client), { disputeId: 'dispute-1', resolution: 'replace', adminId: 'admin-1' })
+
+      expect(resolved?.replacementCodeId).toBe('code-2')
+      expect(client.gameCode.updateMany).toHaveBeenCalledWith({
+        where: { id: 'code-1', status: 'sold' },
+        data: { status: 'defective' },
+      })
+      expect(client.orderItem.create).toHaveBeenCalledWith({
+        data: { order_id: 'order-1', product_id: 'product-1', game_code_id: 'code-2', quantity: 1, unit_price: 0 },
+      })
+      expect(client.codeDispute.update).toHaveBeenCalledWith({
+        where: { id: 'dispute-1' },
+        data: { replacement_order_item_id: 'item-2' },
+      })
+    })
+
+    it('should credit the unit price back when refunding', async () => {
+      const client = createClient(1)
+      client.$queryRaw.mockResolvedValue([{ id: 'txn-1' }])
+
+      const resolved = await resolveCodeDispute(asTx(client), { disputeId: 'dispute-1', resolution: 'refund', adminId: 'admin-1' })
+
+      expect(resolved?.refundAmount).toBe(19.99)
+      expect(client.$queryRaw).toHaveBeenCalledTimes(1)
+      expect(client.codeDispute.update).toHaveBeenCalledWith({
+        where: { id: 'dispute-1' },
+        data: { refund_amount: 19.99 },
+      })
+    })
+
+    it('should refuse to compensate a code that was already refunded', async () => {
+      const client = createClient(1)
+      client.gameCode.updateMany.mockResolvedValue({ count: 0 })
+      client.gameCode.findUnique.mockResolvedValue({ status: 'refunded' })
+
+      await expect(resolveCodeDispute(asTx(client), { disputeId: 'dispute-1', resolution: 'refund', adminId: 'admin-1' }))
+        .rejects.toThrow('Disputed code is refunded and cannot be refunded')
+      expect(client.$queryRaw).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for game code encryption
+ *
+ * Covers the v2 GCM envelope, decrypting with older keys in the keyring,
+ * tamper detection and reading the legacy CBC format.
+ */
+
+import { createCipheriv, pbkdf2Sync, randomBytes } from 'crypto'
+import {
+  decryptGameCode,
+  encryptGameCode,
+  fingerprintGameCode,
+  getEncryptionKeyId,
+  loadKeyring,
+} from '../encryption'
+
+const KEY_1 = 'abcdefghijklmnopqrstuvwxyz123456'
+const KEY_2 = '0123456789abcdef0123456789abcdef'
+
+/**
+ * Produce a code in the pre-v2 salt:iv:encrypted format
+ */
+const encryptLegacy = (text: string, password: string) => {
+  const salt = randomBytes(32)
+  const iv = randomBytes(16)
+  const key = pbkdf2Sync(password, salt, 100000, 32, 'sha256')
+  const cipher = createCipheriv('aes-256-cbc', key, iv)
+  return [salt.toString('hex'), iv.toString('hex'), cipher.update(text, 'utf8', 'hex') + cipher.final('hex')].join(':')
+}
+
+describe('encryption', () => {
+  const keyring = loadKeyring({ ENCRYPTION_KEY: KEY_1, ENCRYPTION_KEYS: `k2:${KEY_2}`, ENCRYPTION_KEY_ID: 'k2' })
+
+  it('should round-trip codes in the v2 envelope with the active key', () => {
+    const encrypted = encryptGameCode('ABCD-1234', keyring)
+
+    expect(encrypted).toMatch(/^v2:k2:[0-9a-f]{24}:[0-9a-f]+:[0-9a-f]{32}$/)
+    expect(getEncryptionKeyId(encrypted)).toBe('k2')
+    expect(decryptGameCode(encrypted, keyring)).toBe('ABCD-1234')
+  })
+
+  it('should decrypt codes written with an older key in the keyring', () => {
+    const encrypted = encryptGameCode('OLD-KEY', { ...keyring, activeKeyId: 'k1' })
+
+    expect(decryptGameCode(encrypted, keyring)).toBe('OLD-KEY')
+  })
+
+  it('should reject tampered envelopes', () => {
+    const encrypted = encryptGameCode('ABCD-1234', keyring)
+    const [version, keyId, iv, ciphertext, tag] = encrypted.split(':')
+    const flipped = (parseInt(ciphertext[0], 16) ^ 1).toString(16) + ciphertext.slice(1)
+
+    expect(() => decryptGameCode([version, keyId, iv, flipped, tag].join(':'), keyring)).toThrow('Failed to decrypt game code')
+  })
+
+  it('should still read the legacy salt:iv:encrypted format', () => {
+    const legacy = encryptLegacy('LEGACY-CODE', KEY_1)
+
+    expect(getEncryptionKeyId(legacy)).toBe('legacy')
+    expect(decryptGameCode(legacy, keyring)).toBe('LEGACY-CODE')
+  })
+
+  it('should refuse an active key id that is not in the keyring', () => {
+    expect(() => loadKeyring({ ENCRYPTION_KEY: KEY_1, ENCRYPTION_KEY_ID: 'k9' })).toThrow('not in the keyring')
+  })
+
+  describe('fingerprintGameCode', () => {
+    const env = { CODE_FINGERPRINT_KEY: 'fingerprint-test-key-0123456789abcdef' }
+
+    it('should give the same fingerprint for the same code regardless of whitespace or case', () => {
+      expect(fingerprintGameCode('  abcd-1234 ', env)).toBe(fingerprintGameCode('ABCD-1234', env))
+    })
+
+    it('should give different fingerprints for different codes', () => {
+      expect(fingerprintGameCode('ABCD-1234', env)).not.toBe(fingerprintGameCode('ABCD-1235', env))
+    })
+
+    it('should not depend on the encryption key in use', () => {
+      const first = encryptGameCode('ABCD-1234', keyring)
+      const second = encryptGameCode('ABCD-1234', keyring)
+
+      expect(first).not.toBe(second)
+      expect(fingerprintGameCode(decryptGameCode(first, keyring), env)).toBe(fingerprintGameCode(decryptGameCode(second, keyring), env))
+    })
+
+    it('should require a dedicated fingerprint key', () => {
+      expect(() => fingerprintGameCode('ABCD-1234', { ENCRYPTION_KEY: KEY_1 })).toThrow('CODE_FINGERPRINT_KEY environment variable is required')
+      expect(() => fingerprintGameCode('ABCD-1234', { CODE_FINGERPRINT_KEY: 'short' })).toThrow('at least 32 characters')
+    })
+  })
+})
@@ -0,0 +1,44 @@
+/**
+ * Unit tests for margin calculation
+ *
+ * Covers costed and uncosted lines, foreign-currency batches and rounding.
+ */
+
+import { calculateMargin, summarizeMargin } from '../margins'
+
+describe('margins', () => {
+  describe('summarizeMargin', () => {
+    it('should subtract batch cost from revenue', () => {
+      expect(summarizeMargin([
+        { unitPrice: 19.99, quantity: 1, batch: { unit_cost: 12.5, currency: 'USD' } },
+        { unitPrice: 19.99, quantity: 1, batch: { unit_cost: 13, currency: 'USD' } },
+      ])).toEqual({
+        revenue: 39.98,
+        cost: 25.5,
+        margin: 14.48,
+        marginPercent: 36.2,
+        uncostedCodes: 0,
+      })
+    })
+
+    it('should leave codes without a store-currency cost out of the margin', () => {
+      expect(summarizeMargin([
+        { unitPrice: 10, quantity: 1, batch: { unit_cost: 6, currency: 'USD' } },
+        { unitPrice: 10, quantity: 1, batch: { unit_cost: 5, currency: 'EUR' } },
+        { unitPrice: 10, quantity: 1, batch: null },
+      ])).toEqual({
+        revenue: 30,
+        cost: 6,
+        margin: 4,
+        marginPercent: 40,
+        uncostedCodes: 2,
+      })
+    })
+  })
+
+  describe('calculateMargin', () => {
+    it('should report no percentage when nothing is costed', () => {
+      expect(calculateMargin(50, 0, 0, 5).marginPercent).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for order payments
+ *
+ * Covers the payment window of externally paid orders, confirming their
+ * payment and expiring them once the window has passed.
+ */
+
+import type { Prisma } from '@prisma/client'
+import {
+  confirmOrderPayment,
+  DEFAULT_PAYMENT_RESERVATION_MINUTES,
+  expireOrderPayment,
+  getPaymentExpiry,
+  getPaymentReservationMinutes,
+  OrderPaymentError,
+} from '../order-payments'
+
+const NOW = new Date('2026-01-01T12:00:00Z')
+
+/**
+ * Pending external order with two reserved codes, with the given overrides
+ */
+function pendingOrder(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'order-1',
+    status: 'pending',
+    payment_method: 'external',
+    total_amount: 25.5,
+    payment_expires_at: new Date('2026-01-01T12:30:00Z'),
+    paid_at: null,
+    payment_reference: null,
+    _count: { order_items: 2 },
+    ...overrides,
+  }
+}
+
+/**
+ * Prisma transaction stand-in for the given order
+ */
+function createClient(order: ReturnType<typeof pendingOrder>) {
+  return {
+    // First call locks the order, second moves its codes
+    $queryRaw: jest.fn()
+      .mockResolvedValueOnce([{ id: order.id }])
+      .mockResolvedValueOnce([{ id: 'code-1' }, { id: 'code-2' }]),
+    order: {
+      findUniqueOrThrow: jest.fn().mockResolvedValue(order),
+      update: jest.fn().mockImplementation(({ data }: { data: object }) => Promise.resolve({ ...order, ...data })),
+    },
+    promotionRedemption: { deleteMany: jest.fn().mockResolvedValue({ count: 0 }) },
+  }
+}
+
+const asTx = (client: ReturnType<typeof createClient>) => client as unknown as Prisma.TransactionClient
+
+describe('order-payments', () => {
+  describe('getPaymentReservationMinutes', () => {
+    it('should read a positive whole number of minutes', () => {
+      expect(getPaymentReservationMinutes('45')).toBe(45)
+    })
+
+    it('should fall back to the default for missing or invalid values', () => {
+      expect(getPaymentReservationMinutes(undefined)).toBe(DEFAULT_PAYMENT_RESERVATION_MINUTES)
+      expect(getPaymentReservationMinutes('0')).toBe(DEFAULT_PAYMENT_RESERVATION_MINUTES)
+      expect(getPaymentReservationMinutes('1.5')).toBe(DEFAULT_PAYMENT_RESERVATION_MINUTES)
+      expect(getPaymentReservationMinutes('soon')).toBe(DEFAULT_PAYMENT_RESERVATION_MINUTES)
+    })
+  })
+
+  describe('getPaymentExpiry', () => {
+    it('should add the reservation length to the order time', () => {
+      expect(getPaymentExpiry(NOW, 30)).toEqual(new Date('2026-01-01T12:30:00Z'))
+    })
+  })
+
+  describe('confirmOrderPayment', () => {
+    it('should return null when the order does not exist', async () => {
+      const client = createClient(pendingOrder())
+      client.$queryRaw.mockReset().mockResolvedValue([])
+
+      await expect(confirmOrderPayment(asTx(client), { orderId: 'order-1' })).resolves.toBeNull()
+      expect(client.order.findUniqueOrThrow).not.toHaveBeenCalled()
+    })
+
+    it('should sell the reserved codes and complete the order', async () => {
+      const client = createClient(pendingOrder())
+
+      const payment = await confirmOrderPayment(asTx(client), {
+        orderId: 'order-1',
+        reference: 'pay_123',
+        amount: 25.5,
+        confirmedBy: 'admin-1',
+      })
+
+      expect(payment).toMatchObject({ orderId: 'order-1', codesSold: 2, alreadyConfirmed: false })
+      expect(client.order.update).toHaveBeenCalledWith({
+        where: { id: 'order-1' },
+        data: expect.objectContaining({
+          status: 'completed',
+          payment_reference: 'pay_123',
+          payment_confirmed_by: 'admin-1',
+        }),
+      })
+    })
+
+    it('should accept a repeated confirmation of the same payment once', async () => {
+      const paidAt = new Date('2026-01-01T12:10:00Z')
+      const client = createClient(pendingOrder({ status: 'completed', paid_at: paidAt, payment_reference: 'pay_123' }))
+
+      await expect(confirmOrderPayment(asTx(client), { orderId: 'order-1', reference: 'pay_123' }))
+        .resolves.toEqual({ orderId: 'order-1', paidAt, codesSold: 0, alreadyConfirmed: true })
+      expect(client.order.update).not.toHaveBeenCalled()
+    })
+
+    it('should refuse orders that are not waiting for a payment', async () => {
+      await expect(confirmOrderPayment(asTx(createClient(pendingOrder({ payment_method: 'credit' }))), { orderId: 'order-1' }))
+        .rejects.toThrow('Only orders paid externally wait for a payment')
+      await expect(confirmOrderPayment(asTx(createClient(pendingOrder({ status: 'cancelled' }))), { orderId: 'order-1' }))
+        .rejects.toThrow('Order was cancelled because its payment did not arrive in time')
+      await expect(confirmOrderPayment(asTx(createClient(pendingOrder({ status: 'completed' }))), { orderId: 'order-1' }))
+        .rejects.toThrow('Order is already completed')
+    })
+
+    it('should refuse a payment that does not match the order total', async () => {
+      const client = createClient(pendingOrder())
+
+      const attempt = confirmOrderPayment(asTx(client), { orderId: 'order-1', amount: 20 })
+
+      await expect(attempt).rejects.toThrow('Payment of $20.00 does not match the order total of $25.50')
+      await expect(attempt).rejects.toBeInstanceOf(OrderPaymentError)
+      expect(client.$queryRaw).toHaveBeenCalledTimes(1)
+    })
+
+    it('should refuse the payment when codes are no longer reserved', async () => {
+      const client = createClient(pendingOrder({ _count: { order_items: 3 } }))
+
+      await expect(confirmOrderPayment(asTx(client), { orderId: 'order-1' }))
+        .rejects.toThrow('Some codes are no longer reserved for this order')
+      expect(client.order.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('expireOrderPayment', () => {
+    it('should leave orders inside their window alone', async () => {
+      const client = createClient(pendingOrder())
+
+      await expect(expireOrderPayment(asTx(client), 'order-1', NOW)).resolves.toBe(false)
+      expect(client.order.update).not.toHaveBeenCalled()
+    })
+
+    it('should release the codes and cancel an unpaid order past its window', async () => {
+      const client = createClient(pendingOrder())
+
+      await expect(expireOrderPayment(asTx(client), 'order-1', new Date('2026-01-01T13:00:00Z'))).resolves.toBe(true)
+      expect(client.promotionRedemption.deleteMany).toHaveBeenCalledWith({ where: { order_id: 'order-1' } })
+      expect(client.order.update).toHaveBeenCalledWith({ where: { id: 'order-1' }, data: { status: 'cancelled' } })
+    })
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * Unit tests for admin order refunds
+ *
+ * Covers full and partial refunds, restocking versus voiding codes, revealed
+ * codes, fee-only refunds and orders that cannot be refunded.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { refundOrder } from '../order-refunds'
+
+/**
+ * Order item stand-in with a sold code, or a code in the given status
+ */
+function orderItem(id: string, unitPrice: number, options: { revealed?: boolean; replacedPrice?: number; tax?: number; discount?: number; status?: string } = {}) {
+  return {
+    id,
+    quantity: 1,
+    unit_price: unitPrice,
+    discount_amount: options.discount ?? 0,
+    tax_amount: options.tax ?? 0,
+    game_code: {
+      id: `code-${id}`,
+      status: options.status ?? 'sold',
+      reveals: options.revealed ? [{ id: `reveal-${id}` }] : [],
+    },
+    refund_item: null,
+    replacement_for: options.replacedPrice !== undefined
+      ? { order_item: { quantity: 1, unit_price: options.replacedPrice, discount_amount: 0, tax_amount: 0 } }
+      : null,
+  }
+}
+
+/**
+ * Prisma transaction stand-in for an order with the given status, items and fees
+ */
+function createClient(status: string, items: ReturnType<typeof orderItem>[], feeTotal = 0) {
+  return {
+    // First call locks the order, second records the credit entry
+    $queryRaw: jest.fn()
+      .mockResolvedValueOnce([{ id: 'order-1' }])
+      .mockResolvedValueOnce([{ id: 'credit-1' }]),
+    order: {
+      findUniqueOrThrow: jest.fn().mockResolvedValue({ id: 'order-1', user_id: 'user-1', status, fee_total: feeTotal, order_items: items, payment_intents: [] }),
+      update: jest.fn().mockResolvedValue({}),
+    },
+    orderItem: { update: jest.fn().mockResolvedValue({}) },
+    gameCode: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+    gameCodeStatusChange: { create: jest.fn().mockResolvedValue({}) },
+    orderRefund: { create: jest.fn().mockResolvedValue({ id: 'refund-1' }) },
+  }
+}
+
+const asTx = (client: ReturnType<typeof createClient>) => client as unknown as Prisma.TransactionClient
+
+const INPUT = { orderId: 'order-1', reason: 'Wrong region', adminId: 'admin-1' }
+
+describe('order-refunds', () => {
+  describe('refundOrder', () => {
+    it('should return null when the order does not exist', async () => {
+      const client = createClient('completed', [])
+      client.$queryRaw.mockReset().mockResolvedValue([])
+
+      await expect(refundOrder(asTx(client), { ...INPUT, codeAction: 'restock' })).resolves.toBeNull()
+      expect(client.order.findUniqueOrThrow).not.toHaveBeenCalled()
+    })
+
+    it('should only refund completed orders', async () => {
+      const client = createClient('cancelled', [orderItem('item-1', 10)])
+
+      await expect(refundOrder(asTx(client), { ...INPUT, codeAction: 'restock' }))
+        .rejects.toThrow('Only completed orders can be refunded')
+    })
+
+    it('should restock unrevealed codes and cancel a fully refunded order', async () => {
+      const client = createClient('completed', [orderItem('item-1', 10), orderItem('item-2', 5)])
+
+      const refund = await refundOrder(asTx(client), { ...INPUT, codeAction: 'restock' })
+
+      expect(refund).toEqual({
+        refundId: 'refund-1',
+        amount: 15,
+        items: [
+          { orderItemId: 'item-1', gameCodeId: 'code-item-1', amount: 10, outcome: 'restocked' },
+          { orderItemId: 'item-2', gameCodeId: 'code-item-2', amount: 5, outcome: 'restocked' },
+        ],
+        feeAmount: 0,
+        orderStatus: 'cancelled',
+        paymentIntentId: null,
+      })
+      expect(client.orderItem.update).toHaveBeenCalledWith({ where: { id: 'item-1' }, data: { game_code_id: null } })
+      expect(client.gameCode.updateMany).toHaveBeenCalledWith({
+        where: { id: 'code-item-1', status: 'refunded' },
+        data: { status: 'available', order_id: null, sold_at: null },
+      })
+      expect(client.order.update).toHaveBeenCalledWith({ where: { id: 'order-1' }, data: { status: 'cancelled' } })
+    })
+
+    it('should keep the order completed after a partial refund', async () => {
+      const client = createClient('completed', [orderItem('item-1', 10), orderItem('item-2', 5)])
+
+      const refund = await refundOrder(asTx(client), { ...INPUT, itemIds: ['item-2'], codeAction: 'void' })
+
+      expect(refund?.amount).toBe(5)
+      expect(refund?.items).toEqual([
+        { orderItemId: 'item-2', gameCodeId: 'code-item-2', amount: 5, outcome: 'voided' },
+      ])
+      expect(refund?.orderStatus).toBe('completed')
+      expect(client.order.update).not.toHaveBeenCalled()
+    })
+
+    it('should return the order fees with the refund that empties the order', async () => {
+      const partial = createClient('completed', [orderItem('item-1', 10), orderItem('item-2', 5)], 1.5)
+      const full = createClient('completed', [orderItem('item-1', 10)], 1.5)
+
+      const first = await refundOrder(asTx(partial), { ...INPUT, itemIds: ['item-2'], codeAction: 'restock' })
+      const last = await refundOrder(asTx(full), { ...INPUT, codeAction: 'restock' })
+
+      expect(first).toMatchObject({ amount: 5, feeAmount: 0 })
+      expect(last).toMatchObject({ amount: 11.5, feeAmount: 1.5, orderStatus: 'cancelled' })
+      expect(full.$queryRaw.mock.calls[1]).toContain(11.5)
+    })
+
+    it('should leave revealed codes refunded', async () => {
+      const client = createClient('completed', [orderItem('item-1', 10, { revealed: true })])
+
+      const refund = await refundOrder(asTx(client), { ...INPUT, codeAction: 'restock' })
+
+      expect(refund?.items[0].outcome).toBe('refunded')
+      expect(client.gameCode.updateMany).toHaveBeenCalledTimes(1)
+      expect(client.orderItem.update).not.toHaveBeenCalled()
+    })
+
+    it('should refund a free replacement at the disputed item price', async () => {
+      const client = createClient('completed', [orderItem('item-1', 0, { replacedPrice: 19.99 })])
+
+      const refund = await refundOrder(asTx(client), { ...INPUT, codeAction: 'void' })
+
+      expect(refund?.amount).toBe(19.99)
+    })
+
+    it('should refund the tax charged on each item', async () => {
+      const client = createClient('completed', [orderItem('item-1', 10, { tax: 0.88 }), orderItem('item-2', 5, { tax: 0.44 })])
+
+      const refund = await refundOrder(asTx(client), { ...INPUT, codeAction: 'restock' })
+
+      expect(refund?.items.map(item => item.amount)).toEqual([10.88, 5.44])
+      expect(refund?.amount).toBe(16.32)
+    })
+
+    it('should refund the discounted price', async () => {
+      const client = createClient('completed', [orderItem('item-1', 10, { discount: 1.5, tax: 0.74 })])
+
+      const refund = await refundOrder(asTx(client), { ...INPUT, codeAction: 'void' })
+
+      expect(refund?.amount).toBe(9.24)
+    })
+
+    it('should leave the credit balance alone for orders paid online', async () => {
+      const client = createClient('completed', [orderItem('item-1', 10)])
+      client.order.findUniqueOrThrow.mockResolvedValue({
+        id: 'order-1',
+        user_id: 'user-1',
+        status: 'completed',
+        fee_total: 0,
+        order_items: [orderItem('item-1', 10)],
+        payment_intents: [{ id: 'intent-1' }],
+      })
+
+      const refund = await refundOrder(asTx(client), { ...INPUT, codeAction: 'restock' })
+
+      expect(refund?.paymentIntentId).toBe('intent-1')
+      // Only the order lock; no credit ledger entry
+      expect(client.$queryRaw).toHaveBeenCalledTimes(1)
+      expect(client.orderRefund.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ credit_transaction_id: null, payment_intent_id: 'intent-1' }),
+      })
+    })
+
+    it('should reject items that are not refundable', async () => {
+      const client = createClient('completed', [orderItem('item-1', 10)])
+
+      await expect(refundOrder(asTx(client), { ...INPUT, itemIds: ['item-9'], codeAction: 'restock' }))
+        .rejects.toThrow('Order item item-9 cannot be refunded')
+      expect(client.gameCode.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should refund only the fees once disputes refunded every item', async () => {
+      const client = createClient('completed', [orderItem('item-1', 10, { status: 'defective' })], 1.5)
+
+      const refund = await refundOrder(asTx(client), { ...INPUT, codeAction: 'restock' })
+
+      expect(refund).toMatchObject({ amount: 1.5, feeAmount: 1.5, items: [], orderStatus: 'cancelled' })
+      expect(client.gameCode.updateMany).not.toHaveBeenCalled()
+      expect(client.$queryRaw.mock.calls[1]).toContain(1.5)
+    })
+
+    it('should refuse when nothing is left to refund and the order has no fees', async () => {
+      const client = createClient('completed', [orderItem('item-1', 10, { status: 'defective' })])
+
+      await expect(refundOrder(asTx(client), { ...INPUT, codeAction: 'restock' }))
+        .rejects.toThrow('Nothing left to refund on this order')
+      expect(client.order.update).not.toHaveBeenCalled()
+    })
+  })
+})
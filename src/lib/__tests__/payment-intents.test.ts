@@ -0,0 +1,190 @@
+/**
+ * Unit tests for payment intents
+ *
+ * Covers applying provider outcomes to payment intents and the mock
+ * provider's signed webhooks.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { applyPaymentUpdate } from '../payment-intents'
+import { OrderPaymentError } from '../order-payments'
+import { mockPaymentProvider, settleMockPayment } from '../mock-payment-provider'
+
+/**
+ * Credit top-up intent awaiting payment, with the given overrides
+ */
+function topUpIntent(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'intent-1',
+    provider: 'mock',
+    provider_intent_id: 'mock_pi_1',
+    purpose: 'credit_top_up',
+    user_id: 'user-1',
+    order_id: null,
+    amount: 20,
+    status: 'requires_payment',
+    ...overrides,
+  }
+}
+
+/**
+ * Prisma transaction stand-in for the given intent, or none
+ */
+function createClient(intent: ReturnType<typeof topUpIntent> | null) {
+  return {
+    // First call locks the intent, second records the credit transaction
+    $queryRaw: jest.fn()
+      .mockResolvedValueOnce(intent ? [{ id: intent.id }] : [])
+      .mockResolvedValueOnce([{ id: 'txn-1', balance_after: 20 }]),
+    paymentIntent: {
+      findUniqueOrThrow: jest.fn().mockResolvedValue(intent),
+      update: jest.fn().mockResolvedValue(intent),
+    },
+  }
+}
+
+const asTx = (client: ReturnType<typeof createClient>) => client as unknown as Prisma.TransactionClient
+
+const succeeded = {
+  provider: 'mock',
+  providerIntentId: 'mock_pi_1',
+  status: 'succeeded' as const,
+  amount: 20,
+  failureReason: null,
+}
+
+describe('payment-intents', () => {
+  describe('applyPaymentUpdate', () => {
+    it('should return null for an unknown payment', async () => {
+      const client = createClient(null)
+
+      await expect(applyPaymentUpdate(asTx(client), succeeded)).resolves.toBeNull()
+      expect(client.paymentIntent.update).not.toHaveBeenCalled()
+    })
+
+    it('should credit a successful top-up to the buyer', async () => {
+      const client = createClient(topUpIntent())
+
+      const result = await applyPaymentUpdate(asTx(client), succeeded)
+
+      expect(result).toEqual({
+        paymentIntentId: 'intent-1',
+        purpose: 'credit_top_up',
+        orderId: null,
+        status: 'succeeded',
+        changed: true,
+      })
+      expect(client.$queryRaw).toHaveBeenCalledTimes(2)
+      expect(client.paymentIntent.update).toHaveBeenCalledWith({
+        where: { id: 'intent-1' },
+        data: expect.objectContaining({ status: 'succeeded', credit_transaction_id: 'txn-1' }),
+      })
+    })
+
+    it('should ignore a repeated webhook', async () => {
+      const client = createClient(topUpIntent({ status: 'succeeded' }))
+
+      const result = await applyPaymentUpdate(asTx(client), succeeded)
+
+      expect(result?.changed).toBe(false)
+      expect(client.$queryRaw).toHaveBeenCalledTimes(1)
+      expect(client.paymentIntent.update).not.toHaveBeenCalled()
+    })
+
+    it('should record a failed payment without crediting', async () => {
+      const client = createClient(topUpIntent())
+
+      const result = await applyPaymentUpdate(asTx(client), {
+        ...succeeded,
+        status: 'failed',
+        failureReason: 'Card declined',
+      })
+
+      expect(result?.status).toBe('failed')
+      expect(client.$queryRaw).toHaveBeenCalledTimes(1)
+      expect(client.paymentIntent.update).toHaveBeenCalledWith({
+        where: { id: 'intent-1' },
+        data: { status: 'failed', failure_reason: 'Card declined' },
+      })
+    })
+
+    it('should reject a payment for a different amount', async () => {
+      const client = createClient(topUpIntent())
+
+      const attempt = applyPaymentUpdate(asTx(client), { ...succeeded, amount: 19.99 })
+
+      await expect(attempt).rejects.toThrow('does not match')
+      await expect(attempt).rejects.toBeInstanceOf(OrderPaymentError)
+      expect(client.paymentIntent.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('mock payment provider', () => {
+    beforeAll(() => {
+      process.env.MOCK_PAYMENT_WEBHOOK_SECRET = 'mock-webhook-test-secret'
+    })
+
+    it('should verify the webhook it signs', async () => {
+      const intent = await mockPaymentProvider.createIntent({
+        reference: 'intent-1',
+        amount: 12.5,
+        currency: 'USD',
+        description: 'Credit top-up',
+        returnUrl: 'http://localhost:3000/credits',
+      })
+
+      const webhook = settleMockPayment(intent.providerIntentId, 'succeeded')
+      const event = mockPaymentProvider.verifyWebhook({ body: webhook.body, headers: new Headers(webhook.headers) })
+
+      expect(event).toEqual({
+        providerIntentId: intent.providerIntentId,
+        status: 'succeeded',
+        amount: 12.5,
+        failureReason: null,
+      })
+    })
+
+    it('should refuse a tampered webhook', async () => {
+      const intent = await mockPaymentProvider.createIntent({
+        reference: 'intent-2',
+        amount: 12.5,
+        currency: 'USD',
+        description: 'Credit top-up',
+        returnUrl: 'http://localhost:3000/credits',
+      })
+
+      const webhook = settleMockPayment(intent.providerIntentId, 'succeeded')
+      const body = webhook.body.replace('12.5', '1250')
+
+      expect(() => mockPaymentProvider.verifyWebhook({ body, headers: new Headers(webhook.headers) }))
+        .toThrow('Invalid webhook signature')
+    })
+
+    it('should not settle a payment twice', async () => {
+      const intent = await mockPaymentProvider.createIntent({
+        reference: 'intent-3',
+        amount: 5,
+        currency: 'USD',
+        description: 'Credit top-up',
+        returnUrl: 'http://localhost:3000/credits',
+      })
+
+      settleMockPayment(intent.providerIntentId, 'failed')
+
+      expect(() => settleMockPayment(intent.providerIntentId, 'succeeded')).toThrow('already failed')
+    })
+
+    it('should be unavailable without its own webhook secret', () => {
+      const secret = process.env.MOCK_PAYMENT_WEBHOOK_SECRET
+      delete process.env.MOCK_PAYMENT_WEBHOOK_SECRET
+
+      try {
+        expect(mockPaymentProvider.isAvailable()).toBe(false)
+        expect(() => mockPaymentProvider.verifyWebhook({ body: '{}', headers: new Headers() }))
+          .toThrow('MOCK_PAYMENT_WEBHOOK_SECRET')
+      } finally {
+        process.env.MOCK_PAYMENT_WEBHOOK_SECRET = secret
+      }
+    })
+  })
+})
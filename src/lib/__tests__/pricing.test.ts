@@ -0,0 +1,155 @@
+/**
+ * Unit tests for checkout pricing
+ *
+ * Covers cent allocation, tax rule lookup by region, discount codes, fees per
+ * payment method, unavailable products and products sold in variants.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { allocateAmount, buildCheckoutQuote, normalizeRegion } from '../pricing'
+
+const PRODUCTS = [
+  { id: 'product-1', name: 'Roblox $10', platform: 'Roblox', price: 10, is_active: true, parent_id: null, parent: null, _count: { variants: 0 } },
+  { id: 'product-2', name: 'Steam $20', platform: 'Steam', price: 19.99, is_active: true, parent_id: null, parent: null, _count: { variants: 0 } },
+  { id: 'product-3', name: 'PSN Gift Card', platform: 'PS5', price: 10, is_active: true, parent_id: null, parent: null, _count: { variants: 3 } },
+  { id: 'product-4', name: 'Xbox Gift Card $25', platform: 'Xbox', price: 25, is_active: true, parent_id: 'product-5', parent: { is_active: false }, _count: { variants: 0 } },
+]
+
+/**
+ * Prisma client stand-in with the given tax rules and fees
+ */
+function createClient(
+  taxRules: Array<{ region: string; name: string; rate: number }> = [],
+  fees: unknown[] = [],
+  promotion: unknown = null
+) {
+  return {
+    product: { findMany: jest.fn().mockResolvedValue(PRODUCTS) },
+    taxRule: {
+      findMany: jest.fn().mockImplementation(({ where }: { where: { region: { in: string[] } } }) =>
+        Promise.resolve(taxRules.filter(rule => where.region.in.includes(rule.region)))
+      ),
+    },
+    checkoutFee: { findMany: jest.fn().mockResolvedValue(fees) },
+    promotion: { findUnique: jest.fn().mockResolvedValue(promotion) },
+    promotionRedemption: { count: jest.fn().mockResolvedValue(0) },
+  }
+}
+
+const asClient = (client: ReturnType<typeof createClient>) => client as unknown as PrismaClient
+
+const ITEMS = [
+  { productId: 'product-1', quantity: 2 },
+  { productId: 'product-2', quantity: 1 },
+]
+
+describe('pricing', () => {
+  describe('allocateAmount', () => {
+    it('should split an amount so the parts add up exactly', () => {
+      expect(allocateAmount(100, [1, 1, 1])).toEqual([34, 33, 33])
+      expect(allocateAmount(175, [2000, 1999])).toEqual([88, 87])
+    })
+
+    it('should split evenly when every weight is zero', () => {
+      expect(allocateAmount(5, [0, 0])).toEqual([3, 2])
+    })
+  })
+
+  describe('normalizeRegion', () => {
+    it('should upper-case regions and treat blanks as none', () => {
+      expect(normalizeRegion(' us-ca ')).toBe('US-CA')
+      expect(normalizeRegion('')).toBeNull()
+      expect(normalizeRegion(undefined)).toBeNull()
+    })
+  })
+
+  describe('buildCheckoutQuote', () => {
+    it('should charge no tax without a region', async () => {
+      const client = createClient([{ region: 'US', name: 'Sales tax', rate: 0.05 }])
+
+      const quote = await buildCheckoutQuote(asClient(client), { items: ITEMS, paymentMethod: 'credit' })
+
+      expect(quote.subtotal).toBe(39.99)
+      expect(quote.tax).toBeNull()
+      expect(quote.total).toBe(39.99)
+      expect(client.taxRule.findMany).not.toHaveBeenCalled()
+    })
+
+    it('should prefer a subdivision rule over its country', async () => {
+      const client = createClient([
+        { region: 'US', name: 'Sales tax', rate: 0.05 },
+        { region: 'US-CA', name: 'California sales tax', rate: 0.0875 },
+      ])
+
+      const quote = await buildCheckoutQuote(asClient(client), { items: ITEMS, paymentMethod: 'credit', region: 'us-ca' })
+
+      expect(quote.tax).toEqual({ region: 'US-CA', name: 'California sales tax', rate: 0.0875, amount: 3.5 })
+      expect(quote.lines.map(line => line.taxAmount)).toEqual([1.75, 1.75])
+      expect(quote.total).toBe(43.49)
+    })
+
+    it('should fall back to the country rule', async () => {
+      const client = createClient([{ region: 'US', name: 'Sales tax', rate: 0.05 }])
+
+      const quote = await buildCheckoutQuote(asClient(client), { items: ITEMS, paymentMethod: 'credit', region: 'US-NY' })
+
+      expect(quote.tax?.region).toBe('US')
+      expect(quote.taxTotal).toBe(2)
+    })
+
+    it('should take the discount off before tax', async () => {
+      const client = createClient([{ region: 'US-CA', name: 'California sales tax', rate: 0.0875 }], [], {
+        id: 'promotion-1', code: 'SAVE10', description: null, discount_type: 'percentage', discount_value: 0.1,
+        product_ids: [], platforms: [], min_subtotal: 0, max_redemptions: null, max_redemptions_per_user: null,
+        starts_at: null, ends_at: null, is_active: true,
+      })
+
+      const quote = await buildCheckoutQuote(asClient(client), {
+        items: ITEMS, paymentMethod: 'credit', region: 'US-CA', promotionCode: 'save10', userId: 'user-1',
+      })
+
+      expect(quote.promotionCode).toBe('SAVE10')
+      expect(quote.discounts).toEqual([{ code: 'SAVE10', label: 'Discount code SAVE10', amount: 4 }])
+      expect(quote.lines.map(line => line.discountAmount)).toEqual([2, 2])
+      expect(quote.lines.map(line => line.taxAmount)).toEqual([1.58, 1.57])
+      expect(quote.taxTotal).toBe(3.15)
+      expect(quote.total).toBe(39.14)
+    })
+
+    it('should add percentage and fixed fees', async () => {
+      const client = createClient([], [
+        { id: 'fee-1', name: 'Processing fee', percent_rate: 0.029, fixed_amount: 0.3 },
+      ])
+
+      const quote = await buildCheckoutQuote(asClient(client), { items: ITEMS, paymentMethod: 'external' })
+
+      expect(quote.fees).toEqual([{ code: 'fee-1', label: 'Processing fee', amount: 1.46 }])
+      expect(quote.total).toBe(41.45)
+      expect(client.checkoutFee.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { is_active: true, OR: [{ payment_method: null }, { payment_method: 'external' }] },
+      }))
+    })
+
+    it('should refuse unknown products', async () => {
+      const client = createClient()
+
+      await expect(buildCheckoutQuote(asClient(client), {
+        items: [{ productId: 'product-9', quantity: 1 }],
+        paymentMethod: 'credit',
+      })).rejects.toThrow('Product product-9 not found')
+    })
+
+    it('should only sell products with variants through a variant', async () => {
+      const client = createClient()
+
+      await expect(buildCheckoutQuote(asClient(client), {
+        items: [{ productId: 'product-3', quantity: 1 }],
+        paymentMethod: 'credit',
+      })).rejects.toThrow('Choose an option for PSN Gift Card')
+      await expect(buildCheckoutQuote(asClient(client), {
+        items: [{ productId: 'product-4', quantity: 1 }],
+        paymentMethod: 'credit',
+      })).rejects.toThrow('Product Xbox Gift Card $25 is not available')
+    })
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for promotions
+ *
+ * Covers product and platform scoping, fixed discounts capped at the eligible
+ * total, validity windows, minimum spend and usage limits.
+ */
+
+import type { PrismaClient, Promotion } from '@prisma/client'
+import { applyPromotion, calculatePromotionDiscount, isLineEligible } from '../promotions'
+
+const LINES = [
+  { productId: 'product-1', platform: 'Roblox', lineTotalCents: 2000 },
+  { productId: 'product-2', platform: 'Steam', lineTotalCents: 1999 },
+]
+
+const NOW = new Date('2026-06-15T12:00:00Z')
+
+/**
+ * Promotion row with sensible defaults
+ */
+function promotion(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'promotion-1',
+    code: 'SUMMER10',
+    description: 'Summer sale',
+    discount_type: 'percentage',
+    discount_value: 0.1,
+    product_ids: [] as string[],
+    platforms: [] as string[],
+    min_subtotal: 0,
+    max_redemptions: null as number | null,
+    max_redemptions_per_user: null as number | null,
+    starts_at: null as Date | null,
+    ends_at: null as Date | null,
+    is_active: true,
+    ...overrides,
+  }
+}
+
+/**
+ * Prisma client stand-in; `counts` are the redemption counts returned in order
+ */
+function createClient(row: ReturnType<typeof promotion> | null, counts: number[] = []) {
+  const count = jest.fn()
+  counts.forEach(value => count.mockResolvedValueOnce(value))
+
+  return {
+    promotion: { findUnique: jest.fn().mockResolvedValue(row) },
+    promotionRedemption: { count },
+  }
+}
+
+const asPromotion = (row: ReturnType<typeof promotion>) => row as unknown as Promotion
+
+const asClient = (client: ReturnType<typeof createClient>) => client as unknown as PrismaClient
+
+const apply = (client: ReturnType<typeof createClient>) =>
+  applyPromotion(asClient(client), { code: ' summer10 ', userId: 'user-1', lines: LINES, now: NOW })
+
+describe('promotions', () => {
+  describe('isLineEligible', () => {
+    it('should cover every line when the promotion has no scope', () => {
+      expect(isLineEligible({ product_ids: [], platforms: [] }, LINES[0])).toBe(true)
+    })
+
+    it('should match lines by product or platform', () => {
+      const scope = { product_ids: ['product-1'], platforms: ['Xbox'] }
+
+      expect(isLineEligible(scope, LINES[0])).toBe(true)
+      expect(isLineEligible(scope, LINES[1])).toBe(false)
+    })
+
+    it('should cover the variants of a scoped product', () => {
+      const scope = { product_ids: ['gift-card'], platforms: [] }
+      const denomination = { productId: 'gift-card-25', parentId: 'gift-card', platform: 'Steam', lineTotalCents: 2500 }
+
+      expect(isLineEligible(scope, denomination)).toBe(true)
+      expect(isLineEligible(scope, { ...denomination, parentId: 'other-card' })).toBe(false)
+    })
+  })
+
+  describe('calculatePromotionDiscount', () => {
+    it('should only discount lines in scope', () => {
+      const discount = calculatePromotionDiscount(
+        asPromotion(promotion({ discount_value: 0.25, platforms: ['Steam'] })),
+        LINES
+      )
+
+      expect(discount).toEqual([0, 500])
+    })
+
+    it('should split a fixed discount over the eligible lines', () => {
+      const discount = calculatePromotionDiscount(
+        asPromotion(promotion({ discount_type: 'fixed', discount_value: 5 })),
+        LINES
+      )
+
+      expect(discount).toEqual([250, 250])
+    })
+
+    it('should never discount more than the eligible lines cost', () => {
+      const discount = calculatePromotionDiscount(
+        asPromotion(promotion({ discount_type: 'fixed', discount_value: 50 })),
+        LINES
+      )
+
+      expect(discount).toEqual([2000, 1999])
+    })
+  })
+
+  describe('applyPromotion', () => {
+    it('should apply a valid code', async () => {
+      const client = createClient(promotion())
+
+      const applied = await apply(client)
+
+      expect(applied).toEqual({
+        promotionId: 'promotion-1',
+        code: 'SUMMER10',
+        label: 'Summer sale',
+        lineDiscountCents: [200, 200],
+        discountCents: 400,
+      })
+      expect(client.promotion.findUnique).toHaveBeenCalledWith({ where: { code: 'SUMMER10' } })
+    })
+
+    it('should refuse unknown and inactive codes', async () => {
+      await expect(apply(createClient(null))).rejects.toThrow('Discount code SUMMER10 is not valid')
+      await expect(apply(createClient(promotion({ is_active: false })))).rejects.toThrow('is not valid')
+    })
+
+    it('should refuse codes outside their validity window', async () => {
+      await expect(apply(createClient(promotion({ starts_at: new Date('2026-07-01T00:00:00Z') }))))
+        .rejects.toThrow('is not active yet')
+      await expect(apply(createClient(promotion({ ends_at: new Date('2026-06-01T00:00:00Z') }))))
+        .rejects.toThrow('has expired')
+    })
+
+    it('should require the minimum spend on eligible items', async () => {
+      const client = createClient(promotion({ platforms: ['Steam'], min_subtotal: 25 }))
+
+      await expect(apply(client)).rejects.toThrow('requires a spend of at least $25.00 on eligible items')
+    })
+
+    it('should refuse a code that applies to nothing in the cart', async () => {
+      const client = createClient(promotion({ platforms: ['Xbox'] }))
+
+      await expect(apply(client)).rejects.toThrow('does not apply to any item in your cart')
+    })
+
+    it('should enforce the global and per-customer usage limits', async () => {
+      await expect(apply(createClient(promotion({ max_redemptions: 100 }), [100])))
+        .rejects.toThrow('has reached its usage limit')
+
+      const client = createClient(promotion({ max_redemptions: 100, max_redemptions_per_user: 1 }), [99, 1])
+      await expect(apply(client)).rejects.toThrow('You have already used discount code SUMMER10')
+      expect(client.promotionRedemption.count).toHaveBeenLastCalledWith({
+        where: { promotion_id: 'promotion-1', user_id: 'user-1' }
+      })
+    })
+  })
+})
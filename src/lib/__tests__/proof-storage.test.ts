@@ -0,0 +1,139 @@
+/**
+ * Unit tests for payment proof storage
+ *
+ * Covers proof paths, legacy data URLs and the local filesystem driver with
+ * its signed URLs.
+ */
+
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  buildProofPath,
+  createProofViewUrl,
+  getProofStorage,
+  getProofType,
+  parseProofDataUrl,
+} from '../proof-storage'
+import { verifyProofUrl } from '../local-proof-storage'
+
+const USER_ID = '11111111-1111-1111-1111-111111111111'
+const PROOF_ID = '22222222-2222-2222-2222-222222222222'
+const PROOF_SECRET = 'proof-test-secret-of-32-characters!'
+
+describe('proof-storage', () => {
+  describe('buildProofPath', () => {
+    it('should group proofs by owner with the extension of their type', () => {
+      expect(buildProofPath(USER_ID, 'image/png', PROOF_ID)).toBe(`${USER_ID}/${PROOF_ID}.png`)
+      expect(buildProofPath(USER_ID, 'application/pdf', PROOF_ID)).toBe(`${USER_ID}/${PROOF_ID}.pdf`)
+    })
+
+    it('should reject file types that are not accepted', () => {
+      expect(() => buildProofPath(USER_ID, 'text/html', PROOF_ID)).toThrow('Unsupported payment proof type')
+    })
+  })
+
+  describe('parseProofDataUrl', () => {
+    it('should decode a base64 data URL', () => {
+      const proof = parseProofDataUrl(`data:image/png;base64,${Buffer.from('proof').toString('base64')}`)
+
+      expect(proof?.contentType).toBe('image/png')
+      expect(proof?.data.toString()).toBe('proof')
+    })
+
+    it('should return null for anything else', () => {
+      expect(parseProofDataUrl('https://example.com/proof.png')).toBeNull()
+    })
+  })
+
+  describe('getProofType', () => {
+    it('should prefer the stored type and fall back to the data URL', () => {
+      const record = { id: 'request-1', payment_proof_path: null, payment_proof_type: null, payment_proof_url: null }
+
+      expect(getProofType({ ...record, payment_proof_type: 'application/pdf' })).toBe('application/pdf')
+      expect(getProofType({ ...record, payment_proof_url: 'data:image/gif;base64,R0lG' })).toBe('image/gif')
+      expect(getProofType(record)).toBeNull()
+    })
+  })
+
+  describe('local driver', () => {
+    let dir: string
+    let env: Record<string, string>
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), 'proofs-'))
+      env = { PROOF_STORAGE_DIR: dir, PROOF_STORAGE_SECRET: PROOF_SECRET }
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should store, read and remove a proof', async () => {
+      const storage = getProofStorage(env)
+      const proofPath = buildProofPath(USER_ID, 'image/png', PROOF_ID)
+
+      await storage.put(proofPath, Buffer.from('proof'), 'image/png')
+      const proof = await storage.get(proofPath)
+
+      expect(proof?.contentType).toBe('image/png')
+      expect(proof?.data.toString()).toBe('proof')
+
+      await storage.remove(proofPath)
+      await expect(storage.get(proofPath)).resolves.toBeNull()
+    })
+
+    it('should never overwrite a stored proof', async () => {
+      const storage = getProofStorage(env)
+      const proofPath = buildProofPath(USER_ID, 'image/png', PROOF_ID)
+
+      await storage.put(proofPath, Buffer.from('first'), 'image/png')
+
+      await expect(storage.put(proofPath, Buffer.from('second'), 'image/png')).rejects.toThrow()
+    })
+
+    it('should refuse paths outside the storage directory', async () => {
+      const storage = getProofStorage(env)
+
+      await expect(storage.get('../secrets.txt')).rejects.toThrow('Invalid payment proof path')
+    })
+
+    it('should require its own signing secret', () => {
+      expect(() => getProofStorage({ PROOF_STORAGE_DIR: dir, ENCRYPTION_KEY: 'abcdefghijklmnopqrstuvwxyz123456' }))
+        .toThrow('PROOF_STORAGE_SECRET environment variable is required')
+      expect(() => getProofStorage({ PROOF_STORAGE_DIR: dir, PROOF_STORAGE_SECRET: 'too-short' }))
+        .toThrow('PROOF_STORAGE_SECRET must be at least 32 characters long')
+    })
+
+    it('should sign URLs that expire', async () => {
+      const storage = getProofStorage(env)
+      const proofPath = buildProofPath(USER_ID, 'image/png', PROOF_ID)
+
+      const url = new URL(await storage.createSignedUrl(proofPath, 300), 'http://localhost')
+      const input = {
+        path: proofPath,
+        expires: url.searchParams.get('expires'),
+        signature: url.searchParams.get('signature'),
+        env,
+      }
+
+      expect(url.pathname).toBe(`/api/payment-proofs/${proofPath}`)
+      expect(verifyProofUrl(input)).toBe(true)
+      expect(verifyProofUrl({ ...input, path: buildProofPath(USER_ID, 'image/png', USER_ID) })).toBe(false)
+      expect(verifyProofUrl({ ...input, now: new Date(Date.now() + 301 * 1000) })).toBe(false)
+    })
+  })
+
+  describe('createProofViewUrl', () => {
+    it('should point legacy data URL proofs at the proof reference', async () => {
+      const storage = getProofStorage({ PROOF_STORAGE_SECRET: PROOF_SECRET })
+
+      await expect(createProofViewUrl(storage, {
+        id: 'request-1',
+        payment_proof_path: null,
+        payment_proof_type: null,
+        payment_proof_url: 'data:image/png;base64,cHJvb2Y=',
+      })).resolves.toBe('/api/credit-requests/request-1/proof')
+    })
+  })
+})
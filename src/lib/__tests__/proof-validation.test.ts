@@ -0,0 +1,137 @@
+/**
+ * Unit tests for payment proof validation
+ *
+ * Covers content sniffing, PDF checks, metadata stripping and the hashes
+ * used to spot reused proofs.
+ */
+
+import sharp from 'sharp'
+import {
+  checkPdfProof,
+  hashDistance,
+  processPaymentProof,
+  sniffProofType,
+} from '../proof-validation'
+
+const PDF = Buffer.from(
+  '%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\nxref\n0 1\ntrailer\n<< /Root 1 0 R >>\nstartxref\n9\n%%EOF\n'
+)
+
+/**
+ * Screenshot-like test image with a few shapes
+ */
+function screenshot() {
+  return sharp({ create: { width: 200, height: 120, channels: 3, background: '#ffffff' } })
+    .composite([{
+      input: Buffer.from(
+        '<svg width="200" height="120"><rect x="10" y="10" width="80" height="50" fill="#000"/>' +
+        '<circle cx="150" cy="80" r="30" fill="#888"/></svg>'
+      ),
+    }])
+}
+
+describe('proof-validation', () => {
+  describe('sniffProofType', () => {
+    it('should detect accepted formats by their leading bytes', async () => {
+      expect(sniffProofType(await screenshot().jpeg().toBuffer())).toBe('image/jpeg')
+      expect(sniffProofType(await screenshot().png().toBuffer())).toBe('image/png')
+      expect(sniffProofType(await screenshot().gif().toBuffer())).toBe('image/gif')
+      expect(sniffProofType(PDF)).toBe('application/pdf')
+    })
+
+    it('should not trust anything else', () => {
+      expect(sniffProofType(Buffer.from('<html><script>alert(1)</script></html>'))).toBeNull()
+      expect(sniffProofType(Buffer.alloc(0))).toBeNull()
+    })
+  })
+
+  describe('checkPdfProof', () => {
+    it('should accept a complete PDF', () => {
+      expect(checkPdfProof(PDF)).toBeNull()
+    })
+
+    it('should reject a truncated PDF', () => {
+      expect(checkPdfProof(PDF.subarray(0, 40))).toContain('damaged or incomplete')
+    })
+
+    it('should reject PDFs with scripts or encryption', () => {
+      const withScript = Buffer.from(PDF.toString().replace('/Catalog', '/Catalog /OpenAction << /S /JavaScript /JS (x) >>'))
+      const encrypted = Buffer.from(PDF.toString().replace('/Root 1 0 R', '/Root 1 0 R /Encrypt 2 0 R'))
+
+      expect(checkPdfProof(withScript)).toContain('scripts')
+      expect(checkPdfProof(encrypted)).toContain('Password-protected')
+    })
+  })
+
+  describe('hashDistance', () => {
+    it('should count differing bits', () => {
+      expect(hashDistance('0000000000000000', '0000000000000000')).toBe(0)
+      expect(hashDistance('0000000000000000', '000000000000000f')).toBe(4)
+      expect(hashDistance('ffffffffffffffff', '0000000000000000')).toBe(64)
+    })
+  })
+
+  describe('processPaymentProof', () => {
+    it('should strip EXIF metadata from images', async () => {
+      const photo = await screenshot().jpeg()
+        .withMetadata({ exif: { IFD0: { Make: 'Phone', Copyright: 'Customer' } } })
+        .toBuffer()
+      expect((await sharp(photo).metadata()).exif).toBeDefined()
+
+      const result = await processPaymentProof(photo)
+
+      if (!('proof' in result)) throw new Error(result.error)
+      expect(result.proof.contentType).toBe('image/jpeg')
+      expect((await sharp(result.proof.data).metadata()).exif).toBeUndefined()
+    })
+
+    it('should store GIFs as PNG', async () => {
+      const result = await processPaymentProof(await screenshot().gif().toBuffer())
+
+      if (!('proof' in result)) throw new Error(result.error)
+      expect(result.proof.contentType).toBe('image/png')
+      expect(sniffProofType(result.proof.data)).toBe('image/png')
+    })
+
+    it('should give the same upload the same hashes', async () => {
+      const image = await screenshot().png().toBuffer()
+
+      const first = await processPaymentProof(image)
+      const second = await processPaymentProof(image)
+
+      if (!('proof' in first) || !('proof' in second)) throw new Error('proof refused')
+      expect(second.proof.sha256).toBe(first.proof.sha256)
+      expect(second.proof.phash).toBe(first.proof.phash)
+    })
+
+    it('should match a resized copy by its image hash', async () => {
+      const image = await screenshot().png().toBuffer()
+
+      const original = await processPaymentProof(image)
+      const resized = await processPaymentProof(await sharp(image).resize(100).jpeg().toBuffer())
+
+      if (!('proof' in original) || !('proof' in resized)) throw new Error('proof refused')
+      expect(resized.proof.sha256).not.toBe(original.proof.sha256)
+      expect(hashDistance(original.proof.phash!, resized.proof.phash!)).toBeLessThanOrEqual(4)
+    })
+
+    it('should hash PDFs by content only', async () => {
+      const result = await processPaymentProof(PDF)
+
+      if (!('proof' in result)) throw new Error(result.error)
+      expect(result.proof.data).toBe(PDF)
+      expect(result.proof.phash).toBeNull()
+    })
+
+    it('should refuse files that are not what they claim to be', async () => {
+      const truncatedJpeg = (await screenshot().jpeg().toBuffer()).subarray(0, 200)
+
+      await expect(processPaymentProof(Buffer.from('not an image'))).resolves.toEqual({
+        error: expect.stringContaining('not a JPEG, PNG, GIF or PDF'),
+      })
+      await expect(processPaymentProof(truncatedJpeg)).resolves.toEqual({
+        error: expect.stringContaining('could not be read'),
+      })
+    })
+  })
+})
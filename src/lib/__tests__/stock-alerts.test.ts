@@ -0,0 +1,67 @@
+/**
+ * Unit tests for low-stock alerting
+ *
+ * Covers the days-of-cover estimate and when a checkout raises an alert.
+ */
+
+import type { PrismaClient } from '@prisma/client'
+import { calculateDaysOfCover, recordLowStockAlerts } from '../stock-alerts'
+
+/**
+ * Minimal Prisma stand-in returning a fixed threshold and stock count
+ */
+function createClient(threshold: number, available: number) {
+  const createMany = jest.fn().mockResolvedValue({ count: 1 })
+  const client = {
+    product: { findUnique: jest.fn().mockResolvedValue({ low_stock_threshold: threshold }) },
+    gameCode: { count: jest.fn().mockResolvedValue(available) },
+    stockAlert: { createMany },
+  } as unknown as PrismaClient
+  return { client, createMany }
+}
+
+describe('stock-alerts', () => {
+  describe('calculateDaysOfCover', () => {
+    it('should divide stock by daily sales', () => {
+      expect(calculateDaysOfCover(6, 14, 14)).toBe(6)
+      expect(calculateDaysOfCover(5, 3, 14)).toBe(23.3)
+    })
+
+    it('should return zero when out of stock', () => {
+      expect(calculateDaysOfCover(0, 0, 14)).toBe(0)
+    })
+
+    it('should return null without recent sales', () => {
+      expect(calculateDaysOfCover(4, 0, 14)).toBeNull()
+    })
+  })
+
+  describe('recordLowStockAlerts', () => {
+    it('should raise an alert when the checkout crosses the threshold', async () => {
+      const { client, createMany } = createClient(5, 3)
+
+      await expect(recordLowStockAlerts(client, 'order-1', [{ productId: 'p1', quantity: 2 }]))
+        .resolves.toEqual(['p1'])
+      expect(createMany).toHaveBeenCalledWith({
+        data: [{ product_id: 'p1', order_id: 'order-1', available_codes: 3, threshold: 5 }],
+        skipDuplicates: true,
+      })
+    })
+
+    it('should not alert again when stock was already below the threshold', async () => {
+      const { client, createMany } = createClient(5, 2)
+
+      await expect(recordLowStockAlerts(client, 'order-1', [{ productId: 'p1', quantity: 1 }]))
+        .resolves.toEqual([])
+      expect(createMany).not.toHaveBeenCalled()
+    })
+
+    it('should skip products with alerts disabled', async () => {
+      const { client, createMany } = createClient(0, 0)
+
+      await expect(recordLowStockAlerts(client, 'order-1', [{ productId: 'p1', quantity: 1 }]))
+        .resolves.toEqual([])
+      expect(createMany).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for product variants
+ *
+ * Covers variant naming, the starting price shown for a product and
+ * replacing a product's variants.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { getStartingPrice, setProductVariants, variantName } from '../variants'
+
+const PARENT = {
+  id: 'card',
+  name: 'PSN Gift Card',
+  description: 'PlayStation Store credit',
+  platform: 'PS5',
+  image_url: '/images/psn.jpg',
+  low_stock_threshold: 5,
+  parent_id: null as string | null,
+  product_type: 'single',
+  variants: [{ id: 'card-10' }, { id: 'card-25' }],
+  _count: { game_codes: 0 },
+}
+
+/**
+ * Transaction client stand-in for variant updates
+ */
+function createTx(parent: typeof PARENT | null = PARENT, inUseIds: string[] = []) {
+  return {
+    product: {
+      findUnique: jest.fn().mockResolvedValue(parent),
+      findMany: jest.fn()
+        .mockResolvedValueOnce(inUseIds.map(id => ({ id })))
+        .mockResolvedValue([
+          { id: 'card-25', price: 25, is_active: true },
+          { id: 'card-50', price: 50, is_active: true },
+        ]),
+      updateMany: jest.fn().mockResolvedValue({ count: inUseIds.length }),
+      deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+      update: jest.fn().mockResolvedValue({}),
+      create: jest.fn().mockResolvedValue({}),
+    },
+  }
+}
+
+const asTx = (tx: ReturnType<typeof createTx>) => tx as unknown as Prisma.TransactionClient
+
+describe('variants', () => {
+  describe('variantName', () => {
+    it('should append the label to the parent name', () => {
+      expect(variantName('PSN Gift Card', ' $25 ')).toBe('PSN Gift Card $25')
+    })
+  })
+
+  describe('getStartingPrice', () => {
+    it('should be the cheapest active variant', () => {
+      expect(getStartingPrice([
+        { price: 10, is_active: false },
+        { price: 50, is_active: true },
+        { price: 25, is_active: true },
+      ])).toBe(25)
+    })
+
+    it('should be null without active variants', () => {
+      expect(getStartingPrice([{ price: 10, is_active: false }])).toBeNull()
+      expect(getStartingPrice([])).toBeNull()
+    })
+  })
+
+  describe('setProductVariants', () => {
+    const VARIANTS = [
+      { id: 'card-25', label: '$25', price: 25, isActive: true },
+      { label: '$50', price: 50, isActive: true },
+    ]
+
+    it('should only give variants to top-level single products without codes', async () => {
+      await expect(setProductVariants(asTx(createTx(null)), 'card', VARIANTS))
+        .rejects.toThrow('Product not found')
+      await expect(setProductVariants(asTx(createTx({ ...PARENT, parent_id: 'other' })), 'card', VARIANTS))
+        .rejects.toThrow('A variant cannot have variants of its own')
+      await expect(setProductVariants(asTx(createTx({ ...PARENT, product_type: 'bundle' })), 'card', VARIANTS))
+        .rejects.toThrow('Bundles cannot have variants')
+      await expect(setProductVariants(asTx(createTx({ ...PARENT, _count: { game_codes: 3 } })), 'card', VARIANTS))
+        .rejects.toThrow('Products with codes of their own cannot have variants')
+    })
+
+    it('should reject repeated labels and variants of other products', async () => {
+      await expect(setProductVariants(asTx(createTx()), 'card', [
+        VARIANTS[0],
+        { label: '$25 ', price: 30, isActive: true },
+      ])).rejects.toThrow('Each variant label can only be used once')
+      await expect(setProductVariants(asTx(createTx()), 'card', [
+        { id: 'other-variant', label: '$5', price: 5, isActive: true },
+      ])).rejects.toThrow('Variant $5 does not belong to this product')
+    })
+
+    it('should update, create and remove variants and reprice the parent', async () => {
+      const tx = createTx()
+
+      await setProductVariants(asTx(tx), 'card', VARIANTS)
+
+      expect(tx.product.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['card-10'] } } })
+      expect(tx.product.update).toHaveBeenCalledWith({
+        where: { id: 'card-25' },
+        data: { name: 'PSN Gift Card $25', variant_label: '$25', price: 25, is_active: true },
+      })
+      expect(tx.product.create).toHaveBeenCalledWith({
+        data: {
+          name: 'PSN Gift Card $50',
+          variant_label: '$50',
+          price: 50,
+          is_active: true,
+          parent_id: 'card',
+          description: 'PlayStation Store credit',
+          platform: 'PS5',
+          image_url: '/images/psn.jpg',
+          low_stock_threshold: 5,
+        },
+      })
+      expect(tx.product.update).toHaveBeenLastCalledWith({ where: { id: 'card' }, data: { price: 25 } })
+    })
+
+    it('should deactivate removed variants that have codes instead of deleting them', async () => {
+      const tx = createTx(PARENT, ['card-10'])
+
+      await setProductVariants(asTx(tx), 'card', VARIANTS)
+
+      expect(tx.product.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['card-10'] } },
+        data: { is_active: false },
+      })
+      expect(tx.product.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [] } } })
+    })
+  })
+})
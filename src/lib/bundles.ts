@@ -0,0 +1,300 @@
+/**
+ * Product Bundles Utility
+ *
+ * A bundle product sells codes from several component products as one SKU.
+ * Bundles have no codes of their own: their stock is the number of complete
+ * sets the component pools can supply, and at checkout each bundle is split
+ * into one order item per component code, carrying a share of the bundle's
+ * price, discount and tax.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { availableGameCodeWhere } from './inventory'
+import { allocateAmount, fromCents, toCents, type QuoteLine } from './pricing'
+
+export type ProductType = 'single' | 'bundle'
+
+export interface BundleComponentInput {
+  componentId: string
+  quantity: number
+}
+
+/** One code of a bundle with its share of the bundle's amounts, in cents */
+export interface BundleCodeShare {
+  productId: string
+  unitPriceCents: number
+  discountCents: number
+  taxCents: number
+}
+
+/** A code an order needs, with the amounts its order item will carry */
+export interface PlannedOrderCode {
+  productId: string
+  productName: string
+  unitPrice: number
+  discountAmount: number
+  taxAmount: number
+}
+
+/** A priced cart line expanded into the codes it needs */
+export interface PlannedOrderLine {
+  productId: string
+  quantity: number
+  unitPrice: number
+  /** Bundle lines get an order bundle row; their codes come from the components */
+  isBundle: boolean
+  codes: PlannedOrderCode[]
+}
+
+type BundleClient = PrismaClient | Prisma.TransactionClient
+
+/**
+ * Number of complete bundles the component stock can supply
+ * @param components - Codes needed per bundle from each component
+ * @param availableByProduct - Sellable codes per component product
+ * @returns Bundle stock; zero for a bundle without components
+ */
+export function calculateBundleStock(
+  components: BundleComponentInput[],
+  availableByProduct: Map<string, number>
+): number {
+  if (components.length === 0) {
+    return 0
+  }
+
+  return Math.min(...components.map(component =>
+    Math.floor((availableByProduct.get(component.componentId) ?? 0) / component.quantity)
+  ))
+}
+
+/**
+ * Sellable stock per product. Single products count their available,
+ * unexpired codes; bundles count complete sets of their components, and
+ * products sold in variants add up their active variants.
+ * @param client - Prisma client or interactive transaction client
+ * @param productIds - Products to count
+ * @param now - Reference time, defaults to the current time
+ * @returns Map of product id to stock
+ */
+export async function getAvailableStock(
+  client: BundleClient,
+  productIds: string[],
+  now: Date = new Date()
+): Promise<Map<string, number>> {
+  const products = await client.product.findMany({
+    where: { id: { in: productIds } },
+    select: {
+      id: true,
+      product_type: true,
+      bundle_components: { select: { component_id: true, quantity: true } },
+      variants: { where: { is_active: true }, select: { id: true } },
+    },
+  })
+
+  const codeProductIds = new Set<string>()
+  products.forEach(product => {
+    if (product.product_type === 'bundle') {
+      product.bundle_components.forEach(component => codeProductIds.add(component.component_id))
+    } else if (product.variants.length > 0) {
+      product.variants.forEach(variant => codeProductIds.add(variant.id))
+    } else {
+      codeProductIds.add(product.id)
+    }
+  })
+
+  const counts = await client.gameCode.groupBy({
+    by: ['product_id'],
+    where: { product_id: { in: Array.from(codeProductIds) }, ...availableGameCodeWhere(now) },
+    _count: { id: true },
+  })
+  const availableByProduct = new Map(counts.map(row => [row.product_id, row._count.id]))
+
+  return new Map(products.map(product => {
+    if (product.product_type === 'bundle') {
+      return [product.id, calculateBundleStock(
+        product.bundle_components.map(component => ({
+          componentId: component.component_id,
+          quantity: component.quantity,
+        })),
+        availableByProduct
+      )]
+    }
+
+    if (product.variants.length > 0) {
+      return [product.id, product.variants.reduce(
+        (sum, variant) => sum + (availableByProduct.get(variant.id) ?? 0), 0
+      )]
+    }
+
+    return [product.id, availableByProduct.get(product.id) ?? 0]
+  }))
+}
+
+/**
+ * Split one bundle's price, discount and tax over its component codes in
+ * proportion to the component products' own prices, so the codes add up to
+ * exactly what the bundle cost
+ * @param unit - Price, discount and tax of one bundle, in cents
+ * @param components - Codes per bundle and list price in cents of each component
+ * @returns One share per code, components in the given order
+ */
+export function splitBundleUnit(
+  unit: { priceCents: number; discountCents: number; taxCents: number },
+  components: Array<BundleComponentInput & { priceCents: number }>
+): BundleCodeShare[] {
+  const codes = components.flatMap(component =>
+    Array.from({ length: component.quantity }, () => component)
+  )
+
+  const prices = allocateAmount(unit.priceCents, codes.map(code => code.priceCents))
+  const discounts = allocateAmount(unit.discountCents, prices)
+  const taxes = allocateAmount(unit.taxCents, prices)
+
+  return codes.map((code, index) => ({
+    productId: code.componentId,
+    unitPriceCents: prices[index],
+    discountCents: discounts[index],
+    taxCents: taxes[index],
+  }))
+}
+
+/**
+ * Expand priced cart lines into the codes an order needs: one per unit of a
+ * single product, and one per component code of every bundle unit. Each
+ * line's discount and tax are spread evenly over its units first.
+ * @param client - Prisma client or interactive transaction client
+ * @param lines - Lines of the checkout quote
+ * @returns One planned line per quote line, in the same order
+ * @throws Error if a bundle has no components
+ */
+export async function planOrderCodes(client: BundleClient, lines: QuoteLine[]): Promise<PlannedOrderLine[]> {
+  const products = await client.product.findMany({
+    where: { id: { in: lines.map(line => line.productId) } },
+    select: {
+      id: true,
+      product_type: true,
+      bundle_components: {
+        select: {
+          component_id: true,
+          quantity: true,
+          component: { select: { name: true, price: true } },
+        },
+        orderBy: { created_at: 'asc' },
+      },
+    },
+  })
+  const productsById = new Map(products.map(product => [product.id, product]))
+
+  return lines.map(line => {
+    const product = productsById.get(line.productId)
+    const units = Array(line.quantity).fill(1)
+    const unitDiscounts = allocateAmount(toCents(line.discountAmount), units)
+    const unitTaxes = allocateAmount(toCents(line.taxAmount), units)
+
+    if (product?.product_type !== 'bundle') {
+      return {
+        productId: line.productId,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        isBundle: false,
+        codes: units.map((_, unit) => ({
+          productId: line.productId,
+          productName: line.productName,
+          unitPrice: line.unitPrice,
+          discountAmount: fromCents(unitDiscounts[unit]),
+          taxAmount: fromCents(unitTaxes[unit]),
+        })),
+      }
+    }
+
+    if (product.bundle_components.length === 0) {
+      throw new Error(`Product ${line.productName} is not available`)
+    }
+
+    const components = product.bundle_components.map(component => ({
+      componentId: component.component_id,
+      quantity: component.quantity,
+      priceCents: toCents(component.component.price),
+    }))
+    const componentNames = new Map(product.bundle_components.map(component =>
+      [component.component_id, component.component.name]
+    ))
+
+    return {
+      productId: line.productId,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      isBundle: true,
+      codes: units.flatMap((_, unit) =>
+        splitBundleUnit(
+          { priceCents: toCents(line.unitPrice), discountCents: unitDiscounts[unit], taxCents: unitTaxes[unit] },
+          components
+        ).map(share => ({
+          productId: share.productId,
+          productName: componentNames.get(share.productId) ?? line.productName,
+          unitPrice: fromCents(share.unitPriceCents),
+          discountAmount: fromCents(share.discountCents),
+          taxAmount: fromCents(share.taxCents),
+        }))
+      ),
+    }
+  })
+}
+
+/**
+ * Replace a bundle's component list. Must run inside a transaction so the
+ * bundle is never left half-updated.
+ * @param client - Prisma interactive transaction client
+ * @param bundleId - Bundle product
+ * @param components - New components with their quantities
+ * @returns The saved components
+ * @throws Error if the product is not a bundle or a component is not a single product
+ */
+export async function setBundleComponents(
+  client: Prisma.TransactionClient,
+  bundleId: string,
+  components: BundleComponentInput[]
+) {
+  const bundle = await client.product.findUnique({
+    where: { id: bundleId },
+    select: { product_type: true },
+  })
+
+  if (!bundle) {
+    throw new Error('Product not found')
+  }
+
+  if (bundle.product_type !== 'bundle') {
+    throw new Error('Only bundle products have components')
+  }
+
+  const componentIds = components.map(component => component.componentId)
+  if (new Set(componentIds).size !== componentIds.length) {
+    throw new Error('Each component can only be listed once')
+  }
+
+  // A product sold in variants has no codes; one of its variants goes in instead
+  const singles = await client.product.findMany({
+    where: { id: { in: componentIds }, product_type: 'single', variants: { none: {} } },
+    select: { id: true },
+  })
+
+  if (singles.length !== componentIds.length) {
+    throw new Error('Bundle components must be existing single products or variants')
+  }
+
+  await client.bundleComponent.deleteMany({ where: { bundle_id: bundleId } })
+  await client.bundleComponent.createMany({
+    data: components.map(component => ({
+      bundle_id: bundleId,
+      component_id: component.componentId,
+      quantity: component.quantity,
+    })),
+  })
+
+  return client.bundleComponent.findMany({
+    where: { bundle_id: bundleId },
+    include: { component: { select: { id: true, name: true, platform: true, price: true } } },
+    orderBy: { created_at: 'asc' },
+  })
+}
@@ -0,0 +1,113 @@
+/**
+ * Cart Reconciliation Utility
+ *
+ * Brings cart lines in line with the current state of their products: drops
+ * lines that can no longer be bought, caps quantities at the stock left and
+ * picks up new prices, describing each change so the buyer can be told.
+ * Runs in the browser, so it must not import server-only modules.
+ */
+
+import type { CartChange, CartItem, CartProductStatus, SavedCartLine } from '@/types/cart'
+
+/**
+ * Update cart lines from their products' current state
+ * @param items - Cart lines as stored on the device
+ * @param statuses - Current state of the cart's products
+ * @returns The updated lines and what changed, in cart order
+ */
+export function reconcileCartItems(
+  items: CartItem[],
+  statuses: CartProductStatus[]
+): { items: CartItem[]; changes: CartChange[] } {
+  const statusById = new Map(statuses.map(status => [status.productId, status]))
+  const changes: CartChange[] = []
+  const reconciled: CartItem[] = []
+
+  for (const item of items) {
+    const status = statusById.get(item.productId)
+
+    if (!status || !status.isActive) {
+      changes.push({
+        productId: item.productId,
+        type: 'removed',
+        message: `${item.name} is no longer available and was removed from your cart`,
+      })
+      continue
+    }
+
+    if (status.availableStock === 0) {
+      changes.push({
+        productId: item.productId,
+        type: 'removed',
+        message: `${status.name} is out of stock and was removed from your cart`,
+      })
+      continue
+    }
+
+    const quantity = Math.min(item.quantity, status.availableStock)
+    if (quantity < item.quantity) {
+      changes.push({
+        productId: item.productId,
+        type: 'quantity_reduced',
+        message: `Only ${status.availableStock} of ${status.name} left; your cart now has ${quantity}`,
+      })
+    }
+
+    if (status.price !== item.price) {
+      changes.push({
+        productId: item.productId,
+        type: 'price_changed',
+        message: `${status.name} is now $${status.price.toFixed(2)} (was $${item.price.toFixed(2)})`,
+      })
+    }
+
+    reconciled.push({
+      ...item,
+      name: status.name,
+      price: status.price,
+      platform: status.platform,
+      image_url: status.imageUrl ?? undefined,
+      parentProductId: status.parentProductId ?? undefined,
+      variantLabel: status.variantLabel ?? undefined,
+      quantity,
+      maxStock: status.availableStock,
+    })
+  }
+
+  return { items: reconciled, changes }
+}
+
+/**
+ * Combine the cart on this device with the user's saved cart. Lines in both
+ * keep the larger quantity, since they are usually the same cart synced
+ * earlier rather than two separate picks.
+ * @param localItems - Cart lines on this device
+ * @param savedLines - The user's saved cart
+ * @returns Local lines first, then saved lines not on this device
+ */
+export function mergeSavedCart(localItems: CartItem[], savedLines: SavedCartLine[]): CartItem[] {
+  const savedById = new Map(savedLines.map(line => [line.productId, line]))
+
+  const merged = localItems.map(item => {
+    const saved = savedById.get(item.productId)
+    return saved ? { ...item, quantity: Math.max(item.quantity, saved.quantity) } : item
+  })
+
+  const localIds = new Set(localItems.map(item => item.productId))
+  savedLines
+    .filter(line => !localIds.has(line.productId))
+    .forEach(line => merged.push({
+      id: `cart-${line.productId}-${Date.now()}`,
+      productId: line.productId,
+      parentProductId: line.parentProductId ?? undefined,
+      variantLabel: line.variantLabel ?? undefined,
+      name: line.name,
+      price: line.price,
+      platform: line.platform,
+      image_url: line.imageUrl ?? undefined,
+      quantity: line.quantity,
+      maxStock: line.availableStock,
+    }))
+
+  return merged
+}
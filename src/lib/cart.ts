@@ -0,0 +1,114 @@
+/**
+ * Cart Utility
+ *
+ * Server side of the shopping cart: current prices, stock and availability
+ * of cart products, and the saved carts of signed-in users. The cart itself
+ * lives in the browser; saved carts only keep products and quantities.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { getAvailableStock } from './bundles'
+import type { CartProductStatus, SavedCartLine } from '@/types/cart'
+
+export interface CartLineInput {
+  productId: string
+  quantity: number
+}
+
+type CartClient = PrismaClient | Prisma.TransactionClient
+
+/**
+ * Current state of cart products. A product can be bought when it and the
+ * product it is a variant of are active and it is not sold through variants.
+ * @param client - Prisma client or interactive transaction client
+ * @param productIds - Products in the cart
+ * @returns One status per existing product; unknown ids are left out
+ */
+export async function getCartProductStatus(
+  client: CartClient,
+  productIds: string[]
+): Promise<CartProductStatus[]> {
+  const ids = [...new Set(productIds)]
+  if (ids.length === 0) {
+    return []
+  }
+
+  const [products, stockByProduct] = await Promise.all([
+    client.product.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        name: true,
+        price: true,
+        platform: true,
+        image_url: true,
+        is_active: true,
+        parent_id: true,
+        variant_label: true,
+        parent: { select: { is_active: true } },
+        _count: { select: { variants: true } },
+      },
+    }),
+    getAvailableStock(client, ids),
+  ])
+
+  return products.map(product => ({
+    productId: product.id,
+    name: product.name,
+    price: Number(product.price),
+    platform: product.platform,
+    imageUrl: product.image_url,
+    parentProductId: product.parent_id,
+    variantLabel: product.variant_label,
+    // Same rules checkout applies
+    isActive: product.is_active && product.parent?.is_active !== false && product._count.variants === 0,
+    availableStock: stockByProduct.get(product.id) ?? 0,
+  }))
+}
+
+/**
+ * A signed-in user's saved cart
+ * @param client - Prisma client or interactive transaction client
+ * @param userId - Cart owner
+ * @returns Saved lines, oldest first, with their products' current state
+ */
+export async function getSavedCart(client: CartClient, userId: string): Promise<SavedCartLine[]> {
+  const cartItems = await client.cartItem.findMany({
+    where: { user_id: userId },
+    orderBy: { created_at: 'asc' },
+  })
+  const statuses = await getCartProductStatus(client, cartItems.map(item => item.product_id))
+  const statusById = new Map(statuses.map(status => [status.productId, status]))
+
+  return cartItems.flatMap(item => {
+    const status = statusById.get(item.product_id)
+    return status ? [{ ...status, quantity: item.quantity }] : []
+  })
+}
+
+/**
+ * Replace a signed-in user's saved cart. Lines for products that no longer
+ * exist are skipped.
+ * @param client - Prisma client
+ * @param userId - Cart owner
+ * @param lines - The whole cart, one line per product
+ */
+export async function saveCart(client: PrismaClient, userId: string, lines: CartLineInput[]): Promise<void> {
+  const existing = await client.product.findMany({
+    where: { id: { in: lines.map(line => line.productId) } },
+    select: { id: true },
+  })
+  const existingIds = new Set(existing.map(product => product.id))
+  const kept = lines.filter(line => existingIds.has(line.productId))
+
+  await client.$transaction([
+    client.cartItem.deleteMany({
+      where: { user_id: userId, product_id: { notIn: kept.map(line => line.productId) } },
+    }),
+    ...kept.map(line => client.cartItem.upsert({
+      where: { user_id_product_id: { user_id: userId, product_id: line.productId } },
+      create: { user_id: userId, product_id: line.productId, quantity: line.quantity },
+      update: { quantity: line.quantity },
+    })),
+  ])
+}
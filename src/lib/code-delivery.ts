@@ -0,0 +1,328 @@
+/**
+ * Game Code Delivery Utility
+ *
+ * Order endpoints never return code ciphertext or plaintext. They return a
+ * masked placeholder per code plus when (if ever) the buyer first revealed it.
+ * Plaintext is only served by the reveal endpoints, which record an audit row.
+ * Admin reveals are recorded too, but never count as the buyer's reveal.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { decryptGameCode } from '@/lib/encryption'
+
+/** Placeholder shown in place of an unrevealed code */
+export const MASKED_GAME_CODE = '••••-••••-••••'
+
+export interface DeliveredGameCode {
+  codeId: string
+  maskedCode: string
+  revealedAt: string | null
+  /** Latest dispute the buyer opened on this code */
+  dispute: {
+    status: string
+    resolutionNote: string | null
+  } | null
+  /** Free code issued to replace a disputed one */
+  isReplacement: boolean
+}
+
+export interface RevealGameCodeInput {
+  orderId: string
+  codeId: string
+  userId: string
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+export interface AdminRevealGameCodeInput {
+  orderId: string
+  codeId: string
+  adminId: string
+  ipAddress?: string | null
+  userAgent?: string | null
+}
+
+export interface RevealedGameCode {
+  codeId: string
+  code: string
+  /** Supplier PIN, for codes imported with one */
+  pin: string | null
+  revealedAt: string
+  firstRevealedAt: string
+}
+
+export interface AdminRevealedGameCode {
+  codeId: string
+  code: string
+  pin: string | null
+  revealedAt: string
+  /** When the buyer first revealed the code, if ever */
+  buyerRevealedAt: string | null
+}
+
+type DeliveryClient = PrismaClient | Prisma.TransactionClient
+
+/**
+ * Prisma `select` for a code as it appears in order responses: id, the
+ * earliest reveal and dispute state, but never the ciphertext
+ */
+export const deliveredGameCodeSelect = {
+  id: true,
+  reveals: {
+    where: { by_admin: false },
+    select: { revealed_at: true },
+    orderBy: { revealed_at: 'asc' },
+    take: 1
+  },
+  order_item: {
+    select: {
+      disputes: {
+        select: { status: true, resolution_note: true },
+        orderBy: { created_at: 'desc' },
+        take: 1
+      },
+      replacement_for: { select: { id: true } }
+    }
+  }
+} satisfies Prisma.GameCodeSelect
+
+/**
+ * Convert a selected game code into its masked response form
+ * @param gameCode - Code selected with `deliveredGameCodeSelect`
+ * @returns Masked code with its first reveal time and dispute state
+ */
+export function toDeliveredGameCode(
+  gameCode: Prisma.GameCodeGetPayload<{ select: typeof deliveredGameCodeSelect }>
+): DeliveredGameCode {
+  const dispute = gameCode.order_item?.disputes[0]
+
+  return {
+    codeId: gameCode.id,
+    maskedCode: MASKED_GAME_CODE,
+    revealedAt: gameCode.reveals[0]?.revealed_at.toISOString() ?? null,
+    dispute: dispute ? { status: dispute.status, resolutionNote: dispute.resolution_note } : null,
+    isReplacement: !!gameCode.order_item?.replacement_for
+  }
+}
+
+/** Codes of one component product within a bundle */
+export interface DeliveredBundleComponent {
+  productId: string
+  productName: string
+  platform: string
+  gameCodes: DeliveredGameCode[]
+}
+
+/** One product or bundle line of an order as shown to the buyer */
+export interface DeliveredOrderLine {
+  productId: string
+  productName: string
+  platform: string
+  quantity: number
+  unitPrice: number
+  gameCodes: DeliveredGameCode[]
+  /** For bundles, the same codes grouped by component product; null otherwise */
+  bundleComponents: DeliveredBundleComponent[] | null
+}
+
+/**
+ * Prisma `include` for order items as they appear in order responses
+ */
+export const deliveredOrderItemInclude = {
+  product: { select: { name: true, platform: true } },
+  game_code: { select: deliveredGameCodeSelect },
+  order_bundle: { include: { product: { select: { name: true, platform: true } } } }
+} satisfies Prisma.OrderItemInclude
+
+/**
+ * Group an order's items into the lines the buyer bought: one per product,
+ * and one per bundle with its codes grouped by component
+ * @param orderItems - Items selected with `deliveredOrderItemInclude`, oldest first
+ * @returns Order lines in the order they first appear
+ */
+export function groupDeliveredOrderItems(
+  orderItems: Prisma.OrderItemGetPayload<{ include: typeof deliveredOrderItemInclude }>[]
+): DeliveredOrderLine[] {
+  const lines = new Map<string, DeliveredOrderLine>()
+
+  orderItems.forEach(orderItem => {
+    const bundle = orderItem.order_bundle
+    const key = bundle ? `bundle:${bundle.id}` : orderItem.product_id
+
+    let line = lines.get(key)
+    if (!line) {
+      line = bundle ? {
+        productId: bundle.product_id,
+        productName: bundle.product.name,
+        platform: bundle.product.platform,
+        quantity: bundle.quantity,
+        unitPrice: Number(bundle.unit_price),
+        gameCodes: [],
+        bundleComponents: []
+      } : {
+        productId: orderItem.product_id,
+        productName: orderItem.product.name,
+        platform: orderItem.product.platform,
+        quantity: 0,
+        unitPrice: Number(orderItem.unit_price),
+        gameCodes: [],
+        bundleComponents: null
+      }
+      lines.set(key, line)
+    }
+
+    const deliveredCode = orderItem.game_code ? toDeliveredGameCode(orderItem.game_code) : null
+    // Replacement codes are free and not part of the quantity bought
+    if (!bundle && !deliveredCode?.isReplacement) {
+      line.quantity += orderItem.quantity
+    }
+    if (!deliveredCode) return
+
+    line.gameCodes.push(deliveredCode)
+
+    if (line.bundleComponents) {
+      let component = line.bundleComponents.find(entry => entry.productId === orderItem.product_id)
+      if (!component) {
+        component = {
+          productId: orderItem.product_id,
+          productName: orderItem.product.name,
+          platform: orderItem.product.platform,
+          gameCodes: []
+        }
+        line.bundleComponents.push(component)
+      }
+      component.gameCodes.push(deliveredCode)
+    }
+  })
+
+  return Array.from(lines.values())
+}
+
+/**
+ * Decrypt one purchased code and record the reveal
+ * @param client - Prisma client
+ * @param input - Order, code, the requesting user and request metadata
+ * @returns The plaintext code and reveal timestamps, or null if the code does
+ *   not belong to a completed order owned by the user or was refunded
+ * @throws Error if the code cannot be decrypted
+ */
+export async function revealGameCode(
+  client: DeliveryClient,
+  input: RevealGameCodeInput
+): Promise<RevealedGameCode | null> {
+  const orderItem = await client.orderItem.findFirst({
+    where: {
+      order_id: input.orderId,
+      game_code_id: input.codeId,
+      order: { user_id: input.userId, status: 'completed' },
+      // Refunded and voided codes were taken back from the customer
+      game_code: { status: { notIn: ['refunded', 'voided'] } }
+    },
+    select: {
+      game_code: {
+        select: {
+          id: true,
+          encrypted_code: true,
+          encrypted_pin: true,
+          reveals: {
+            where: { by_admin: false },
+            select: { revealed_at: true },
+            orderBy: { revealed_at: 'asc' },
+            take: 1
+          }
+        }
+      }
+    }
+  })
+
+  if (!orderItem?.game_code) {
+    return null
+  }
+
+  // Decrypt before writing the audit row so failed reveals are not recorded
+  const code = decryptGameCode(orderItem.game_code.encrypted_code)
+  const pin = orderItem.game_code.encrypted_pin ? decryptGameCode(orderItem.game_code.encrypted_pin) : null
+
+  const reveal = await client.gameCodeReveal.create({
+    data: {
+      game_code_id: orderItem.game_code.id,
+      order_id: input.orderId,
+      user_id: input.userId,
+      ip_address: input.ipAddress ?? null,
+      user_agent: input.userAgent ?? null
+    }
+  })
+
+  const firstRevealedAt = orderItem.game_code.reveals[0]?.revealed_at ?? reveal.revealed_at
+
+  return {
+    codeId: orderItem.game_code.id,
+    code,
+    pin,
+    revealedAt: reveal.revealed_at.toISOString(),
+    firstRevealedAt: firstRevealedAt.toISOString()
+  }
+}
+
+/**
+ * Decrypt one code of any order for an admin and record the admin as the
+ * revealer. The buyer's own first reveal is left as it was.
+ * @param client - Prisma client
+ * @param input - Order, code, the admin and request metadata
+ * @returns The plaintext code, this reveal's time and the buyer's first
+ *   reveal, or null if the code is not part of the order
+ * @throws Error if the code cannot be decrypted
+ */
+export async function revealGameCodeForAdmin(
+  client: DeliveryClient,
+  input: AdminRevealGameCodeInput
+): Promise<AdminRevealedGameCode | null> {
+  const orderItem = await client.orderItem.findFirst({
+    where: {
+      order_id: input.orderId,
+      game_code_id: input.codeId
+    },
+    select: {
+      game_code: {
+        select: {
+          id: true,
+          encrypted_code: true,
+          encrypted_pin: true,
+          reveals: {
+            where: { by_admin: false },
+            select: { revealed_at: true },
+            orderBy: { revealed_at: 'asc' },
+            take: 1
+          }
+        }
+      }
+    }
+  })
+
+  if (!orderItem?.game_code) {
+    return null
+  }
+
+  // Decrypt before writing the audit row so failed reveals are not recorded
+  const code = decryptGameCode(orderItem.game_code.encrypted_code)
+  const pin = orderItem.game_code.encrypted_pin ? decryptGameCode(orderItem.game_code.encrypted_pin) : null
+
+  const reveal = await client.gameCodeReveal.create({
+    data: {
+      game_code_id: orderItem.game_code.id,
+      order_id: input.orderId,
+      user_id: input.adminId,
+      by_admin: true,
+      ip_address: input.ipAddress ?? null,
+      user_agent: input.userAgent ?? null
+    }
+  })
+
+  return {
+    codeId: orderItem.game_code.id,
+    code,
+    pin,
+    revealedAt: reveal.revealed_at.toISOString(),
+    buyerRevealedAt: orderItem.game_code.reveals[0]?.revealed_at.toISOString() ?? null
+  }
+}
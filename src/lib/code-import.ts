@@ -0,0 +1,550 @@
+/**
+ * Game Code Import Utility
+ *
+ * Streams supplier CSV/XLSX files row by row, maps their columns onto game code
+ * fields, validates each row and (when committing) inserts valid codes in
+ * chunks. The same pass powers the preview, so what the admin sees is exactly
+ * what the commit will do, barring codes added by someone else in between.
+ */
+
+import { Readable } from 'stream'
+import type { ReadableStream as NodeReadableStream } from 'stream/web'
+import { parse } from 'csv-parse'
+import ExcelJS from 'exceljs'
+import { encryptGameCode, fingerprintGameCode } from '@/lib/encryption'
+import type { createClient } from '@/lib/supabase/server'
+
+export const IMPORT_FIELDS = ['code', 'pin', 'expiresAt', 'denomination', 'batchNumber'] as const
+
+export type ImportField = typeof IMPORT_FIELDS[number]
+export type ImportFileType = 'csv' | 'xlsx'
+
+/** Spreadsheet header name for each field; only `code` is required */
+export type ColumnMapping = Partial<Record<ImportField, string>>
+
+export const MAX_IMPORT_FILE_BYTES = 25 * 1024 * 1024
+export const MAX_IMPORT_ROWS = 100000
+export const IMPORT_CHUNK_SIZE = 500
+
+// Keep the stored report bounded even when every row of a huge file fails
+const MAX_REPORTED_ISSUES = 5000
+const MIN_CODE_LENGTH = 3
+
+// Header names suppliers commonly use for each field
+const HEADER_SYNONYMS: Record<ImportField, string[]> = {
+  code: ['code', 'game code', 'game_code', 'key', 'serial', 'voucher', 'card number', 'redemption code'],
+  pin: ['pin', 'pin code', 'password', 'security code'],
+  expiresAt: ['expiry', 'expires', 'expiry date', 'expiration', 'expiration date', 'expires_at', 'valid until'],
+  denomination: ['denomination', 'value', 'face value', 'amount'],
+  batchNumber: ['batch', 'batch number', 'batch no', 'batch_number', 'lot', 'lot number'],
+}
+
+export interface ImportedCodeRow {
+  row: number
+  code: string
+  pin: string | null
+  expiresAt: Date | null
+  denomination: string | null
+  batchNumber: string | null
+  fingerprint: string
+}
+
+export interface ImportRowIssue {
+  row: number
+  status: 'error' | 'duplicate'
+  message: string
+}
+
+export interface ImportPreviewRow {
+  row: number
+  code: string
+  pin: string | null
+  expiresAt: string | null
+  denomination: string | null
+  batchNumber: string | null
+  status: 'valid' | 'error' | 'duplicate'
+  message?: string
+}
+
+export interface ImportSummary {
+  totalRows: number
+  validRows: number
+  importedRows: number
+  duplicateRows: number
+  errorRows: number
+}
+
+export interface CodeImportResult {
+  summary: ImportSummary
+  issues: ImportRowIssue[]
+  issuesTruncated: boolean
+  previewRows: ImportPreviewRow[]
+}
+
+export interface CodeImportStore {
+  /** Map of fingerprint to owning product id for fingerprints already in stock */
+  findExistingFingerprints(fingerprints: string[]): Promise<Map<string, string>>
+  /** Insert codes; resolves 'duplicate' if a unique index rejected the batch */
+  insertCodes(rows: ImportedCodeRow[]): Promise<'inserted' | 'duplicate'>
+}
+
+export interface ProcessCodeImportOptions {
+  file: Blob
+  fileType: ImportFileType
+  mapping: ColumnMapping
+  productId: string
+  store: CodeImportStore
+  /** Insert valid rows; false for a preview */
+  commit: boolean
+  /** Number of leading rows returned in `previewRows` */
+  previewLimit?: number
+}
+
+type AdminSupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+/**
+ * Work out the file type from its name
+ * @param fileName - Uploaded file name
+ * @returns 'csv', 'xlsx' or null if unsupported
+ */
+export function detectImportFileType(fileName: string): ImportFileType | null {
+  const extension = fileName.toLowerCase().split('.').pop()
+  if (extension === 'csv' || extension === 'txt') return 'csv'
+  if (extension === 'xlsx') return 'xlsx'
+  return null
+}
+
+/**
+ * Convert an ExcelJS cell value to text
+ * @param value - Raw cell value (string, number, Date, rich text, formula...)
+ * @returns Trimmed string, empty for blank cells
+ */
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('').trim()
+    if ('text' in value) return String(value.text).trim()
+    if ('result' in value) return value.result === undefined ? '' : cellToString(value.result as ExcelJS.CellValue)
+    if ('error' in value) return ''
+  }
+  return String(value).trim()
+}
+
+/**
+ * Stream the rows of an import file, header row first
+ * @param file - Uploaded file
+ * @param fileType - Parsed format
+ * @returns Async iterator of rows as arrays of cell text
+ */
+export async function* readImportRows(file: Blob, fileType: ImportFileType): AsyncGenerator<string[]> {
+  const input = Readable.fromWeb(file.stream() as unknown as NodeReadableStream)
+
+  if (fileType === 'csv') {
+    const parser = input.pipe(parse({
+      bom: true,
+      delimiter: [',', ';', '\t'],
+      relax_column_count: true,
+      skip_empty_lines: true,
+      trim: true,
+    }))
+
+    for await (const record of parser) {
+      yield record as string[]
+    }
+    return
+  }
+
+  // Only the first worksheet is imported; styles are needed to recognise date cells
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(input, {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    styles: 'cache',
+  })
+
+  for await (const worksheet of workbook) {
+    for await (const row of worksheet) {
+      // row.values is 1-based
+      const values = Array.from((row.values as ExcelJS.CellValue[]).slice(1), cellToString)
+      if (values.some(value => value !== '')) {
+        yield values
+      }
+    }
+    break
+  }
+}
+
+/**
+ * Guess which header holds each field
+ * @param headers - Header row of the file
+ * @returns Mapping for every field with a recognisable header
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const normalized = headers.map(header => header.trim().toLowerCase())
+
+  IMPORT_FIELDS.forEach(field => {
+    const index = normalized.findIndex(header => HEADER_SYNONYMS[field].includes(header))
+    if (index >= 0) {
+      mapping[field] = headers[index]
+    }
+  })
+
+  return mapping
+}
+
+/**
+ * Read the header row and a few sample rows
+ * @param file - Uploaded file
+ * @param fileType - Parsed format
+ * @param sampleSize - Number of data rows to return
+ * @returns Headers, sample rows and a suggested mapping
+ */
+export async function inspectImportFile(file: Blob, fileType: ImportFileType, sampleSize: number = 5) {
+  let headers: string[] | null = null
+  const sampleRows: string[][] = []
+
+  for await (const values of readImportRows(file, fileType)) {
+    if (!headers) {
+      headers = values
+      continue
+    }
+    sampleRows.push(values)
+    if (sampleRows.length >= sampleSize) break
+  }
+
+  if (!headers) {
+    throw new Error('The file is empty')
+  }
+
+  return { headers, sampleRows, suggestedMapping: suggestColumnMapping(headers) }
+}
+
+/**
+ * Parse an expiry cell
+ * @param value - Cell text (ISO date/time or YYYY-MM-DD)
+ * @returns Date, or null if the value is not a recognisable date
+ */
+function parseExpiry(value: string): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(value)) {
+    return null
+  }
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Validate and normalise a single data row
+ * @param values - Cell text for the row
+ * @param columns - Column index of each mapped field
+ * @param row - 1-based row number in the file (the header is row 1)
+ * @returns The parsed row, or the reason it was rejected
+ */
+export function validateImportRow(
+  values: string[],
+  columns: Partial<Record<ImportField, number>>,
+  row: number
+): { row: ImportedCodeRow } | { issue: ImportRowIssue } {
+  const read = (field: ImportField) => {
+    const index = columns[field]
+    const value = index === undefined ? '' : (values[index] ?? '').trim()
+    return value === '' ? null : value
+  }
+
+  const code = read('code')
+  if (!code) {
+    return { issue: { row, status: 'error', message: 'Missing code' } }
+  }
+  if (code.length < MIN_CODE_LENGTH) {
+    return { issue: { row, status: 'error', message: `Code too short (minimum ${MIN_CODE_LENGTH} characters)` } }
+  }
+
+  let expiresAt: Date | null = null
+  const expiry = read('expiresAt')
+  if (expiry) {
+    expiresAt = parseExpiry(expiry)
+    if (!expiresAt) {
+      return { issue: { row, status: 'error', message: `Invalid expiry date "${expiry}" (use YYYY-MM-DD)` } }
+    }
+    if (expiresAt.getTime() <= Date.now()) {
+      return { issue: { row, status: 'error', message: `Code already expired on ${expiry}` } }
+    }
+  }
+
+  return {
+    row: {
+      row,
+      code,
+      pin: read('pin'),
+      expiresAt,
+      denomination: read('denomination'),
+      batchNumber: read('batchNumber'),
+      fingerprint: fingerprintGameCode(code),
+    }
+  }
+}
+
+/**
+ * Validate (and optionally import) every row of a file in one streaming pass
+ * @param options - File, mapping, target product, data store and mode
+ * @returns Totals, rejected rows and the first rows for preview
+ * @throws Error if the mapping does not match the file or the file is too large
+ */
+export async function processCodeImport(options: ProcessCodeImportOptions): Promise<CodeImportResult> {
+  const { file, fileType, mapping, productId, store, commit, previewLimit = 50 } = options
+
+  const summary: ImportSummary = { totalRows: 0, validRows: 0, importedRows: 0, duplicateRows: 0, errorRows: 0 }
+  const issues: ImportRowIssue[] = []
+  const previewRows: ImportPreviewRow[] = []
+  const seenFingerprints = new Set<string>()
+  let issuesTruncated = false
+  let columns: Partial<Record<ImportField, number>> | null = null
+  let chunk: ImportedCodeRow[] = []
+
+  const reportIssue = (issue: ImportRowIssue) => {
+    if (issue.status === 'duplicate') summary.duplicateRows++
+    else summary.errorRows++
+
+    if (issues.length < MAX_REPORTED_ISSUES) issues.push(issue)
+    else issuesTruncated = true
+
+    const preview = previewRows.find(p => p.row === issue.row)
+    if (preview) {
+      preview.status = issue.status
+      preview.message = issue.message
+    }
+  }
+
+  // Check a chunk against the inventory, then insert what is left
+  const flushChunk = async () => {
+    if (chunk.length === 0) return
+
+    const existing = await store.findExistingFingerprints(chunk.map(r => r.fingerprint))
+    const fresh = chunk.filter(r => {
+      const ownerProductId = existing.get(r.fingerprint)
+      if (!ownerProductId) return true
+      reportIssue({
+        row: r.row,
+        status: 'duplicate',
+        message: ownerProductId === productId
+          ? 'Code already exists for this product'
+          : 'Code already exists for another product',
+      })
+      return false
+    })
+    summary.validRows += fresh.length
+
+    if (commit && fresh.length > 0) {
+      if (await store.insertCodes(fresh) === 'inserted') {
+        summary.importedRows += fresh.length
+      } else {
+        // Someone added one of these codes since the lookup; isolate it row by row
+        for (const r of fresh) {
+          if (await store.insertCodes([r]) === 'inserted') {
+            summary.importedRows++
+          } else {
+            summary.validRows--
+            reportIssue({ row: r.row, status: 'duplicate', message: 'Code was added by another upload' })
+          }
+        }
+      }
+    }
+
+    chunk = []
+  }
+
+  let rowNumber = 0
+  for await (const values of readImportRows(file, fileType)) {
+    rowNumber++
+
+    if (!columns) {
+      columns = resolveColumns(values, mapping)
+      continue
+    }
+
+    summary.totalRows++
+    if (summary.totalRows > MAX_IMPORT_ROWS) {
+      throw new Error(`Files are limited to ${MAX_IMPORT_ROWS.toLocaleString()} rows`)
+    }
+
+    const result = validateImportRow(values, columns, rowNumber)
+
+    if (previewRows.length < previewLimit) {
+      const row = 'row' in result ? result.row : null
+      previewRows.push({
+        row: rowNumber,
+        code: row?.code ?? (columns.code !== undefined ? values[columns.code] ?? '' : ''),
+        pin: row?.pin ?? null,
+        expiresAt: row?.expiresAt?.toISOString() ?? null,
+        denomination: row?.denomination ?? null,
+        batchNumber: row?.batchNumber ?? null,
+        status: 'valid',
+      })
+    }
+
+    if ('issue' in result) {
+      reportIssue(result.issue)
+      continue
+    }
+
+    if (seenFingerprints.has(result.row.fingerprint)) {
+      reportIssue({ row: rowNumber, status: 'duplicate', message: 'Duplicate of an earlier row in this file' })
+      continue
+    }
+    seenFingerprints.add(result.row.fingerprint)
+
+    chunk.push(result.row)
+    if (chunk.length >= IMPORT_CHUNK_SIZE) {
+      await flushChunk()
+    }
+  }
+
+  if (!columns) {
+    throw new Error('The file is empty')
+  }
+
+  await flushChunk()
+
+  return { summary, issues, issuesTruncated, previewRows }
+}
+
+/**
+ * Resolve the mapped header names to column indexes
+ * @param headers - Header row of the file
+ * @param mapping - Header name per field
+ * @returns Column index per mapped field
+ * @throws Error if `code` is unmapped or a mapped header is missing
+ */
+function resolveColumns(headers: string[], mapping: ColumnMapping): Partial<Record<ImportField, number>> {
+  if (!mapping.code) {
+    throw new Error('A column must be mapped to the code field')
+  }
+
+  const columns: Partial<Record<ImportField, number>> = {}
+  for (const field of IMPORT_FIELDS) {
+    const header = mapping[field]
+    if (!header) continue
+
+    const index = headers.indexOf(header)
+    if (index < 0) {
+      throw new Error(`Column "${header}" was not found in the file`)
+    }
+    columns[field] = index
+  }
+
+  return columns
+}
+
+/**
+ * Build the import store backed by the admin's Supabase session
+ * @param supabase - Server Supabase client for an admin user
+ * @param productId - Product the codes are imported into
+ * @param importId - Import record the codes are linked to (commit only)
+ * @param batchId - Supplier batch the codes were bought in
+ * @returns Store used by processCodeImport
+ */
+export function createSupabaseImportStore(
+  supabase: AdminSupabaseClient,
+  productId: string,
+  importId: string | null = null,
+  batchId: string | null = null
+): CodeImportStore {
+  return {
+    async findExistingFingerprints(fingerprints) {
+      const { data, error } = await supabase
+        .from('game_codes')
+        .select('code_fingerprint, product_id')
+        .in('code_fingerprint', fingerprints)
+
+      if (error) {
+        throw new Error(`Failed to check existing codes: ${error.message}`)
+      }
+
+      return new Map((data || []).map(c => [c.code_fingerprint, c.product_id]))
+    },
+
+    async insertCodes(rows) {
+      const { error } = await supabase
+        .from('game_codes')
+        .insert(rows.map(r => ({
+          product_id: productId,
+          encrypted_code: encryptGameCode(r.code),
+          code_fingerprint: r.fingerprint,
+          encrypted_pin: r.pin ? encryptGameCode(r.pin) : null,
+          expires_at: r.expiresAt?.toISOString() ?? null,
+          denomination: r.denomination,
+          supplier_batch_ref: r.batchNumber,
+          import_id: importId,
+          batch_id: batchId,
+          status: 'available',
+        })))
+
+      if (error?.code === '23505') {
+        return 'duplicate'
+      }
+      if (error) {
+        throw new Error(`Failed to insert codes: ${error.message}`)
+      }
+      return 'inserted'
+    },
+  }
+}
+
+/**
+ * Pull the file, column mapping and batch out of an import request
+ * @param formData - Multipart body with `file` and (optionally) `mapping` as JSON and `batchId`
+ * @returns The parsed request, or an error message for a 400 response
+ */
+export function readImportForm(
+  formData: FormData
+): { file: File; fileType: ImportFileType; mapping: ColumnMapping; batchId: string | null } | { error: string } {
+  const file = formData.get('file')
+  if (!(file instanceof File)) {
+    return { error: 'No file uploaded' }
+  }
+
+  const fileType = detectImportFileType(file.name)
+  if (!fileType) {
+    return { error: 'Unsupported file type. Upload a .csv or .xlsx file' }
+  }
+
+  if (file.size > MAX_IMPORT_FILE_BYTES) {
+    return { error: `File is too large (maximum ${MAX_IMPORT_FILE_BYTES / 1024 / 1024} MB)` }
+  }
+
+  const mapping: ColumnMapping = {}
+  const rawMapping = formData.get('mapping')
+  if (typeof rawMapping === 'string' && rawMapping) {
+    try {
+      const parsed = JSON.parse(rawMapping)
+      IMPORT_FIELDS.forEach(field => {
+        if (typeof parsed[field] === 'string' && parsed[field]) {
+          mapping[field] = parsed[field]
+        }
+      })
+    } catch {
+      return { error: 'Invalid column mapping' }
+    }
+  }
+
+  const batchId = formData.get('batchId')
+
+  return { file, fileType, mapping, batchId: typeof batchId === 'string' && batchId ? batchId : null }
+}
+
+/**
+ * Render an import report as CSV
+ * @param issues - Rejected rows
+ * @returns CSV text with a header row
+ */
+export function formatImportReportCsv(issues: ImportRowIssue[]): string {
+  const escape = (value: string | number) => {
+    const text = String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  return [
+    'row,status,message',
+    ...issues.map(issue => [issue.row, issue.status, issue.message].map(escape).join(',')),
+  ].join('\n')
+}
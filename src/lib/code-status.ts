@@ -0,0 +1,123 @@
+/**
+ * Game Code Status Utility
+ *
+ * Lifecycle of a game code. `game_codes.status` is the source of truth and
+ * `is_sold` is derived from it by a database trigger. Every status change is
+ * recorded in `game_code_status_changes` together with its reason.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+
+export type GameCodeStatus = 'available' | 'reserved' | 'sold' | 'refunded' | 'defective' | 'voided'
+
+export const GAME_CODE_STATUSES: GameCodeStatus[] = [
+  'available',
+  'reserved',
+  'sold',
+  'refunded',
+  'defective',
+  'voided',
+]
+
+// Allowed transitions; defective and voided are final. Credit checkout sells
+// straight from stock, while external payments hold the code as reserved until
+// the payment is confirmed. A refunded code is returned to stock or voided
+// when its order is refunded.
+export const GAME_CODE_TRANSITIONS: Record<GameCodeStatus, GameCodeStatus[]> = {
+  available: ['reserved', 'sold', 'voided'],
+  reserved: ['sold', 'available'],
+  sold: ['refunded', 'defective'],
+  refunded: ['available', 'voided'],
+  defective: [],
+  voided: [],
+}
+
+// Codes in these states were delivered to a customer (`is_sold = true`)
+export const SOLD_GAME_CODE_STATUSES: GameCodeStatus[] = ['sold', 'refunded', 'defective']
+
+// Reserving and selling only happen through checkout, never by hand
+const SYSTEM_ONLY_STATUSES: GameCodeStatus[] = ['reserved', 'sold']
+
+export interface ChangeGameCodeStatusInput {
+  codeId: string
+  from: GameCodeStatus
+  to: GameCodeStatus
+  reason: string
+  /** Admin making the change, omitted for system changes */
+  changedBy?: string
+  orderId?: string
+}
+
+type StatusClient = PrismaClient | Prisma.TransactionClient
+
+/**
+ * Check whether the state machine allows moving from one status to another
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns True if the transition is allowed
+ */
+export function canTransitionGameCode(from: GameCodeStatus, to: GameCodeStatus): boolean {
+  return GAME_CODE_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Statuses an admin may move a code to by hand from its current status
+ * @param from - Current status
+ * @returns Allowed target statuses, excluding those only checkout may set
+ */
+export function getManualGameCodeTransitions(from: GameCodeStatus): GameCodeStatus[] {
+  return GAME_CODE_TRANSITIONS[from].filter(status =>
+    !SYSTEM_ONLY_STATUSES.includes(status) &&
+    // Restocking also unlinks the code from its order item, which only the refund flow does
+    !(from === 'refunded' && status === 'available')
+  )
+}
+
+/**
+ * Move a code to a new status and record the change in its history.
+ * The update is guarded by the expected current status, so a code changed
+ * concurrently (for example sold by a checkout) is left untouched.
+ * Call inside a transaction so the status and history row commit together.
+ * @param client - Prisma client or interactive transaction client
+ * @param input - Code, expected and new status, and the reason
+ * @returns True if the code was changed, false if it was no longer in `from`
+ * @throws Error if the state machine does not allow the transition
+ */
+export async function changeGameCodeStatus(
+  client: StatusClient,
+  input: ChangeGameCodeStatusInput
+): Promise<boolean> {
+  if (!canTransitionGameCode(input.from, input.to)) {
+    throw new Error(`Cannot change game code status from ${input.from} to ${input.to}`)
+  }
+
+  const data: Prisma.GameCodeUncheckedUpdateManyInput = { status: input.to }
+
+  // A released hold or restocked code no longer belongs to the order
+  if (input.to === 'available') {
+    data.order_id = null
+    data.sold_at = null
+  }
+
+  const { count } = await client.gameCode.updateMany({
+    where: { id: input.codeId, status: input.from },
+    data,
+  })
+
+  if (count === 0) {
+    return false
+  }
+
+  await client.gameCodeStatusChange.create({
+    data: {
+      game_code_id: input.codeId,
+      from_status: input.from,
+      to_status: input.to,
+      reason: input.reason,
+      order_id: input.orderId ?? null,
+      changed_by: input.changedBy ?? null,
+    },
+  })
+
+  return true
+}
@@ -0,0 +1,108 @@
+/**
+ * Credit Ledger Utility
+ *
+ * All credit balance changes go through the `credit_transactions` ledger.
+ * `profiles.credit_balance` is a cached running total that is only written by
+ * the `record_credit_transaction` SQL function, which locks the profile row,
+ * appends the entry and updates the cache in one statement.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+
+export type CreditTransactionType = 'top_up' | 'purchase' | 'refund' | 'adjustment'
+
+export interface RecordCreditTransactionInput {
+  userId: string
+  type: CreditTransactionType
+  /** Signed amount: positive adds credit, negative deducts it */
+  amount: number
+  description?: string
+  orderId?: string
+  creditRequestId?: string
+  /** Admin who triggered the change, omitted for system entries */
+  createdBy?: string
+}
+
+export interface CreditTransactionEntry {
+  id: string
+  user_id: string
+  type: CreditTransactionType
+  amount: Prisma.Decimal
+  balance_after: Prisma.Decimal
+  description: string | null
+  order_id: string | null
+  credit_request_id: string | null
+  created_by: string | null
+  created_at: Date
+}
+
+export interface CreditBalanceDiscrepancy {
+  userId: string
+  email: string
+  storedBalance: number
+  ledgerBalance: number
+  difference: number
+}
+
+type LedgerClient = PrismaClient | Prisma.TransactionClient
+
+/**
+ * Append an entry to the credit ledger and update the user's cached balance.
+ * Call this inside the same Prisma transaction as the business change it
+ * records (order creation, credit approval, refund) so both commit together.
+ * @param client - Prisma client or interactive transaction client
+ * @param input - Ledger entry details
+ * @returns The created ledger entry
+ * @throws Error if the profile does not exist or the balance would go negative
+ */
+export async function recordCreditTransaction(
+  client: LedgerClient,
+  input: RecordCreditTransactionInput
+): Promise<CreditTransactionEntry> {
+  if (input.amount === 0) {
+    throw new Error('Credit transaction amount cannot be zero')
+  }
+
+  const rows = await client.$queryRaw<CreditTransactionEntry[]>`
+    SELECT * FROM record_credit_transaction(
+      ${input.userId}::uuid,
+      ${input.type},
+      ${input.amount}::decimal,
+      ${input.description ?? null},
+      ${input.orderId ?? null}::uuid,
+      ${input.creditRequestId ?? null}::uuid,
+      ${input.createdBy ?? null}::uuid
+    )
+  `
+
+  return rows[0]
+}
+
+/**
+ * Find profiles whose stored balance disagrees with the sum of their ledger.
+ * @param client - Prisma client to query with
+ * @returns List of mismatched profiles, empty when everything reconciles
+ */
+export async function findCreditBalanceDiscrepancies(
+  client: LedgerClient
+): Promise<CreditBalanceDiscrepancy[]> {
+  const rows = await client.$queryRaw<Array<{
+    user_id: string
+    email: string
+    stored_balance: Prisma.Decimal
+    ledger_balance: Prisma.Decimal
+    difference: Prisma.Decimal
+  }>>`
+    SELECT user_id, email, stored_balance, ledger_balance, difference
+    FROM credit_balance_discrepancies
+    ORDER BY ABS(difference) DESC
+  `
+
+  return rows.map(row => ({
+    userId: row.user_id,
+    email: row.email,
+    storedBalance: Number(row.stored_balance),
+    ledgerBalance: Number(row.ledger_balance),
+    difference: Number(row.difference),
+  }))
+}
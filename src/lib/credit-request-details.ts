@@ -0,0 +1,29 @@
+/**
+ * Credit Request Details Utility
+ *
+ * Payment methods customers can top up with and the rules for the
+ * transaction reference they enter. References are stored normalized so the
+ * same reference typed with different spacing or case is recognized; a
+ * reference can back only one open or approved request per payment method.
+ * Runs in the browser, so it must not import server-only modules.
+ */
+
+/** Payment methods offered on the credit request form */
+export const CREDIT_PAYMENT_METHODS = ['PayPal', 'Bank Transfer', 'Credit Card'] as const
+
+export type CreditPaymentMethod = typeof CREDIT_PAYMENT_METHODS[number]
+
+export const REFERENCE_NUMBER_MIN_LENGTH = 4
+export const REFERENCE_NUMBER_MAX_LENGTH = 64
+
+/** Characters allowed in a normalized reference number */
+export const REFERENCE_NUMBER_PATTERN = /^[A-Z0-9\-_/.#]+$/
+
+/**
+ * Normalize a transaction reference as entered by the customer
+ * @param referenceNumber - Reference from the payment receipt
+ * @returns Upper-case reference without whitespace
+ */
+export function normalizeReferenceNumber(referenceNumber: string): string {
+  return referenceNumber.replace(/\s+/g, '').toUpperCase()
+}
@@ -0,0 +1,213 @@
+/**
+ * Code Dispute Utility
+ *
+ * Customers dispute a delivered code that does not work. Each dispute is tied
+ * to the original order item. Admins resolve it by issuing a replacement code
+ * from the same product, which is added to the order as a free order item, by
+ * refunding what was paid for the item to store credit, or by rejecting it.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { changeGameCodeStatus } from './code-status'
+import { claimGameCodes } from './inventory'
+import { recordCreditTransaction } from './credit-ledger'
+import { getRefundAmount } from './order-refunds'
+
+export type CodeDisputeStatus = 'open' | 'replaced' | 'refunded' | 'rejected'
+
+export type CodeDisputeResolution = 'replace' | 'refund' | 'reject'
+
+export interface OpenCodeDisputeInput {
+  orderId: string
+  codeId: string
+  userId: string
+  reason: string
+}
+
+export interface ResolveCodeDisputeInput {
+  disputeId: string
+  resolution: CodeDisputeResolution
+  note?: string
+  adminId: string
+}
+
+export interface ResolvedCodeDispute {
+  id: string
+  status: CodeDisputeStatus
+  replacementCodeId: string | null
+  refundAmount: number | null
+}
+
+type DisputeClient = PrismaClient | Prisma.TransactionClient
+
+// Dispute status each resolution leads to
+const RESOLUTION_STATUS: Record<CodeDisputeResolution, CodeDisputeStatus> = {
+  replace: 'replaced',
+  refund: 'refunded',
+  reject: 'rejected',
+}
+
+/**
+ * Open a dispute on a code the user bought.
+ * Only codes in a completed order owned by the user, still in the `sold`
+ * state and without an open or accepted dispute can be disputed.
+ * @param client - Prisma client or interactive transaction client
+ * @param input - Order, code, buyer and the reason they gave
+ * @returns The new dispute, or null if the code is not the user's or not disputable
+ */
+export async function openCodeDispute(
+  client: DisputeClient,
+  input: OpenCodeDisputeInput
+) {
+  const orderItem = await client.orderItem.findFirst({
+    where: {
+      order_id: input.orderId,
+      game_code_id: input.codeId,
+      order: { user_id: input.userId, status: 'completed' },
+      game_code: { status: 'sold' },
+      disputes: { none: { status: { not: 'rejected' } } },
+    },
+    select: { id: true },
+  })
+
+  if (!orderItem) {
+    return null
+  }
+
+  return client.codeDispute.create({
+    data: {
+      order_item_id: orderItem.id,
+      order_id: input.orderId,
+      game_code_id: input.codeId,
+      user_id: input.userId,
+      reason: input.reason,
+    },
+  })
+}
+
+/**
+ * Resolve an open dispute. Must run inside a transaction: the dispute status,
+ * the original code's status, the replacement order item or the credit refund
+ * all commit together.
+ * @param client - Prisma interactive transaction client
+ * @param input - Dispute, resolution, optional note and the resolving admin
+ * @returns The resolved dispute, or null if it was not open any more
+ * @throws Error if no replacement code is in stock or the refund fails
+ */
+export async function resolveCodeDispute(
+  client: Prisma.TransactionClient,
+  input: ResolveCodeDisputeInput
+): Promise<ResolvedCodeDispute | null> {
+  const status = RESOLUTION_STATUS[input.resolution]
+
+  // Claim the dispute first so a concurrent resolution cannot act twice
+  const { count } = await client.codeDispute.updateMany({
+    where: { id: input.disputeId, status: 'open' },
+    data: {
+      status,
+      resolution_note: input.note ?? null,
+      resolved_by: input.adminId,
+      resolved_at: new Date(),
+    },
+  })
+
+  if (count === 0) {
+    return null
+  }
+
+  const dispute = await client.codeDispute.findUniqueOrThrow({
+    where: { id: input.disputeId },
+    include: {
+      order_item: {
+        include: {
+          product: { select: { name: true } },
+          replacement_for: {
+            select: { order_item: { select: { quantity: true, unit_price: true, discount_amount: true, tax_amount: true } } },
+          },
+        },
+      },
+    },
+  })
+
+  const resolved: ResolvedCodeDispute = {
+    id: dispute.id,
+    status,
+    replacementCodeId: null,
+    refundAmount: null,
+  }
+
+  if (input.resolution === 'reject') {
+    return resolved
+  }
+
+  const markedDefective = await changeGameCodeStatus(client, {
+    codeId: dispute.game_code_id,
+    from: 'sold',
+    to: 'defective',
+    reason: `Dispute ${status}: ${dispute.reason}`,
+    changedBy: input.adminId,
+    orderId: dispute.order_id,
+  })
+
+  // An admin may already have marked it defective; a refunded code must not be compensated twice
+  if (!markedDefective) {
+    const gameCode = await client.gameCode.findUnique({
+      where: { id: dispute.game_code_id },
+      select: { status: true },
+    })
+    if (gameCode?.status !== 'defective') {
+      throw new Error(`Disputed code is ${gameCode?.status ?? 'missing'} and cannot be ${status}`)
+    }
+  }
+
+  if (input.resolution === 'replace') {
+    const [replacementCode] = await claimGameCodes(client, {
+      productId: dispute.order_item.product_id,
+      quantity: 1,
+      orderId: dispute.order_id,
+      productName: dispute.order_item.product.name,
+      reason: 'Dispute replacement',
+    })
+
+    // Free item so the order total and revenue are unchanged
+    const replacementItem = await client.orderItem.create({
+      data: {
+        order_id: dispute.order_id,
+        product_id: dispute.order_item.product_id,
+        game_code_id: replacementCode.id,
+        // A replacement for a bundle code stays grouped under its bundle
+        order_bundle_id: dispute.order_item.order_bundle_id,
+        quantity: 1,
+        unit_price: 0,
+      },
+    })
+
+    await client.codeDispute.update({
+      where: { id: dispute.id },
+      data: { replacement_order_item_id: replacementItem.id },
+    })
+
+    resolved.replacementCodeId = replacementCode.id
+    return resolved
+  }
+
+  const refundAmount = getRefundAmount(dispute.order_item)
+  if (refundAmount > 0) {
+    await recordCreditTransaction(client, {
+      userId: dispute.user_id,
+      type: 'refund',
+      amount: refundAmount,
+      orderId: dispute.order_id,
+      description: `Refund for defective ${dispute.order_item.product.name} code`,
+      createdBy: input.adminId,
+    })
+  }
+
+  await client.codeDispute.update({
+    where: { id: dispute.id },
+    data: { refund_amount: refundAmount },
+  })
+
+  resolved.refundAmount = refundAmount
+  return resolved
+}
@@ -1,49 +1,137 @@
-const crypto = require('crypto')
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  hkdfSync,
+  pbkdf2Sync,
+  randomBytes,
+} from 'crypto'
 
-const ALGORITHM = 'aes-256-cbc'
-const IV_LENGTH = 16
-const SALT_LENGTH = 32
+const ALGORITHM = 'aes-256-gcm'
+const ENVELOPE_VERSION = 'v2'
+const IV_LENGTH = 12
+const AUTH_TAG_LENGTH = 16
+const KEY_DERIVATION_SALT = 'amk-store:game-codes'
+const DEFAULT_KEY_ID = 'k1'
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/
+
+const MIN_FINGERPRINT_KEY_LENGTH = 32
+
+// Pre-v2 format: salt:iv:encrypted, AES-256-CBC with a PBKDF2 key per code
+const LEGACY_ALGORITHM = 'aes-256-cbc'
+const LEGACY_PBKDF2_ITERATIONS = 100000
+
+export interface EncryptionKeyring {
+  /** Key id used for new encryptions */
+  activeKeyId: string
+  /** Key secrets by id; every id that appears in stored envelopes must be present */
+  keys: Record<string, string>
+  /** Password for the legacy salt:iv:encrypted format */
+  legacyKey?: string
+}
+
+// Derived AES keys, so HKDF runs once per key rather than once per code
+const derivedKeyCache = new Map<string, Buffer>()
 
 /**
- * Encrypts a game code using AES-256-CBC
- * @param text - The game code to encrypt
- * @param password - The encryption password (from environment variable)
- * @returns Encrypted string in format: salt:iv:encrypted
- * @throws Error if encryption fails
+ * Builds the keyring from environment variables
+ *
+ * - `ENCRYPTION_KEYS`: comma-separated `keyId:secret` pairs
+ * - `ENCRYPTION_KEY_ID`: id of the key used for new encryptions (defaults to the first key)
+ * - `ENCRYPTION_KEY`: single secret, registered as key `k1` and used for legacy codes
+ *
+ * @param env - Environment to read from (defaults to process.env)
+ * @returns Keyring with at least one key
+ * @throws Error if no keys are configured or a key is malformed
  */
-export function encryptGameCode(text: string, password?: string): string {
-  try {
-    const encryptionKey = password || process.env.ENCRYPTION_KEY
-    
-    if (!encryptionKey) {
-      throw new Error('ENCRYPTION_KEY environment variable is required')
+export function loadKeyring(env: Record<string, string | undefined> = process.env): EncryptionKeyring {
+  const keys: Record<string, string> = {}
+
+  for (const entry of (env.ENCRYPTION_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':')
+    const keyId = entry.slice(0, separator)
+    const secret = entry.slice(separator + 1)
+
+    if (separator <= 0 || !KEY_ID_PATTERN.test(keyId)) {
+      throw new Error('ENCRYPTION_KEYS entries must be in the form keyId:secret')
+    }
+    if (!validateEncryptionKey(secret)) {
+      throw new Error(`Encryption key "${keyId}" must be exactly 32 characters long`)
     }
+    keys[keyId] = secret
+  }
 
-    if (encryptionKey.length !== 32) {
+  const legacyKey = env.ENCRYPTION_KEY
+  if (legacyKey) {
+    if (!validateEncryptionKey(legacyKey)) {
       throw new Error('ENCRYPTION_KEY must be exactly 32 characters long')
     }
+    keys[DEFAULT_KEY_ID] ??= legacyKey
+  }
+
+  const keyIds = Object.keys(keys)
+  if (keyIds.length === 0) {
+    throw new Error('ENCRYPTION_KEY or ENCRYPTION_KEYS environment variable is required')
+  }
+
+  const activeKeyId = env.ENCRYPTION_KEY_ID || keyIds[0]
+  if (!keys[activeKeyId]) {
+    throw new Error(`ENCRYPTION_KEY_ID "${activeKeyId}" is not in the keyring`)
+  }
+
+  return { activeKeyId, keys, legacyKey }
+}
+
+/**
+ * Derives the 256-bit AES key for a keyring entry
+ * @param keyring - Keyring holding the secret
+ * @param keyId - Key id to derive
+ * @returns 32-byte key
+ * @throws Error if the key id is not in the keyring
+ */
+function getDerivedKey(keyring: EncryptionKeyring, keyId: string): Buffer {
+  const secret = keyring.keys[keyId]
+  if (!secret) {
+    throw new Error(`Unknown encryption key id "${keyId}"`)
+  }
+
+  const cacheKey = `${keyId}:${secret}`
+  let key = derivedKeyCache.get(cacheKey)
+  if (!key) {
+    key = Buffer.from(hkdfSync('sha256', secret, KEY_DERIVATION_SALT, keyId, 32))
+    derivedKeyCache.set(cacheKey, key)
+  }
+  return key
+}
+
+/**
+ * Encrypts a game code using AES-256-GCM with the keyring's active key
+ * @param text - The game code to encrypt
+ * @param keyring - Keyring to use (defaults to the one built from the environment)
+ * @returns Encrypted string in format: v2:keyId:iv:ciphertext:tag
+ * @throws Error if encryption fails
+ */
+export function encryptGameCode(text: string, keyring?: EncryptionKeyring): string {
+  try {
+    const ring = keyring || loadKeyring()
+    const keyId = ring.activeKeyId
+    const key = getDerivedKey(ring, keyId)
+    const iv = randomBytes(IV_LENGTH)
+
+    const cipher = createCipheriv(ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH })
+    // Bind the header so the key id cannot be swapped without failing authentication
+    cipher.setAAD(Buffer.from(`${ENVELOPE_VERSION}:${keyId}`))
+
+    const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()])
 
-    // Generate random salt and IV
-    const salt = crypto.randomBytes(SALT_LENGTH)
-    const iv = crypto.randomBytes(IV_LENGTH)
-    
-    // Create key from password and salt
-    const key = crypto.pbkdf2Sync(encryptionKey, salt, 100000, 32, 'sha256')
-    
-    // Create cipher with key and IV
-    const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
-    
-    // Encrypt
-    let encrypted = cipher.update(text, 'utf8', 'hex')
-    encrypted += cipher.final('hex')
-    
-    // Combine salt:iv:encrypted
     return [
-      salt.toString('hex'),
+      ENVELOPE_VERSION,
+      keyId,
       iv.toString('hex'),
-      encrypted
+      encrypted.toString('hex'),
+      cipher.getAuthTag().toString('hex')
     ].join(':')
-    
+
   } catch (error) {
     console.error('Encryption error:', error)
     throw new Error('Failed to encrypt game code')
@@ -51,60 +139,138 @@ export function encryptGameCode(text: string, password?: string): string {
 }
 
 /**
- * Decrypts a game code using AES-256-CBC
- * @param encryptedText - The encrypted string in format: salt:iv:encrypted
- * @param password - The encryption password (from environment variable)
+ * Decrypts a game code in either the v2 envelope or the legacy CBC format
+ * @param encryptedText - v2:keyId:iv:ciphertext:tag or legacy salt:iv:encrypted
+ * @param keyring - Keyring to use (defaults to the one built from the environment)
  * @returns Decrypted game code
- * @throws Error if decryption fails
+ * @throws Error if decryption or authentication fails
  */
-export function decryptGameCode(encryptedText: string, password?: string): string {
+export function decryptGameCode(encryptedText: string, keyring?: EncryptionKeyring): string {
   try {
-    const encryptionKey = password || process.env.ENCRYPTION_KEY
-    
-    if (!encryptionKey) {
-      throw new Error('ENCRYPTION_KEY environment variable is required')
-    }
+    const ring = keyring || loadKeyring()
+    const parts = encryptedText.split(':')
 
-    if (encryptionKey.length !== 32) {
-      throw new Error('ENCRYPTION_KEY must be exactly 32 characters long')
+    if (parts.length === 5 && parts[0] === ENVELOPE_VERSION) {
+      const [, keyId, ivHex, encrypted, tagHex] = parts
+      const key = getDerivedKey(ring, keyId)
+
+      const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(ivHex, 'hex'), {
+        authTagLength: AUTH_TAG_LENGTH
+      })
+      decipher.setAAD(Buffer.from(`${ENVELOPE_VERSION}:${keyId}`))
+      decipher.setAuthTag(Buffer.from(tagHex, 'hex'))
+
+      return Buffer.concat([
+        decipher.update(Buffer.from(encrypted, 'hex')),
+        decipher.final()
+      ]).toString('utf8')
     }
 
-    // Split the encrypted string
-    const parts = encryptedText.split(':')
-    if (parts.length !== 3) {
-      throw new Error('Invalid encrypted game code format')
+    if (parts.length === 3) {
+      return decryptLegacyGameCode(parts, ring)
     }
 
-    const [saltHex, ivHex, encrypted] = parts
-    
-    // Convert hex strings back to buffers
-    const salt = Buffer.from(saltHex, 'hex')
-    const iv = Buffer.from(ivHex, 'hex')
-    
-    // Recreate key from password and salt
-    const key = crypto.pbkdf2Sync(encryptionKey, salt, 100000, 32, 'sha256')
-    
-    // Create decipher with key and IV
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv)
-    
-    // Decrypt
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8')
-    decrypted += decipher.final('utf8')
-    
-    return decrypted
-    
+    throw new Error('Invalid encrypted game code format')
+
   } catch (error) {
     console.error('Decryption error:', error)
     throw new Error('Failed to decrypt game code')
   }
 }
 
+/**
+ * Decrypts the pre-v2 salt:iv:encrypted format (AES-256-CBC, PBKDF2 per code)
+ * @param parts - The three hex segments
+ * @param keyring - Keyring holding the legacy password
+ * @returns Decrypted game code
+ * @throws Error if no legacy key is configured or decryption fails
+ */
+function decryptLegacyGameCode(parts: string[], keyring: EncryptionKeyring): string {
+  if (!keyring.legacyKey) {
+    throw new Error('ENCRYPTION_KEY is required to decrypt legacy game codes')
+  }
+
+  const [saltHex, ivHex, encrypted] = parts
+  const salt = Buffer.from(saltHex, 'hex')
+  const iv = Buffer.from(ivHex, 'hex')
+
+  const key = pbkdf2Sync(keyring.legacyKey, salt, LEGACY_PBKDF2_ITERATIONS, 32, 'sha256')
+  const decipher = createDecipheriv(LEGACY_ALGORITHM, key, iv)
+
+  let decrypted = decipher.update(encrypted, 'hex', 'utf8')
+  decrypted += decipher.final('utf8')
+
+  return decrypted
+}
+
+/**
+ * Reports which key an encrypted game code was written with
+ * @param encryptedText - Stored encrypted code
+ * @returns The v2 key id, or 'legacy' for the salt:iv:encrypted format
+ */
+export function getEncryptionKeyId(encryptedText: string): string {
+  const parts = encryptedText.split(':')
+  return parts.length === 5 && parts[0] === ENVELOPE_VERSION ? parts[1] : 'legacy'
+}
+
+/**
+ * Normalizes a game code before fingerprinting, so copies that differ only in
+ * surrounding whitespace or letter case are treated as the same code
+ * @param code - Plaintext game code
+ * @returns Normalized code
+ */
+export function normalizeGameCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+/**
+ * Reads the HMAC key for code fingerprints
+ *
+ * `CODE_FINGERPRINT_KEY` is deliberately separate from the encryption keyring:
+ * encryption keys are rotated and retired, but every stored fingerprint is
+ * tied to this key, so it must stay the same for the life of the inventory.
+ * Checked when the server starts so a missing key never surfaces mid-import.
+ *
+ * @param env - Environment to read the key from (defaults to process.env)
+ * @returns Key bytes
+ * @throws Error if the key is missing or shorter than 32 characters
+ */
+export function loadFingerprintKey(env: Record<string, string | undefined> = process.env): Buffer {
+  const secret = env.CODE_FINGERPRINT_KEY
+  if (!secret) {
+    throw new Error('CODE_FINGERPRINT_KEY environment variable is required')
+  }
+  if (secret.length < MIN_FINGERPRINT_KEY_LENGTH) {
+    throw new Error(`CODE_FINGERPRINT_KEY must be at least ${MIN_FINGERPRINT_KEY_LENGTH} characters long`)
+  }
+  return Buffer.from(secret)
+}
+
+/**
+ * Computes the deterministic fingerprint used to detect duplicate codes
+ *
+ * HMAC-SHA256 of the normalized code, keyed with `CODE_FINGERPRINT_KEY`.
+ * Rotating encryption keys never changes fingerprints; changing the
+ * fingerprint key itself requires clearing and re-backfilling them.
+ *
+ * @param code - Plaintext game code
+ * @param env - Environment to read the key from (defaults to process.env)
+ * @returns Hex-encoded fingerprint
+ * @throws Error if the fingerprint key is missing or too short
+ */
+export function fingerprintGameCode(
+  code: string,
+  env: Record<string, string | undefined> = process.env
+): string {
+  return createHmac('sha256', loadFingerprintKey(env)).update(normalizeGameCode(code)).digest('hex')
+}
+
 /**
  * Generates a random encryption key for game codes
  * @returns 32-character random string suitable for ENCRYPTION_KEY
  */
 export function generateEncryptionKey(): string {
-  return crypto.randomBytes(16).toString('hex')
+  return randomBytes(16).toString('hex')
 }
 
 /**
@@ -114,4 +280,4 @@ export function generateEncryptionKey(): string {
  */
 export function validateEncryptionKey(key: string): boolean {
   return typeof key === 'string' && key.length === 32
-} 
\ No newline at end of file
+}
@@ -0,0 +1,192 @@
+/**
+ * Idempotency Key Utility
+ *
+ * Lets clients safely retry non-idempotent requests (order creation) by sending
+ * an `Idempotency-Key` header. The first request with a key reserves it; the
+ * response it produces is stored in the same transaction as its side effects,
+ * and later requests with the same key replay that response instead of running
+ * again.
+ */
+
+import { createHash } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key'
+
+/** How long a key (and its stored response) is kept */
+export const IDEMPOTENCY_KEY_RETENTION_MS = 24 * 60 * 60 * 1000
+
+/** A reservation with no stored response older than this is treated as abandoned */
+const STALE_RESERVATION_MS = 60 * 1000
+
+const MAX_KEY_LENGTH = 255
+
+export interface BeginIdempotentRequestInput {
+  userId: string
+  key: string
+  scope: string
+  requestHash: string
+}
+
+export type IdempotencyOutcome =
+  | { status: 'started'; recordId: string }
+  | { status: 'replay'; responseStatus: number; responseBody: Prisma.JsonValue }
+  | { status: 'conflict'; httpStatus: 409 | 422; error: string }
+
+export interface CompleteIdempotentRequestInput {
+  orderId?: string | null
+  responseStatus: number
+  responseBody: unknown
+}
+
+/**
+ * Check that a client-supplied key is usable
+ * @param key - Raw header value
+ * @returns True if the key is non-empty and within the length limit
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  const trimmed = key.trim()
+  return trimmed.length > 0 && trimmed.length <= MAX_KEY_LENGTH
+}
+
+/**
+ * Serialize a value to JSON with object keys sorted, so equal payloads
+ * always produce the same string
+ * @param value - Any JSON-serializable value
+ * @returns Canonical JSON string
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+
+  return JSON.stringify(value)
+}
+
+/**
+ * Hash a request or response payload
+ * @param payload - JSON-serializable payload
+ * @returns Hex-encoded SHA-256 of the canonical JSON
+ */
+export function hashRequestPayload(payload: unknown): string {
+  return createHash('sha256').update(stableStringify(payload)).digest('hex')
+}
+
+/**
+ * Reserve an idempotency key, or report what to do with a repeated one
+ * @param input - Owner, key, scope and fingerprint of the request body
+ * @returns `started` with the reservation id, `replay` with the stored
+ *   response, or `conflict` when the key is in flight or reused with a
+ *   different body
+ */
+export async function beginIdempotentRequest(
+  input: BeginIdempotentRequestInput
+): Promise<IdempotencyOutcome> {
+  const key = input.key.trim()
+  const where = {
+    user_id_scope_key: { user_id: input.userId, scope: input.scope, key }
+  }
+
+  // Expired keys are free to be reused
+  await prisma.idempotencyKey.deleteMany({
+    where: { user_id: input.userId, scope: input.scope, key, expires_at: { lt: new Date() } }
+  })
+
+  try {
+    const record = await prisma.idempotencyKey.create({
+      data: {
+        user_id: input.userId,
+        scope: input.scope,
+        key,
+        request_hash: input.requestHash,
+        expires_at: new Date(Date.now() + IDEMPOTENCY_KEY_RETENTION_MS)
+      }
+    })
+    return { status: 'started', recordId: record.id }
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+      throw error
+    }
+  }
+
+  const existing = await prisma.idempotencyKey.findUnique({ where })
+  if (!existing) {
+    // Removed between our insert and lookup; let the client retry
+    return { status: 'conflict', httpStatus: 409, error: 'A request with this idempotency key is already in progress' }
+  }
+
+  if (existing.request_hash !== input.requestHash) {
+    return {
+      status: 'conflict',
+      httpStatus: 422,
+      error: 'Idempotency key was already used with a different request body'
+    }
+  }
+
+  if (existing.response_status !== null) {
+    return {
+      status: 'replay',
+      responseStatus: existing.response_status,
+      responseBody: existing.response_body
+    }
+  }
+
+  // The original request never finished (e.g. the process died); take it over
+  const staleBefore = new Date(Date.now() - STALE_RESERVATION_MS)
+  if (existing.created_at < staleBefore) {
+    const takenOver = await prisma.idempotencyKey.updateMany({
+      where: { id: existing.id, response_status: null, created_at: { lt: staleBefore } },
+      data: { created_at: new Date() }
+    })
+    if (takenOver.count === 1) {
+      return { status: 'started', recordId: existing.id }
+    }
+  }
+
+  return { status: 'conflict', httpStatus: 409, error: 'A request with this idempotency key is already in progress' }
+}
+
+/**
+ * Store the response for a reserved key. Call inside the same transaction as
+ * the request's side effects so the two commit or roll back together.
+ * @param tx - Prisma interactive transaction client
+ * @param recordId - Id returned by beginIdempotentRequest
+ * @param input - Resulting order id and the response to replay
+ */
+export async function completeIdempotentRequest(
+  tx: Prisma.TransactionClient,
+  recordId: string,
+  input: CompleteIdempotentRequestInput
+): Promise<void> {
+  // Round-trip through JSON so the stored body matches what the client received
+  const responseBody = JSON.parse(JSON.stringify(input.responseBody)) as Prisma.InputJsonValue
+
+  await tx.idempotencyKey.update({
+    where: { id: recordId },
+    data: {
+      order_id: input.orderId ?? null,
+      response_status: input.responseStatus,
+      response_body: responseBody,
+      response_hash: hashRequestPayload(responseBody)
+    }
+  })
+}
+
+/**
+ * Drop a reservation whose request failed, so the client can retry with the
+ * same key. Completed keys are left untouched.
+ * @param recordId - Id returned by beginIdempotentRequest
+ */
+export async function releaseIdempotentRequest(recordId: string): Promise<void> {
+  await prisma.idempotencyKey.deleteMany({
+    where: { id: recordId, response_status: null }
+  })
+}
@@ -0,0 +1,218 @@
+/**
+ * Game Code Inventory Utility
+ *
+ * Allocation of game codes to orders. Codes are claimed with a single
+ * `UPDATE ... WHERE id IN (SELECT ... FOR UPDATE SKIP LOCKED)` statement so two
+ * checkouts running at the same time can never be handed the same code.
+ * Expired codes are never sold, and codes closest to expiry go first. Each
+ * claimed code gets an `available -> sold` entry in its status history, or
+ * `available -> reserved` when it is held for an order awaiting payment.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+
+export interface ClaimedGameCode {
+  id: string
+  encrypted_code: string
+}
+
+export interface ClaimGameCodesInput {
+  productId: string
+  quantity: number
+  orderId: string
+  /** Used in the error message when stock runs out */
+  productName?: string
+  /** Recorded in each code's status history, defaults to "Checkout" */
+  reason?: string
+  /** Hold the codes for an order awaiting payment instead of selling them */
+  reserve?: boolean
+}
+
+type InventoryClient = PrismaClient | Prisma.TransactionClient
+
+/**
+ * Filter for codes that can still be sold: available and not expired
+ * @param now - Reference time, defaults to the current time
+ * @returns Prisma where clause for game codes
+ */
+export function availableGameCodeWhere(now: Date = new Date()): Prisma.GameCodeWhereInput {
+  return {
+    status: 'available',
+    OR: [{ expires_at: null }, { expires_at: { gt: now } }],
+  }
+}
+
+/**
+ * Claim available, unexpired game codes for an order, soonest-expiring first
+ * and then oldest first; codes without an expiry date go after dated ones.
+ * Rows locked by another in-flight checkout are skipped rather than waited on,
+ * and the outer `status = 'available'` guard re-checks each row after locking.
+ * Must be called inside the order's transaction so a failure releases the codes.
+ * @param client - Prisma interactive transaction client
+ * @param input - Product, quantity and the order the codes are sold or reserved for
+ * @returns The claimed code rows (exactly `quantity` of them)
+ * @throws Error if fewer than `quantity` codes could be claimed
+ */
+export async function claimGameCodes(
+  client: InventoryClient,
+  input: ClaimGameCodesInput
+): Promise<ClaimedGameCode[]> {
+  const status = input.reserve ? 'reserved' : 'sold'
+
+  const claimed = await client.$queryRaw<ClaimedGameCode[]>`
+    WITH claimed AS (
+      UPDATE game_codes
+      SET status = ${status},
+          sold_at = CASE WHEN ${status}::text = 'sold' THEN NOW() END,
+          order_id = ${input.orderId}::uuid
+      WHERE id IN (
+        SELECT id
+        FROM game_codes
+        WHERE product_id = ${input.productId}::uuid
+          AND status = 'available'
+          AND (expires_at IS NULL OR expires_at > NOW())
+        ORDER BY expires_at ASC NULLS LAST, created_at ASC
+        LIMIT ${input.quantity}
+        FOR UPDATE SKIP LOCKED
+      )
+      AND status = 'available'
+      AND (expires_at IS NULL OR expires_at > NOW())
+      RETURNING id, encrypted_code
+    ), history AS (
+      INSERT INTO game_code_status_changes (game_code_id, from_status, to_status, reason, order_id)
+      SELECT id, 'available', ${status}, ${input.reason ?? 'Checkout'}, ${input.orderId}::uuid FROM claimed
+    )
+    SELECT id, encrypted_code FROM claimed
+  `
+
+  if (claimed.length < input.quantity) {
+    throw new Error(
+      `Insufficient stock for ${input.productName ?? `product ${input.productId}`}. ` +
+      `Available: ${claimed.length}, Requested: ${input.quantity}`
+    )
+  }
+
+  return claimed
+}
+
+/**
+ * Sell the codes reserved for an order once its payment has arrived
+ * @param client - Prisma interactive transaction client
+ * @param orderId - Order whose reservation is paid
+ * @param reason - Recorded in each code's status history
+ * @returns Number of codes sold
+ */
+export async function sellReservedGameCodes(
+  client: InventoryClient,
+  orderId: string,
+  reason: string
+): Promise<number> {
+  const sold = await client.$queryRaw<Array<{ id: string }>>`
+    WITH sold AS (
+      UPDATE game_codes
+      SET status = 'sold', sold_at = NOW()
+      WHERE order_id = ${orderId}::uuid AND status = 'reserved'
+      RETURNING id
+    ), history AS (
+      INSERT INTO game_code_status_changes (game_code_id, from_status, to_status, reason, order_id)
+      SELECT id, 'reserved', 'sold', ${reason}, ${orderId}::uuid FROM sold
+    )
+    SELECT id FROM sold
+  `
+
+  return sold.length
+}
+
+/**
+ * Return the codes reserved for an order to stock. The order's items let go
+ * of the codes so they can be sold to someone else.
+ * @param client - Prisma interactive transaction client
+ * @param orderId - Order whose reservation is released
+ * @param reason - Recorded in each code's status history
+ * @returns Number of codes released
+ */
+export async function releaseReservedGameCodes(
+  client: InventoryClient,
+  orderId: string,
+  reason: string
+): Promise<number> {
+  const released = await client.$queryRaw<Array<{ id: string }>>`
+    WITH released AS (
+      UPDATE game_codes
+      SET status = 'available', order_id = NULL
+      WHERE order_id = ${orderId}::uuid AND status = 'reserved'
+      RETURNING id
+    ), unlinked AS (
+      UPDATE order_items
+      SET game_code_id = NULL
+      WHERE order_id = ${orderId}::uuid AND game_code_id IN (SELECT id FROM released)
+    ), history AS (
+      INSERT INTO game_code_status_changes (game_code_id, from_status, to_status, reason, order_id)
+      SELECT id, 'reserved', 'available', ${reason}, ${orderId}::uuid FROM released
+    )
+    SELECT id FROM released
+  `
+
+  return released.length
+}
+
+export interface ExpiringCodesReportRow {
+  productId: string
+  productName: string
+  platform: string
+  /** Available codes expiring within the window */
+  expiringCodes: number
+  /** Available codes already past their expiry date */
+  expiredCodes: number
+  nextExpiry: string | null
+}
+
+/**
+ * Available codes per product that expire within `days`, plus those already expired
+ * @param client - Prisma client
+ * @param days - Size of the look-ahead window in days
+ * @param now - Reference time, defaults to the current time
+ * @returns One row per product with expiring or expired stock, soonest expiry first
+ */
+export async function getExpiringCodesReport(
+  client: InventoryClient,
+  days: number,
+  now: Date = new Date()
+): Promise<ExpiringCodesReportRow[]> {
+  const windowEnd = new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+
+  const [expiring, expired] = await Promise.all([
+    client.gameCode.groupBy({
+      by: ['product_id'],
+      where: { status: 'available', expires_at: { gt: now, lte: windowEnd } },
+      _count: { id: true },
+      _min: { expires_at: true },
+    }),
+    client.gameCode.groupBy({
+      by: ['product_id'],
+      where: { status: 'available', expires_at: { lte: now } },
+      _count: { id: true },
+    }),
+  ])
+
+  const productIds = Array.from(new Set([...expiring, ...expired].map(row => row.product_id)))
+  const products = await client.product.findMany({
+    where: { id: { in: productIds } },
+    select: { id: true, name: true, platform: true },
+  })
+
+  return products
+    .map(product => {
+      const expiringRow = expiring.find(row => row.product_id === product.id)
+      const expiredRow = expired.find(row => row.product_id === product.id)
+      return {
+        productId: product.id,
+        productName: product.name,
+        platform: product.platform,
+        expiringCodes: expiringRow?._count.id ?? 0,
+        expiredCodes: expiredRow?._count.id ?? 0,
+        nextExpiry: expiringRow?._min.expires_at?.toISOString() ?? null,
+      }
+    })
+    .sort((a, b) => (a.nextExpiry ?? '9999').localeCompare(b.nextExpiry ?? '9999'))
+}
@@ -0,0 +1,150 @@
+/**
+ * Local Filesystem Proof Storage
+ *
+ * Keeps payment proofs on the server's disk under `PROOF_STORAGE_DIR`
+ * (default `storage/payment-proofs`). Signed URLs point at
+ * `GET /api/payment-proofs/<path>` and carry an expiry and an HMAC-SHA256
+ * signature keyed with `PROOF_STORAGE_SECRET`, which this driver requires.
+ * Suited to development and single-server deployments.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { mkdir, readFile, rm, writeFile } from 'fs/promises'
+import path from 'path'
+import type { ProofStorage } from './proof-storage'
+
+/** Minimum length of `PROOF_STORAGE_SECRET` */
+const MIN_SIGNING_KEY_LENGTH = 32
+
+/** Served type of each stored extension */
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.pdf': 'application/pdf',
+}
+
+export interface VerifyProofUrlInput {
+  path: string
+  expires: string | null
+  signature: string | null
+  /** Reference time, defaults to the current time */
+  now?: Date
+  env?: Record<string, string | undefined>
+}
+
+/**
+ * Reads the key that signs proof URLs
+ *
+ * Kept apart from the encryption keyring so rotating encryption keys never
+ * invalidates proof links, and a leaked link key never touches game codes.
+ * Checked when the server starts if the local driver is in use.
+ *
+ * @param env - Environment to read the key from (defaults to process.env)
+ * @returns Key bytes
+ * @throws Error if the key is missing or shorter than 32 characters
+ */
+export function loadProofSigningKey(env: Record<string, string | undefined> = process.env): Buffer {
+  const secret = env.PROOF_STORAGE_SECRET
+  if (!secret) {
+    throw new Error('PROOF_STORAGE_SECRET environment variable is required for local proof storage')
+  }
+  if (secret.length < MIN_SIGNING_KEY_LENGTH) {
+    throw new Error(`PROOF_STORAGE_SECRET must be at least ${MIN_SIGNING_KEY_LENGTH} characters long`)
+  }
+  return Buffer.from(secret)
+}
+
+/**
+ * Sign a proof path for the given expiry
+ * @param proofPath - Object path
+ * @param expires - Expiry as Unix seconds
+ * @param env - Environment to read the key from
+ * @returns Hex-encoded signature
+ */
+export function signProofPath(
+  proofPath: string,
+  expires: number,
+  env: Record<string, string | undefined> = process.env
+): string {
+  return createHmac('sha256', loadProofSigningKey(env)).update(`${proofPath}:${expires}`).digest('hex')
+}
+
+/**
+ * Check a signed proof URL's signature and expiry
+ * @returns True if the signature matches and the URL has not expired
+ */
+export function verifyProofUrl(input: VerifyProofUrlInput): boolean {
+  const { expires, signature } = input
+  if (!expires || !signature || !/^\d+$/.test(expires)) {
+    return false
+  }
+
+  const now = Math.floor((input.now ?? new Date()).getTime() / 1000)
+  if (Number(expires) < now) {
+    return false
+  }
+
+  const expected = Buffer.from(signProofPath(input.path, Number(expires), input.env))
+  const received = Buffer.from(signature)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+/**
+ * Create the local filesystem proof storage
+ * @param env - Environment to read the settings from
+ * @throws Error if `PROOF_STORAGE_SECRET` is missing or too short
+ */
+export function createLocalProofStorage(env: Record<string, string | undefined>): ProofStorage {
+  // Fail on creation rather than on the first signed URL
+  loadProofSigningKey(env)
+
+  const root = path.resolve(env.PROOF_STORAGE_DIR || path.join(process.cwd(), 'storage', 'payment-proofs'))
+
+  /**
+   * Absolute file of an object path, which must stay inside the storage directory
+   * @throws Error for paths that escape it
+   */
+  const resolveFile = (proofPath: string): string => {
+    const file = path.resolve(root, proofPath)
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid payment proof path: ${proofPath}`)
+    }
+    return file
+  }
+
+  return {
+    driver: 'local',
+
+    async put(proofPath, data) {
+      const file = resolveFile(proofPath)
+      await mkdir(path.dirname(file), { recursive: true })
+      // 'wx' fails instead of overwriting an existing proof
+      await writeFile(file, data, { flag: 'wx' })
+    },
+
+    async get(proofPath) {
+      const file = resolveFile(proofPath)
+      try {
+        const data = await readFile(file)
+        return { data, contentType: CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' }
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null
+        }
+        throw error
+      }
+    },
+
+    async remove(proofPath) {
+      await rm(resolveFile(proofPath), { force: true })
+    },
+
+    async createSignedUrl(proofPath, expiresInSeconds) {
+      resolveFile(proofPath)
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds
+      const signature = signProofPath(proofPath, expires, env)
+      return `/api/payment-proofs/${proofPath}?expires=${expires}&signature=${signature}`
+    },
+  }
+}
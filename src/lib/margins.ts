@@ -0,0 +1,107 @@
+/**
+ * Margin Utility
+ *
+ * Revenue minus the supplier cost of sold codes. A code's cost comes from the
+ * batch it was bought in; codes without a batch, or from a batch invoiced in
+ * another currency, are reported as uncosted and left out of the margin.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+
+// Currency product prices are charged in; must match the product_margins view
+export const STORE_CURRENCY = 'USD'
+
+export interface MarginSummary {
+  revenue: number
+  cost: number
+  margin: number
+  marginPercent: number | null
+  uncostedCodes: number
+}
+
+export interface MarginLine {
+  unitPrice: number
+  quantity: number
+  batch: { unit_cost: Prisma.Decimal | number; currency: string } | null
+}
+
+type MarginClient = PrismaClient | Prisma.TransactionClient
+
+/**
+ * Round a currency amount to cents
+ */
+const roundCents = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Build a margin summary from totals
+ * @param revenue - Revenue from every sold code
+ * @param costedRevenue - Revenue from codes with a known cost
+ * @param cost - Total cost of those codes
+ * @param uncostedCodes - Number of sold codes without a usable cost
+ * @returns Margin on costed codes and its percentage of their revenue
+ */
+export function calculateMargin(
+  revenue: number,
+  costedRevenue: number,
+  cost: number,
+  uncostedCodes: number
+): MarginSummary {
+  const margin = roundCents(costedRevenue - cost)
+
+  return {
+    revenue: roundCents(revenue),
+    cost: roundCents(cost),
+    margin,
+    marginPercent: costedRevenue > 0 ? Math.round((margin / costedRevenue) * 1000) / 10 : null,
+    uncostedCodes,
+  }
+}
+
+/**
+ * Margin for a set of sold lines, e.g. the items of one order
+ * @param lines - Price, quantity and the batch of the delivered code
+ * @returns Margin summary
+ */
+export function summarizeMargin(lines: MarginLine[]): MarginSummary {
+  let revenue = 0
+  let costedRevenue = 0
+  let cost = 0
+  let uncostedCodes = 0
+
+  lines.forEach(line => {
+    const lineRevenue = line.unitPrice * line.quantity
+    revenue += lineRevenue
+
+    if (line.batch && line.batch.currency === STORE_CURRENCY) {
+      costedRevenue += lineRevenue
+      cost += Number(line.batch.unit_cost) * line.quantity
+    } else {
+      uncostedCodes += line.quantity
+    }
+  })
+
+  return calculateMargin(revenue, costedRevenue, cost, uncostedCodes)
+}
+
+/**
+ * Margin per product over all completed orders
+ * @param client - Prisma client
+ * @returns Map of product id to margin summary
+ */
+export async function getProductMargins(client: MarginClient): Promise<Map<string, MarginSummary>> {
+  const rows = await client.$queryRaw<Array<{
+    product_id: string
+    revenue: Prisma.Decimal
+    costed_revenue: Prisma.Decimal
+    cost: Prisma.Decimal
+    uncosted_codes: bigint
+  }>>`
+    SELECT product_id, revenue, costed_revenue, cost, uncosted_codes
+    FROM product_margins
+  `
+
+  return new Map(rows.map(row => [
+    row.product_id,
+    calculateMargin(Number(row.revenue), Number(row.costed_revenue), Number(row.cost), Number(row.uncosted_codes)),
+  ]))
+}
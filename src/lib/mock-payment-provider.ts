@@ -0,0 +1,176 @@
+/**
+ * Mock Payment Provider
+ *
+ * A stand-in gateway for development and testing, so online payments can be
+ * exercised end to end without a real provider or network access. Payments
+ * are kept in memory; the buyer "pays" on the store's own mock checkout page,
+ * which settles the payment and sends a signed webhook back to the store the
+ * way a real provider would. It is never available in production, and
+ * elsewhere only once `MOCK_PAYMENT_WEBHOOK_SECRET` is set, so a preview
+ * deployment does not accept webhooks signed with a well-known secret.
+ */
+
+import { randomUUID } from 'crypto'
+import { z } from 'zod'
+import { PAYMENT_SIGNATURE_HEADER, PAYMENT_TIMESTAMP_HEADER, signWebhookPayload, verifyWebhookSignature } from './payment-webhooks'
+import { toCents } from './pricing'
+import type {
+  CreatePaymentIntentInput,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  ProviderPaymentIntent,
+} from './payment-providers'
+
+export type MockPaymentOutcome = 'succeeded' | 'failed'
+
+interface MockPayment {
+  intent: ProviderPaymentIntent
+  refundedAmount: number
+}
+
+// Validation schema for the mock provider's webhook events
+const mockWebhookEventSchema = z.object({
+  type: z.string(),
+  data: z.object({
+    id: z.string().min(1),
+    amount: z.number().nonnegative(),
+    failureReason: z.string().nullable().optional(),
+  }),
+})
+
+// Survives hot reloads in development, like the Prisma client
+const globalForMock = globalThis as unknown as { mockPayments?: Map<string, MockPayment> }
+const mockPayments = globalForMock.mockPayments ?? new Map<string, MockPayment>()
+globalForMock.mockPayments = mockPayments
+
+/**
+ * Webhook secret the mock provider signs with
+ * @throws Error if MOCK_PAYMENT_WEBHOOK_SECRET is not set
+ */
+function getMockWebhookSecret(): string {
+  const secret = process.env.MOCK_PAYMENT_WEBHOOK_SECRET
+  if (!secret) {
+    throw new Error('MOCK_PAYMENT_WEBHOOK_SECRET environment variable is required for the mock payment provider')
+  }
+  return secret
+}
+
+/**
+ * Look up a mock payment
+ * @throws Error if the mock provider never created it, e.g. before a restart
+ */
+function getMockPayment(providerIntentId: string): MockPayment {
+  const payment = mockPayments.get(providerIntentId)
+  if (!payment) {
+    throw new Error(`Unknown mock payment: ${providerIntentId}`)
+  }
+  return payment
+}
+
+export const mockPaymentProvider: PaymentProvider = {
+  id: 'mock',
+  name: 'Mock Gateway',
+  description: 'Simulated card payments for development and testing. Needs MOCK_PAYMENT_WEBHOOK_SECRET; never available in production.',
+
+  isAvailable() {
+    return process.env.NODE_ENV !== 'production' && !!process.env.MOCK_PAYMENT_WEBHOOK_SECRET
+  },
+
+  async createIntent(input: CreatePaymentIntentInput) {
+    const providerIntentId = `mock_pi_${randomUUID()}`
+    const intent: ProviderPaymentIntent = {
+      providerIntentId,
+      status: 'requires_payment',
+      amount: input.amount,
+      checkoutUrl: `/payments/mock/${input.reference}?returnUrl=${encodeURIComponent(input.returnUrl)}`,
+      failureReason: null,
+    }
+
+    mockPayments.set(providerIntentId, { intent, refundedAmount: 0 })
+    return { ...intent }
+  },
+
+  async confirmIntent(providerIntentId: string) {
+    return { ...getMockPayment(providerIntentId).intent }
+  },
+
+  async refund(input) {
+    const payment = getMockPayment(input.providerIntentId)
+    if (payment.intent.status !== 'succeeded') {
+      throw new Error('Only successful mock payments can be refunded')
+    }
+    if (toCents(payment.refundedAmount) + toCents(input.amount) > toCents(payment.intent.amount)) {
+      throw new Error('Refund exceeds the amount paid')
+    }
+
+    payment.refundedAmount += input.amount
+    return { providerRefundId: `mock_re_${randomUUID()}` }
+  },
+
+  verifyWebhook(input) {
+    const isValid = verifyWebhookSignature({
+      secret: getMockWebhookSecret(),
+      body: input.body,
+      timestamp: input.headers.get(PAYMENT_TIMESTAMP_HEADER),
+      signature: input.headers.get(PAYMENT_SIGNATURE_HEADER),
+    })
+    if (!isValid) {
+      throw new Error('Invalid webhook signature')
+    }
+
+    const event = mockWebhookEventSchema.parse(JSON.parse(input.body))
+    if (event.type !== 'payment.succeeded' && event.type !== 'payment.failed') {
+      return null
+    }
+
+    return {
+      providerIntentId: event.data.id,
+      status: event.type === 'payment.succeeded' ? 'succeeded' : 'failed',
+      amount: event.data.amount,
+      failureReason: event.data.failureReason ?? null,
+    } satisfies PaymentWebhookEvent
+  },
+}
+
+/**
+ * Settle a mock payment as the buyer would on a real checkout page, and
+ * build the signed webhook the provider sends about it
+ * @param providerIntentId - Mock payment to settle
+ * @param outcome - Whether the payment goes through or is declined
+ * @param now - Signing time, defaults to the current time
+ * @returns Raw body and headers of the webhook request
+ * @throws Error if the payment is unknown or already settled, or no webhook secret is set
+ */
+export function settleMockPayment(
+  providerIntentId: string,
+  outcome: MockPaymentOutcome,
+  now: Date = new Date()
+): { body: string; headers: Record<string, string> } {
+  const secret = getMockWebhookSecret()
+  const payment = getMockPayment(providerIntentId)
+  if (payment.intent.status !== 'requires_payment') {
+    throw new Error(`Mock payment already ${payment.intent.status}`)
+  }
+
+  payment.intent.status = outcome
+  payment.intent.failureReason = outcome === 'failed' ? 'Card declined (simulated)' : null
+
+  const body = JSON.stringify({
+    type: `payment.${outcome}`,
+    data: {
+      id: providerIntentId,
+      amount: payment.intent.amount,
+      failureReason: payment.intent.failureReason,
+    },
+  })
+  const timestamp = String(Math.floor(now.getTime() / 1000))
+
+  return {
+    body,
+    headers: {
+      'Content-Type': 'application/json',
+      [PAYMENT_TIMESTAMP_HEADER]: timestamp,
+      [PAYMENT_SIGNATURE_HEADER]: signWebhookPayload(secret, timestamp, body),
+    },
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Order Payments Utility
+ *
+ * Orders paid with an external payment method wait for their payment. Their
+ * codes are reserved when the order is placed and held until the payment
+ * window closes. Confirming the payment, by an admin or a signed webhook from
+ * the payment provider, sells the codes and completes the order. Orders whose
+ * window passes unpaid are cancelled and their codes return to stock.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { releaseReservedGameCodes, sellReservedGameCodes } from './inventory'
+import { toCents } from './pricing'
+
+/** Minutes codes stay reserved for an unpaid order unless configured otherwise */
+export const DEFAULT_PAYMENT_RESERVATION_MINUTES = 30
+
+/**
+ * A payment that cannot be applied: the order is not awaiting one, the amount
+ * is wrong or its codes are gone. Routes answer these with a client error;
+ * any other error is a server fault.
+ */
+export class OrderPaymentError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OrderPaymentError'
+  }
+}
+
+export interface ConfirmOrderPaymentInput {
+  orderId: string
+  /** Provider payment id or a manual reference such as a transfer number */
+  reference?: string | null
+  /** Amount received; checked against the order total when given */
+  amount?: number
+  /** Admin confirming by hand, omitted for webhook confirmations */
+  confirmedBy?: string
+}
+
+export interface ConfirmedOrderPayment {
+  orderId: string
+  paidAt: Date
+  codesSold: number
+  /** The same payment had already completed the order, e.g. a repeated webhook */
+  alreadyConfirmed: boolean
+}
+
+/**
+ * Minutes an unpaid order's codes stay reserved, from
+ * `PAYMENT_RESERVATION_MINUTES`
+ * @param value - Configured value, defaults to the environment variable
+ * @returns A positive number of minutes
+ */
+export function getPaymentReservationMinutes(
+  value: string | undefined = process.env.PAYMENT_RESERVATION_MINUTES
+): number {
+  const minutes = Number(value)
+  return Number.isInteger(minutes) && minutes > 0 ? minutes : DEFAULT_PAYMENT_RESERVATION_MINUTES
+}
+
+/**
+ * When the reservation of an order placed now runs out
+ * @param now - Time the order is placed, defaults to the current time
+ * @param minutes - Reservation length, defaults to the configured one
+ * @returns The payment deadline
+ */
+export function getPaymentExpiry(now: Date = new Date(), minutes: number = getPaymentReservationMinutes()): Date {
+  return new Date(now.getTime() + minutes * 60 * 1000)
+}
+
+/**
+ * Lock an order row until the end of the transaction
+ * @returns False if the order does not exist
+ */
+async function lockOrder(client: Prisma.TransactionClient, orderId: string): Promise<boolean> {
+  const locked = await client.$queryRaw<Array<{ id: string }>>`
+    SELECT id FROM orders WHERE id = ${orderId}::uuid FOR UPDATE
+  `
+  return locked.length > 0
+}
+
+/**
+ * Record the payment of a pending order: its reserved codes are sold and the
+ * order completes. A payment arriving after the window but before the sweeper
+ * has run is still accepted, since the codes are still held. Must run inside
+ * a transaction.
+ * @param client - Prisma interactive transaction client
+ * @param input - Order, payment reference and amount, and the confirming admin
+ * @returns The confirmed payment, or null if the order does not exist
+ * @throws OrderPaymentError if the order is not awaiting payment, the amount
+ *   is wrong or its codes are no longer reserved
+ */
+export async function confirmOrderPayment(
+  client: Prisma.TransactionClient,
+  input: ConfirmOrderPaymentInput
+): Promise<ConfirmedOrderPayment | null> {
+  if (!await lockOrder(client, input.orderId)) {
+    return null
+  }
+
+  const order = await client.order.findUniqueOrThrow({
+    where: { id: input.orderId },
+    include: { _count: { select: { order_items: { where: { game_code_id: { not: null } } } } } },
+  })
+
+  // Providers retry webhooks; the same payment confirms the order only once
+  if (order.status === 'completed' && order.paid_at && input.reference && order.payment_reference === input.reference) {
+    return { orderId: order.id, paidAt: order.paid_at, codesSold: 0, alreadyConfirmed: true }
+  }
+
+  if (order.payment_method !== 'external') {
+    throw new OrderPaymentError('Only orders paid externally wait for a payment')
+  }
+
+  if (order.status === 'cancelled') {
+    throw new OrderPaymentError('Order was cancelled because its payment did not arrive in time')
+  }
+
+  if (order.status !== 'pending') {
+    throw new OrderPaymentError(`Order is already ${order.status}`)
+  }
+
+  if (input.amount !== undefined && toCents(input.amount) !== toCents(order.total_amount)) {
+    throw new OrderPaymentError(
+      `Payment of $${input.amount.toFixed(2)} does not match the order total of $${Number(order.total_amount).toFixed(2)}`
+    )
+  }
+
+  const codesSold = await sellReservedGameCodes(
+    client,
+    order.id,
+    input.confirmedBy ? 'Payment confirmed by admin' : 'Payment confirmed by provider'
+  )
+
+  // Every order item holds one reserved code until the order is paid or cancelled
+  if (codesSold !== order._count.order_items) {
+    throw new OrderPaymentError('Some codes are no longer reserved for this order')
+  }
+
+  const paidOrder = await client.order.update({
+    where: { id: order.id },
+    data: {
+      status: 'completed',
+      paid_at: new Date(),
+      payment_reference: input.reference ?? null,
+      payment_confirmed_by: input.confirmedBy ?? null,
+    },
+  })
+
+  return { orderId: paidOrder.id, paidAt: paidOrder.paid_at!, codesSold, alreadyConfirmed: false }
+}
+
+/**
+ * Cancel a pending order whose payment window has passed, return its codes
+ * to stock and free its discount code use. Must run inside a transaction.
+ * @param client - Prisma interactive transaction client
+ * @param orderId - Order to expire
+ * @param now - Reference time, defaults to the current time
+ * @returns True if the order was cancelled; false if it was paid, cancelled
+ *   or still inside its window
+ */
+export async function expireOrderPayment(
+  client: Prisma.TransactionClient,
+  orderId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (!await lockOrder(client, orderId)) {
+    return false
+  }
+
+  const order = await client.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: { id: true, status: true, payment_expires_at: true },
+  })
+
+  if (order.status !== 'pending' || !order.payment_expires_at || order.payment_expires_at > now) {
+    return false
+  }
+
+  await releaseReservedGameCodes(client, order.id, 'Payment not received in time')
+  await client.promotionRedemption.deleteMany({ where: { order_id: order.id } })
+  await client.order.update({
+    where: { id: order.id },
+    data: { status: 'cancelled' },
+  })
+
+  return true
+}
+
+/**
+ * Cancel every pending order whose payment window has passed. Each order is
+ * expired in its own transaction, so one failure does not hold up the rest.
+ * @param client - Prisma client
+ * @param now - Reference time, defaults to the current time
+ * @returns Ids of the cancelled orders
+ */
+export async function releaseExpiredReservations(
+  client: PrismaClient,
+  now: Date = new Date()
+): Promise<string[]> {
+  const expired = await client.order.findMany({
+    where: { status: 'pending', payment_expires_at: { lte: now } },
+    select: { id: true },
+    orderBy: { payment_expires_at: 'asc' },
+  })
+
+  const cancelled: string[] = []
+  for (const order of expired) {
+    try {
+      if (await client.$transaction(tx => expireOrderPayment(tx, order.id, now))) {
+        cancelled.push(order.id)
+      }
+    } catch (error) {
+      console.error(`Failed to release reservation of order ${order.id}:`, error)
+    }
+  }
+
+  return cancelled
+}
@@ -0,0 +1,265 @@
+/**
+ * Order Refund Utility
+ *
+ * Admins refund a completed order in full or per order item. Each refunded
+ * code is marked refunded; codes the customer never revealed are then either
+ * returned to stock or voided, while revealed codes stay refunded. The refund
+ * total is credited to the customer's balance through the credit ledger, or
+ * for orders paid online goes back to the original payment, and the order is
+ * cancelled once nothing is left to refund. Order fees are charged once per
+ * order, so they are returned with the refund that empties it, or on their own
+ * when dispute refunds already took back every item.
+ */
+
+import { Prisma } from '@prisma/client'
+import { changeGameCodeStatus } from './code-status'
+import { recordCreditTransaction } from './credit-ledger'
+import { fromCents, toCents } from './pricing'
+
+export type RefundCodeAction = 'restock' | 'void'
+
+export type RefundCodeOutcome = 'restocked' | 'voided' | 'refunded'
+
+export interface RefundOrderInput {
+  orderId: string
+  /** Order items to refund; all refundable items when omitted */
+  itemIds?: string[]
+  /** What to do with codes the customer has not revealed */
+  codeAction: RefundCodeAction
+  reason: string
+  adminId: string
+}
+
+export interface RefundedOrderItem {
+  orderItemId: string
+  gameCodeId: string
+  amount: number
+  outcome: RefundCodeOutcome
+}
+
+export interface OrderRefundResult {
+  refundId: string
+  /** Item amounts plus any order fees returned */
+  amount: number
+  items: RefundedOrderItem[]
+  /** Order fees returned; only on the refund that empties the order */
+  feeAmount: number
+  orderStatus: string
+  /** Online payment the amount must be returned to; null when it was credited */
+  paymentIntentId: string | null
+}
+
+interface RefundPricedItem {
+  quantity: number
+  unit_price: Prisma.Decimal
+  discount_amount: Prisma.Decimal
+  tax_amount: Prisma.Decimal
+}
+
+/**
+ * Amount refunded for an order item: what the customer paid for it, i.e. its
+ * price less its share of the order discount plus the tax charged on it.
+ * A free replacement is worth what the customer paid for the disputed item
+ * it replaced.
+ * @param item - Order item with its price, discount, tax and the dispute it replaced, if any
+ * @returns Refund amount
+ */
+export function getRefundAmount(item: RefundPricedItem & {
+  replacement_for: { order_item: RefundPricedItem } | null
+}): number {
+  const paid = item.replacement_for ? item.replacement_for.order_item : item
+  return fromCents(toCents(paid.unit_price) * paid.quantity - toCents(paid.discount_amount) + toCents(paid.tax_amount))
+}
+
+/**
+ * Refund a completed order, in full or for the given items. Must run inside
+ * a transaction: code statuses, the refund record, the credit entry and the
+ * order status all commit together. The refund that leaves nothing
+ * refundable also returns the order's fees; when every item was already
+ * refunded through a dispute, the fees alone are refunded and the order is
+ * cancelled. For an order paid online no
+ * credit is given; the caller returns the amount through the payment provider.
+ * @param client - Prisma interactive transaction client
+ * @param input - Order, items, code action, reason and the refunding admin
+ * @returns The refund, or null if the order does not exist
+ * @throws Error if the order is not completed or an item cannot be refunded
+ */
+export async function refundOrder(
+  client: Prisma.TransactionClient,
+  input: RefundOrderInput
+): Promise<OrderRefundResult | null> {
+  // Lock the order so two refunds of the same order run one after the other
+  const locked = await client.$queryRaw<Array<{ id: string }>>`
+    SELECT id FROM orders WHERE id = ${input.orderId}::uuid FOR UPDATE
+  `
+
+  if (locked.length === 0) {
+    return null
+  }
+
+  const order = await client.order.findUniqueOrThrow({
+    where: { id: input.orderId },
+    include: {
+      order_items: {
+        include: {
+          game_code: {
+            select: {
+              id: true,
+              status: true,
+              reveals: { where: { by_admin: false }, select: { id: true }, take: 1 },
+            },
+          },
+          refund_item: { select: { id: true } },
+          replacement_for: {
+            select: { order_item: { select: { quantity: true, unit_price: true, discount_amount: true, tax_amount: true } } },
+          },
+        },
+      },
+      // The online payment that completed the order; payments credited elsewhere are not it
+      payment_intents: {
+        where: { status: 'succeeded', credit_transaction_id: null },
+        select: { id: true },
+        take: 1,
+      },
+    },
+  })
+
+  if (order.status !== 'completed') {
+    throw new Error(`Only completed orders can be refunded; this order is ${order.status}`)
+  }
+
+  const refundable = order.order_items.filter(item =>
+    item.game_code?.status === 'sold' && !item.refund_item
+  )
+
+  let selected = refundable
+  if (input.itemIds) {
+    const refundableIds = new Set(refundable.map(item => item.id))
+    const notRefundable = input.itemIds.find(id => !refundableIds.has(id))
+    if (notRefundable) {
+      throw new Error(`Order item ${notRefundable} cannot be refunded`)
+    }
+    selected = refundable.filter(item => input.itemIds!.includes(item.id))
+  }
+
+  // Dispute refunds return item amounts only, so the fees may be all that is left
+  const feesOnly = refundable.length === 0 && toCents(order.fee_total) > 0
+
+  if (selected.length === 0 && !feesOnly) {
+    throw new Error('Nothing left to refund on this order')
+  }
+
+  const reason = `Order refund: ${input.reason}`
+  const items: RefundedOrderItem[] = []
+
+  for (const item of selected) {
+    const gameCode = item.game_code!
+
+    const refunded = await changeGameCodeStatus(client, {
+      codeId: gameCode.id,
+      from: 'sold',
+      to: 'refunded',
+      reason,
+      changedBy: input.adminId,
+      orderId: order.id,
+    })
+
+    // A dispute resolution or an admin changed the code after we read it
+    if (!refunded) {
+      throw new Error(`Game code of order item ${item.id} changed in the meantime`)
+    }
+
+    // Revealed codes may already be redeemed and stay refunded
+    const revealed = gameCode.reveals.length > 0
+    let outcome: RefundCodeOutcome = 'refunded'
+
+    if (!revealed && input.codeAction === 'void') {
+      await changeGameCodeStatus(client, {
+        codeId: gameCode.id,
+        from: 'refunded',
+        to: 'voided',
+        reason,
+        changedBy: input.adminId,
+        orderId: order.id,
+      })
+      outcome = 'voided'
+    } else if (!revealed) {
+      // The code can be sold again, so the order item must let go of it
+      await client.orderItem.update({
+        where: { id: item.id },
+        data: { game_code_id: null },
+      })
+      await changeGameCodeStatus(client, {
+        codeId: gameCode.id,
+        from: 'refunded',
+        to: 'available',
+        reason,
+        changedBy: input.adminId,
+        orderId: order.id,
+      })
+      outcome = 'restocked'
+    }
+
+    items.push({
+      orderItemId: item.id,
+      gameCodeId: gameCode.id,
+      amount: getRefundAmount(item),
+      outcome,
+    })
+  }
+
+  // The last refundable items take the order's fees with them
+  const emptiesOrder = selected.length === refundable.length
+  const feeAmount = emptiesOrder ? fromCents(toCents(order.fee_total)) : 0
+  const amount = fromCents(items.reduce((sum, item) => sum + toCents(item.amount), toCents(feeAmount)))
+  const paymentIntentId = order.payment_intents[0]?.id ?? null
+
+  const creditTransaction = amount > 0 && !paymentIntentId
+    ? await recordCreditTransaction(client, {
+        userId: order.user_id,
+        type: 'refund',
+        amount,
+        orderId: order.id,
+        description: `Refund for order #${order.id.slice(0, 8)}: ${input.reason}`,
+        createdBy: input.adminId,
+      })
+    : null
+
+  const refund = await client.orderRefund.create({
+    data: {
+      order_id: order.id,
+      amount,
+      reason: input.reason,
+      code_action: input.codeAction,
+      credit_transaction_id: creditTransaction?.id ?? null,
+      payment_intent_id: paymentIntentId,
+      refunded_by: input.adminId,
+      items: {
+        create: items.map(item => ({
+          order_item_id: item.orderItemId,
+          game_code_id: item.gameCodeId,
+          amount: item.amount,
+          code_outcome: item.outcome,
+        })),
+      },
+    },
+  })
+
+  let orderStatus = order.status
+  if (emptiesOrder) {
+    await client.order.update({
+      where: { id: order.id },
+      data: { status: 'cancelled' },
+    })
+    orderStatus = 'cancelled'
+  }
+
+  return {
+    refundId: refund.id,
+    amount,
+    items,
+    feeAmount,
+    orderStatus,
+    paymentIntentId,
+  }
+}
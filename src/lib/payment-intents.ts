@@ -0,0 +1,347 @@
+/**
+ * Payment Intents Utility
+ *
+ * A payment intent is one online payment a customer starts with a payment
+ * provider, either for a pending order or to top up their credit balance.
+ * The provider reports the outcome by webhook, or when asked after the buyer
+ * returns from its checkout page; both go through the same update so an
+ * intent takes effect once. A successful order payment completes the order;
+ * a top-up, or a payment for an order that can no longer be completed, is
+ * credited to the customer's balance.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { recordCreditTransaction } from './credit-ledger'
+import { STORE_CURRENCY } from './margins'
+import { confirmOrderPayment, OrderPaymentError } from './order-payments'
+import { getEnabledPaymentProvider, getPaymentProvider, type ProviderPaymentStatus } from './payment-providers'
+import { toCents } from './pricing'
+
+export type PaymentPurpose = 'order' | 'credit_top_up'
+
+export type StartPaymentInput = {
+  providerId: string
+  userId: string
+  /** Store address the buyer is sent back to, e.g. "https://store.example" */
+  origin: string
+} & (
+  | { purpose: 'order'; orderId: string }
+  | { purpose: 'credit_top_up'; amount: number }
+)
+
+export interface StartedPayment {
+  paymentIntentId: string
+  provider: string
+  purpose: PaymentPurpose
+  orderId: string | null
+  amount: number
+  status: string
+  checkoutUrl: string | null
+}
+
+export interface PaymentUpdate {
+  provider: string
+  providerIntentId: string
+  status: ProviderPaymentStatus
+  amount: number
+  failureReason: string | null
+}
+
+export interface AppliedPaymentUpdate {
+  paymentIntentId: string
+  purpose: PaymentPurpose
+  orderId: string | null
+  status: string
+  /** False if the intent had already settled, e.g. a repeated webhook */
+  changed: boolean
+}
+
+export interface RefundOrderPaymentInput {
+  paymentIntentId: string
+  refundId: string
+  amount: number
+  reason: string
+}
+
+/**
+ * Payment intent row as returned to the buyer
+ */
+function toStartedPayment(intent: {
+  id: string
+  provider: string
+  purpose: string
+  order_id: string | null
+  amount: Prisma.Decimal
+  status: string
+  checkout_url: string | null
+}): StartedPayment {
+  return {
+    paymentIntentId: intent.id,
+    provider: intent.provider,
+    purpose: intent.purpose as PaymentPurpose,
+    orderId: intent.order_id,
+    amount: Number(intent.amount),
+    status: intent.status,
+    checkoutUrl: intent.checkout_url,
+  }
+}
+
+/**
+ * Start an online payment with a provider. An order that already has an
+ * open payment with the provider gets that one back, so reloading checkout
+ * does not start a second payment.
+ * @param client - Prisma client; the provider is called outside any transaction
+ * @param input - Provider, buyer, and the order or top-up amount
+ * @returns The payment with the provider's checkout URL, or null if the order does not exist
+ * @throws Error if the provider cannot be used, the order is not awaiting
+ *   payment or the provider refuses the payment
+ */
+export async function startPayment(client: PrismaClient, input: StartPaymentInput): Promise<StartedPayment | null> {
+  const provider = await getEnabledPaymentProvider(client, input.providerId)
+
+  let amount: number
+  let description: string
+  let returnPath: string
+  let orderId: string | null = null
+
+  if (input.purpose === 'order') {
+    const order = await client.order.findFirst({
+      where: { id: input.orderId, user_id: input.userId },
+    })
+    if (!order) {
+      return null
+    }
+
+    if (order.payment_method !== 'external' || order.status !== 'pending') {
+      throw new Error('This order is not awaiting payment')
+    }
+    if (!order.payment_expires_at || order.payment_expires_at <= new Date()) {
+      throw new Error('The payment window for this order has closed')
+    }
+
+    const openIntent = await client.paymentIntent.findFirst({
+      where: { order_id: order.id, provider: provider.id, status: 'requires_payment', checkout_url: { not: null } },
+      orderBy: { created_at: 'desc' },
+    })
+    if (openIntent) {
+      return toStartedPayment(openIntent)
+    }
+
+    orderId = order.id
+    amount = Number(order.total_amount)
+    description = `Order #${order.id.slice(0, 8)}`
+    returnPath = `/checkout/success?orderId=${order.id}`
+  } else {
+    amount = input.amount
+    description = 'Credit top-up'
+    returnPath = '/credits'
+  }
+
+  const intent = await client.paymentIntent.create({
+    data: {
+      provider: provider.id,
+      purpose: input.purpose,
+      user_id: input.userId,
+      order_id: orderId,
+      amount,
+    },
+  })
+
+  let providerIntent
+  try {
+    providerIntent = await provider.createIntent({
+      reference: intent.id,
+      amount,
+      currency: STORE_CURRENCY,
+      description,
+      returnUrl: new URL(returnPath, input.origin).toString(),
+    })
+  } catch (error) {
+    console.error(`${provider.name} refused payment intent ${intent.id}:`, error)
+    await client.paymentIntent.update({
+      where: { id: intent.id },
+      data: { status: 'failed', failure_reason: error instanceof Error ? error.message : 'Provider error' },
+    })
+    throw new Error(`${provider.name} could not start the payment. Please try again.`)
+  }
+
+  const startedIntent = await client.paymentIntent.update({
+    where: { id: intent.id },
+    data: {
+      provider_intent_id: providerIntent.providerIntentId,
+      checkout_url: providerIntent.checkoutUrl,
+      status: providerIntent.status,
+      failure_reason: providerIntent.failureReason,
+    },
+  })
+
+  return toStartedPayment(startedIntent)
+}
+
+/**
+ * Apply a payment outcome reported by a provider. The intent is locked, so a
+ * webhook and the buyer's return cannot both apply it. Must run inside a
+ * transaction.
+ * @param client - Prisma interactive transaction client
+ * @param update - The provider's intent and its outcome
+ * @returns What the intent now stands at, or null if no intent matches
+ * @throws OrderPaymentError if the amount paid differs from the intent, or
+ *   the order cannot take the payment
+ */
+export async function applyPaymentUpdate(
+  client: Prisma.TransactionClient,
+  update: PaymentUpdate
+): Promise<AppliedPaymentUpdate | null> {
+  const locked = await client.$queryRaw<Array<{ id: string }>>`
+    SELECT id FROM payment_intents
+    WHERE provider = ${update.provider} AND provider_intent_id = ${update.providerIntentId}
+    FOR UPDATE
+  `
+  if (locked.length === 0) {
+    return null
+  }
+
+  const intent = await client.paymentIntent.findUniqueOrThrow({ where: { id: locked[0].id } })
+  const result = {
+    paymentIntentId: intent.id,
+    purpose: intent.purpose as PaymentPurpose,
+    orderId: intent.order_id,
+  }
+
+  // Settled intents stay as they are; providers resend webhooks
+  if (intent.status !== 'requires_payment' || update.status === 'requires_payment') {
+    return { ...result, status: intent.status, changed: false }
+  }
+
+  if (update.status === 'failed') {
+    await client.paymentIntent.update({
+      where: { id: intent.id },
+      data: { status: 'failed', failure_reason: update.failureReason },
+    })
+    return { ...result, status: 'failed', changed: true }
+  }
+
+  if (toCents(update.amount) !== toCents(intent.amount)) {
+    throw new OrderPaymentError(
+      `Payment of $${update.amount.toFixed(2)} does not match the expected $${Number(intent.amount).toFixed(2)}`
+    )
+  }
+
+  const order = intent.order_id
+    ? await client.order.findUniqueOrThrow({ where: { id: intent.order_id }, select: { id: true, status: true } })
+    : null
+
+  let creditTransactionId: string | null = null
+  if (order?.status === 'pending') {
+    await confirmOrderPayment(client, {
+      orderId: order.id,
+      reference: intent.provider_intent_id,
+      amount: update.amount,
+    })
+  } else {
+    // A top-up, or the order expired or was paid another way: the money is kept as credit
+    const creditTransaction = await recordCreditTransaction(client, {
+      userId: intent.user_id,
+      type: 'top_up',
+      amount: Number(intent.amount),
+      orderId: order?.id,
+      description: order
+        ? `Payment for order #${order.id.slice(0, 8)}, which was already ${order.status}`
+        : `Online top-up via ${getPaymentProvider(intent.provider)?.name ?? intent.provider}`,
+    })
+    creditTransactionId = creditTransaction.id
+  }
+
+  await client.paymentIntent.update({
+    where: { id: intent.id },
+    data: {
+      status: 'succeeded',
+      succeeded_at: new Date(),
+      failure_reason: null,
+      credit_transaction_id: creditTransactionId,
+    },
+  })
+
+  return { ...result, status: 'succeeded', changed: true }
+}
+
+/**
+ * Ask the provider for the outcome of a buyer's payment and apply it, for
+ * when the buyer is back from the checkout page before the webhook arrived
+ * @param client - Prisma client; the provider is called outside any transaction
+ * @param paymentIntentId - Store payment intent
+ * @param userId - Buyer, who must own the intent
+ * @returns What the intent now stands at, or null if the buyer has no such intent
+ */
+export async function refreshPayment(
+  client: PrismaClient,
+  paymentIntentId: string,
+  userId: string
+): Promise<AppliedPaymentUpdate | null> {
+  const intent = await client.paymentIntent.findFirst({
+    where: { id: paymentIntentId, user_id: userId },
+  })
+  if (!intent) {
+    return null
+  }
+
+  const provider = getPaymentProvider(intent.provider)
+  if (intent.status !== 'requires_payment' || !intent.provider_intent_id || !provider) {
+    return {
+      paymentIntentId: intent.id,
+      purpose: intent.purpose as PaymentPurpose,
+      orderId: intent.order_id,
+      status: intent.status,
+      changed: false,
+    }
+  }
+
+  const providerIntent = await provider.confirmIntent(intent.provider_intent_id)
+  return client.$transaction(tx => applyPaymentUpdate(tx, {
+    provider: provider.id,
+    providerIntentId: providerIntent.providerIntentId,
+    status: providerIntent.status,
+    amount: providerIntent.amount,
+    failureReason: providerIntent.failureReason,
+  }))
+}
+
+/**
+ * Return part of an online order payment through its provider. Runs last in
+ * the refund transaction, so a refund the provider refuses rolls the whole
+ * order refund back.
+ * @param client - Prisma interactive transaction client
+ * @param input - Payment, the order refund it belongs to, amount and reason
+ * @throws Error if the provider is gone, the amount exceeds what is left or
+ *   the provider refuses the refund
+ */
+export async function refundOrderPayment(
+  client: Prisma.TransactionClient,
+  input: RefundOrderPaymentInput
+): Promise<void> {
+  const intent = await client.paymentIntent.findUniqueOrThrow({ where: { id: input.paymentIntentId } })
+
+  const provider = getPaymentProvider(intent.provider)
+  if (!provider || !provider.isAvailable() || !intent.provider_intent_id) {
+    throw new Error(`Payment provider ${intent.provider} cannot refund this payment here`)
+  }
+
+  if (toCents(intent.refunded_amount) + toCents(input.amount) > toCents(intent.amount)) {
+    throw new Error('Refund exceeds what is left of the payment')
+  }
+
+  const providerRefund = await provider.refund({
+    providerIntentId: intent.provider_intent_id,
+    amount: input.amount,
+    reason: input.reason,
+  })
+
+  await client.paymentIntent.update({
+    where: { id: intent.id },
+    data: { refunded_amount: { increment: input.amount } },
+  })
+  await client.orderRefund.update({
+    where: { id: input.refundId },
+    data: { provider_refund_id: providerRefund.providerRefundId },
+  })
+}
@@ -0,0 +1,176 @@
+/**
+ * Payment Providers
+ *
+ * Online payments, for pending orders and credit top-ups alike, go through a
+ * payment provider. Every provider implements the same interface: create a
+ * payment intent the buyer completes on the provider's checkout page, look up
+ * an intent's outcome, refund a payment and verify the webhooks it sends.
+ * The providers the store ships with are registered here; admins choose
+ * which of them customers may use.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { mockPaymentProvider } from './mock-payment-provider'
+
+export type ProviderPaymentStatus = 'requires_payment' | 'succeeded' | 'failed'
+
+export interface CreatePaymentIntentInput {
+  /** Store payment intent id, echoed back by the provider */
+  reference: string
+  amount: number
+  currency: string
+  description: string
+  /** Page the buyer is sent back to after paying */
+  returnUrl: string
+}
+
+export interface ProviderPaymentIntent {
+  providerIntentId: string
+  status: ProviderPaymentStatus
+  amount: number
+  /** Provider page where the buyer pays */
+  checkoutUrl: string | null
+  failureReason: string | null
+}
+
+export interface ProviderRefundInput {
+  providerIntentId: string
+  amount: number
+  reason: string
+}
+
+export interface ProviderRefund {
+  providerRefundId: string
+}
+
+export interface PaymentWebhookInput {
+  /** Raw request body, exactly as received */
+  body: string
+  headers: Headers
+}
+
+/** A payment outcome reported by a provider webhook */
+export interface PaymentWebhookEvent {
+  providerIntentId: string
+  status: ProviderPaymentStatus
+  amount: number
+  failureReason: string | null
+}
+
+export interface PaymentProvider {
+  id: string
+  name: string
+  description: string
+  /** Whether the provider can run in this environment, e.g. has its API keys */
+  isAvailable(): boolean
+  createIntent(input: CreatePaymentIntentInput): Promise<ProviderPaymentIntent>
+  /** Current state of an intent, used when the buyer returns before the webhook arrives */
+  confirmIntent(providerIntentId: string): Promise<ProviderPaymentIntent>
+  refund(input: ProviderRefundInput): Promise<ProviderRefund>
+  /**
+   * Check a webhook's signature and read the payment outcome it reports
+   * @returns The event, null for events that do not concern a payment outcome
+   * @throws Error if the signature is missing or invalid
+   */
+  verifyWebhook(input: PaymentWebhookInput): PaymentWebhookEvent | null
+}
+
+export interface PaymentProviderSummary {
+  id: string
+  name: string
+  description: string
+  isAvailable: boolean
+  isEnabled: boolean
+}
+
+const PAYMENT_PROVIDERS: PaymentProvider[] = [mockPaymentProvider]
+
+type ProviderClient = PrismaClient | Prisma.TransactionClient
+
+/**
+ * Look up a registered provider
+ * @param providerId - Provider id, e.g. "mock"
+ * @returns The provider, or null if none is registered under that id
+ */
+export function getPaymentProvider(providerId: string): PaymentProvider | null {
+  return PAYMENT_PROVIDERS.find(provider => provider.id === providerId) ?? null
+}
+
+/**
+ * Every registered provider with whether it can run here and is enabled
+ * @param client - Prisma client or interactive transaction client
+ * @returns Providers in registration order
+ */
+export async function listPaymentProviders(client: ProviderClient): Promise<PaymentProviderSummary[]> {
+  const settings = await client.paymentProviderSetting.findMany()
+  const enabledIds = new Set(settings.filter(setting => setting.is_enabled).map(setting => setting.provider))
+
+  return PAYMENT_PROVIDERS.map(provider => ({
+    id: provider.id,
+    name: provider.name,
+    description: provider.description,
+    isAvailable: provider.isAvailable(),
+    // An unavailable provider cannot take payments even if an admin enabled it
+    isEnabled: provider.isAvailable() && enabledIds.has(provider.id),
+  }))
+}
+
+/**
+ * A provider customers may pay with
+ * @param client - Prisma client or interactive transaction client
+ * @param providerId - Provider id
+ * @returns The provider
+ * @throws Error if the provider is unknown, unavailable here or disabled
+ */
+export async function getEnabledPaymentProvider(client: ProviderClient, providerId: string): Promise<PaymentProvider> {
+  const provider = getPaymentProvider(providerId)
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${providerId}`)
+  }
+
+  const setting = await client.paymentProviderSetting.findUnique({ where: { provider: provider.id } })
+  if (!provider.isAvailable() || !setting?.is_enabled) {
+    throw new Error(`${provider.name} is not available for payments`)
+  }
+
+  return provider
+}
+
+/**
+ * Enable or disable a provider for customers
+ * @param client - Prisma client or interactive transaction client
+ * @param providerId - Provider id
+ * @param isEnabled - New setting
+ * @param adminId - Admin making the change
+ * @returns The provider's updated summary
+ * @throws Error if the provider is unknown, or is enabled while unavailable here
+ */
+export async function setPaymentProviderEnabled(
+  client: ProviderClient,
+  providerId: string,
+  isEnabled: boolean,
+  adminId: string
+): Promise<PaymentProviderSummary> {
+  const provider = getPaymentProvider(providerId)
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${providerId}`)
+  }
+
+  if (isEnabled && !provider.isAvailable()) {
+    throw new Error(`${provider.name} is not configured in this environment`)
+  }
+
+  await client.paymentProviderSetting.upsert({
+    where: { provider: provider.id },
+    create: { provider: provider.id, is_enabled: isEnabled, updated_by: adminId },
+    update: { is_enabled: isEnabled, updated_by: adminId },
+  })
+
+  return {
+    id: provider.id,
+    name: provider.name,
+    description: provider.description,
+    isAvailable: provider.isAvailable(),
+    isEnabled,
+  }
+}
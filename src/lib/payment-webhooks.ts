@@ -0,0 +1,61 @@
+/**
+ * Payment Webhook Signatures
+ *
+ * Payment providers sign each webhook with a secret shared with the store;
+ * every provider has its own (the mock provider uses `MOCK_PAYMENT_WEBHOOK_SECRET`).
+ * The signature is an HMAC-SHA256 of
+ * "<timestamp>.<raw body>", sent as `X-Payment-Signature: sha256=<hex>`
+ * next to `X-Payment-Timestamp` (Unix seconds). Requests older than the
+ * tolerance are refused so a captured webhook cannot be replayed later.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export const PAYMENT_SIGNATURE_HEADER = 'X-Payment-Signature'
+export const PAYMENT_TIMESTAMP_HEADER = 'X-Payment-Timestamp'
+
+/** How far a webhook's timestamp may be from the current time */
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60
+
+export interface VerifyWebhookInput {
+  secret: string
+  body: string
+  timestamp: string | null
+  signature: string | null
+  /** Reference time, defaults to the current time */
+  now?: Date
+}
+
+/**
+ * Sign a webhook body the way the payment provider does
+ * @param secret - Shared webhook secret
+ * @param timestamp - Unix timestamp in seconds
+ * @param body - Raw request body
+ * @returns Header value in the form "sha256=<hex>"
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `sha256=${digest}`
+}
+
+/**
+ * Check a webhook's signature and freshness
+ * @param input - Secret, raw body and the signature headers
+ * @returns True if the provider sent this body within the tolerance
+ */
+export function verifyWebhookSignature(input: VerifyWebhookInput): boolean {
+  if (!input.timestamp || !input.signature || !/^\d+$/.test(input.timestamp)) {
+    return false
+  }
+
+  const nowSeconds = Math.floor((input.now ?? new Date()).getTime() / 1000)
+  if (Math.abs(nowSeconds - Number(input.timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false
+  }
+
+  const expected = Buffer.from(signWebhookPayload(input.secret, input.timestamp, input.body))
+  const received = Buffer.from(input.signature)
+
+  // Compare in constant time so the signature cannot be guessed byte by byte
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
@@ -0,0 +1,280 @@
+/**
+ * Checkout Pricing Utility
+ *
+ * What a cart costs is decided here and nowhere else. The quote endpoint and
+ * order creation both price carts from current product prices, the tax rule
+ * for the customer's region and the fees for the payment method, so an order
+ * is charged exactly what was quoted. Amounts are computed in whole cents.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { STORE_CURRENCY } from './margins'
+import { applyPromotion } from './promotions'
+
+export type PaymentMethod = 'credit' | 'external'
+
+export interface QuoteItemInput {
+  productId: string
+  quantity: number
+}
+
+export interface CheckoutQuoteInput {
+  items: QuoteItemInput[]
+  paymentMethod: PaymentMethod
+  /** Country ("DE") or subdivision ("US-CA") the customer is taxed in */
+  region?: string | null
+  /** Discount code entered at checkout */
+  promotionCode?: string | null
+  /** Customer the cart belongs to, for per-customer promotion limits */
+  userId?: string
+}
+
+export interface QuoteLine {
+  productId: string
+  productName: string
+  platform: string
+  quantity: number
+  unitPrice: number
+  lineTotal: number
+  /** Share of the order's discount taken off this line */
+  discountAmount: number
+  /** Share of the order's tax charged on this line */
+  taxAmount: number
+}
+
+export interface QuoteAdjustment {
+  code: string
+  label: string
+  amount: number
+}
+
+export interface QuoteTax {
+  region: string
+  name: string
+  rate: number
+  amount: number
+}
+
+export interface CheckoutQuote {
+  currency: string
+  lines: QuoteLine[]
+  subtotal: number
+  /** Discount code applied, if any */
+  promotionCode: string | null
+  discounts: QuoteAdjustment[]
+  discountTotal: number
+  tax: QuoteTax | null
+  taxTotal: number
+  fees: QuoteAdjustment[]
+  feeTotal: number
+  total: number
+}
+
+type PricingClient = PrismaClient | Prisma.TransactionClient
+
+/**
+ * Convert a money amount to whole cents
+ * @param amount - Amount in currency units
+ * @returns Amount in cents, rounded half away from zero
+ */
+export function toCents(amount: number | Prisma.Decimal): number {
+  return Math.round(Number(amount) * 100)
+}
+
+/**
+ * Convert whole cents back to currency units
+ * @param cents - Amount in cents
+ * @returns Amount in currency units
+ */
+export function fromCents(cents: number): number {
+  return cents / 100
+}
+
+/**
+ * Split an amount over several parts in proportion to their weights, so the
+ * parts add up to exactly the amount. Leftover cents go to the parts with the
+ * largest remainders, earlier parts first.
+ * @param totalCents - Amount to split, in cents
+ * @param weights - Non-negative weight of each part
+ * @returns Cents per part, in the order of `weights`
+ */
+export function allocateAmount(totalCents: number, weights: number[]): number[] {
+  if (weights.length === 0) {
+    return []
+  }
+
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0)
+  if (weightSum === 0) {
+    // Nothing to weigh by: split evenly
+    return allocateAmount(totalCents, weights.map(() => 1))
+  }
+
+  const exact = weights.map(weight => (totalCents * weight) / weightSum)
+  const parts = exact.map(Math.floor)
+  let leftover = totalCents - parts.reduce((sum, part) => sum + part, 0)
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break
+    parts[index] += 1
+    leftover -= 1
+  }
+
+  return parts
+}
+
+/**
+ * Normalize a region code for tax rule lookup
+ * @param region - Region as entered, e.g. "us-ca"
+ * @returns Upper-case region code, or null if empty
+ */
+export function normalizeRegion(region?: string | null): string | null {
+  const normalized = region?.trim().toUpperCase()
+  return normalized ? normalized : null
+}
+
+/**
+ * Find the active tax rule for a region. A subdivision rule ("US-CA") wins
+ * over its country's rule ("US").
+ * @param client - Prisma client or interactive transaction client
+ * @param region - Normalized region code
+ * @returns The matching rule, or null if the region pays no tax
+ */
+export async function findTaxRule(client: PricingClient, region: string | null) {
+  if (!region) {
+    return null
+  }
+
+  const country = region.split('-')[0]
+  const rules = await client.taxRule.findMany({
+    where: { region: { in: [region, country] }, is_active: true },
+  })
+
+  return rules.find(rule => rule.region === region) ?? rules.find(rule => rule.region === country) ?? null
+}
+
+/**
+ * Price a cart from current product prices, discount code, tax rules and fees
+ * @param client - Prisma client or interactive transaction client
+ * @param input - Cart items, payment method, tax region and discount code
+ * @returns Line items, discounts, tax, fees and the grand total
+ * @throws Error if a product does not exist, is not for sale or is sold in
+ * variants, or the discount code cannot be used
+ */
+export async function buildCheckoutQuote(
+  client: PricingClient,
+  input: CheckoutQuoteInput
+): Promise<CheckoutQuote> {
+  const productIds = [...new Set(input.items.map(item => item.productId))]
+  const products = await client.product.findMany({
+    where: { id: { in: productIds } },
+    select: {
+      id: true,
+      name: true,
+      platform: true,
+      price: true,
+      is_active: true,
+      parent_id: true,
+      parent: { select: { is_active: true } },
+      _count: { select: { variants: true } },
+    },
+  })
+  const productsById = new Map(products.map(product => [product.id, product]))
+
+  const lines = input.items.map(item => {
+    const product = productsById.get(item.productId)
+
+    if (!product) {
+      throw new Error(`Product ${item.productId} not found`)
+    }
+
+    // A variant is off sale when it or the product it belongs to is
+    if (!product.is_active || product.parent?.is_active === false) {
+      throw new Error(`Product ${product.name} is not available`)
+    }
+
+    // Products sold in variants are bought through one of their variants
+    if (product._count.variants > 0) {
+      throw new Error(`Choose an option for ${product.name}`)
+    }
+
+    return {
+      productId: product.id,
+      parentId: product.parent_id,
+      productName: product.name,
+      platform: product.platform,
+      quantity: item.quantity,
+      unitPriceCents: toCents(product.price),
+      lineTotalCents: toCents(product.price) * item.quantity,
+    }
+  })
+
+  const subtotalCents = lines.reduce((sum, line) => sum + line.lineTotalCents, 0)
+
+  const promotion = input.promotionCode
+    ? await applyPromotion(client, { code: input.promotionCode, userId: input.userId, lines })
+    : null
+  const lineDiscountCents = promotion ? promotion.lineDiscountCents : lines.map(() => 0)
+  const discounts: QuoteAdjustment[] = promotion
+    ? [{ code: promotion.code, label: promotion.label, amount: fromCents(promotion.discountCents) }]
+    : []
+  const discountCents = promotion ? promotion.discountCents : 0
+  // Tax and fees are charged on what is left after discounts
+  const taxableCents = subtotalCents - discountCents
+
+  const region = normalizeRegion(input.region)
+  const taxRule = await findTaxRule(client, region)
+  const taxCents = taxRule ? Math.round(taxableCents * Number(taxRule.rate)) : 0
+  const lineTaxCents = allocateAmount(
+    taxCents,
+    lines.map((line, index) => line.lineTotalCents - lineDiscountCents[index])
+  )
+
+  const feeRules = await client.checkoutFee.findMany({
+    where: {
+      is_active: true,
+      OR: [{ payment_method: null }, { payment_method: input.paymentMethod }],
+    },
+    orderBy: { created_at: 'asc' },
+  })
+
+  const fees: QuoteAdjustment[] = feeRules
+    .map(fee => ({
+      code: fee.id,
+      label: fee.name,
+      amount: fromCents(Math.round(taxableCents * Number(fee.percent_rate)) + toCents(fee.fixed_amount)),
+    }))
+    .filter(fee => fee.amount > 0)
+  const feeCents = fees.reduce((sum, fee) => sum + toCents(fee.amount), 0)
+
+  return {
+    currency: STORE_CURRENCY,
+    lines: lines.map((line, index) => ({
+      productId: line.productId,
+      productName: line.productName,
+      platform: line.platform,
+      quantity: line.quantity,
+      unitPrice: fromCents(line.unitPriceCents),
+      lineTotal: fromCents(line.lineTotalCents),
+      discountAmount: fromCents(lineDiscountCents[index]),
+      taxAmount: fromCents(lineTaxCents[index]),
+    })),
+    subtotal: fromCents(subtotalCents),
+    promotionCode: promotion ? promotion.code : null,
+    discounts,
+    discountTotal: fromCents(discountCents),
+    tax: taxRule ? {
+      region: taxRule.region,
+      name: taxRule.name,
+      rate: Number(taxRule.rate),
+      amount: fromCents(taxCents),
+    } : null,
+    taxTotal: fromCents(taxCents),
+    fees,
+    feeTotal: fromCents(feeCents),
+    total: fromCents(taxableCents + taxCents + feeCents),
+  }
+}
@@ -5,6 +5,8 @@
  */
 
 import { PrismaClient, Profile, Product, GameCode, Order, OrderItem, CreditRequest } from '@prisma/client'
+import { recordCreditTransaction } from './credit-ledger'
+import { availableGameCodeWhere, claimGameCodes } from './inventory'
 
 /**
  * Create a Prisma client optimized for performance and avoiding conflicts
@@ -57,6 +59,7 @@ export type {
   Order,
   OrderItem,
   CreditRequest,
+  CreditTransaction,
 } from '@prisma/client'
 
 // Extended types with relations
@@ -70,6 +73,10 @@ export type ProductWithCodes = Product & {
   _count?: {
     game_codes: number
   }
+  /** Sellable units; for bundles, complete sets of their components */
+  available_stock?: number
+  /** Active variants, cheapest first; empty unless sold in variants */
+  variants?: (Product & { available_stock?: number })[]
 }
 
 export type OrderWithDetails = Order & {
@@ -97,19 +104,29 @@ export const db = {
     findById: (id: string) =>
       prisma.profile.findUnique({ where: { id } }),
     
-    updateCreditBalance: (id: string, amount: number) =>
-      prisma.profile.update({
-        where: { id },
-        data: { credit_balance: amount, updated_at: new Date() }
+    // Balance changes are recorded as ledger adjustments
+    updateCreditBalance: (id: string, amount: number, adminId?: string) =>
+      prisma.$transaction(async (tx) => {
+        const profile = await tx.profile.findUniqueOrThrow({ where: { id } })
+        const difference = amount - Number(profile.credit_balance)
+        if (difference === 0) return null
+
+        return recordCreditTransaction(tx, {
+          userId: id,
+          type: 'adjustment',
+          amount: difference,
+          description: 'Balance set manually',
+          createdBy: adminId
+        })
       }),
     
-    incrementCreditBalance: (id: string, amount: number) =>
-      prisma.profile.update({
-        where: { id },
-        data: { 
-          credit_balance: { increment: amount },
-          updated_at: new Date()
-        }
+    incrementCreditBalance: (id: string, amount: number, adminId?: string) =>
+      recordCreditTransaction(prisma, {
+        userId: id,
+        type: 'adjustment',
+        amount,
+        description: 'Manual balance adjustment',
+        createdBy: adminId
       }),
     
     count: () => prisma.profile.count(),
@@ -134,12 +151,12 @@ export const db = {
         where: { 
           is_active: true,
           game_codes: {
-            some: { is_sold: false }
+            some: availableGameCodeWhere()
           }
         },
         include: {
           _count: {
-            select: { game_codes: { where: { is_sold: false } } }
+            select: { game_codes: { where: availableGameCodeWhere() } }
           }
         }
       }),
@@ -151,7 +168,8 @@ export const db = {
   gameCode: {
     findAvailable: (productId: string) =>
       prisma.gameCode.findFirst({
-        where: { product_id: productId, is_sold: false }
+        where: { product_id: productId, ...availableGameCodeWhere() },
+        orderBy: [{ expires_at: { sort: 'asc', nulls: 'last' } }, { created_at: 'asc' }]
       }),
     
     markAsSold: (id: string, orderId: string) =>
@@ -219,6 +237,7 @@ export const db = {
           data: {
             user_id: orderData.user_id,
             total_amount: orderData.total_amount,
+            subtotal: orderData.total_amount,
             payment_method: orderData.payment_method,
             status: 'pending'
           }
@@ -226,15 +245,13 @@ export const db = {
 
         // Create order items and assign game codes
         for (const item of orderData.items) {
-          // Find available game code
-          const gameCode = await tx.gameCode.findFirst({
-            where: { product_id: item.product_id, is_sold: false }
+          // Claim one code with a row lock so concurrent orders cannot share it
+          const [gameCode] = await claimGameCodes(tx, {
+            productId: item.product_id,
+            quantity: 1,
+            orderId: order.id
           })
 
-          if (!gameCode) {
-            throw new Error(`No available codes for product ${item.product_id}`)
-          }
-
           // Create order item
           await tx.orderItem.create({
             data: {
@@ -245,16 +262,6 @@ export const db = {
               unit_price: item.unit_price
             }
           })
-
-          // Mark game code as sold
-          await tx.gameCode.update({
-            where: { id: gameCode.id },
-            data: {
-              is_sold: true,
-              sold_at: new Date(),
-              order_id: order.id
-            }
-          })
         }
 
         // Update order status to completed
@@ -286,40 +293,21 @@ export const db = {
         orderBy: { created_at: 'desc' }
       }),
     
-    approve: (id: string, reviewerId: string, adminNotes?: string) =>
-      prisma.$transaction(async (tx) => {
-        const creditRequest = await tx.creditRequest.update({
-          where: { id },
-          data: {
-            status: 'approved',
-            reviewed_by: reviewerId,
-            reviewed_at: new Date(),
-            admin_notes: adminNotes
-          }
-        })
-
-        // Add credit to user's balance
-        await tx.profile.update({
-          where: { id: creditRequest.user_id },
-          data: {
-            credit_balance: { increment: creditRequest.amount },
-            updated_at: new Date()
-          }
-        })
-
-        return creditRequest
-      }),
+    // Both go through review_credit_request(), which locks the row and
+    // refuses requests that are no longer pending
+    approve: async (id: string, reviewerId: string, adminNotes?: string) => {
+      const rows = await prisma.$queryRaw<CreditRequest[]>`
+        SELECT * FROM review_credit_request(${id}::uuid, 'approve', ${adminNotes ?? null}, ${reviewerId}::uuid)
+      `
+      return rows[0]
+    },
     
-    reject: (id: string, reviewerId: string, adminNotes: string) =>
-      prisma.creditRequest.update({
-        where: { id },
-        data: {
-          status: 'rejected',
-          reviewed_by: reviewerId,
-          reviewed_at: new Date(),
-          admin_notes: adminNotes
-        }
-      }),
+    reject: async (id: string, reviewerId: string, adminNotes?: string) => {
+      const rows = await prisma.$queryRaw<CreditRequest[]>`
+        SELECT * FROM review_credit_request(${id}::uuid, 'reject', ${adminNotes ?? null}, ${reviewerId}::uuid)
+      `
+      return rows[0]
+    },
     
     count: () => prisma.creditRequest.count(),
   },
@@ -377,7 +365,7 @@ export const db = {
           platform: true,
           _count: {
             select: {
-              game_codes: { where: { is_sold: false } }
+              game_codes: { where: availableGameCodeWhere() }
             }
           }
         },
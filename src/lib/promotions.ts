@@ -0,0 +1,195 @@
+/**
+ * Promotions Utility
+ *
+ * Validates discount codes and works out how much they take off a cart.
+ * Checkout pricing calls this for quotes and orders alike; order creation
+ * locks the promotion first so usage limits hold under concurrent checkouts.
+ */
+
+import { Prisma, PrismaClient, Promotion } from '@prisma/client'
+import { allocateAmount, toCents } from './pricing'
+
+export type DiscountType = 'percentage' | 'fixed'
+
+export const PROMOTION_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/
+
+/** Cart line as seen by a promotion */
+export interface PromotionLine {
+  productId: string
+  /** Parent product when the line is a variant, so parent-scoped promotions cover it */
+  parentId?: string | null
+  platform: string
+  lineTotalCents: number
+}
+
+export interface AppliedPromotion {
+  promotionId: string
+  code: string
+  label: string
+  /** Discount per cart line, in cents, in the order of the lines */
+  lineDiscountCents: number[]
+  discountCents: number
+}
+
+type PromotionClient = PrismaClient | Prisma.TransactionClient
+
+type PromotionScope = Pick<Promotion, 'product_ids' | 'platforms'>
+
+/**
+ * Normalize a discount code as typed by a customer or admin
+ * @param code - Code as entered, e.g. " summer10 "
+ * @returns Upper-case code, or null if empty
+ */
+export function normalizePromotionCode(code?: string | null): string | null {
+  const normalized = code?.trim().toUpperCase()
+  return normalized ? normalized : null
+}
+
+/**
+ * Check whether a cart line is covered by a promotion's scope. A promotion
+ * scoped to a product also covers that product's variants.
+ * @param promotion - Products and platforms the promotion is limited to
+ * @param line - Cart line
+ * @returns True if the promotion applies to the line
+ */
+export function isLineEligible(promotion: PromotionScope, line: Pick<PromotionLine, 'productId' | 'parentId' | 'platform'>): boolean {
+  if (promotion.product_ids.length === 0 && promotion.platforms.length === 0) {
+    return true
+  }
+
+  return promotion.product_ids.includes(line.productId) ||
+    (!!line.parentId && promotion.product_ids.includes(line.parentId)) ||
+    promotion.platforms.includes(line.platform)
+}
+
+/**
+ * Discount a promotion gives on a cart, spread over the eligible lines in
+ * proportion to their totals. A fixed discount never exceeds what the
+ * eligible lines cost.
+ * @param promotion - Discount type, value and scope
+ * @param lines - Cart lines
+ * @returns Discount per line in cents, in the order of `lines`
+ */
+export function calculatePromotionDiscount(
+  promotion: PromotionScope & Pick<Promotion, 'discount_type' | 'discount_value'>,
+  lines: PromotionLine[]
+): number[] {
+  const eligibleCents = lines.map(line => isLineEligible(promotion, line) ? line.lineTotalCents : 0)
+  const eligibleTotal = eligibleCents.reduce((sum, cents) => sum + cents, 0)
+
+  if (eligibleTotal === 0) {
+    return lines.map(() => 0)
+  }
+
+  const discountCents = promotion.discount_type === 'percentage'
+    ? Math.round(eligibleTotal * Number(promotion.discount_value))
+    : Math.min(toCents(promotion.discount_value), eligibleTotal)
+
+  return allocateAmount(discountCents, eligibleCents)
+}
+
+/**
+ * Lock a promotion row until the transaction ends, so two orders cannot both
+ * take its last use
+ * @param client - Prisma interactive transaction client
+ * @param code - Discount code as entered
+ * @returns The promotion id, or null if no promotion has the code
+ */
+export async function lockPromotion(client: Prisma.TransactionClient, code: string): Promise<string | null> {
+  const normalized = normalizePromotionCode(code)
+  if (!normalized) return null
+
+  const locked = await client.$queryRaw<Array<{ id: string }>>`
+    SELECT id FROM promotions WHERE code = ${normalized} FOR UPDATE
+  `
+
+  return locked[0]?.id ?? null
+}
+
+/**
+ * Validate a discount code for a cart and work out its discount
+ * @param client - Prisma client or interactive transaction client
+ * @param input - Code, the customer and the cart lines
+ * @returns The applied promotion with its discount per line
+ * @throws Error explaining why the code cannot be used
+ */
+export async function applyPromotion(
+  client: PromotionClient,
+  input: { code: string; userId?: string; lines: PromotionLine[]; now?: Date }
+): Promise<AppliedPromotion> {
+  const code = normalizePromotionCode(input.code) ?? ''
+  const now = input.now ?? new Date()
+
+  const promotion = await client.promotion.findUnique({ where: { code } })
+
+  if (!promotion || !promotion.is_active) {
+    throw new Error(`Discount code ${code} is not valid`)
+  }
+
+  if (promotion.starts_at && promotion.starts_at > now) {
+    throw new Error(`Discount code ${code} is not active yet`)
+  }
+
+  if (promotion.ends_at && promotion.ends_at <= now) {
+    throw new Error(`Discount code ${code} has expired`)
+  }
+
+  const eligibleCents = input.lines
+    .filter(line => isLineEligible(promotion, line))
+    .reduce((sum, line) => sum + line.lineTotalCents, 0)
+
+  if (eligibleCents === 0) {
+    throw new Error(`Discount code ${code} does not apply to any item in your cart`)
+  }
+
+  if (eligibleCents < toCents(promotion.min_subtotal)) {
+    throw new Error(`Discount code ${code} requires a spend of at least $${Number(promotion.min_subtotal).toFixed(2)} on eligible items`)
+  }
+
+  if (promotion.max_redemptions !== null) {
+    const redemptions = await client.promotionRedemption.count({
+      where: { promotion_id: promotion.id }
+    })
+    if (redemptions >= promotion.max_redemptions) {
+      throw new Error(`Discount code ${code} has reached its usage limit`)
+    }
+  }
+
+  if (promotion.max_redemptions_per_user !== null && input.userId) {
+    const userRedemptions = await client.promotionRedemption.count({
+      where: { promotion_id: promotion.id, user_id: input.userId }
+    })
+    if (userRedemptions >= promotion.max_redemptions_per_user) {
+      throw new Error(`You have already used discount code ${code}`)
+    }
+  }
+
+  const lineDiscountCents = calculatePromotionDiscount(promotion, input.lines)
+
+  return {
+    promotionId: promotion.id,
+    code: promotion.code,
+    label: promotion.description || `Discount code ${promotion.code}`,
+    lineDiscountCents,
+    discountCents: lineDiscountCents.reduce((sum, cents) => sum + cents, 0),
+  }
+}
+
+/**
+ * Record that an order used a promotion. Must run in the order's transaction.
+ * @param client - Prisma interactive transaction client
+ * @param input - Promotion, order, customer and the discount given
+ */
+export async function recordPromotionRedemption(
+  client: Prisma.TransactionClient,
+  input: { promotionId: string; orderId: string; userId: string; amount: number }
+) {
+  return client.promotionRedemption.create({
+    data: {
+      promotion_id: input.promotionId,
+      order_id: input.orderId,
+      user_id: input.userId,
+      amount: input.amount,
+    }
+  })
+}
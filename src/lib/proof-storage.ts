@@ -0,0 +1,136 @@
+/**
+ * Payment Proof Storage
+ *
+ * Credit request payment proofs are kept in object storage rather than in the
+ * database. `PROOF_STORAGE_DRIVER` picks the backend: `local` (default) keeps
+ * files on the server's disk, `supabase` uses a private Supabase Storage
+ * bucket. Rows store only the object path and content type; proofs are viewed
+ * through short-lived signed URLs, and lists hand out a reference to
+ * `GET /api/credit-requests/[id]/proof` instead of the file or a signed URL
+ * per row.
+ */
+
+import { randomUUID } from 'crypto'
+import { createLocalProofStorage } from './local-proof-storage'
+import { createSupabaseProofStorage } from './supabase-proof-storage'
+
+/** Accepted proof file types and the extension they are stored under */
+export const PROOF_FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'application/pdf': 'pdf',
+}
+
+/** How long a signed proof URL stays valid */
+export const PROOF_URL_TTL_SECONDS = 5 * 60
+
+export type ProofStorageDriver = 'local' | 'supabase'
+
+export interface StoredProof {
+  data: Buffer
+  contentType: string
+}
+
+export interface ProofStorage {
+  driver: ProofStorageDriver
+  /** Store a new object; an existing object at the path is never replaced */
+  put(path: string, data: Buffer, contentType: string): Promise<void>
+  /** Read an object, or null if it does not exist */
+  get(path: string): Promise<StoredProof | null>
+  remove(path: string): Promise<void>
+  /** URL that serves the object until it expires, without further checks */
+  createSignedUrl(path: string, expiresInSeconds: number): Promise<string>
+}
+
+/** Proof columns of a credit request */
+export interface ProofRecord {
+  id: string
+  payment_proof_path: string | null
+  payment_proof_type: string | null
+  /** Legacy inline data URL, until moved by the proof migration */
+  payment_proof_url: string | null
+}
+
+/**
+ * Get the configured proof storage
+ * @param env - Environment to read the settings from (defaults to process.env)
+ * @returns Storage for the configured driver
+ * @throws Error if the driver is unknown or not configured
+ */
+export function getProofStorage(env: Record<string, string | undefined> = process.env): ProofStorage {
+  const driver = env.PROOF_STORAGE_DRIVER || 'local'
+
+  switch (driver) {
+    case 'local':
+      return createLocalProofStorage(env)
+    case 'supabase':
+      return createSupabaseProofStorage(env)
+    default:
+      throw new Error(`Unknown PROOF_STORAGE_DRIVER: ${driver}`)
+  }
+}
+
+/**
+ * Object path for a new proof, grouped by owner
+ * @param userId - Owner of the credit request
+ * @param contentType - Accepted proof file type
+ * @param id - Object id, random by default
+ * @returns Path such as "<user id>/<id>.png"
+ * @throws Error if the file type is not accepted
+ */
+export function buildProofPath(userId: string, contentType: string, id: string = randomUUID()): string {
+  const extension = PROOF_FILE_EXTENSIONS[contentType]
+  if (!extension) {
+    throw new Error(`Unsupported payment proof type: ${contentType}`)
+  }
+  return `${userId}/${id}.${extension}`
+}
+
+/**
+ * Decode a legacy base64 data URL proof
+ * @param dataUrl - Value of payment_proof_url
+ * @returns File contents and type, or null if it is not a base64 data URL
+ */
+export function parseProofDataUrl(dataUrl: string): StoredProof | null {
+  const match = /^data:([^;,]+);base64,([\s\S]*)$/.exec(dataUrl)
+  if (!match) {
+    return null
+  }
+  return { contentType: match[1], data: Buffer.from(match[2], 'base64') }
+}
+
+/**
+ * Content type of a request's proof, also for legacy data URLs
+ * @param record - Proof columns of the credit request
+ * @returns Content type, or null without a proof
+ */
+export function getProofType(record: ProofRecord): string | null {
+  if (record.payment_proof_type) {
+    return record.payment_proof_type
+  }
+  return record.payment_proof_url?.match(/^data:([^;,]+)/)?.[1] ?? null
+}
+
+/**
+ * Lightweight reference to a request's proof for lists; the URL checks
+ * access and redirects to a freshly signed URL when opened
+ * @param requestId - Credit request id
+ * @returns Same-origin URL of the proof
+ */
+export function getProofReferenceUrl(requestId: string): string {
+  return `/api/credit-requests/${requestId}/proof`
+}
+
+/**
+ * URL to view a request's proof in a detail view
+ * @param storage - Proof storage
+ * @param record - Proof columns of the credit request
+ * @returns Signed URL for stored proofs, the proof reference for legacy data URLs, or null
+ */
+export async function createProofViewUrl(storage: ProofStorage, record: ProofRecord): Promise<string | null> {
+  if (record.payment_proof_path) {
+    return storage.createSignedUrl(record.payment_proof_path, PROOF_URL_TTL_SECONDS)
+  }
+  return record.payment_proof_url ? getProofReferenceUrl(record.id) : null
+}
@@ -0,0 +1,236 @@
+/**
+ * Payment Proof Validation
+ *
+ * Uploaded payment proofs are checked by their content, never by the MIME
+ * type the browser reports. Images are decoded and re-encoded, which drops
+ * EXIF and other metadata (location, device) and anything appended to the
+ * file; GIFs are stored as a PNG of their first frame. PDFs are structurally
+ * checked and refused if they are encrypted or carry scripts or attachments.
+ *
+ * Each proof gets a SHA-256 of the stored file and, for images, a 64-bit
+ * difference hash that survives resizing and recompression, so a screenshot
+ * reused on several credit requests can be flagged to admins.
+ */
+
+import { createHash } from 'crypto'
+import { Prisma, PrismaClient } from '@prisma/client'
+import sharp from 'sharp'
+
+type ProofClient = PrismaClient | Prisma.TransactionClient
+
+/** Largest image accepted, in pixels, so a small file cannot expand into a huge bitmap */
+export const MAX_PROOF_PIXELS = 40_000_000
+
+/** Differing bits up to which two image hashes count as the same picture */
+export const PHASH_MATCH_DISTANCE = 4
+
+/** How far from the end of a PDF its trailer may start */
+const PDF_TRAILER_WINDOW = 2048
+
+export interface ProcessedProof {
+  data: Buffer
+  contentType: string
+  sha256: string
+  /** Difference hash as 16 hex digits; null for PDFs */
+  phash: string | null
+}
+
+export interface DuplicateProof {
+  /** The other credit request using the same proof */
+  requestId: string
+  userId: string
+  userEmail: string | null
+  amount: number
+  status: string
+  createdAt: Date
+  match: 'exact' | 'similar'
+}
+
+/**
+ * Identify a proof file by its leading bytes
+ * @param data - File contents
+ * @returns Detected content type, or null if it is not an accepted format
+ */
+export function sniffProofType(data: Buffer): string | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg'
+  }
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png'
+  }
+  const header = data.subarray(0, 6).toString('latin1')
+  if (header === 'GIF87a' || header === 'GIF89a') {
+    return 'image/gif'
+  }
+  if (/^%PDF-\d\.\d/.test(data.subarray(0, 8).toString('latin1'))) {
+    return 'application/pdf'
+  }
+  return null
+}
+
+/**
+ * Check that a PDF is complete and free of active content
+ * @param data - PDF file contents
+ * @returns Why the PDF is refused, or null if it is acceptable
+ */
+export function checkPdfProof(data: Buffer): string | null {
+  const text = data.toString('latin1')
+  const trailer = text.slice(-PDF_TRAILER_WINDOW)
+
+  if (!trailer.includes('startxref') || !trailer.includes('%%EOF') || !/\d+\s+\d+\s+obj\b/.test(text)) {
+    return 'The PDF is damaged or incomplete. Please upload it again or send a screenshot instead.'
+  }
+  if (/\/Encrypt\b/.test(text)) {
+    return 'Password-protected PDFs cannot be reviewed. Please upload an unprotected copy.'
+  }
+  if (/\/(JavaScript|JS|Launch|EmbeddedFile)\b/.test(text)) {
+    return 'PDFs with scripts or attached files are not accepted.'
+  }
+  return null
+}
+
+/**
+ * Difference hash of an image: one bit per neighbouring pixel pair of a 9x8
+ * greyscale thumbnail, set when the left pixel is darker
+ * @param data - Image file contents
+ * @returns 16 hex digits
+ */
+export async function computeImageHash(data: Buffer): Promise<string> {
+  const pixels = await sharp(data, { limitInputPixels: MAX_PROOF_PIXELS })
+    .greyscale()
+    .resize(9, 8, { fit: 'fill' })
+    .raw()
+    .toBuffer()
+
+  let hash = ''
+  for (let row = 0; row < 8; row++) {
+    for (let nibble = 0; nibble < 2; nibble++) {
+      let value = 0
+      for (let bit = 0; bit < 4; bit++) {
+        const index = row * 9 + nibble * 4 + bit
+        value = (value << 1) | (pixels[index] < pixels[index + 1] ? 1 : 0)
+      }
+      hash += value.toString(16)
+    }
+  }
+  return hash
+}
+
+/**
+ * Number of differing bits between two difference hashes
+ * @param a - 16 hex digit hash
+ * @param b - 16 hex digit hash
+ */
+export function hashDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+/**
+ * Hashes of a proof as stored
+ * @param data - Stored file contents
+ * @param contentType - Stored content type
+ */
+export async function computeProofHashes(
+  data: Buffer,
+  contentType: string
+): Promise<{ sha256: string; phash: string | null }> {
+  return {
+    sha256: createHash('sha256').update(data).digest('hex'),
+    phash: contentType.startsWith('image/') ? await computeImageHash(data) : null,
+  }
+}
+
+/**
+ * Validate an uploaded proof and prepare it for storage
+ * @param data - Uploaded file contents
+ * @returns The file to store with its type and hashes, or why it was refused
+ */
+export async function processPaymentProof(data: Buffer): Promise<{ proof: ProcessedProof } | { error: string }> {
+  const sniffedType = sniffProofType(data)
+  if (!sniffedType) {
+    return { error: 'The file is not a JPEG, PNG, GIF or PDF. Please upload a screenshot or PDF of your payment.' }
+  }
+
+  if (sniffedType === 'application/pdf') {
+    const problem = checkPdfProof(data)
+    if (problem) {
+      return { error: problem }
+    }
+    return { proof: { data, contentType: sniffedType, ...(await computeProofHashes(data, sniffedType)) } }
+  }
+
+  let stored: Buffer
+  try {
+    // rotate() bakes the EXIF orientation into the pixels before metadata is dropped
+    const image = sharp(data, { limitInputPixels: MAX_PROOF_PIXELS, failOn: 'error' }).rotate()
+    stored = sniffedType === 'image/jpeg'
+      ? await image.jpeg({ quality: 90 }).toBuffer()
+      : await image.png().toBuffer()
+  } catch {
+    return { error: 'The image could not be read. Please upload a valid JPEG, PNG or GIF file.' }
+  }
+
+  const contentType = sniffedType === 'image/jpeg' ? 'image/jpeg' : 'image/png'
+  return { proof: { data: stored, contentType, ...(await computeProofHashes(stored, contentType)) } }
+}
+
+/**
+ * Find other credit requests whose proof matches, for each given request
+ * @param client - Prisma client
+ * @param requestIds - Credit requests to check
+ * @returns Matching requests per credit request id, oldest first; requests without matches are absent
+ */
+export async function findDuplicateProofs(
+  client: ProofClient,
+  requestIds: string[]
+): Promise<Map<string, DuplicateProof[]>> {
+  const duplicates = new Map<string, DuplicateProof[]>()
+  if (requestIds.length === 0) {
+    return duplicates
+  }
+
+  const rows = await client.$queryRaw<Array<{
+    request_id: string
+    duplicate_id: string
+    user_id: string
+    email: string | null
+    amount: Prisma.Decimal
+    status: string
+    created_at: Date
+    exact: boolean
+  }>>`
+    SELECT r.id AS request_id, o.id AS duplicate_id, o.user_id, p.email, o.amount, o.status, o.created_at,
+      (o.payment_proof_sha256 = r.payment_proof_sha256) AS exact
+    FROM credit_requests r
+    JOIN credit_requests o ON o.id <> r.id AND (
+      o.payment_proof_sha256 = r.payment_proof_sha256
+      OR bit_count(('x' || o.payment_proof_phash)::bit(64) # ('x' || r.payment_proof_phash)::bit(64)) <= ${PHASH_MATCH_DISTANCE}
+    )
+    LEFT JOIN profiles p ON p.id = o.user_id
+    WHERE r.id = ANY(${requestIds}::uuid[])
+    ORDER BY o.created_at
+  `
+
+  for (const row of rows) {
+    const list = duplicates.get(row.request_id) ?? []
+    list.push({
+      requestId: row.duplicate_id,
+      userId: row.user_id,
+      userEmail: row.email,
+      amount: Number(row.amount),
+      status: row.status,
+      createdAt: row.created_at,
+      match: row.exact ? 'exact' : 'similar',
+    })
+    duplicates.set(row.request_id, list)
+  }
+  return duplicates
+}
@@ -0,0 +1,154 @@
+/**
+ * Stock Alert Utility
+ *
+ * Low-stock detection for products. Each product has a `low_stock_threshold`
+ * (0 disables it); a checkout that takes sellable stock from at or above the
+ * threshold to below it records a `stock_alerts` row for admins. The dashboard
+ * estimates days of cover from recent sales velocity.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client'
+import { availableGameCodeWhere } from './inventory'
+
+// Sales look-back used for velocity when none is given
+export const DEFAULT_VELOCITY_DAYS = 14
+
+export interface LowStockProduct {
+  productId: string
+  productName: string
+  platform: string
+  availableCodes: number
+  threshold: number
+  /** Codes sold per day over the look-back window */
+  dailySales: number
+  /** Estimated days until stock runs out; null when nothing sold recently */
+  daysOfCover: number | null
+}
+
+export interface SoldProductQuantity {
+  productId: string
+  quantity: number
+}
+
+type StockClient = PrismaClient | Prisma.TransactionClient
+
+/**
+ * Estimate how long the remaining stock will last at the recent sales rate
+ * @param availableCodes - Sellable codes left
+ * @param soldInWindow - Codes sold during the look-back window
+ * @param windowDays - Length of the look-back window in days
+ * @returns Days of cover to one decimal place, or null with no recent sales
+ */
+export function calculateDaysOfCover(
+  availableCodes: number,
+  soldInWindow: number,
+  windowDays: number
+): number | null {
+  if (availableCodes === 0) return 0
+  if (soldInWindow === 0) return null
+  return Math.round((availableCodes / (soldInWindow / windowDays)) * 10) / 10
+}
+
+/**
+ * Record an alert for every product this checkout pushed below its threshold.
+ * Call inside the order transaction after the codes have been claimed, so the
+ * counted stock already excludes them.
+ * @param client - Prisma interactive transaction client
+ * @param orderId - Order that sold the codes
+ * @param items - Quantity sold per product
+ * @returns Ids of products an alert was raised for
+ */
+export async function recordLowStockAlerts(
+  client: StockClient,
+  orderId: string,
+  items: SoldProductQuantity[]
+): Promise<string[]> {
+  const soldByProduct = new Map<string, number>()
+  items.forEach(item => {
+    soldByProduct.set(item.productId, (soldByProduct.get(item.productId) ?? 0) + item.quantity)
+  })
+
+  const alerts: Prisma.StockAlertCreateManyInput[] = []
+
+  for (const [productId, quantity] of Array.from(soldByProduct.entries())) {
+    const product = await client.product.findUnique({
+      where: { id: productId },
+      select: { low_stock_threshold: true },
+    })
+    if (!product || product.low_stock_threshold === 0) continue
+
+    const availableCodes = await client.gameCode.count({
+      where: { product_id: productId, ...availableGameCodeWhere() },
+    })
+
+    // Only the checkout that crosses the threshold raises an alert
+    const threshold = product.low_stock_threshold
+    if (availableCodes < threshold && availableCodes + quantity >= threshold) {
+      alerts.push({ product_id: productId, order_id: orderId, available_codes: availableCodes, threshold })
+    }
+  }
+
+  if (alerts.length > 0) {
+    // A product with an unacknowledged alert keeps it rather than gaining a second
+    await client.stockAlert.createMany({ data: alerts, skipDuplicates: true })
+  }
+
+  return alerts.map(alert => alert.product_id)
+}
+
+/**
+ * Active products whose sellable stock is below their threshold
+ * @param client - Prisma client
+ * @param velocityDays - Sales look-back window for the velocity estimate
+ * @param now - Reference time, defaults to the current time
+ * @returns Low-stock products, shortest days of cover first
+ */
+export async function getLowStockProducts(
+  client: StockClient,
+  velocityDays: number = DEFAULT_VELOCITY_DAYS,
+  now: Date = new Date()
+): Promise<LowStockProduct[]> {
+  // Bundles and products sold in variants have no codes of their own; their
+  // components and variants are tracked instead
+  const products = await client.product.findMany({
+    where: { is_active: true, product_type: 'single', variants: { none: {} }, low_stock_threshold: { gt: 0 } },
+    select: {
+      id: true,
+      name: true,
+      platform: true,
+      low_stock_threshold: true,
+      _count: { select: { game_codes: { where: availableGameCodeWhere(now) } } },
+    },
+  })
+
+  const lowStock = products.filter(product => product._count.game_codes < product.low_stock_threshold)
+  if (lowStock.length === 0) {
+    return []
+  }
+
+  const windowStart = new Date(now.getTime() - velocityDays * 24 * 60 * 60 * 1000)
+  const recentSales = await client.gameCode.groupBy({
+    by: ['product_id'],
+    where: {
+      product_id: { in: lowStock.map(product => product.id) },
+      is_sold: true,
+      sold_at: { gte: windowStart },
+    },
+    _count: { id: true },
+  })
+
+  return lowStock
+    .map(product => {
+      const sold = recentSales.find(row => row.product_id === product.id)?._count.id ?? 0
+      return {
+        productId: product.id,
+        productName: product.name,
+        platform: product.platform,
+        availableCodes: product._count.game_codes,
+        threshold: product.low_stock_threshold,
+        dailySales: Math.round((sold / velocityDays) * 10) / 10,
+        daysOfCover: calculateDaysOfCover(product._count.game_codes, sold, velocityDays),
+      }
+    })
+    .sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity))
+}
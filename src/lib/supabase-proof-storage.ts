@@ -0,0 +1,69 @@
+/**
+ * Supabase Storage Proof Storage
+ *
+ * Keeps payment proofs in a private Supabase Storage bucket
+ * (`PROOF_STORAGE_BUCKET`, default `payment-proofs`). The server talks to
+ * Storage with the service role key; buyers and admins only ever get
+ * Supabase's own short-lived signed URLs.
+ */
+
+import { createClient } from '@supabase/supabase-js'
+import type { ProofStorage } from './proof-storage'
+
+export const DEFAULT_PROOF_BUCKET = 'payment-proofs'
+
+/**
+ * Create the Supabase Storage proof storage
+ * @param env - Environment to read the settings from
+ * @throws Error if the Supabase URL or service role key is missing
+ */
+export function createSupabaseProofStorage(env: Record<string, string | undefined>): ProofStorage {
+  const url = env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !serviceRoleKey) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for Supabase proof storage')
+  }
+
+  const supabase = createClient(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+  const bucket = () => supabase.storage.from(env.PROOF_STORAGE_BUCKET || DEFAULT_PROOF_BUCKET)
+
+  return {
+    driver: 'supabase',
+
+    async put(path, data, contentType) {
+      const { error } = await bucket().upload(path, data, { contentType, upsert: false })
+      if (error) {
+        throw new Error(`Failed to store payment proof: ${error.message}`)
+      }
+    },
+
+    async get(path) {
+      const { data, error } = await bucket().download(path)
+      // Storage does not tell a missing object apart from other failures here
+      if (error || !data) {
+        return null
+      }
+      return {
+        data: Buffer.from(await data.arrayBuffer()),
+        contentType: data.type || 'application/octet-stream',
+      }
+    },
+
+    async remove(path) {
+      const { error } = await bucket().remove([path])
+      if (error) {
+        throw new Error(`Failed to remove payment proof: ${error.message}`)
+      }
+    },
+
+    async createSignedUrl(path, expiresInSeconds) {
+      const { data, error } = await bucket().createSignedUrl(path, expiresInSeconds)
+      if (error || !data) {
+        throw new Error(`Failed to sign payment proof URL: ${error?.message ?? 'no URL returned'}`)
+      }
+      return data.signedUrl
+    },
+  }
+}
@@ -49,7 +49,7 @@ export async function updateSession(request: NextRequest, requestHeaders?: Heade
 
   // Define protected routes that require authentication
   const isProtectedRoute = (pathname: string) => {
-    const protectedRoutes = ['/admin', '/profile', '/orders', '/credits']
+    const protectedRoutes = ['/admin', '/profile', '/orders', '/credits', '/payments']
     return protectedRoutes.some(route => pathname.startsWith(route))
   }
 
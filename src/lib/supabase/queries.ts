@@ -1,6 +1,8 @@
 import { createClient } from './server'
 import { createClient as createBrowserClient } from './client'
 import type { Database } from '@/types/database'
+import { prisma } from '@/lib/prisma'
+import { recordCreditTransaction } from '@/lib/credit-ledger'
 
 type Tables = Database['public']['Tables']
 type Profile = Tables['profiles']['Row']
@@ -126,6 +128,8 @@ export async function getUserCreditRequests(userId: string): Promise<CreditReque
 
 /**
  * Update user credit balance
+ * Recorded as a manual adjustment in the credit ledger, over the server's
+ * database connection since the ledger functions are not exposed to clients
  * @param userId - User ID
  * @param amount - Amount to add/subtract
  * @returns Success boolean
@@ -134,14 +138,14 @@ export async function updateUserCreditBalance(
   userId: string, 
   amount: number
 ): Promise<boolean> {
-  const supabase = await createClient()
-  
-  const { error } = await supabase.rpc('update_credit_balance', {
-    user_id: userId,
-    amount_change: amount
-  })
-
-  if (error) {
+  try {
+    await recordCreditTransaction(prisma, {
+      userId,
+      type: 'adjustment',
+      amount,
+      description: 'Manual balance adjustment',
+    })
+  } catch (error) {
     console.error('Error updating credit balance:', error)
     return false
   }
@@ -0,0 +1,157 @@
+/**
+ * Product Variants Utility
+ *
+ * A parent product can be sold in several priced variants, e.g. gift card
+ * denominations. Each variant is a product of its own with its own price and
+ * code pool; the parent groups them on the storefront and holds no codes.
+ * Variants take their description, platform and image from the parent and
+ * are named "<parent name> <label>".
+ */
+
+import { Prisma } from '@prisma/client'
+
+export interface VariantInput {
+  /** Existing variant to update; omit to create a new one */
+  id?: string
+  label: string
+  price: number
+  isActive: boolean
+}
+
+/**
+ * Display name of a variant
+ * @param parentName - Name of the parent product
+ * @param label - Variant label, e.g. "$25"
+ * @returns Name stored on the variant product
+ */
+export function variantName(parentName: string, label: string): string {
+  return `${parentName} ${label.trim()}`
+}
+
+/**
+ * Lowest price among a product's active variants
+ * @param variants - Variants with their price and active flag
+ * @returns The starting price, or null if no variant is active
+ */
+export function getStartingPrice(
+  variants: Array<{ price: number | Prisma.Decimal; is_active: boolean }>
+): number | null {
+  const prices = variants.filter(variant => variant.is_active).map(variant => Number(variant.price))
+  return prices.length > 0 ? Math.min(...prices) : null
+}
+
+/**
+ * Replace a parent product's variants. Variants left out of the list are
+ * deleted, or deactivated if they have codes or are part of a bundle, so
+ * order history stays intact. Must run inside a transaction.
+ * @param client - Prisma interactive transaction client
+ * @param parentId - Parent product
+ * @param variants - Variants to keep or create
+ * @returns The parent's variants, cheapest first
+ * @throws Error if the product cannot have variants or a label is repeated
+ */
+export async function setProductVariants(
+  client: Prisma.TransactionClient,
+  parentId: string,
+  variants: VariantInput[]
+) {
+  const parent = await client.product.findUnique({
+    where: { id: parentId },
+    include: {
+      variants: { select: { id: true } },
+      _count: { select: { game_codes: true } },
+    },
+  })
+
+  if (!parent) {
+    throw new Error('Product not found')
+  }
+
+  if (parent.parent_id) {
+    throw new Error('A variant cannot have variants of its own')
+  }
+
+  if (parent.product_type !== 'single') {
+    throw new Error('Bundles cannot have variants')
+  }
+
+  if (parent._count.game_codes > 0) {
+    throw new Error('Products with codes of their own cannot have variants')
+  }
+
+  const labels = variants.map(variant => variant.label.trim().toLowerCase())
+  if (new Set(labels).size !== labels.length) {
+    throw new Error('Each variant label can only be used once')
+  }
+
+  const existingIds = new Set(parent.variants.map(variant => variant.id))
+  const unknown = variants.find(variant => variant.id && !existingIds.has(variant.id))
+  if (unknown) {
+    throw new Error(`Variant ${unknown.label} does not belong to this product`)
+  }
+
+  // Removed variants go first so the labels of deleted ones can be reused
+  const keptIds = new Set(variants.map(variant => variant.id).filter(Boolean))
+  const removedIds = parent.variants.map(variant => variant.id).filter(id => !keptIds.has(id))
+  if (removedIds.length > 0) {
+    const inUse = await client.product.findMany({
+      where: {
+        id: { in: removedIds },
+        OR: [{ game_codes: { some: {} } }, { bundled_in: { some: {} } }],
+      },
+      select: { id: true },
+    })
+    const inUseIds = inUse.map(variant => variant.id)
+
+    if (inUseIds.length > 0) {
+      await client.product.updateMany({
+        where: { id: { in: inUseIds } },
+        data: { is_active: false },
+      })
+    }
+    await client.product.deleteMany({
+      where: { id: { in: removedIds.filter(id => !inUseIds.includes(id)) } },
+    })
+  }
+
+  for (const variant of variants) {
+    const label = variant.label.trim()
+    const data = {
+      name: variantName(parent.name, label),
+      variant_label: label,
+      price: variant.price,
+      is_active: variant.isActive,
+    }
+
+    if (variant.id) {
+      await client.product.update({ where: { id: variant.id }, data })
+    } else {
+      await client.product.create({
+        data: {
+          ...data,
+          parent_id: parent.id,
+          description: parent.description,
+          platform: parent.platform,
+          image_url: parent.image_url,
+          low_stock_threshold: parent.low_stock_threshold,
+        },
+      })
+    }
+  }
+
+  const saved = await client.product.findMany({
+    where: { parent_id: parentId },
+    orderBy: [{ price: 'asc' }, { created_at: 'asc' }],
+  })
+
+  // The parent's price is the "from" price shown in listings
+  const startingPrice = getStartingPrice(saved)
+  if (startingPrice !== null) {
+    await client.product.update({
+      where: { id: parentId },
+      data: { price: startingPrice },
+    })
+  }
+
+  return saved
+}
@@ -6,7 +6,13 @@
 
 export interface CartItem {
   id: string
+  /** Product the codes come from; for products sold in variants, the chosen
+   * variant, so each denomination is its own cart line */
   productId: string
+  /** Product a variant belongs to */
+  parentProductId?: string
+  /** Denomination of a variant, e.g. "$25" */
+  variantLabel?: string
   name: string
   price: number
   platform: string
@@ -15,6 +21,32 @@ export interface CartItem {
   maxStock: number
 }
 
+/** Current state of a cart product, as returned by POST /api/cart/validate */
+export interface CartProductStatus {
+  productId: string
+  name: string
+  price: number
+  platform: string
+  imageUrl: string | null
+  parentProductId: string | null
+  variantLabel: string | null
+  /** False when the product, or the product it is a variant of, is off sale */
+  isActive: boolean
+  availableStock: number
+}
+
+/** A saved cart line of a signed-in user, with its product's current state */
+export interface SavedCartLine extends CartProductStatus {
+  quantity: number
+}
+
+/** Something that changed about a cart line since it was added */
+export interface CartChange {
+  productId: string
+  type: 'removed' | 'quantity_reduced' | 'price_changed'
+  message: string
+}
+
 export interface CartState {
   items: CartItem[]
   totalItems: number
@@ -42,4 +74,7 @@ export interface CartContextType {
   toggleCart: () => void
   openCart: () => void
   closeCart: () => void
+  /** Refresh prices and stock from the server; resolves to what changed */
+  validateCart: () => Promise<CartChange[]>
+  isValidating: boolean
 } 
\ No newline at end of file
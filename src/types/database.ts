@@ -44,6 +44,10 @@ export interface Database {
           price: number
           image_url: string | null
           is_active: boolean
+          low_stock_threshold: number
+          product_type: 'single' | 'bundle'
+          parent_id: string | null
+          variant_label: string | null
           created_at: string
           updated_at: string
         }
@@ -55,6 +59,10 @@ export interface Database {
           price: number
           image_url?: string | null
           is_active?: boolean
+          low_stock_threshold?: number
+          product_type?: 'single' | 'bundle'
+          parent_id?: string | null
+          variant_label?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -66,6 +74,8 @@ export interface Database {
           price?: number
           image_url?: string | null
           is_active?: boolean
+          low_stock_threshold?: number
+          variant_label?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -75,6 +85,14 @@ export interface Database {
           id: string
           product_id: string
           encrypted_code: string
+          code_fingerprint: string | null
+          encrypted_pin: string | null
+          expires_at: string | null
+          denomination: string | null
+          supplier_batch_ref: string | null
+          import_id: string | null
+          batch_id: string | null
+          status: 'available' | 'reserved' | 'sold' | 'refunded' | 'defective' | 'voided'
           is_sold: boolean
           sold_at: string | null
           order_id: string | null
@@ -84,6 +102,14 @@ export interface Database {
           id?: string
           product_id: string
           encrypted_code: string
+          code_fingerprint?: string | null
+          encrypted_pin?: string | null
+          expires_at?: string | null
+          denomination?: string | null
+          supplier_batch_ref?: string | null
+          import_id?: string | null
+          batch_id?: string | null
+          status?: 'available' | 'reserved' | 'sold' | 'refunded' | 'defective' | 'voided'
           is_sold?: boolean
           sold_at?: string | null
           order_id?: string | null
@@ -93,6 +119,14 @@ export interface Database {
           id?: string
           product_id?: string
           encrypted_code?: string
+          code_fingerprint?: string | null
+          encrypted_pin?: string | null
+          expires_at?: string | null
+          denomination?: string | null
+          supplier_batch_ref?: string | null
+          import_id?: string | null
+          batch_id?: string | null
+          status?: 'available' | 'reserved' | 'sold' | 'refunded' | 'defective' | 'voided'
           is_sold?: boolean
           sold_at?: string | null
           order_id?: string | null
@@ -104,24 +138,60 @@ export interface Database {
           id: string
           user_id: string
           total_amount: number
+          subtotal: number
+          discount_total: number
+          tax_total: number
+          fee_total: number
+          tax_region: string | null
+          tax_rate: number | null
+          price_breakdown: unknown | null
+          promotion_code: string | null
           payment_method: string
           status: 'pending' | 'completed' | 'cancelled'
+          payment_expires_at: string | null
+          paid_at: string | null
+          payment_reference: string | null
+          payment_confirmed_by: string | null
           created_at: string
         }
         Insert: {
           id?: string
           user_id: string
           total_amount: number
+          subtotal: number
+          discount_total?: number
+          tax_total?: number
+          fee_total?: number
+          tax_region?: string | null
+          tax_rate?: number | null
+          price_breakdown?: unknown | null
+          promotion_code?: string | null
           payment_method: string
           status?: 'pending' | 'completed' | 'cancelled'
+          payment_expires_at?: string | null
+          paid_at?: string | null
+          payment_reference?: string | null
+          payment_confirmed_by?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           user_id?: string
           total_amount?: number
+          subtotal?: number
+          discount_total?: number
+          tax_total?: number
+          fee_total?: number
+          tax_region?: string | null
+          tax_rate?: number | null
+          price_breakdown?: unknown | null
+          promotion_code?: string | null
           payment_method?: string
           status?: 'pending' | 'completed' | 'cancelled'
+          payment_expires_at?: string | null
+          paid_at?: string | null
+          payment_reference?: string | null
+          payment_confirmed_by?: string | null
           created_at?: string
         }
       }
@@ -133,6 +203,9 @@ export interface Database {
           game_code_id: string | null
           quantity: number
           unit_price: number
+          tax_amount: number
+          discount_amount: number
+          order_bundle_id: string | null
           created_at: string
         }
         Insert: {
@@ -142,6 +215,9 @@ export interface Database {
           game_code_id?: string | null
           quantity: number
           unit_price: number
+          tax_amount?: number
+          discount_amount?: number
+          order_bundle_id?: string | null
           created_at?: string
         }
         Update: {
@@ -151,6 +227,9 @@ export interface Database {
           game_code_id?: string | null
           quantity?: number
           unit_price?: number
+          tax_amount?: number
+          discount_amount?: number
+          order_bundle_id?: string | null
           created_at?: string
         }
       }
@@ -159,7 +238,15 @@ export interface Database {
           id: string
           user_id: string
           amount: number
+          payment_method: string | null
+          notes: string | null
+          reference_number: string | null
+          payer_name: string | null
           payment_proof_url: string | null
+          payment_proof_path: string | null
+          payment_proof_type: string | null
+          payment_proof_sha256: string | null
+          payment_proof_phash: string | null
           status: 'pending' | 'approved' | 'rejected'
           admin_notes: string | null
           reviewed_by: string | null
@@ -170,7 +257,15 @@ export interface Database {
           id?: string
           user_id: string
           amount: number
+          payment_method?: string | null
+          notes?: string | null
+          reference_number?: string | null
+          payer_name?: string | null
           payment_proof_url?: string | null
+          payment_proof_path?: string | null
+          payment_proof_type?: string | null
+          payment_proof_sha256?: string | null
+          payment_proof_phash?: string | null
           status?: 'pending' | 'approved' | 'rejected'
           admin_notes?: string | null
           reviewed_by?: string | null
@@ -181,7 +276,15 @@ export interface Database {
           id?: string
           user_id?: string
           amount?: number
+          payment_method?: string | null
+          notes?: string | null
+          reference_number?: string | null
+          payer_name?: string | null
           payment_proof_url?: string | null
+          payment_proof_path?: string | null
+          payment_proof_type?: string | null
+          payment_proof_sha256?: string | null
+          payment_proof_phash?: string | null
           status?: 'pending' | 'approved' | 'rejected'
           admin_notes?: string | null
           reviewed_by?: string | null
@@ -189,9 +292,585 @@ export interface Database {
           created_at?: string
         }
       }
+      credit_transactions: {
+        Row: {
+          id: string
+          user_id: string
+          type: 'top_up' | 'purchase' | 'refund' | 'adjustment'
+          amount: number
+          balance_after: number
+          description: string | null
+          order_id: string | null
+          credit_request_id: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          type: 'top_up' | 'purchase' | 'refund' | 'adjustment'
+          amount: number
+          balance_after: number
+          description?: string | null
+          order_id?: string | null
+          credit_request_id?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          [_ in never]: never
+        }
+      }
+      code_imports: {
+        Row: {
+          id: string
+          product_id: string
+          created_by: string
+          file_name: string
+          file_type: 'csv' | 'xlsx'
+          column_mapping: Record<string, string>
+          status: 'processing' | 'completed' | 'failed'
+          total_rows: number
+          imported_rows: number
+          duplicate_rows: number
+          error_rows: number
+          report: { issues: Array<{ row: number; status: 'error' | 'duplicate'; message: string }>; truncated: boolean } | null
+          error_message: string | null
+          created_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          created_by: string
+          file_name: string
+          file_type: 'csv' | 'xlsx'
+          column_mapping: Record<string, string>
+          status?: 'processing' | 'completed' | 'failed'
+          total_rows?: number
+          imported_rows?: number
+          duplicate_rows?: number
+          error_rows?: number
+          report?: { issues: Array<{ row: number; status: 'error' | 'duplicate'; message: string }>; truncated: boolean } | null
+          error_message?: string | null
+          created_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          status?: 'processing' | 'completed' | 'failed'
+          total_rows?: number
+          imported_rows?: number
+          duplicate_rows?: number
+          error_rows?: number
+          report?: { issues: Array<{ row: number; status: 'error' | 'duplicate'; message: string }>; truncated: boolean } | null
+          error_message?: string | null
+          completed_at?: string | null
+        }
+      }
+      code_batches: {
+        Row: {
+          id: string
+          product_id: string
+          supplier: string
+          purchase_date: string
+          unit_cost: number
+          currency: string
+          invoice_reference: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          supplier: string
+          purchase_date?: string
+          unit_cost: number
+          currency?: string
+          invoice_reference?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          supplier?: string
+          purchase_date?: string
+          unit_cost?: number
+          currency?: string
+          invoice_reference?: string | null
+        }
+      }
+      tax_rules: {
+        Row: {
+          id: string
+          region: string
+          name: string
+          rate: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          region: string
+          name: string
+          rate: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          name?: string
+          rate?: number
+          is_active?: boolean
+          updated_at?: string
+        }
+      }
+      checkout_fees: {
+        Row: {
+          id: string
+          name: string
+          payment_method: 'credit' | 'external' | null
+          percent_rate: number
+          fixed_amount: number
+          is_active: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          payment_method?: 'credit' | 'external' | null
+          percent_rate?: number
+          fixed_amount?: number
+          is_active?: boolean
+          created_at?: string
+        }
+        Update: {
+          name?: string
+          payment_method?: 'credit' | 'external' | null
+          percent_rate?: number
+          fixed_amount?: number
+          is_active?: boolean
+        }
+      }
+      promotions: {
+        Row: {
+          id: string
+          code: string
+          description: string | null
+          discount_type: 'percentage' | 'fixed'
+          discount_value: number
+          product_ids: string[]
+          platforms: string[]
+          min_subtotal: number
+          max_redemptions: number | null
+          max_redemptions_per_user: number | null
+          starts_at: string | null
+          ends_at: string | null
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          code: string
+          description?: string | null
+          discount_type: 'percentage' | 'fixed'
+          discount_value: number
+          product_ids?: string[]
+          platforms?: string[]
+          min_subtotal?: number
+          max_redemptions?: number | null
+          max_redemptions_per_user?: number | null
+          starts_at?: string | null
+          ends_at?: string | null
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          description?: string | null
+          min_subtotal?: number
+          max_redemptions?: number | null
+          max_redemptions_per_user?: number | null
+          starts_at?: string | null
+          ends_at?: string | null
+          is_active?: boolean
+          updated_at?: string
+        }
+      }
+      promotion_redemptions: {
+        Row: {
+          id: string
+          promotion_id: string
+          order_id: string
+          user_id: string
+          amount: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          promotion_id: string
+          order_id: string
+          user_id: string
+          amount: number
+          created_at?: string
+        }
+        Update: {
+          amount?: number
+        }
+      }
+      bundle_components: {
+        Row: {
+          id: string
+          bundle_id: string
+          component_id: string
+          quantity: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          bundle_id: string
+          component_id: string
+          quantity: number
+          created_at?: string
+        }
+        Update: {
+          quantity?: number
+        }
+      }
+      order_bundles: {
+        Row: {
+          id: string
+          order_id: string
+          product_id: string
+          quantity: number
+          unit_price: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          product_id: string
+          quantity: number
+          unit_price: number
+          created_at?: string
+        }
+        Update: {
+          quantity?: number
+        }
+      }
+      cart_items: {
+        Row: {
+          id: string
+          user_id: string
+          product_id: string
+          quantity: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          product_id: string
+          quantity: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          quantity?: number
+          updated_at?: string
+        }
+      }
+      stock_alerts: {
+        Row: {
+          id: string
+          product_id: string
+          order_id: string | null
+          available_codes: number
+          threshold: number
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          order_id?: string | null
+          available_codes: number
+          threshold: number
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+        }
+      }
+      game_code_status_changes: {
+        Row: {
+          id: string
+          game_code_id: string
+          from_status: 'available' | 'reserved' | 'sold' | 'refunded' | 'defective' | 'voided'
+          to_status: 'available' | 'reserved' | 'sold' | 'refunded' | 'defective' | 'voided'
+          reason: string
+          order_id: string | null
+          changed_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          game_code_id: string
+          from_status: 'available' | 'reserved' | 'sold' | 'refunded' | 'defective' | 'voided'
+          to_status: 'available' | 'reserved' | 'sold' | 'refunded' | 'defective' | 'voided'
+          reason: string
+          order_id?: string | null
+          changed_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          [_ in never]: never
+        }
+      }
+      code_disputes: {
+        Row: {
+          id: string
+          order_item_id: string
+          order_id: string
+          game_code_id: string
+          user_id: string
+          reason: string
+          status: 'open' | 'replaced' | 'refunded' | 'rejected'
+          resolution_note: string | null
+          replacement_order_item_id: string | null
+          refund_amount: number | null
+          resolved_by: string | null
+          resolved_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          order_item_id: string
+          order_id: string
+          game_code_id: string
+          user_id: string
+          reason: string
+          status?: 'open' | 'replaced' | 'refunded' | 'rejected'
+          resolution_note?: string | null
+          replacement_order_item_id?: string | null
+          refund_amount?: number | null
+          resolved_by?: string | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          status?: 'open' | 'replaced' | 'refunded' | 'rejected'
+          resolution_note?: string | null
+          replacement_order_item_id?: string | null
+          refund_amount?: number | null
+          resolved_by?: string | null
+          resolved_at?: string | null
+        }
+      }
+      order_refunds: {
+        Row: {
+          id: string
+          order_id: string
+          amount: number
+          reason: string
+          code_action: 'restock' | 'void'
+          credit_transaction_id: string | null
+          payment_intent_id: string | null
+          provider_refund_id: string | null
+          refunded_by: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          amount: number
+          reason: string
+          code_action: 'restock' | 'void'
+          credit_transaction_id?: string | null
+          payment_intent_id?: string | null
+          provider_refund_id?: string | null
+          refunded_by: string
+          created_at?: string
+        }
+        Update: {
+          [_ in never]: never
+        }
+      }
+      order_refund_items: {
+        Row: {
+          id: string
+          refund_id: string
+          order_item_id: string
+          game_code_id: string | null
+          amount: number
+          code_outcome: 'restocked' | 'voided' | 'refunded'
+        }
+        Insert: {
+          id?: string
+          refund_id: string
+          order_item_id: string
+          game_code_id?: string | null
+          amount: number
+          code_outcome: 'restocked' | 'voided' | 'refunded'
+        }
+        Update: {
+          [_ in never]: never
+        }
+      }
+      game_code_reveals: {
+        Row: {
+          id: string
+          game_code_id: string
+          order_id: string
+          user_id: string
+          ip_address: string | null
+          user_agent: string | null
+          by_admin: boolean
+          revealed_at: string
+        }
+        Insert: {
+          id?: string
+          game_code_id: string
+          order_id: string
+          user_id: string
+          ip_address?: string | null
+          user_agent?: string | null
+          by_admin?: boolean
+          revealed_at?: string
+        }
+        Update: {
+          [_ in never]: never
+        }
+      }
+      idempotency_keys: {
+        Row: {
+          id: string
+          user_id: string
+          key: string
+          scope: string
+          request_hash: string
+          order_id: string | null
+          response_status: number | null
+          response_body: unknown | null
+          response_hash: string | null
+          created_at: string
+          expires_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          key: string
+          scope: string
+          request_hash: string
+          order_id?: string | null
+          response_status?: number | null
+          response_body?: unknown | null
+          response_hash?: string | null
+          created_at?: string
+          expires_at: string
+        }
+        Update: {
+          order_id?: string | null
+          response_status?: number | null
+          response_body?: unknown | null
+          response_hash?: string | null
+          expires_at?: string
+        }
+      }
+      payment_provider_settings: {
+        Row: {
+          provider: string
+          is_enabled: boolean
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          provider: string
+          is_enabled?: boolean
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          is_enabled?: boolean
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      payment_intents: {
+        Row: {
+          id: string
+          provider: string
+          provider_intent_id: string | null
+          purpose: 'order' | 'credit_top_up'
+          user_id: string
+          order_id: string | null
+          amount: number
+          refunded_amount: number
+          status: 'requires_payment' | 'succeeded' | 'failed'
+          checkout_url: string | null
+          failure_reason: string | null
+          credit_transaction_id: string | null
+          succeeded_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          provider: string
+          provider_intent_id?: string | null
+          purpose: 'order' | 'credit_top_up'
+          user_id: string
+          order_id?: string | null
+          amount: number
+          refunded_amount?: number
+          status?: 'requires_payment' | 'succeeded' | 'failed'
+          checkout_url?: string | null
+          failure_reason?: string | null
+          credit_transaction_id?: string | null
+          succeeded_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          provider_intent_id?: string | null
+          refunded_amount?: number
+          status?: 'requires_payment' | 'succeeded' | 'failed'
+          checkout_url?: string | null
+          failure_reason?: string | null
+          credit_transaction_id?: string | null
+          succeeded_at?: string | null
+          updated_at?: string
+        }
+      }
     }
     Views: {
-      [_ in never]: never
+      credit_balance_discrepancies: {
+        Row: {
+          user_id: string
+          email: string
+          stored_balance: number
+          ledger_balance: number
+          difference: number
+        }
+      }
+      product_margins: {
+        Row: {
+          product_id: string
+          sold_codes: number
+          revenue: number
+          costed_revenue: number
+          cost: number
+          uncosted_codes: number
+        }
+      }
     }
     Functions: {
       [_ in never]: never
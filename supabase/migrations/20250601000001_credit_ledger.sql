@@ -0,0 +1,179 @@
+-- Double-entry credit ledger
+-- Every change to profiles.credit_balance is recorded as an immutable entry in
+-- credit_transactions. The stored balance is a cache of SUM(amount) per user and
+-- is only ever written by record_credit_transaction(), which only the server's
+-- own database connection (Prisma) may call.
+
+CREATE TABLE credit_transactions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('top_up', 'purchase', 'refund', 'adjustment')),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount <> 0), -- positive = credit, negative = debit
+  balance_after DECIMAL(10,2) NOT NULL,
+  description TEXT,
+  order_id UUID REFERENCES orders(id),
+  credit_request_id UUID REFERENCES credit_requests(id),
+  created_by UUID REFERENCES profiles(id), -- admin who made the change, NULL for system entries
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_credit_transactions_user_id ON credit_transactions(user_id, created_at DESC);
+CREATE INDEX idx_credit_transactions_order_id ON credit_transactions(order_id);
+CREATE INDEX idx_credit_transactions_credit_request_id ON credit_transactions(credit_request_id);
+
+-- Ledger entries are append-only: never updated, and never deleted (which
+-- also refuses deleting a profile that has credit history) outside the
+-- clear_credit_ledger() maintenance path below
+CREATE OR REPLACE FUNCTION prevent_credit_transaction_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND current_setting('app.credit_ledger_maintenance', true) = 'on' THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'credit_transactions entries are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER credit_transactions_immutable BEFORE UPDATE OR DELETE ON credit_transactions
+  FOR EACH ROW EXECUTE FUNCTION prevent_credit_transaction_update();
+
+-- RLS: customers can read their own history, admins can read everything.
+-- There are no INSERT/UPDATE/DELETE policies; writes go through the function below.
+ALTER TABLE credit_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit transactions" ON credit_transactions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all credit transactions" ON credit_transactions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+-- Function to append a ledger entry and update the cached balance atomically
+CREATE OR REPLACE FUNCTION record_credit_transaction(
+  p_user_id UUID,
+  p_type TEXT,
+  p_amount DECIMAL(10,2),
+  p_description TEXT DEFAULT NULL,
+  p_order_id UUID DEFAULT NULL,
+  p_credit_request_id UUID DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS credit_transactions AS $$
+DECLARE
+  v_balance DECIMAL(10,2);
+  v_entry credit_transactions;
+BEGIN
+  -- Lock the profile row so concurrent entries for the same user serialize
+  SELECT credit_balance INTO v_balance
+  FROM profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Profile % not found', p_user_id;
+  END IF;
+
+  v_balance := COALESCE(v_balance, 0) + p_amount;
+
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Insufficient credit balance. Required: $%, Available: $%',
+      -p_amount, v_balance - p_amount;
+  END IF;
+
+  INSERT INTO credit_transactions (
+    user_id, type, amount, balance_after, description,
+    order_id, credit_request_id, created_by
+  )
+  VALUES (
+    p_user_id, p_type, p_amount, v_balance, p_description,
+    p_order_id, p_credit_request_id, p_created_by
+  )
+  RETURNING * INTO v_entry;
+
+  UPDATE profiles
+  SET credit_balance = v_balance, updated_at = NOW()
+  WHERE id = p_user_id;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The old helper now goes through the ledger as a manual adjustment
+CREATE OR REPLACE FUNCTION update_credit_balance(
+  user_id UUID,
+  amount_change DECIMAL(10,2)
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM record_credit_transaction(
+    update_credit_balance.user_id,
+    'adjustment',
+    amount_change,
+    'Manual balance adjustment',
+    NULL,
+    NULL,
+    NULL
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Maintenance path for development seed and clear scripts only: removes the
+-- entries that reference orders or credit requests, plus every entry of the
+-- given profiles, so those rows can then be deleted. The flag that lets the
+-- trigger through is local to the calling transaction. Cached balances are
+-- left as they are; `npm run ledger:reconcile` lists what no longer adds up.
+CREATE OR REPLACE FUNCTION clear_credit_ledger(
+  p_user_ids UUID[] DEFAULT '{}'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  PERFORM set_config('app.credit_ledger_maintenance', 'on', true);
+
+  DELETE FROM credit_transactions
+  WHERE order_id IS NOT NULL
+    OR credit_request_id IS NOT NULL
+    OR user_id = ANY(p_user_ids);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  PERFORM set_config('app.credit_ledger_maintenance', 'off', true);
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Profiles whose cached balance disagrees with the ledger
+CREATE OR REPLACE VIEW credit_balance_discrepancies AS
+SELECT
+  p.id AS user_id,
+  p.email,
+  COALESCE(p.credit_balance, 0) AS stored_balance,
+  COALESCE(SUM(ct.amount), 0) AS ledger_balance,
+  COALESCE(p.credit_balance, 0) - COALESCE(SUM(ct.amount), 0) AS difference
+FROM profiles p
+LEFT JOIN credit_transactions ct ON ct.user_id = p.id
+GROUP BY p.id, p.email, p.credit_balance
+HAVING COALESCE(p.credit_balance, 0) <> COALESCE(SUM(ct.amount), 0);
+
+REVOKE ALL ON credit_balance_discrepancies FROM anon, authenticated;
+
+-- Backfill: open the ledger with each profile's current balance
+INSERT INTO credit_transactions (user_id, type, amount, balance_after, description)
+SELECT id, 'adjustment', credit_balance, credit_balance, 'Opening balance (ledger backfill)'
+FROM profiles
+WHERE COALESCE(credit_balance, 0) <> 0;
+
+-- Both functions write the ledger with the owner's rights, so nobody reaching
+-- the database through PostgREST (anon key or a user's JWT) may call them;
+-- the server checks who is allowed to change a balance before calling in.
+REVOKE EXECUTE ON FUNCTION record_credit_transaction(UUID, TEXT, DECIMAL, TEXT, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_credit_balance(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- The maintenance path is for the service role (seed scripts) and the owner only
+REVOKE EXECUTE ON FUNCTION clear_credit_ledger(UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION clear_credit_ledger(UUID[]) TO service_role;
@@ -0,0 +1,81 @@
+-- Atomic credit request review
+-- Approval/rejection happens in one transaction: the request row is locked,
+-- its status is checked, the review fields are written and (for approvals) the
+-- ledger entry is recorded together. A concurrent reviewer blocks on the row
+-- lock and then fails the status check instead of double-crediting the user.
+--
+-- Only the server's database connection (Prisma) may call it: the reviewer is
+-- taken from p_reviewer_id, which the API sets to the signed-in admin after
+-- checking their role, so it must never be accepted from a client session.
+
+-- A credit request can only ever be credited once
+CREATE UNIQUE INDEX idx_credit_transactions_request_top_up
+  ON credit_transactions(credit_request_id)
+  WHERE type = 'top_up';
+
+CREATE OR REPLACE FUNCTION review_credit_request(
+  p_request_id UUID,
+  p_action TEXT,
+  p_admin_notes TEXT DEFAULT NULL,
+  p_reviewer_id UUID DEFAULT NULL
+)
+RETURNS credit_requests AS $$
+DECLARE
+  v_reviewer UUID := p_reviewer_id;
+  v_request credit_requests;
+BEGIN
+  IF p_action NOT IN ('approve', 'reject') THEN
+    RAISE EXCEPTION 'Invalid review action: %', p_action
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF v_reviewer IS NULL OR NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = v_reviewer AND role IN ('admin', 'super_admin')
+  ) THEN
+    RAISE EXCEPTION 'Admin access required'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Lock the request so concurrent reviews serialize on it
+  SELECT * INTO v_request
+  FROM credit_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Credit request not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Credit request is already %', v_request.status
+      USING ERRCODE = 'object_not_in_prerequisite_state';
+  END IF;
+
+  UPDATE credit_requests
+  SET
+    status = CASE WHEN p_action = 'approve' THEN 'approved' ELSE 'rejected' END,
+    admin_notes = p_admin_notes,
+    reviewed_by = v_reviewer,
+    reviewed_at = NOW()
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  IF p_action = 'approve' THEN
+    PERFORM record_credit_transaction(
+      v_request.user_id,
+      'top_up',
+      v_request.amount,
+      'Credit request approved',
+      NULL,
+      v_request.id,
+      v_reviewer
+    );
+  END IF;
+
+  RETURN v_request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION review_credit_request(UUID, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,45 @@
+-- Row-locked game code allocation
+-- The original reserve_game_codes() selected codes with a plain subquery, so two
+-- concurrent callers could pick the same rows. Claim rows with FOR UPDATE SKIP
+-- LOCKED, re-check is_sold after locking, and fail loudly on a short claim so
+-- the caller's transaction rolls back instead of silently under-allocating.
+
+CREATE OR REPLACE FUNCTION reserve_game_codes(
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_order_id UUID
+)
+RETURNS TABLE(code_id UUID) AS $$
+DECLARE
+  v_claimed INTEGER;
+BEGIN
+  RETURN QUERY
+  UPDATE game_codes
+  SET
+    is_sold = true,
+    sold_at = NOW(),
+    order_id = p_order_id
+  WHERE id IN (
+    SELECT gc.id
+    FROM game_codes gc
+    WHERE gc.product_id = p_product_id
+    AND gc.is_sold = false
+    ORDER BY gc.created_at ASC
+    LIMIT p_quantity
+    FOR UPDATE SKIP LOCKED
+  )
+  AND is_sold = false
+  RETURNING id;
+
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  IF v_claimed < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock: requested %, claimed %', p_quantity, v_claimed;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Speeds up the "oldest unsold code for a product" lookup used by allocation
+CREATE INDEX IF NOT EXISTS idx_game_codes_available
+  ON game_codes(product_id, created_at)
+  WHERE is_sold = false;
@@ -0,0 +1,36 @@
+-- Idempotency keys for order creation
+-- A client-supplied Idempotency-Key is stored with the request fingerprint and
+-- the response it produced, so a retried checkout replays the original order
+-- instead of charging the customer a second time.
+
+CREATE TABLE idempotency_keys (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  key TEXT NOT NULL,
+  scope TEXT NOT NULL, -- e.g. 'POST /api/orders'
+  request_hash TEXT NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  response_status INTEGER, -- NULL while the original request is still processing
+  response_body JSONB,
+  response_hash TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  UNIQUE (user_id, scope, key)
+);
+
+CREATE INDEX idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
+-- Only the server (service role / Prisma) reads or writes idempotency keys
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Function to purge keys past their retention window
+CREATE OR REPLACE FUNCTION purge_expired_idempotency_keys()
+RETURNS INTEGER AS $$
+DECLARE
+  v_deleted INTEGER;
+BEGIN
+  DELETE FROM idempotency_keys WHERE expires_at < NOW();
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
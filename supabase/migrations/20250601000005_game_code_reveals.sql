@@ -0,0 +1,36 @@
+-- Game code reveal audit trail
+-- Order endpoints now return masked codes only. Plaintext is served one code at
+-- a time by POST /api/orders/[id]/codes/[codeId]/reveal, which records each
+-- reveal here so support can see who viewed a code and when. Admins reveal
+-- through POST /api/admin/orders/[id]/codes/[codeId]/reveal, which records
+-- the admin as the revealer with by_admin set; those rows never count as the
+-- buyer having seen the code.
+
+CREATE TABLE game_code_reveals (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  game_code_id UUID REFERENCES game_codes(id) ON DELETE CASCADE NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  by_admin BOOLEAN NOT NULL DEFAULT false,
+  revealed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_game_code_reveals_code ON game_code_reveals(game_code_id, revealed_at);
+CREATE INDEX idx_game_code_reveals_order ON game_code_reveals(order_id);
+
+ALTER TABLE game_code_reveals ENABLE ROW LEVEL SECURITY;
+
+-- Buyers can see their own reveal history
+CREATE POLICY "Users can view own code reveals" ON game_code_reveals
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Admins can audit all reveals
+CREATE POLICY "Admins can view all code reveals" ON game_code_reveals
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
@@ -0,0 +1,18 @@
+-- Deterministic game code fingerprints
+-- encrypted_code uses a random IV per encryption, so comparing ciphertexts never
+-- finds duplicates. code_fingerprint is an HMAC of the normalized plaintext
+-- computed by the application (the key never reaches the database), which makes
+-- duplicate codes detectable and lets unique indexes reject them outright.
+--
+-- Existing rows start with a NULL fingerprint; run `npm run codes:backfill-fingerprints`
+-- after applying this migration.
+
+ALTER TABLE game_codes ADD COLUMN code_fingerprint TEXT;
+
+-- A code may appear once per product...
+CREATE UNIQUE INDEX game_codes_product_id_code_fingerprint_key
+  ON game_codes(product_id, code_fingerprint);
+
+-- ...and once across the entire inventory
+CREATE UNIQUE INDEX game_codes_code_fingerprint_key
+  ON game_codes(code_fingerprint);
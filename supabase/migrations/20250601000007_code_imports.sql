@@ -0,0 +1,45 @@
+-- Spreadsheet code imports
+-- Suppliers deliver codes as CSV/XLSX files with extra columns (PIN, expiry,
+-- denomination, batch number). Those fields now live on game_codes, and every
+-- import keeps a record of its column mapping, totals and a per-row report of
+-- rejected lines for later download.
+
+CREATE TABLE code_imports (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES profiles(id) NOT NULL,
+  file_name TEXT NOT NULL,
+  file_type TEXT NOT NULL CHECK (file_type IN ('csv', 'xlsx')),
+  column_mapping JSONB NOT NULL,
+  status TEXT DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'failed')),
+  total_rows INTEGER DEFAULT 0,
+  imported_rows INTEGER DEFAULT 0,
+  duplicate_rows INTEGER DEFAULT 0,
+  error_rows INTEGER DEFAULT 0,
+  report JSONB, -- { issues: [{ row, status, message }], truncated }
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_code_imports_product ON code_imports(product_id, created_at DESC);
+
+ALTER TABLE code_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage code imports" ON code_imports
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+-- Supplier fields captured at import time
+ALTER TABLE game_codes
+  ADD COLUMN encrypted_pin TEXT, -- same envelope format as encrypted_code
+  ADD COLUMN expires_at TIMESTAMPTZ,
+  ADD COLUMN denomination TEXT,
+  ADD COLUMN supplier_batch_ref TEXT,
+  ADD COLUMN import_id UUID REFERENCES code_imports(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_game_codes_import ON game_codes(import_id);
@@ -0,0 +1,55 @@
+-- Supplier batches and cost tracking
+-- Every purchase of codes from a supplier is recorded as a batch with its unit
+-- cost, so the cost of each sold code (and the margin on it) is known.
+-- Costs are kept in the currency they were invoiced in; only batches in the
+-- store currency (USD) count towards margin figures.
+
+CREATE TABLE code_batches (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  supplier TEXT NOT NULL,
+  purchase_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  unit_cost DECIMAL(10,2) NOT NULL CHECK (unit_cost >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  invoice_reference TEXT,
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_code_batches_product ON code_batches(product_id, purchase_date DESC);
+
+ALTER TABLE code_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage code batches" ON code_batches
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+-- A batch with codes cannot be deleted, or sold codes would lose their cost
+ALTER TABLE game_codes
+  ADD COLUMN batch_id UUID REFERENCES code_batches(id) ON DELETE RESTRICT;
+
+CREATE INDEX idx_game_codes_batch ON game_codes(batch_id);
+
+-- Revenue and cost of codes sold in completed orders, per product.
+-- Codes without a batch, or from a batch in another currency, are counted
+-- as uncosted and left out of costed_revenue so they do not inflate margin.
+CREATE OR REPLACE VIEW product_margins AS
+SELECT
+  p.id AS product_id,
+  COUNT(oi.id) AS sold_codes,
+  COALESCE(SUM(oi.unit_price * oi.quantity), 0) AS revenue,
+  COALESCE(SUM(oi.unit_price * oi.quantity) FILTER (WHERE cb.currency = 'USD'), 0) AS costed_revenue,
+  COALESCE(SUM(cb.unit_cost * oi.quantity) FILTER (WHERE cb.currency = 'USD'), 0) AS cost,
+  COUNT(oi.id) FILTER (WHERE cb.id IS NULL OR cb.currency <> 'USD') AS uncosted_codes
+FROM products p
+LEFT JOIN order_items oi ON oi.product_id = p.id
+  AND EXISTS (SELECT 1 FROM orders o WHERE o.id = oi.order_id AND o.status = 'completed')
+LEFT JOIN game_codes gc ON gc.id = oi.game_code_id
+LEFT JOIN code_batches cb ON cb.id = gc.batch_id
+GROUP BY p.id;
+
+REVOKE ALL ON product_margins FROM anon, authenticated;
@@ -0,0 +1,48 @@
+-- Expiry-aware code allocation
+-- game_codes.expires_at (added with spreadsheet imports) is now honoured when
+-- selling: expired codes are never claimed, and codes closest to expiry are
+-- sold first so fewer of them lapse on the shelf. Codes without an expiry
+-- date follow, oldest first.
+
+CREATE OR REPLACE FUNCTION reserve_game_codes(
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_order_id UUID
+)
+RETURNS TABLE(code_id UUID) AS $$
+DECLARE
+  v_claimed INTEGER;
+BEGIN
+  RETURN QUERY
+  UPDATE game_codes
+  SET
+    is_sold = true,
+    sold_at = NOW(),
+    order_id = p_order_id
+  WHERE id IN (
+    SELECT gc.id
+    FROM game_codes gc
+    WHERE gc.product_id = p_product_id
+    AND gc.is_sold = false
+    AND (gc.expires_at IS NULL OR gc.expires_at > NOW())
+    ORDER BY gc.expires_at ASC NULLS LAST, gc.created_at ASC
+    LIMIT p_quantity
+    FOR UPDATE SKIP LOCKED
+  )
+  AND is_sold = false
+  AND (expires_at IS NULL OR expires_at > NOW())
+  RETURNING id;
+
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  IF v_claimed < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock: requested %, claimed %', p_quantity, v_claimed;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Match the new allocation order
+DROP INDEX IF EXISTS idx_game_codes_available;
+CREATE INDEX idx_game_codes_available
+  ON game_codes(product_id, expires_at ASC NULLS LAST, created_at)
+  WHERE is_sold = false;
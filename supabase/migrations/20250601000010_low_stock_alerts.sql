@@ -0,0 +1,35 @@
+-- Low-stock thresholds and restock alerts
+-- Each product gets a configurable threshold (0 disables alerts). When a
+-- checkout takes a product's sellable stock from at or above its threshold to
+-- below it, an alert is recorded for admins. A product has at most one open
+-- alert; acknowledging it lets the next drop raise a new one.
+
+ALTER TABLE products
+  ADD COLUMN low_stock_threshold INTEGER NOT NULL DEFAULT 5 CHECK (low_stock_threshold >= 0);
+
+CREATE TABLE stock_alerts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  product_id UUID REFERENCES products(id) ON DELETE CASCADE NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL, -- checkout that crossed the threshold
+  available_codes INTEGER NOT NULL,
+  threshold INTEGER NOT NULL,
+  acknowledged_at TIMESTAMPTZ,
+  acknowledged_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_stock_alerts_open_per_product
+  ON stock_alerts(product_id)
+  WHERE acknowledged_at IS NULL;
+
+CREATE INDEX idx_stock_alerts_created ON stock_alerts(created_at DESC);
+
+ALTER TABLE stock_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage stock alerts" ON stock_alerts
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
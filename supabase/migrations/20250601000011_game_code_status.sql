@@ -0,0 +1,116 @@
+-- Game code lifecycle states
+-- `is_sold` could not express a code pulled from sale, held for a pending
+-- payment or reported invalid by a customer. `status` is now the source of
+-- truth, with the state machine enforced in src/lib/code-status.ts:
+--
+--   available -> reserved -> sold -> refunded | defective
+--   available -> sold      (credit checkout sells straight from stock)
+--   reserved  -> available (hold released)
+--   available -> voided
+--
+-- `is_sold` is kept for existing readers and derived from `status` by a
+-- trigger: it is true for codes that were delivered (sold, refunded,
+-- defective). Writers that still only set `is_sold` are mapped back onto
+-- `status` so the two never disagree.
+
+ALTER TABLE game_codes
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'available'
+  CHECK (status IN ('available', 'reserved', 'sold', 'refunded', 'defective', 'voided'));
+
+UPDATE game_codes SET status = 'sold' WHERE is_sold = true;
+
+CREATE INDEX idx_game_codes_status ON game_codes(product_id, status);
+
+CREATE OR REPLACE FUNCTION sync_game_code_is_sold()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.is_sold AND NEW.status = 'available' THEN
+      NEW.status := 'sold';
+    END IF;
+  ELSIF NEW.status = OLD.status AND NEW.is_sold IS DISTINCT FROM OLD.is_sold THEN
+    NEW.status := CASE WHEN NEW.is_sold THEN 'sold' ELSE 'available' END;
+  END IF;
+
+  NEW.is_sold := NEW.status IN ('sold', 'refunded', 'defective');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER game_codes_sync_is_sold
+  BEFORE INSERT OR UPDATE OF status, is_sold ON game_codes
+  FOR EACH ROW EXECUTE FUNCTION sync_game_code_is_sold();
+
+-- Transition history, one row per status change
+CREATE TABLE game_code_status_changes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  game_code_id UUID REFERENCES game_codes(id) ON DELETE CASCADE NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  changed_by UUID REFERENCES profiles(id), -- NULL for checkout and other system changes
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_game_code_status_changes_code
+  ON game_code_status_changes(game_code_id, created_at DESC);
+
+ALTER TABLE game_code_status_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view code status changes" ON game_code_status_changes
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+-- Allocation now claims by status and records the sale in the history
+CREATE OR REPLACE FUNCTION reserve_game_codes(
+  p_product_id UUID,
+  p_quantity INTEGER,
+  p_order_id UUID
+)
+RETURNS TABLE(code_id UUID) AS $$
+DECLARE
+  v_claimed INTEGER;
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE game_codes
+    SET
+      status = 'sold',
+      sold_at = NOW(),
+      order_id = p_order_id
+    WHERE id IN (
+      SELECT gc.id
+      FROM game_codes gc
+      WHERE gc.product_id = p_product_id
+      AND gc.status = 'available'
+      AND (gc.expires_at IS NULL OR gc.expires_at > NOW())
+      ORDER BY gc.expires_at ASC NULLS LAST, gc.created_at ASC
+      LIMIT p_quantity
+      FOR UPDATE SKIP LOCKED
+    )
+    AND status = 'available'
+    AND (expires_at IS NULL OR expires_at > NOW())
+    RETURNING id
+  ), history AS (
+    INSERT INTO game_code_status_changes (game_code_id, from_status, to_status, reason, order_id)
+    SELECT claimed.id, 'available', 'sold', 'Checkout', p_order_id FROM claimed
+  )
+  SELECT claimed.id FROM claimed;
+
+  GET DIAGNOSTICS v_claimed = ROW_COUNT;
+
+  IF v_claimed < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock: requested %, claimed %', p_quantity, v_claimed;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP INDEX IF EXISTS idx_game_codes_available;
+CREATE INDEX idx_game_codes_available
+  ON game_codes(product_id, expires_at ASC NULLS LAST, created_at)
+  WHERE status = 'available';
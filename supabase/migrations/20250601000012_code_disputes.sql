@@ -0,0 +1,43 @@
+-- Customer disputes for codes that do not work
+-- A customer opens a dispute on one delivered code (one order item). An admin
+-- resolves it by issuing a replacement code from the same product, which is
+-- added to the order as a free order item, by refunding the item's unit price
+-- to store credit, or by rejecting it. Replaced and refunded codes are marked
+-- defective. An order item can have one open or accepted dispute; after a
+-- rejection the customer may dispute it again.
+
+CREATE TABLE code_disputes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  order_item_id UUID REFERENCES order_items(id) ON DELETE CASCADE NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  game_code_id UUID REFERENCES game_codes(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'replaced', 'refunded', 'rejected')),
+  resolution_note TEXT,
+  replacement_order_item_id UUID UNIQUE REFERENCES order_items(id) ON DELETE SET NULL,
+  refund_amount DECIMAL(10,2),
+  resolved_by UUID REFERENCES profiles(id),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_code_disputes_active_per_item
+  ON code_disputes(order_item_id)
+  WHERE status <> 'rejected';
+
+CREATE INDEX idx_code_disputes_status ON code_disputes(status, created_at DESC);
+CREATE INDEX idx_code_disputes_user ON code_disputes(user_id);
+
+ALTER TABLE code_disputes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own disputes" ON code_disputes
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage disputes" ON code_disputes
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
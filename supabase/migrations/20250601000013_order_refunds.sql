@@ -0,0 +1,69 @@
+-- Admin refunds and cancellations of completed orders
+-- An admin refunds a whole order or selected order items. Every refund is
+-- recorded with who issued it, why and what happened to each code: unrevealed
+-- codes are returned to stock or voided, codes the customer already revealed
+-- stay refunded. The refunded amount is credited to the customer's balance.
+-- An order with nothing left to refund is cancelled.
+
+CREATE TABLE order_refunds (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  reason TEXT NOT NULL,
+  code_action TEXT NOT NULL CHECK (code_action IN ('restock', 'void')),
+  credit_transaction_id UUID REFERENCES credit_transactions(id),
+  refunded_by UUID REFERENCES profiles(id) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_order_refunds_order ON order_refunds(order_id, created_at DESC);
+
+-- An order item is refunded at most once
+CREATE TABLE order_refund_items (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  refund_id UUID REFERENCES order_refunds(id) ON DELETE CASCADE NOT NULL,
+  order_item_id UUID UNIQUE REFERENCES order_items(id) ON DELETE CASCADE NOT NULL,
+  game_code_id UUID REFERENCES game_codes(id) ON DELETE SET NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  code_outcome TEXT NOT NULL CHECK (code_outcome IN ('restocked', 'voided', 'refunded'))
+);
+
+CREATE INDEX idx_order_refund_items_refund ON order_refund_items(refund_id);
+
+ALTER TABLE order_refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_refund_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage order refunds" ON order_refunds
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Admins can manage order refund items" ON order_refund_items
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+-- Refunded items no longer count as sold: leave them out of revenue and cost
+CREATE OR REPLACE VIEW product_margins AS
+SELECT
+  p.id AS product_id,
+  COUNT(oi.id) AS sold_codes,
+  COALESCE(SUM(oi.unit_price * oi.quantity), 0) AS revenue,
+  COALESCE(SUM(oi.unit_price * oi.quantity) FILTER (WHERE cb.currency = 'USD'), 0) AS costed_revenue,
+  COALESCE(SUM(cb.unit_cost * oi.quantity) FILTER (WHERE cb.currency = 'USD'), 0) AS cost,
+  COUNT(oi.id) FILTER (WHERE cb.id IS NULL OR cb.currency <> 'USD') AS uncosted_codes
+FROM products p
+LEFT JOIN order_items oi ON oi.product_id = p.id
+  AND EXISTS (SELECT 1 FROM orders o WHERE o.id = oi.order_id AND o.status = 'completed')
+  AND NOT EXISTS (SELECT 1 FROM order_refund_items ori WHERE ori.order_item_id = oi.id)
+LEFT JOIN game_codes gc ON gc.id = oi.game_code_id
+LEFT JOIN code_batches cb ON cb.id = gc.batch_id
+GROUP BY p.id;
+
+REVOKE ALL ON product_margins FROM anon, authenticated;
@@ -0,0 +1,75 @@
+-- Server-side checkout pricing
+-- Checkout totals are computed on the server from current product prices, the
+-- tax rule for the customer's region and the fees for the payment method. The
+-- quote endpoint and order creation use the same pricing code, and each order
+-- stores the breakdown it was charged.
+
+-- Tax rate per region: an ISO country code ('DE') or a subdivision ('US-CA').
+-- A subdivision rule wins over its country; a region without a rule pays no tax.
+CREATE TABLE tax_rules (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  region TEXT NOT NULL UNIQUE CHECK (region ~ '^[A-Z]{2}(-[A-Z0-9]{1,3})?$'),
+  name TEXT NOT NULL,
+  rate DECIMAL(6,4) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Fees added on top of the taxed total, for one payment method or all of them
+CREATE TABLE checkout_fees (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  name TEXT NOT NULL,
+  payment_method TEXT CHECK (payment_method IN ('credit', 'external')),
+  percent_rate DECIMAL(6,4) NOT NULL DEFAULT 0 CHECK (percent_rate >= 0 AND percent_rate < 1),
+  fixed_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (fixed_amount >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE tax_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE checkout_fees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active tax rules" ON tax_rules
+  FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Admins can manage tax rules" ON tax_rules
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Anyone can view active checkout fees" ON checkout_fees
+  FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Admins can manage checkout fees" ON checkout_fees
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE TRIGGER update_tax_rules_updated_at BEFORE UPDATE ON tax_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Price breakdown of each order. total_amount = subtotal - discount_total + tax_total + fee_total
+ALTER TABLE orders
+  ADD COLUMN subtotal DECIMAL(10,2),
+  ADD COLUMN discount_total DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN tax_total DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN fee_total DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN tax_region TEXT,
+  ADD COLUMN tax_rate DECIMAL(6,4),
+  ADD COLUMN price_breakdown JSONB;
+
+-- Orders placed before server-side pricing were charged the plain item total
+UPDATE orders SET subtotal = total_amount;
+
+ALTER TABLE orders ALTER COLUMN subtotal SET NOT NULL;
+
+-- Tax charged on each order item, so refunds return it with the item price
+ALTER TABLE order_items
+  ADD COLUMN tax_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
@@ -0,0 +1,95 @@
+-- Discount codes and promotions
+-- Customers enter a code at checkout; the server validates it while pricing
+-- the cart and the discount is stored on the order, spread over its items.
+
+-- Coupon code with its discount, scope, minimum spend, usage limits and
+-- validity window. A promotion without products or platforms applies to the
+-- whole cart; otherwise only to items matching either list.
+CREATE TABLE promotions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  -- Fraction of the eligible items for 'percentage' (0.15 = 15%), an amount for 'fixed'
+  discount_value DECIMAL(10,4) NOT NULL CHECK (discount_value > 0),
+  product_ids UUID[] NOT NULL DEFAULT '{}',
+  platforms TEXT[] NOT NULL DEFAULT '{}',
+  -- Minimum spend on the eligible items
+  min_subtotal DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (min_subtotal >= 0),
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  max_redemptions_per_user INTEGER CHECK (max_redemptions_per_user > 0),
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 1),
+  CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at)
+);
+
+-- One row per order that used a promotion; usage limits count these rows.
+-- Refunding the order does not give the use back.
+CREATE TABLE promotion_redemptions (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  promotion_id UUID NOT NULL REFERENCES promotions(id) ON DELETE RESTRICT,
+  order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_promotion_redemptions_promotion_user ON promotion_redemptions(promotion_id, user_id);
+
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Codes are not listed to customers; they are only checked by the server
+CREATE POLICY "Admins can manage promotions" ON promotions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Users can view own promotion redemptions" ON promotion_redemptions
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage promotion redemptions" ON promotion_redemptions
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE TRIGGER update_promotions_updated_at BEFORE UPDATE ON promotions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Code the order was placed with; the amount is in orders.discount_total
+ALTER TABLE orders
+  ADD COLUMN promotion_code TEXT;
+
+-- Share of the order discount taken off each item, so refunds return what was paid
+ALTER TABLE order_items
+  ADD COLUMN discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Revenue is what customers paid for an item after discounts
+CREATE OR REPLACE VIEW product_margins AS
+SELECT
+  p.id AS product_id,
+  COUNT(oi.id) AS sold_codes,
+  COALESCE(SUM(oi.unit_price * oi.quantity - oi.discount_amount), 0) AS revenue,
+  COALESCE(SUM(oi.unit_price * oi.quantity - oi.discount_amount) FILTER (WHERE cb.currency = 'USD'), 0) AS costed_revenue,
+  COALESCE(SUM(cb.unit_cost * oi.quantity) FILTER (WHERE cb.currency = 'USD'), 0) AS cost,
+  COUNT(oi.id) FILTER (WHERE cb.id IS NULL OR cb.currency <> 'USD') AS uncosted_codes
+FROM products p
+LEFT JOIN order_items oi ON oi.product_id = p.id
+  AND EXISTS (SELECT 1 FROM orders o WHERE o.id = oi.order_id AND o.status = 'completed')
+  AND NOT EXISTS (SELECT 1 FROM order_refund_items ori WHERE ori.order_item_id = oi.id)
+LEFT JOIN game_codes gc ON gc.id = oi.game_code_id
+LEFT JOIN code_batches cb ON cb.id = gc.batch_id
+GROUP BY p.id;
+
+REVOKE ALL ON product_margins FROM anon, authenticated;
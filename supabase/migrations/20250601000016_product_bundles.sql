@@ -0,0 +1,101 @@
+-- Product bundles
+-- A bundle product ("game + season pass", "3x gift card") sells codes from
+-- its component products as one SKU. Bundles have no codes of their own: their
+-- stock is the number of complete sets the component pools can supply, and
+-- checkout claims the codes from every component in the order's transaction.
+
+ALTER TABLE products
+  ADD COLUMN product_type TEXT NOT NULL DEFAULT 'single' CHECK (product_type IN ('single', 'bundle'));
+
+-- Codes per bundle from each component product
+CREATE TABLE bundle_components (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  bundle_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  component_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (bundle_id, component_id),
+  CHECK (bundle_id <> component_id)
+);
+
+CREATE INDEX idx_bundle_components_component_id ON bundle_components(component_id);
+
+-- Only bundles have components, and components are single products
+CREATE OR REPLACE FUNCTION check_bundle_component()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM products WHERE id = NEW.bundle_id AND product_type = 'bundle') THEN
+    RAISE EXCEPTION 'Product % is not a bundle', NEW.bundle_id;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM products WHERE id = NEW.component_id AND product_type = 'single') THEN
+    RAISE EXCEPTION 'Bundle components must be single products';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bundle_components_check BEFORE INSERT OR UPDATE ON bundle_components
+  FOR EACH ROW EXECUTE FUNCTION check_bundle_component();
+
+-- Codes always belong to a single product
+CREATE OR REPLACE FUNCTION prevent_bundle_game_codes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM products WHERE id = NEW.product_id AND product_type = 'bundle') THEN
+    RAISE EXCEPTION 'Bundles have no codes of their own; add codes to their component products';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER game_codes_not_bundle BEFORE INSERT OR UPDATE OF product_id ON game_codes
+  FOR EACH ROW EXECUTE FUNCTION prevent_bundle_game_codes();
+
+-- Bundles bought in an order. Their codes are ordinary order items of the
+-- component products that point back to the bundle line; the bundle's price,
+-- discount and tax are split over those items.
+CREATE TABLE order_bundles (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE RESTRICT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10,2) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_order_bundles_order_id ON order_bundles(order_id);
+
+ALTER TABLE order_items
+  ADD COLUMN order_bundle_id UUID REFERENCES order_bundles(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_order_items_order_bundle_id ON order_items(order_bundle_id);
+
+ALTER TABLE bundle_components ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_bundles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view bundle components" ON bundle_components
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage bundle components" ON bundle_components
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Users can view their order bundles" ON order_bundles
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_bundles.order_id AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can view all order bundles" ON order_bundles
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
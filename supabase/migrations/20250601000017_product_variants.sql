@@ -0,0 +1,100 @@
+-- Product variants
+-- A parent product ("PlayStation Store Gift Card") can be sold in several
+-- priced variants ("$10", "$25", "$50"). Each variant is a product row of its
+-- own, with its own price and code pool, so checkout, refunds and stock work
+-- per variant. The parent only groups them on the storefront and holds no codes.
+
+ALTER TABLE products
+  ADD COLUMN parent_id UUID REFERENCES products(id) ON DELETE RESTRICT,
+  ADD COLUMN variant_label TEXT,
+  ADD CONSTRAINT products_variant_label_check CHECK (
+    (parent_id IS NULL AND variant_label IS NULL) OR
+    (parent_id IS NOT NULL AND char_length(trim(variant_label)) BETWEEN 1 AND 50)
+  ),
+  ADD CONSTRAINT products_parent_not_self CHECK (parent_id <> id);
+
+CREATE INDEX idx_products_parent_id ON products(parent_id);
+CREATE UNIQUE INDEX idx_products_parent_variant_label ON products(parent_id, lower(variant_label))
+  WHERE parent_id IS NOT NULL;
+
+-- Variants hang off a single, top-level product without codes of its own,
+-- and are single products themselves
+CREATE OR REPLACE FUNCTION check_product_variant()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+  IF NEW.product_type <> 'single' THEN
+    RAISE EXCEPTION 'Variants must be single products';
+  END IF;
+  IF EXISTS (SELECT 1 FROM products WHERE parent_id = NEW.id) THEN
+    RAISE EXCEPTION 'A product with variants cannot be a variant';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM products
+    WHERE id = NEW.parent_id AND parent_id IS NULL AND product_type = 'single'
+  ) THEN
+    RAISE EXCEPTION 'Variants must belong to a single top-level product';
+  END IF;
+  IF EXISTS (SELECT 1 FROM game_codes WHERE product_id = NEW.parent_id) THEN
+    RAISE EXCEPTION 'Products with codes of their own cannot have variants';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER products_variant_check BEFORE INSERT OR UPDATE OF parent_id, product_type ON products
+  FOR EACH ROW EXECUTE FUNCTION check_product_variant();
+
+-- Codes belong to the variants, not to the parent that groups them
+CREATE OR REPLACE FUNCTION prevent_variant_parent_game_codes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM products WHERE parent_id = NEW.product_id) THEN
+    RAISE EXCEPTION 'Products with variants have no codes of their own; add codes to a variant';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER game_codes_not_variant_parent BEFORE INSERT OR UPDATE OF product_id ON game_codes
+  FOR EACH ROW EXECUTE FUNCTION prevent_variant_parent_game_codes();
+
+-- A product with variants cannot go in a bundle; one of its variants can
+CREATE OR REPLACE FUNCTION check_bundle_component()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM products WHERE id = NEW.bundle_id AND product_type = 'bundle') THEN
+    RAISE EXCEPTION 'Product % is not a bundle', NEW.bundle_id;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM products WHERE id = NEW.component_id AND product_type = 'single') THEN
+    RAISE EXCEPTION 'Bundle components must be single products';
+  END IF;
+  IF EXISTS (SELECT 1 FROM products WHERE parent_id = NEW.component_id) THEN
+    RAISE EXCEPTION 'Add a variant to the bundle rather than the product it belongs to';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Variants share the parent's description, platform and image, and are named
+-- after it, so order history and admin lists read "<parent> <label>"
+CREATE OR REPLACE FUNCTION sync_product_variants()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE products
+  SET name = NEW.name || ' ' || variant_label,
+      description = NEW.description,
+      platform = NEW.platform,
+      image_url = NEW.image_url,
+      updated_at = NOW()
+  WHERE parent_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER products_sync_variants AFTER UPDATE OF name, description, platform, image_url ON products
+  FOR EACH ROW
+  WHEN (NEW.parent_id IS NULL)
+  EXECUTE FUNCTION sync_product_variants();
@@ -0,0 +1,20 @@
+-- Pending payments for external orders
+-- Orders paid outside the store credit balance are created `pending` with
+-- their codes `reserved` until `payment_expires_at`. Confirming the payment,
+-- by an admin or a signed webhook from the payment provider, sells the codes
+-- and completes the order. Pending orders whose payment window has passed are
+-- cancelled by the reservation sweeper, which returns their codes to stock.
+
+ALTER TABLE orders
+  ADD COLUMN payment_expires_at TIMESTAMPTZ,
+  ADD COLUMN paid_at TIMESTAMPTZ,
+  ADD COLUMN payment_reference TEXT,
+  ADD COLUMN payment_confirmed_by UUID REFERENCES profiles(id); -- NULL for webhook confirmations
+
+-- A provider payment completes at most one order
+CREATE UNIQUE INDEX idx_orders_payment_reference ON orders(payment_reference)
+  WHERE payment_reference IS NOT NULL;
+
+-- Lets the sweeper find lapsed reservations without scanning every order
+CREATE INDEX idx_orders_pending_payment ON orders(payment_expires_at)
+  WHERE status = 'pending';
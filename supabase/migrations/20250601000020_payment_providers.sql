@@ -0,0 +1,71 @@
+-- Payment providers and payment intents
+-- Online payments go through a pluggable payment provider. Admins enable the
+-- providers customers may use. Each payment a customer starts, for a pending
+-- order or a credit top-up, is a payment intent recording the provider's id
+-- for it and its outcome. A successful intent confirms the order or credits
+-- the top-up to the customer's balance; refunds of an order paid this way go
+-- back to the original payment.
+
+CREATE TABLE payment_provider_settings (
+  provider TEXT PRIMARY KEY,
+  is_enabled BOOLEAN NOT NULL DEFAULT false,
+  updated_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER update_payment_provider_settings_updated_at BEFORE UPDATE ON payment_provider_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE payment_intents (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  provider_intent_id TEXT, -- NULL until the provider has accepted the intent
+  purpose TEXT NOT NULL CHECK (purpose IN ('order', 'credit_top_up')),
+  user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  refunded_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0 AND refunded_amount <= amount),
+  status TEXT NOT NULL DEFAULT 'requires_payment' CHECK (status IN ('requires_payment', 'succeeded', 'failed')),
+  checkout_url TEXT,
+  failure_reason TEXT,
+  credit_transaction_id UUID REFERENCES credit_transactions(id),
+  succeeded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (provider, provider_intent_id),
+  CHECK ((purpose = 'order') = (order_id IS NOT NULL))
+);
+
+CREATE INDEX idx_payment_intents_order ON payment_intents(order_id) WHERE order_id IS NOT NULL;
+CREATE INDEX idx_payment_intents_user ON payment_intents(user_id, created_at DESC);
+
+CREATE TRIGGER update_payment_intents_updated_at BEFORE UPDATE ON payment_intents
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Refunds of orders paid through a provider are sent back to the payment
+ALTER TABLE order_refunds
+  ADD COLUMN payment_intent_id UUID REFERENCES payment_intents(id),
+  ADD COLUMN provider_refund_id TEXT;
+
+ALTER TABLE payment_provider_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_intents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage payment provider settings" ON payment_provider_settings
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Users can view their own payment intents" ON payment_intents
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all payment intents" ON payment_intents
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = auth.uid() AND role IN ('admin', 'super_admin')
+    )
+  );
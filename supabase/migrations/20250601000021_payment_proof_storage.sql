@@ -0,0 +1,17 @@
+-- Payment proof storage
+-- Credit request payment proofs used to be stored inline as base64 data URLs
+-- in `payment_proof_url`, which made every query that selected the column
+-- carry the whole file. Proofs now live in object storage (the local
+-- filesystem or Supabase Storage); the row keeps only the object path and
+-- content type. Existing data URLs are moved by `npm run proofs:migrate`,
+-- which clears `payment_proof_url` once the file is stored.
+
+ALTER TABLE credit_requests
+  ADD COLUMN payment_proof_path TEXT,
+  ADD COLUMN payment_proof_type TEXT;
+
+-- Private bucket for the Supabase Storage driver; proofs are only ever
+-- handed out through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('payment-proofs', 'payment-proofs', false)
+ON CONFLICT (id) DO NOTHING;
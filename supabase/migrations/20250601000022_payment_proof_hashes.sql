@@ -0,0 +1,14 @@
+-- Payment proof hashes
+-- Uploaded proofs are checked by content and re-encoded before storage, and
+-- each stored proof gets two hashes so reused proofs can be spotted:
+-- payment_proof_sha256 matches byte-identical files, payment_proof_phash is a
+-- 64-bit difference hash (16 hex digits) of images that still matches after
+-- resizing or recompression. The admin credits page flags requests whose
+-- proof matches another request's.
+
+ALTER TABLE credit_requests
+  ADD COLUMN payment_proof_sha256 TEXT,
+  ADD COLUMN payment_proof_phash TEXT CHECK (payment_proof_phash ~ '^[0-9a-f]{16}$');
+
+CREATE INDEX idx_credit_requests_payment_proof_sha256 ON credit_requests(payment_proof_sha256)
+  WHERE payment_proof_sha256 IS NOT NULL;
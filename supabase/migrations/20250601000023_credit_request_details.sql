@@ -0,0 +1,20 @@
+-- Credit request details
+-- payment_method and notes have been written by the credit request API since
+-- it was introduced but were only ever added to databases by hand; they are
+-- created here if missing. Customers now also give the transaction reference
+-- from their receipt and the name the payment was made under.
+--
+-- A reference number can back only one pending or approved request per
+-- payment method, so the same receipt cannot be claimed twice. References
+-- are stored normalized (upper case, no whitespace) by the API; rejected
+-- requests free their reference so a corrected request can reuse it.
+
+ALTER TABLE credit_requests
+  ADD COLUMN IF NOT EXISTS payment_method TEXT,
+  ADD COLUMN IF NOT EXISTS notes TEXT,
+  ADD COLUMN reference_number TEXT,
+  ADD COLUMN payer_name TEXT;
+
+CREATE UNIQUE INDEX idx_credit_requests_reference_number
+  ON credit_requests(payment_method, reference_number)
+  WHERE reference_number IS NOT NULL AND status <> 'rejected';
@@ -216,20 +216,22 @@ BEGIN
 END $$;
 
 -- ============================================================================
--- UPDATE CUSTOMER CREDIT BALANCES BASED ON TRANSACTIONS
+-- CREDIT LEDGER FOR SEEDED BALANCES AND ORDERS
 -- ============================================================================
--- Deduct amounts for completed orders
-UPDATE public.profiles 
-SET credit_balance = credit_balance - 69.99, updated_at = NOW()
-WHERE id = '10000000-0000-0000-0000-000000000001';
-
-UPDATE public.profiles 
-SET credit_balance = credit_balance - 10.00, updated_at = NOW()
-WHERE id = '10000000-0000-0000-0000-000000000002';
-
-UPDATE public.profiles 
-SET credit_balance = credit_balance - 114.98, updated_at = NOW()
-WHERE id = '10000000-0000-0000-0000-000000000004';
+-- Opening balances for the seeded customers (profiles already hold these amounts)
+INSERT INTO public.credit_transactions (user_id, type, amount, balance_after, description)
+SELECT id, 'adjustment', credit_balance, credit_balance, 'Opening balance (seed)'
+FROM public.profiles
+WHERE id::text LIKE '10000000-%' AND credit_balance <> 0;
+
+-- Deduct amounts for completed orders through the ledger
+SELECT public.record_credit_transaction(o.user_id, 'purchase', -o.total_amount, 'Seed order', o.id)
+FROM public.orders o
+WHERE o.user_id IN (
+  '10000000-0000-0000-0000-000000000001',
+  '10000000-0000-0000-0000-000000000002',
+  '10000000-0000-0000-0000-000000000004'
+);
 
 -- ============================================================================
 -- VERIFICATION QUERIES (for development testing)